@@ -1,33 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { buildAdvisorPrompt, type Student, type Course, type Prerequisite } from '@/utils/advisorPromptBuilder';
+import { buildAdvisorContext, type Student, type Course, type Prerequisite } from '@/utils/advisorPromptBuilder';
 import { v4 as uuidv4 } from 'uuid';
-import supabaseClient from '@/utils/supabaseClient';
+import { POLICY_SOURCES, retrievePassages } from '@/utils/retrieval';
+import { checkRecommendedCourses, createEligibilityChecker } from '@/lib/eligibility';
+import {
+  complete,
+  createEventStreamResponse,
+  generateStructured,
+  readPartialStringField,
+  repairStructured,
+  stream,
+  type LLMMessage,
+  type LLMRequest,
+} from '@/lib/llm';
+import { advisorReplySchema, unknownCourseIssues, type AdvisorReply } from '@/lib/recommendationSchemas';
+import { getUserSettingsOrDefaults } from '@/utils/userSettings';
+import { authorizeRequest } from '@/utils/supabase/auth';
+import { createClient } from '@/utils/supabase/server';
 
 export const runtime = 'edge';
 
-// Default model to use - Gemini 1.5 Flash
-const DEFAULT_MODEL = 'gemini-1.5-flash';
-
-// Initialize AI client
-const ai = new GoogleGenerativeAI(process.env.OPENAI_API_KEY || '');
-
+/**
+ * POST /api/advisor
+ * Course advice for a student. With `stream: true` the answer is sent as server-sent events:
+ * `delta` ({ text }) per chunk, then `done` ({ recommendations, courseEligibility, omittedCourses,
+ * sessionId }) or `error`; `recommendations` is the final answer, which may have been repaired
+ * after streaming. `courseEligibility` checks each course the model recommended by ID, and
+ * `omittedCourses` lists catalog courses left out of the prompt to fit its token budget.
+ */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { userId, userQuery } = body;
+    const { userId: claimedUserId, userQuery, stream: streamAnswer } = body;
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      );
-    }
+    // Student and catalog data are read through the session client that authorized the request
+    const supabase = await createClient();
+    const auth = await authorizeRequest(claimedUserId, supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
 
     console.log("Processing advisor request for user ID:", userId);
 
     // 1. Fetch student data from Supabase
-    const { data: studentData, error: studentError } = await supabaseClient
+    const { data: studentData, error: studentError } = await supabase
       .from('students')
       .select(`
         id,
@@ -70,7 +85,7 @@ export async function POST(req: NextRequest) {
 
     // Get career name if available
     if (studentData.career_goal_id) {
-      const { data: careerData } = await supabaseClient
+      const { data: careerData } = await supabase
         .from('careers')
         .select('title')
         .eq('id', studentData.career_goal_id)
@@ -83,7 +98,7 @@ export async function POST(req: NextRequest) {
 
     // 2. Fetch courses - get all courses for comprehensive data access
     console.log("Fetching courses data");
-    let coursesQuery = supabaseClient
+    let coursesQuery = supabase
       .from('courses')
       .select(`
         id,
@@ -110,7 +125,7 @@ export async function POST(req: NextRequest) {
       }
       
       // Then get all other courses
-      const { data: otherCourses, error: otherError } = await supabaseClient
+      const { data: otherCourses, error: otherError } = await supabase
         .from('courses')
         .select(`
           id,
@@ -159,17 +174,15 @@ export async function POST(req: NextRequest) {
       semester: course.semester
     }));
 
-    // 3. Fetch prerequisites for the selected courses only
+    // 3. Fetch all prerequisites; eligibility follows chains through courses not shown here
     console.log("Fetching prerequisites data");
-    const courseIds = courses.map(c => c.id);
-    const { data: prerequisitesData, error: prerequisitesError } = await supabaseClient
+    const { data: prerequisitesData, error: prerequisitesError } = await supabase
       .from('prerequisites')
       .select(`
         id,
         course_id,
         prerequisite_id
-      `)
-      .in('course_id', courseIds); // Only get prerequisites for courses we're showing
+      `);
 
     if (prerequisitesError) {
       console.error("Error fetching prerequisites:", prerequisitesError);
@@ -186,20 +199,29 @@ export async function POST(req: NextRequest) {
     })) : [];
 
     console.log(`Found ${prerequisites.length} prerequisites for selected courses`);
-    console.log('CC',courses)
-    // Build the specialized advisor prompt
-    const prompt = buildAdvisorPrompt(student, courses, prerequisites);
+    // With learning history off, the eligibility notes must not reveal which courses the student took
+    const settings = await getUserSettingsOrDefaults(userId, supabase);
+    const checkEligibility = createEligibilityChecker({
+      prerequisites,
+      completedCourseIds: settings.useLearningHistory ? studentData.current_courses_taken || [] : [],
+      courses,
+    });
 
-    // Get model instance
-    const model = ai.getGenerativeModel({ model: process.env.AI_MODEL || DEFAULT_MODEL });
+    // Build the specialized advisor prompt, citing policy passages relevant to the query and
+    // packing the catalog around it
+    const query = userQuery || 'What courses should I take next semester?';
+    const passages = await retrievePassages(query, { sources: POLICY_SOURCES });
+    const { prompt, catalog } = buildAdvisorContext(student, courses, prerequisites, {
+      checkEligibility,
+      passages,
+      query,
+      includeLearningHistory: settings.useLearningHistory,
+    });
 
-    // Call AI API using Google Gemini
-    console.log(`Calling AI API with model: ${process.env.AI_MODEL || DEFAULT_MODEL}`);
-    
     // Create a prompt that encourages the model to explore all data
-    const userPrompt = `The user is asking: "${userQuery || 'What courses should I take next semester?'}"
+    const userPrompt = `The user is asking: "${query}"
 
-You have access to the complete student profile and course catalog. Use all available data to provide 
+You have access to the student profile and the most relevant parts of the course catalog. Use all available data to provide 
 the most accurate and helpful response to the user's specific query.
 
 Guidelines:
@@ -208,28 +230,76 @@ Guidelines:
 - You may reference specific course details, prerequisites, and student's profile information
 - Be conversational and helpful
 - When recommending courses, provide specific course names and rationales based on data
-- Use your full knowledge of the complete course catalog`;
-
-    // Prepare the contents for the model - using parts to separate context from query
-    const result = await model.generateContent({
-      contents: [
-        {
-          role: "user",
-          parts: [
-            { text: prompt },
-            { text: userPrompt }
-          ]
-        }
-      ]
-    });
-    
-    const response = result.response;
-    const answer = response.text();
+- Use your full knowledge of the course catalog provided
 
-    return NextResponse.json({
-      recommendations: answer,
+Reply with only a JSON object in this format:
+{
+  "reply": "<your answer to the student>",
+  "recommendedCourses": [<the ID of each catalog course you recommend; empty if none>]
+}`;
+
+    // The catalog context goes in the system message, the query separately
+    const messages: LLMMessage[] = [
+      { role: 'system', content: prompt },
+      { role: 'user', content: userPrompt }
+    ];
+    const llmRequest: LLMRequest = { messages, responseFormat: 'json' };
+
+    // Recommended IDs must come from the catalog; eligibility is checked from them, not from the
+    // course names in the reply
+    const catalogIds = courses.map(course => ({ id: Number(course.id) }));
+    const validate = (advice: AdvisorReply) =>
+      unknownCourseIssues('recommendedCourses', advice.recommendedCourses, catalogIds);
+    const finish = ({ reply, recommendedCourses }: AdvisorReply) => ({
+      recommendations: reply,
+      courseEligibility: checkRecommendedCourses(recommendedCourses, courses, checkEligibility),
+      omittedCourses: catalog.dropped,
       sessionId: uuidv4(),
     });
+
+    if (streamAnswer === true) {
+      return createEventStreamResponse(async (send, signal) => {
+        // Only the reply field of the JSON is shown as it streams
+        let output = '';
+        let shown = 0;
+        for await (const text of stream(llmRequest, { signal })) {
+          output += text;
+          const reply = readPartialStringField(output, 'reply');
+          if (reply.length > shown) {
+            send('delta', { text: reply.slice(shown) });
+            shown = reply.length;
+          }
+        }
+        const advice = await repairStructured(
+          async request => (await complete(request, { signal })).text,
+          llmRequest,
+          output,
+          advisorReplySchema,
+          { validate }
+        );
+        send('done', finish(advice));
+      }, {
+        signal: req.signal,
+        errorMessage: (error) => {
+          console.error('Error streaming advisor response:', error);
+          return 'Failed to generate advice';
+        }
+      });
+    }
+
+    // Call the LLM gateway
+    const advice = await generateStructured(
+      async request => {
+        const { text, provider, model } = await complete(request);
+        console.log(`Advisor answered with ${provider}/${model}`);
+        return text;
+      },
+      llmRequest,
+      advisorReplySchema,
+      { validate }
+    );
+
+    return NextResponse.json(finish(advice));
   } catch (error: any) {
     console.error('Error processing advisor request:', error);
     return NextResponse.json(
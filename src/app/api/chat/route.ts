@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processChatMessage } from '@/utils/main-agent';
-import { getChatHistory, type ChatMessage } from '@/utils/chatHistory';
+import { processChatMessage, streamChatMessage, type ChatRequest } from '@/utils/main-agent';
+import { createEventStreamResponse } from '@/lib/llm';
+import { chatHistoryStore, type ChatMessage } from '@/utils/chatHistory';
+import { authorizeRequest } from '@/utils/supabase/auth';
+import { createClient } from '@/utils/supabase/server';
 
 // export const runtime = 'edge';
 
+/**
+ * POST /api/chat
+ * Answer a chat message. With `stream: true` the answer is sent as server-sent events: `tool`
+ * ({ tool }) as each agent tool call completes, `delta` ({ text }) with the answer, then `done`
+ * with the same fields as the JSON response, or `error`.
+ */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
@@ -11,11 +20,18 @@ export async function POST(req: NextRequest) {
       message, 
       sessionId, 
       username,
-      userId,
+      userId: claimedUserId,
       projectContext, 
-      useAdvisorMode
+      useAdvisorMode,
+      stream
     } = body;
 
+    // History and advisor data are loaded for the signed-in user, never for a userId in the body
+    const supabase = await createClient();
+    const auth = await authorizeRequest(claimedUserId, supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
     if (!message) {
       return NextResponse.json(
         { error: 'Message is required' },
@@ -23,22 +39,45 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get chat history if sessionId is provided
+    // Get chat history if sessionId is provided; another user's session reads as empty
     let history: ChatMessage[] = [];
     if (sessionId) {
-      history = getChatHistory(sessionId);
+      history = await chatHistoryStore.getHistory(sessionId, userId);
     }
 
-    // Process the chat message
-    const response = await processChatMessage({
+    const chatRequest: ChatRequest = {
       message,
       sessionId,
       username,
       userId,
       projectContext,
       history,
-      useAdvisorMode
-    });
+      useAdvisorMode,
+      client: supabase
+    };
+
+    if (stream === true) {
+      return createEventStreamResponse(async (send, signal) => {
+        for await (const event of streamChatMessage(chatRequest, signal)) {
+          if (event.type === 'tool') {
+            send('tool', { tool: event.tool });
+          } else if (event.type === 'delta') {
+            send('delta', { text: event.text });
+          } else {
+            send('done', event.response);
+          }
+        }
+      }, {
+        signal: req.signal,
+        errorMessage: (error) => {
+          console.error('Error streaming chat response:', error);
+          return 'Failed to process chat message';
+        }
+      });
+    }
+
+    // Process the chat message
+    const response = await processChatMessage(chatRequest);
 
     return NextResponse.json(response);
   } catch (error: any) {
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { chatHistoryStore } from "@/utils/chatHistory";
+
+/**
+ * GET /api/chat/search?q=...&userId=...
+ * Past messages and sessions containing every word of `q`, most recently active session first
+ */
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const auth = await authorizeRequest(params.get("userId"));
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const results = await chatHistoryStore.searchSessions(
+      userId,
+      params.get("q") ?? "",
+    );
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error searching chat sessions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
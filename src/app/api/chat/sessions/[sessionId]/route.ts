@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { chatHistoryStore, type ChatSessionChanges } from "@/utils/chatHistory";
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+const MAX_TITLE_LENGTH = 120;
+// Generous: the dashboard itself holds three courses
+const MAX_APPLIED_RECOMMENDATIONS = 10;
+
+/**
+ * GET /api/chat/sessions/:sessionId?userId=...
+ * Messages of one session, oldest first
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { sessionId } = await params;
+    const auth = await authorizeRequest(new URL(request.url).searchParams.get("userId"));
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const messages = await chatHistoryStore.getHistory(sessionId, userId);
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Error fetching chat session messages:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/chat/sessions/:sessionId
+ * Rename a session or record the dashboard courses applied from it.
+ * Body: { userId, title?, appliedRecommendations? }
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { sessionId } = await params;
+    const {
+      userId: claimedUserId,
+      title,
+      appliedRecommendations,
+    } = await request.json();
+    const auth = await authorizeRequest(claimedUserId);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const changes: ChatSessionChanges = {};
+    if (title !== undefined) {
+      const trimmed = typeof title === "string" ? title.trim() : "";
+      if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+        return NextResponse.json(
+          { error: `title must be 1-${MAX_TITLE_LENGTH} characters` },
+          { status: 400 },
+        );
+      }
+      changes.title = trimmed;
+    }
+    if (appliedRecommendations !== undefined) {
+      if (
+        !Array.isArray(appliedRecommendations) ||
+        appliedRecommendations.length > MAX_APPLIED_RECOMMENDATIONS
+      ) {
+        return NextResponse.json(
+          {
+            error: `appliedRecommendations must be a list of at most ${MAX_APPLIED_RECOMMENDATIONS} courses`,
+          },
+          { status: 400 },
+        );
+      }
+      changes.appliedRecommendations = appliedRecommendations;
+    }
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to update: pass title or appliedRecommendations" },
+        { status: 400 },
+      );
+    }
+
+    const updated = await chatHistoryStore.updateSession(
+      sessionId,
+      userId,
+      changes,
+    );
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Chat session not found" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ success: true, ...changes });
+  } catch (error) {
+    console.error("Error updating chat session:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/chat/sessions/:sessionId?userId=...
+ * Delete a session and all of its messages
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { sessionId } = await params;
+    const auth = await authorizeRequest(new URL(request.url).searchParams.get("userId"));
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const deleted = await chatHistoryStore.deleteSession(sessionId, userId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Chat session not found" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting chat session:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
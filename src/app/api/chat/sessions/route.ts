@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { chatHistoryStore } from "@/utils/chatHistory";
+
+/**
+ * GET /api/chat/sessions?userId=...
+ * The user's chat sessions, most recently active first
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeRequest(new URL(request.url).searchParams.get("userId"));
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const sessions = await chatHistoryStore.listSessions(userId);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Error fetching chat sessions:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/chat/sessions
+ * Import the conversation earlier versions saved in the browser as a new session, with its user
+ * and assistant messages in order. Body: { userId, messages: [{ role, content }] }. Responds
+ * { imported: 0 } when no user message is left to import.
+ */
+export async function POST(request: Request) {
+  try {
+    const { userId: claimedUserId, messages } = await request.json();
+    const auth = await authorizeRequest(claimedUserId);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    if (!Array.isArray(messages)) {
+      return NextResponse.json(
+        { error: "messages must be a list" },
+        { status: 400 },
+      );
+    }
+
+    const conversation = messages.filter(
+      (message): message is { role: "user" | "assistant"; content: string } =>
+        (message?.role === "user" || message?.role === "assistant") &&
+        typeof message.content === "string" &&
+        message.content.trim() !== "",
+    );
+    if (!conversation.some((message) => message.role === "user")) {
+      return NextResponse.json({ imported: 0 });
+    }
+
+    const sessionId = uuidv4();
+    for (const message of conversation) {
+      await chatHistoryStore.saveMessage({
+        sessionId,
+        userId,
+        role: message.role,
+        content: message.content,
+      });
+    }
+
+    return NextResponse.json({ imported: 1 });
+  } catch (error) {
+    console.error("Error importing chat history:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { selectAllRows } from "@/utils/supabase/paging";
+import { isTimeSlotError, parseTimeSlot, splitTimeSlot } from "@/lib/timeSlot";
+import {
+  buildCourseRelations,
+  type CareerRow,
+  type CourseHistoryRow,
+  type LinkedCourse,
+} from "@/lib/courseDetail";
+import type { PrerequisiteRow } from "@/lib/prerequisites";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/courses/:id
+ * One course with its prerequisite chain, the courses it unlocks, its fill rate per past term,
+ * the careers that require it and whether the signed-in student can take it.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json(
+        { error: "Course id must be a whole number" },
+        { status: 400 },
+      );
+    }
+    const courseId = Number(id);
+
+    const supabase = await createClient();
+    const auth = await authorizeRequest(undefined, supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const [
+      courseResult,
+      catalogResult,
+      prerequisitesResult,
+      historyResult,
+      careersResult,
+      studentResult,
+    ] = await Promise.all([
+      supabase.from("courses").select("*").eq("id", courseId).maybeSingle(),
+      // Every course title, for naming prerequisites, a page of rows at a time
+      selectAllRows((from, to) =>
+        supabase
+          .from("courses")
+          .select("id, title")
+          .order("id")
+          .range(from, to),
+      ),
+      supabase.from("prerequisites").select("course_id, prerequisite_id"),
+      supabase
+        .from("course_history")
+        .select("semester, filled_slots, max_capacity")
+        .eq("course_id", courseId),
+      supabase.from("careers").select("id, title, required_courses"),
+      supabase
+        .from("students")
+        .select("current_courses_taken")
+        .eq("user_id", userId)
+        .maybeSingle(),
+    ]);
+
+    const error =
+      courseResult.error ||
+      catalogResult.error ||
+      prerequisitesResult.error ||
+      historyResult.error;
+    if (error) {
+      console.error("Error fetching course:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!courseResult.data) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+    // Careers and the student's courses only add context, so the page still loads without them
+    if (careersResult.error)
+      console.error("Error fetching careers for course:", careersResult.error);
+    if (studentResult.error)
+      console.error("Error fetching student for course:", studentResult.error);
+
+    const course = courseResult.data;
+    const slot = parseTimeSlot(course.time_slots);
+
+    const relations = buildCourseRelations({
+      course: { id: course.id, title: course.title },
+      catalog: (catalogResult.data || []) as LinkedCourse[],
+      prerequisites: (prerequisitesResult.data || []) as PrerequisiteRow[],
+      history: (historyResult.data || []) as CourseHistoryRow[],
+      careers: (careersResult.data || []) as CareerRow[],
+      completedCourseIds: studentResult.data?.current_courses_taken || [],
+    });
+
+    return NextResponse.json({
+      course: {
+        ...course,
+        time_slots: splitTimeSlot(slot),
+        time_slots_error: isTimeSlotError(slot) ? slot.message : null,
+      },
+      ...relations,
+    });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
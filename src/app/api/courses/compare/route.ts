@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { selectAllRows } from "@/utils/supabase/paging";
+import {
+  compareCourses,
+  parseCompareIds,
+  type ComparableCourse,
+} from "@/lib/courseComparison";
+import type { CareerRow, LinkedCourse } from "@/lib/courseDetail";
+import type { PrerequisiteRow } from "@/lib/prerequisites";
+
+/**
+ * GET /api/courses/compare?ids=1,2,3
+ * Two to four courses side by side: credits, difficulty, schedule, whether the signed-in student
+ * meets the prerequisites, and how each course relates to their career goal. Courses come back
+ * in the order asked for.
+ */
+export async function GET(request: Request) {
+  try {
+    const parsed = parseCompareIds(
+      new URL(request.url).searchParams.get("ids"),
+    );
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { ids } = parsed;
+
+    const supabase = await createClient();
+    const auth = await authorizeRequest(undefined, supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const [
+      coursesResult,
+      catalogResult,
+      prerequisitesResult,
+      careersResult,
+      studentResult,
+    ] = await Promise.all([
+      supabase
+        .from("courses")
+        .select(
+          "id, title, subject, credits, hours_required, time_slots, career_paths",
+        )
+        .in("id", ids),
+      // Every course title, for naming prerequisites, a page of rows at a time
+      selectAllRows((from, to) =>
+        supabase
+          .from("courses")
+          .select("id, title")
+          .order("id")
+          .range(from, to),
+      ),
+      supabase.from("prerequisites").select("course_id, prerequisite_id"),
+      supabase.from("careers").select("id, title, required_courses"),
+      supabase
+        .from("students")
+        .select("current_courses_taken, career_goal_id")
+        .eq("user_id", userId)
+        .maybeSingle(),
+    ]);
+
+    const error =
+      coursesResult.error || catalogResult.error || prerequisitesResult.error;
+    if (error) {
+      console.error("Error fetching courses to compare:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    // Career relevance and eligibility fall back to "unknown goal" and "nothing completed"
+    if (careersResult.error)
+      console.error("Error fetching careers to compare:", careersResult.error);
+    if (studentResult.error)
+      console.error("Error fetching student to compare:", studentResult.error);
+
+    const found = new Map(
+      ((coursesResult.data || []) as ComparableCourse[]).map((course) => [
+        course.id,
+        course,
+      ]),
+    );
+    const missing = ids.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Course not found: ${missing.join(", ")}` },
+        { status: 404 },
+      );
+    }
+
+    const courses = compareCourses({
+      courses: ids.map((id) => found.get(id) as ComparableCourse),
+      catalog: (catalogResult.data || []) as LinkedCourse[],
+      prerequisites: (prerequisitesResult.data || []) as PrerequisiteRow[],
+      careers: (careersResult.data || []) as CareerRow[],
+      careerGoalId: studentResult.data?.career_goal_id ?? null,
+      completedCourseIds: studentResult.data?.current_courses_taken || [],
+    });
+
+    const goal = ((careersResult.data || []) as CareerRow[]).find(
+      (career) =>
+        String(career.id) === String(studentResult.data?.career_goal_id),
+    );
+
+    return NextResponse.json({ courses, careerGoal: goal ? goal.title : null });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,96 +1,164 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { selectAllRows } from "@/utils/supabase/paging";
+import { getCourseSearchIndex, type CourseSearchResult } from "@/utils/courseSearch";
+import { isTimeSlotError, parseTimeSlot, splitTimeSlot } from "@/lib/timeSlot";
+import {
+  COURSE_FACETS,
+  SORT_COLUMNS,
+  countFacets,
+  decodeCursor,
+  encodeCursor,
+  keysetFilter,
+  matchesFilters,
+  pageRows,
+  parseCourseQuery,
+  type CourseCursor,
+  type CourseQuery,
+} from "@/lib/courseSearch";
+
+type CourseRow = Record<string, unknown> & { id: number; time_slots: unknown };
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+// Normalize time_slots to canonical segments and surface slots that cannot be parsed
+function processCourse(course: CourseRow) {
+  const slot = parseTimeSlot(course.time_slots);
+
+  return {
+    ...course,
+    time_slots: splitTimeSlot(slot),
+    time_slots_error: isTimeSlotError(slot) ? slot.message : null
+  };
+}
 
 /**
- * GET /api/courses
- * Fetch courses with optional filtering
+ * A page of search results. Matching, ranking, filtering and facet counts all run over the
+ * search index; only the page itself is read from the table, so seat counts are current.
+ */
+async function searchPage(supabase: SupabaseClient, query: CourseQuery, after: CourseCursor | null) {
+  const { filters } = query;
+  const index = await getCourseSearchIndex();
+  const hits = index.search(filters.search as string, { limit: index.size });
+
+  const ranked = hits.map(hit => ({ ...hit.course, score: hit.score }));
+  const { facets, total } = countFacets(ranked, filters);
+  const { page, nextCursor } = pageRows(
+    ranked.filter(course => matchesFilters(course, filters)),
+    query,
+    after
+  );
+
+  const { data, error } = page.length > 0
+    ? await supabase.from("courses").select("*").in("id", page.map(course => course.id))
+    : { data: [], error: null };
+  if (error) return { error };
+
+  const rows = new Map(((data || []) as unknown as CourseRow[]).map(row => [row.id, row]));
+  const highlights = new Map<number, CourseSearchResult["highlights"]>(
+    hits.map(hit => [hit.course.id, hit.highlights])
+  );
+  // Courses deleted since the index was built are left out
+  const courses = page.flatMap(({ id }) => {
+    const row = rows.get(id);
+    return row ? [{ ...processCourse(row), highlights: highlights.get(id) ?? [] }] : [];
+  });
+
+  return { courses, nextCursor, total, facets };
+}
+
+/**
+ * GET /api/courses?subject=&semester=&credits=&learning_mode=&is_elective=&search=&sort=&direction=&limit=&cursor=
+ * One page of the course catalog with facet counts.
+ *
+ * `search` matches title, keywords, instructor and description with prefix and typo tolerance;
+ * matching courses carry `highlights` and sort by relevance unless another sort is given.
+ * `sort` is relevance, title (the default without a search), credits or availability, and
+ * `direction` asc or desc (relevance defaults to desc, best match first). Pass the
+ * response's `nextCursor` as `cursor` to get the next page with the same filters and sort.
+ * `facets` counts each subject, semester, credits, learning_mode and is_elective value given the
+ * other active filters, and `total` is the number of courses matching all of them.
  */
 export async function GET(request: Request) {
   try {
-    const url = new URL(request.url);
-    const subject = url.searchParams.get("subject");
-    const semester = url.searchParams.get("semester");
-    const credits = url.searchParams.get("credits");
-    const learningMode = url.searchParams.get("learning_mode");
-    const isElective = url.searchParams.get("is_elective");
-    const search = url.searchParams.get("search");
-    
-    const supabase = await createClient();
-    
-    // Start with a base query
-    let query = supabase
-      .from("courses")
-      .select("*");
-    
-    // Apply filters if provided
-    if (subject) {
-      query = query.eq("subject", subject);
+    const parsed = parseCourseQuery(new URL(request.url).searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
-    
-    if (semester) {
-      query = query.eq("semester", semester);
-    }
-    
-    if (credits) {
-      query = query.eq("credits", parseInt(credits));
-    }
-    
-    if (learningMode) {
-      query = query.eq("learning_mode", learningMode);
+    const { filters, sort, direction, limit, cursor } = parsed.query;
+
+    let after: CourseCursor | null = null;
+    if (cursor) {
+      after = decodeCursor(cursor, sort, direction);
+      if (!after) {
+        return NextResponse.json(
+          { error: "Invalid cursor; request the first page again" },
+          { status: 400 }
+        );
+      }
     }
-    
-    if (isElective) {
-      query = query.eq("is_elective", isElective === "true");
+
+    const supabase = await createClient();
+    const auth = await authorizeRequest(undefined, supabase);
+    if (!auth.ok) return auth.response;
+
+    if (filters.search) {
+      const result = await searchPage(supabase, parsed.query, after);
+      if ("error" in result) {
+        console.error("Error fetching courses:", result.error);
+        return NextResponse.json({ error: result.error?.message }, { status: 500 });
+      }
+      return NextResponse.json(result);
     }
-    
-    // Apply search if provided
-    if (search) {
-      // First sanitize the search term
-      const sanitizedSearch = search.replace(/[%_]/g, ''); // Remove special characters
-      
-      if (sanitizedSearch) {
-        // Use textSearch() for better pattern handling
-        query = query.textSearch('title', sanitizedSearch, {
-          type: 'plain',
-          config: 'english'
-        });
+
+    let query = supabase.from("courses").select("*");
+    for (const facet of COURSE_FACETS) {
+      const value = filters[facet];
+      if (value !== undefined) {
+        query = query.eq(facet, value);
       }
     }
-    
-    // Execute the query
-    const { data, error } = await query;
-    
+
+    // Keyset pagination: continue after the last course of the previous page
+    const column = SORT_COLUMNS[sort];
+    if (after) {
+      query = query.or(keysetFilter(after));
+    }
+    query = query
+      .order(column, { ascending: direction === "asc" })
+      .order("id", { ascending: true })
+      .limit(limit + 1);
+
+    // Facets only need a few small columns, so they are counted over every course, a page of
+    // rows at a time
+    const [pageResult, facetResult] = await Promise.all([
+      query,
+      selectAllRows((from, to) =>
+        supabase.from("courses").select(["id", ...COURSE_FACETS].join(", ")).order("id").range(from, to)
+      ),
+    ]);
+
+    const error = pageResult.error || facetResult.error;
     if (error) {
       console.error("Error fetching courses:", error);
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
-    
-    // Process the data to handle JSON fields correctly
-    const processedData = data?.map(course => {
-      // Ensure time_slots is an array
-      let timeSlots = course.time_slots;
-      
-      // If time_slots is a string, try to parse it as JSON
-      if (typeof timeSlots === 'string') {
-        try {
-          timeSlots = JSON.parse(timeSlots);
-        } catch (e) {
-          // If parsing fails, wrap it in an array
-          timeSlots = [timeSlots];
-        }
-      } 
-      // If time_slots is null or undefined, make it an empty array
-      else if (!timeSlots) {
-        timeSlots = [];
-      }
-      
-      return {
-        ...course,
-        time_slots: timeSlots
-      };
-    });
-    
-    return NextResponse.json({ courses: processedData || [] });
+
+    // One extra row tells whether there is another page
+    const rows = (pageResult.data || []) as unknown as CourseRow[];
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > limit && last
+      ? encodeCursor({ sort, direction, value: (last[column] ?? null) as string | number | null, id: last.id })
+      : null;
+
+    const { facets, total } = countFacets(
+      (facetResult.data || []) as unknown as Record<string, unknown>[],
+      filters
+    );
+
+    return NextResponse.json({ courses: page.map(processCourse), nextCursor, total, facets });
   } catch (error) {
     console.error("Unexpected error:", error);
     return NextResponse.json(
@@ -98,4 +166,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { getCourseSearchIndex } from "@/utils/courseSearch";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * GET /api/courses/search?q=&limit=
+ * Best matches for a course search as the user types, with the matching words highlighted.
+ * Meant for pickers; the catalog page pages and filters through GET /api/courses?search=.
+ */
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const q = params.get("q")?.trim() ?? "";
+    const limit = Number(params.get("limit") ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be a whole number from 1 to ${MAX_LIMIT}` },
+        { status: 400 },
+      );
+    }
+
+    const auth = await authorizeRequest();
+    if (!auth.ok) return auth.response;
+
+    if (!q) return NextResponse.json({ results: [] });
+
+    const hits = (await getCourseSearchIndex()).search(q, { limit });
+    const results = hits.map(({ course, score, highlights }) => ({
+      id: course.id,
+      title: course.title,
+      subject: course.subject,
+      credits: course.credits,
+      score,
+      highlights,
+    }));
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error searching courses:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { runSeatWatchJob } from "@/utils/seatWatch";
+
+// Scheduled callers (e.g. Vercel Cron) send `Authorization: Bearer $CRON_SECRET`; without a
+// secret the job is only open outside production
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return process.env.NODE_ENV !== "production";
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+/**
+ * GET /api/jobs/seat-watch
+ * Run the seat-watch job once: record alerts for watched courses whose seats opened or dropped
+ * below the watch threshold since the last run, and send any requested emails
+ */
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runSeatWatchJob();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Error running seat-watch job:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export const POST = GET;
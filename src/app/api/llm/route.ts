@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import {
+  complete,
+  createEventStreamResponse,
+  getLLMConfig,
+  LLMError,
+  type LLMMessage,
+  type LLMRequest,
+  stream,
+} from "@/lib/llm";
+import { authorizeRequest } from "@/utils/supabase/auth";
+
+const ROLES = new Set(["system", "user", "assistant"]);
+const MAX_MESSAGES = 50;
+const MAX_TOKENS_LIMIT = 2048;
+
+function isMessage(value: unknown): value is LLMMessage {
+  if (!value || typeof value !== "object") return false;
+  const { role, content } = value as Record<string, unknown>;
+  return (
+    typeof role === "string" && ROLES.has(role) && typeof content === "string"
+  );
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function streamErrorMessage(error: unknown): string {
+  if (error instanceof LLMError) {
+    console.error("LLM gateway stream error:", error.message);
+    return "Failed to generate a response";
+  }
+  console.error("Unexpected error in LLM gateway stream:", error);
+  return "Internal server error";
+}
+
+/**
+ * POST /api/llm
+ * Single gateway for browser LLM calls. The server picks the provider and model; callers only
+ * send messages and sampling options. With `stream: true` the reply is sent as server-sent
+ * events: `delta` ({ text }) per chunk, then `done` ({ provider, model }) or `error`.
+ */
+export async function POST(request: Request) {
+  try {
+    // Signed-in users only, so the gateway is not an open proxy to the provider
+    const auth = await authorizeRequest();
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    const messages: unknown = body?.messages;
+
+    if (
+      !Array.isArray(messages) ||
+      messages.length === 0 ||
+      messages.length > MAX_MESSAGES ||
+      !messages.every(isMessage)
+    ) {
+      return NextResponse.json(
+        {
+          error: `messages must be a non-empty array of at most ${MAX_MESSAGES} { role, content } objects`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const maxTokens = optionalNumber(body.maxTokens);
+    const llmRequest: LLMRequest = {
+      messages,
+      temperature: optionalNumber(body.temperature),
+      topP: optionalNumber(body.topP),
+      maxTokens:
+        maxTokens === undefined
+          ? undefined
+          : Math.min(Math.max(1, maxTokens), MAX_TOKENS_LIMIT),
+      responseFormat: body.responseFormat === "json" ? "json" : "text",
+    };
+
+    if (body.stream === true) {
+      const config = getLLMConfig();
+      return createEventStreamResponse(
+        async (send, signal) => {
+          for await (const text of stream(llmRequest, { config, signal })) {
+            send("delta", { text });
+          }
+          send("done", { provider: config.provider, model: config.model });
+        },
+        { signal: request.signal, errorMessage: streamErrorMessage },
+      );
+    }
+
+    const completion = await complete(llmRequest);
+    return NextResponse.json(completion);
+  } catch (error) {
+    if (error instanceof LLMError) {
+      console.error("LLM gateway error:", error.message);
+      return NextResponse.json(
+        { error: "Failed to generate a response" },
+        { status: 502 },
+      );
+    }
+
+    console.error("Unexpected error in LLM gateway:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
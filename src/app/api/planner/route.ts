@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { getCurrentOrUpcomingTerm } from "@/lib/academicCalendar";
+import {
+  calculateCreditRequirements,
+  TOTAL_CREDITS,
+} from "@/lib/creditRequirements";
+import { planDegree } from "@/lib/planner";
+import { createCourseScorer } from "@/lib/scheduler";
+
+/**
+ * POST /api/planner
+ * Generate a multi-term degree plan from the student's profile, the course catalog and the
+ * prerequisites table
+ */
+export async function POST(request: Request) {
+  try {
+    const { userId: claimedUserId, includeSummer } = await request.json();
+
+    const supabase = await createClient();
+    const auth = await authorizeRequest(claimedUserId, supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const { data: student, error: studentError } = await supabase
+      .from("students")
+      .select("*")
+      .eq("user_id", userId)
+      .single();
+
+    if (studentError || !student) {
+      console.error("Error fetching student for planner:", studentError);
+      return NextResponse.json(
+        { error: "Failed to fetch student data" },
+        { status: 404 },
+      );
+    }
+
+    const { data: courses, error: coursesError } = await supabase
+      .from("courses")
+      .select("*");
+
+    if (coursesError || !courses) {
+      console.error("Error fetching courses for planner:", coursesError);
+      return NextResponse.json(
+        { error: "Failed to fetch courses data" },
+        { status: 500 },
+      );
+    }
+
+    const { data: prerequisites, error: prerequisitesError } = await supabase
+      .from("prerequisites")
+      .select("course_id, prerequisite_id");
+
+    if (prerequisitesError) {
+      console.error(
+        "Error fetching prerequisites for planner:",
+        prerequisitesError,
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch prerequisites data" },
+        { status: 500 },
+      );
+    }
+
+    // careers.required_courses may hold course IDs or titles
+    let requiredCourseIds: number[] = [];
+    if (student.career_goal_id) {
+      const { data: career } = await supabase
+        .from("careers")
+        .select("required_courses")
+        .eq("id", student.career_goal_id)
+        .maybeSingle();
+
+      const required: string[] = (career?.required_courses || []).map(
+        (entry: unknown) => String(entry).trim().toLowerCase(),
+      );
+      requiredCourseIds = courses
+        .filter(
+          (course) =>
+            required.includes(String(course.id)) ||
+            required.includes(String(course.title).trim().toLowerCase()),
+        )
+        .map((course) => course.id);
+    }
+
+    const creditsCompleted = student.credits_completed || 0;
+    const creditRequirements = calculateCreditRequirements(creditsCompleted);
+
+    const plan = planDegree({
+      courses,
+      prerequisites: prerequisites || [],
+      completedCourseIds: student.current_courses_taken || [],
+      creditsCompleted,
+      totalCreditsRequired: TOTAL_CREDITS,
+      minCredits: creditRequirements.minCredits,
+      maxCredits: creditRequirements.maxCredits,
+      startTerm: getCurrentOrUpcomingTerm(),
+      targetTerm: student.target_graduation_term || null,
+      requiredCourseIds,
+      scoreCourse: createCourseScorer(student, {}),
+      includeSummer: Boolean(includeSummer),
+    });
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error("Unexpected error generating degree plan:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
 
 // Remove the dynamic export directive
 // export const dynamic = 'force-dynamic';
@@ -8,14 +9,11 @@ export async function GET(request: Request) {
   try {
     const supabase = await createClient();
     
-    // Get the user ID from the URL
+    // The user ID in the URL is optional but must be the signed-in user's
     const url = new URL(request.url);
-    const userId = url.searchParams.get("userId");
-    
-    if (!userId) {
-      console.log("Profile check called without a userId");
-      return NextResponse.json({ error: "User ID is required" }, { status: 400 });
-    }
+    const auth = await authorizeRequest(url.searchParams.get("userId"), supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
     
     console.log(`Checking profile for user: ${userId}`);
     
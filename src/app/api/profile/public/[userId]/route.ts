@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+// The columns public_student_profile exposes
+interface PublicStudentProfile {
+  user_id: string;
+  full_name: string;
+  career_goal_id: string | number | null;
+  credits_completed: number | null;
+  current_courses_taken: string[] | null;
+  skill_goals: string[] | null;
+}
+
+/**
+ * GET /api/profile/public/:userId
+ * Another student's public profile: name, career goal, credits and courses taken. Responds 404
+ * unless that student turned Public Profile on in Settings.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { userId: profileUserId } = await params;
+    const supabase = await createClient();
+
+    // Any signed-in student may look; the database function decides what they see
+    const auth = await authorizeRequest(undefined, supabase);
+    if (!auth.ok) return auth.response;
+
+    const { data, error } = await supabase.rpc("public_student_profile", {
+      profile_user_id: profileUserId,
+    });
+    if (error) {
+      console.error("Error fetching public profile:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const profile = data as PublicStudentProfile;
+    const courseIds = profile.current_courses_taken ?? [];
+    const [career, courses] = await Promise.all([
+      profile.career_goal_id === null
+        ? { data: null, error: null }
+        : supabase
+            .from("careers")
+            .select("title")
+            .eq("id", profile.career_goal_id)
+            .maybeSingle(),
+      courseIds.length === 0
+        ? { data: [], error: null }
+        : supabase
+            .from("courses")
+            .select("id, title")
+            .in("id", courseIds)
+            .order("id"),
+    ]);
+    if (career.error || courses.error) {
+      const lookupError = career.error ?? courses.error;
+      console.error("Error fetching public profile details:", lookupError);
+      return NextResponse.json(
+        { error: lookupError?.message },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json({
+      profile: {
+        userId: profile.user_id,
+        fullName: profile.full_name,
+        careerGoal: (career.data as { title: string } | null)?.title ?? null,
+        creditsCompleted: profile.credits_completed ?? 0,
+        skillGoals: profile.skill_goals ?? [],
+        courses: (courses.data ?? []) as { id: number; title: string }[],
+      },
+    });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
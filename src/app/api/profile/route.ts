@@ -1,18 +1,19 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
 
 
 
 export async function GET(request: Request) {
   try {
     const url = new URL(request.url);
-    const userId = url.searchParams.get("userId");
-    
-    if (!userId) {
-      return NextResponse.json({ error: "User ID is required" }, { status: 400 });
-    }
-    
     const supabase = await createClient();
+
+    // The user ID in the URL is optional but must be the signed-in user's
+    const auth = await authorizeRequest(url.searchParams.get("userId"), supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+    
     const { data, error } = await supabase
       .from("students")
       .select("*")
@@ -39,10 +40,10 @@ export async function POST(request: Request) {
     const supabase = await createClient();
     const data = await request.json();
 
-    // Validate required fields
-    if (!data.user_id) {
-      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
-    }
+    // A profile can only be created for the signed-in user
+    const auth = await authorizeRequest(data.user_id, supabase);
+    if (!auth.ok) return auth.response;
+    data.user_id = auth.userId;
 
     // Required fields validation
     const requiredFields = ['full_name', 'email', 'career_goal_id', 'enrollment_type'];
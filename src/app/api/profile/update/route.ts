@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
 
 // Remove the dynamic export directive
 // export const dynamic = 'force-dynamic';
@@ -8,10 +9,11 @@ export async function PUT(request: Request) {
   try {
     const supabase = await createClient();
     const data = await request.json();
-    
-    if (!data.user_id) {
-      return NextResponse.json({ error: "User ID is required" }, { status: 400 });
-    }
+
+    // Authorize against the session, not the user_id in the body
+    const auth = await authorizeRequest(data.user_id, supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
 
     // Extract ID to use for the update
     const { id } = data;
@@ -20,7 +22,7 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: "Profile ID is required for update" }, { status: 400 });
     }
     
-    console.log(`Updating profile ${id} for user ${data.user_id}`);
+    console.log(`Updating profile ${id} for user ${userId}`);
     
     // Make sure the profile belongs to the user
     const { data: existingProfile, error: fetchError } = await supabase
@@ -42,13 +44,15 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: "Profile not found" }, { status: 404 });
     }
     
-    if (existingProfile.user_id !== data.user_id) {
-      console.error(`Unauthorized update attempt: profile ${id} belongs to ${existingProfile.user_id}, not ${data.user_id}`);
+    if (existingProfile.user_id !== userId) {
+      console.error(`Unauthorized update attempt: profile ${id} belongs to ${existingProfile.user_id}, not ${userId}`);
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    // Remove ID from the data object as it's not needed in the update
+    // Remove ID from the data object as it's not needed in the update, and keep the profile
+    // with its owner
     const { id: _, ...updateData } = data;
+    updateData.user_id = userId;
 
     // Update the profile
     const { error } = await supabase
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import {
+  getCurrentOrUpcomingTerm,
+  getTermDates,
+  isIsoDate,
+  type TermDates,
+} from "@/lib/academicCalendar";
+import { buildScheduleCalendar, isValidTimeZone } from "@/lib/ics";
+
+const FALLBACK_TIME_ZONE = "UTC";
+
+/**
+ * GET /api/schedule/ics?userId=&courseIds=1,2,3[&term=Fall 2025][&start=YYYY-MM-DD&end=YYYY-MM-DD]
+ * Export the student's accepted recommendations as an iCalendar file.
+ *
+ * Recommendations live in the browser, so the caller passes the accepted course IDs. The term
+ * defaults to the one in session (or next to start), and times use the student's profile timezone.
+ */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const courseIds = (url.searchParams.get("courseIds") || "")
+      .split(",")
+      .map((id) => Number.parseInt(id, 10))
+      .filter((id) => !Number.isNaN(id));
+    const termParam = url.searchParams.get("term");
+    const startParam = url.searchParams.get("start");
+    const endParam = url.searchParams.get("end");
+
+    if (courseIds.length === 0) {
+      return NextResponse.json(
+        { error: "At least one course ID is required" },
+        { status: 400 },
+      );
+    }
+
+    let term: TermDates | null = termParam
+      ? getTermDates(termParam)
+      : getCurrentOrUpcomingTerm();
+    if (!term) {
+      return NextResponse.json(
+        { error: `Unrecognized term "${termParam}"` },
+        { status: 400 },
+      );
+    }
+
+    if (startParam || endParam) {
+      if (
+        !startParam ||
+        !endParam ||
+        !isIsoDate(startParam) ||
+        !isIsoDate(endParam) ||
+        startParam > endParam
+      ) {
+        return NextResponse.json(
+          { error: "start and end must both be YYYY-MM-DD with start <= end" },
+          { status: 400 },
+        );
+      }
+      term = { ...term, start: startParam, end: endParam };
+    }
+
+    const supabase = await createClient();
+    const auth = await authorizeRequest(url.searchParams.get("userId"), supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const { data: student, error: studentError } = await supabase
+      .from("students")
+      .select("timezone")
+      .eq("user_id", userId)
+      .single();
+
+    if (studentError || !student) {
+      console.error(
+        "Error fetching student for calendar export:",
+        studentError,
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch student data" },
+        { status: 404 },
+      );
+    }
+
+    const { data: courses, error: coursesError } = await supabase
+      .from("courses")
+      .select("id, title, subject, credits, time_slots")
+      .in("id", courseIds);
+
+    if (coursesError || !courses) {
+      console.error(
+        "Error fetching courses for calendar export:",
+        coursesError,
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch courses data" },
+        { status: 500 },
+      );
+    }
+
+    const timeZone =
+      student.timezone && isValidTimeZone(student.timezone)
+        ? student.timezone
+        : FALLBACK_TIME_ZONE;
+
+    const { ics, skippedCourseIds } = buildScheduleCalendar({
+      courses,
+      term,
+      timeZone,
+      uidDomain: url.host,
+    });
+
+    const filename = `${term.term.replace(/\s+/g, "-").toLowerCase()}-schedule.ics`;
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        // TBA, online and unparseable courses have no meetings to export
+        "X-Skipped-Course-Ids": skippedCourseIds.join(","),
+      },
+    });
+  } catch (error) {
+    console.error("Unexpected error exporting calendar:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { getCourseAvailabilityData } from "@/lib/courseAvailability";
+import { calculateCreditRequirements } from "@/lib/creditRequirements";
+import { createCourseScorer, solveSchedules } from "@/lib/scheduler";
+
+// The Dashboard presents a fixed set of three recommendation cards
+const COURSES_PER_SCHEDULE = 3;
+
+/**
+ * POST /api/schedule
+ * Solve for conflict-free course schedules for a student, ranked by score
+ */
+export async function POST(request: Request) {
+  try {
+    const { userId: claimedUserId, limit } = await request.json();
+
+    const supabase = await createClient();
+    const auth = await authorizeRequest(claimedUserId, supabase);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const { data: student, error: studentError } = await supabase
+      .from("students")
+      .select("*")
+      .eq("user_id", userId)
+      .single();
+
+    if (studentError || !student) {
+      console.error("Error fetching student for schedule:", studentError);
+      return NextResponse.json(
+        { error: "Failed to fetch student data" },
+        { status: 404 },
+      );
+    }
+
+    const { data: courses, error: coursesError } = await supabase
+      .from("courses")
+      .select("*");
+
+    if (coursesError || !courses) {
+      console.error("Error fetching courses for schedule:", coursesError);
+      return NextResponse.json(
+        { error: "Failed to fetch courses data" },
+        { status: 500 },
+      );
+    }
+
+    const { data: prerequisites, error: prerequisitesError } = await supabase
+      .from("prerequisites")
+      .select("course_id, prerequisite_id");
+
+    if (prerequisitesError) {
+      console.error(
+        "Error fetching prerequisites for schedule:",
+        prerequisitesError,
+      );
+      return NextResponse.json(
+        { error: "Failed to fetch prerequisites data" },
+        { status: 500 },
+      );
+    }
+
+    const availabilityScores = await getCourseAvailabilityData(
+      courses.map((course) => course.id),
+    );
+    const creditRequirements = calculateCreditRequirements(
+      student.credits_completed || 0,
+    );
+
+    const constraints = {
+      minCredits: creditRequirements.minCredits,
+      maxCredits: creditRequirements.maxCredits,
+      minCourses: COURSES_PER_SCHEDULE,
+      maxCourses: COURSES_PER_SCHEDULE,
+      completedCourseIds: student.current_courses_taken || [],
+      prerequisites: prerequisites || [],
+    };
+    const scoreCourse = createCourseScorer(student, availabilityScores);
+
+    let result = solveSchedules(courses, constraints, {
+      limit: limit || 3,
+      scoreCourse,
+    });
+    let relaxedCredits = false;
+
+    // Credit bounds are advisory; fall back to any conflict-free set rather than nothing
+    if (result.schedules.length === 0) {
+      result = solveSchedules(
+        courses,
+        { ...constraints, minCredits: 0, maxCredits: Number.POSITIVE_INFINITY },
+        { limit: limit || 3, scoreCourse },
+      );
+      relaxedCredits = true;
+    }
+
+    return NextResponse.json({
+      schedules: result.schedules,
+      excluded: result.excluded,
+      availabilityScores,
+      creditRequirements,
+      relaxedCredits,
+    });
+  } catch (error) {
+    console.error("Unexpected error solving schedule:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
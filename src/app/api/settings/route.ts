@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { parseSettingsUpdate } from "@/lib/userSettings";
+import { getUserSettings, saveUserSettings } from "@/utils/userSettings";
+
+/**
+ * GET /api/settings?userId=...
+ * The user's settings, with defaults for anything never saved
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeRequest(new URL(request.url).searchParams.get("userId"));
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const settings = await getUserSettings(userId);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Error fetching settings:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/settings
+ * Update some or all settings. Body: { userId, settings: { aiSuggestions?: boolean, ... } }
+ */
+export async function PUT(request: Request) {
+  try {
+    const { userId: claimedUserId, settings } = await request.json();
+    const auth = await authorizeRequest(claimedUserId);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const parsed = parseSettingsUpdate(settings);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const saved = await saveUserSettings(userId, parsed.settings);
+    return NextResponse.json({ settings: saved });
+  } catch (error) {
+    console.error("Error saving settings:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { seatWatchStore } from "@/utils/seatWatch";
+
+/**
+ * GET /api/watchlist/alerts?userId=...&unread=1
+ * Seat alerts for the user's watched courses, newest first
+ */
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const auth = await authorizeRequest(params.get("userId"));
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const alerts = await seatWatchStore.listAlerts(userId, {
+      unreadOnly: params.get("unread") === "1",
+    });
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    console.error("Error fetching seat alerts:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/watchlist/alerts
+ * Mark alerts as read. Body: { userId, alertIds }
+ */
+export async function PATCH(request: Request) {
+  try {
+    const { userId: claimedUserId, alertIds } = await request.json();
+    const auth = await authorizeRequest(claimedUserId);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+    if (
+      !Array.isArray(alertIds) ||
+      !alertIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        { error: "alertIds must be an array of strings" },
+        { status: 400 },
+      );
+    }
+
+    const updated = await seatWatchStore.markAlertsRead(userId, alertIds);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error("Error updating seat alerts:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
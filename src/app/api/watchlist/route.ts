@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/utils/supabase/auth";
+import { seatWatchStore } from "@/utils/seatWatch";
+
+const MAX_THRESHOLD = 500;
+
+/**
+ * GET /api/watchlist?userId=...
+ * Courses the user watches, newest first, with their current seat counts
+ */
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeRequest(new URL(request.url).searchParams.get("userId"));
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+
+    const watches = await seatWatchStore.listWatches(userId);
+    return NextResponse.json({ watches });
+  } catch (error) {
+    console.error("Error fetching watchlist:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/watchlist
+ * Watch a course, or update the watch. Body: { userId, courseId, threshold?, notifyEmail? }
+ */
+export async function POST(request: Request) {
+  try {
+    const { userId: claimedUserId, courseId, threshold, notifyEmail } = await request.json();
+    const auth = await authorizeRequest(claimedUserId);
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+    if (!Number.isInteger(courseId)) {
+      return NextResponse.json(
+        { error: "courseId must be an integer" },
+        { status: 400 },
+      );
+    }
+    if (
+      threshold !== undefined &&
+      (!Number.isInteger(threshold) ||
+        threshold < 1 ||
+        threshold > MAX_THRESHOLD)
+    ) {
+      return NextResponse.json(
+        { error: `threshold must be an integer from 1 to ${MAX_THRESHOLD}` },
+        { status: 400 },
+      );
+    }
+
+    const watch = await seatWatchStore.watchCourse(userId, courseId, {
+      threshold,
+      notifyEmail: notifyEmail === true,
+    });
+    if (!watch) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+    return NextResponse.json({ watch });
+  } catch (error) {
+    console.error("Error watching course:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/watchlist?userId=...&courseId=...
+ * Stop watching a course
+ */
+export async function DELETE(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const courseId = Number(params.get("courseId"));
+    const auth = await authorizeRequest(params.get("userId"));
+    if (!auth.ok) return auth.response;
+    const { userId } = auth;
+    if (!Number.isInteger(courseId)) {
+      return NextResponse.json(
+        { error: "courseId must be an integer" },
+        { status: 400 },
+      );
+    }
+
+    const removed = await seatWatchStore.unwatchCourse(userId, courseId);
+    if (!removed) {
+      return NextResponse.json({ error: "Watch not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unwatching course:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
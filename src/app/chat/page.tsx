@@ -7,10 +7,15 @@ import { Input } from "@/components/ui/input";
 import { Avatar } from "@/components/ui/avatar";
 import { useToast } from "@/components/ui/use-toast";
 import { useAuth } from "@/components/auth/AuthProvider";
+import { streamEvents } from "@/lib/llm/client";
+import { formatMissingPrerequisites, type CourseEligibility } from "@/lib/eligibility";
 
 interface Message {
   role: "user" | "assistant" | "system";
   content: string;
+  // Set on assistant messages while tokens arrive, and when the user stops generation
+  status?: "streaming" | "stopped";
+  courseEligibility?: CourseEligibility[];
 }
 
 export default function ChatPage() {
@@ -19,6 +24,7 @@ export default function ChatPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
 
@@ -27,6 +33,17 @@ export default function ChatPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Stop any in-flight answer when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // The assistant message being streamed is always the last one
+  const updateStreamingMessage = (update: Partial<Message>) => {
+    setMessages((prev) => [
+      ...prev.slice(0, -1),
+      { ...prev[prev.length - 1], ...update },
+    ]);
+  };
+
   // Send message to API
   const sendMessage = async () => {
     if (!input.trim()) return;
@@ -51,36 +68,50 @@ export default function ChatPage() {
       }
       
       console.log("Sending chat message with user ID:", user.id);
-      
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          message: userMessage,
-          sessionId,
-          userId: user.id, // Use the authenticated user's ID
-          username: user.user_metadata?.name || user.email,
-          useAdvisorMode: true, // Using advisor mode for course recommendations
-        }),
-      });
-      
-      if (!response.ok) {
-        throw new Error("Failed to get response from AI");
-      }
-      
-      const data = await response.json();
-      
-      // Save session ID for conversation continuity
-      if (data.sessionId && !sessionId) {
-        setSessionId(data.sessionId);
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setMessages((prev) => [...prev, { role: "assistant", content: "", status: "streaming" }]);
+
+      let answer = "";
+      try {
+        for await (const event of streamEvents(
+          "/api/chat",
+          {
+            message: userMessage,
+            sessionId,
+            userId: user.id, // Use the authenticated user's ID
+            username: user.user_metadata?.name || user.email,
+            useAdvisorMode: true, // Using advisor mode for course recommendations
+          },
+          controller.signal,
+        )) {
+          if (event.type === "delta") {
+            answer += event.text;
+            updateStreamingMessage({ content: answer });
+          } else if (event.type === "done") {
+            // Save session ID for conversation continuity
+            const data = event.data as { sessionId?: string; courseEligibility?: CourseEligibility[] };
+            if (data.sessionId && !sessionId) {
+              setSessionId(data.sessionId);
+            }
+            updateStreamingMessage({ status: undefined, courseEligibility: data.courseEligibility });
+          }
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) throw error;
+        updateStreamingMessage({ status: "stopped" });
+      } finally {
+        abortRef.current = null;
       }
-      
-      // Add AI response to chat
-      setMessages((prev) => [...prev, { role: "assistant", content: data.answer }]);
     } catch (error) {
       console.error("Error sending message:", error);
+      // Drop the empty placeholder; keep any partial answer
+      setMessages((prev) =>
+        prev[prev.length - 1]?.status === "streaming" && !prev[prev.length - 1].content
+          ? prev.slice(0, -1)
+          : prev.map((message) => (message.status === "streaming" ? { ...message, status: undefined } : message))
+      );
       toast({
         title: "Error",
         description: "Failed to get a response. Please try again.",
@@ -91,6 +122,10 @@ export default function ChatPage() {
     }
   };
 
+  const stopGenerating = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -133,7 +168,22 @@ export default function ChatPage() {
                         : "bg-primary text-primary-foreground"
                     }`}
                   >
-                    <div className="whitespace-pre-wrap">{message.content}</div>
+                    <div className="whitespace-pre-wrap">
+                      {message.content}
+                      {message.status === "streaming" && (
+                        <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-current align-middle" />
+                      )}
+                    </div>
+                    {message.status === "stopped" && (
+                      <p className="mt-1 text-xs text-muted-foreground">Stopped</p>
+                    )}
+                    {message.courseEligibility
+                      ?.filter((course) => !course.eligible)
+                      .map((course) => (
+                        <p key={course.courseId} className="mt-2 text-xs text-muted-foreground">
+                          {course.title} requires {formatMissingPrerequisites(course.missingPrerequisites)} first.
+                        </p>
+                      ))}
                   </div>
                   {message.role === "user" && (
                     <Avatar className="h-8 w-8 bg-zinc-600 text-zinc-50">
@@ -155,9 +205,15 @@ export default function ChatPage() {
               disabled={isLoading}
               className="flex-1"
             />
-            <Button onClick={sendMessage} disabled={isLoading || !input.trim()}>
-              {isLoading ? "Sending..." : "Send"}
-            </Button>
+            {isLoading ? (
+              <Button variant="outline" onClick={stopGenerating}>
+                Stop
+              </Button>
+            ) : (
+              <Button onClick={sendMessage} disabled={!input.trim()}>
+                Send
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,344 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, CheckCircle, LayoutDashboard } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/components/ui/use-toast";
+import WatchButton from "@/components/courses/WatchButton";
+import CompareButton from "@/components/courses/CompareButton";
+import SwapConfirmationDialog from "@/components/courses/SwapConfirmationDialog";
+import {
+  formatCourseForRecommendation,
+  useRecommendations,
+  type CourseRecommendation,
+} from "@/context/RecommendationsContext";
+import { getEnrollmentForecasts } from "@/lib/courseAvailability";
+import type { CourseRelations } from "@/lib/courseDetail";
+import type { EnrollmentForecast } from "@/lib/enrollmentForecast";
+import { formatMissingPrerequisites } from "@/lib/eligibility";
+import { formatTimeSlot } from "@/lib/timeSlot";
+import type { Course } from "@/types";
+
+interface CourseDetail extends CourseRelations {
+  course: {
+    id: number;
+    title: string;
+    description: string | null;
+    instructor: string | null;
+    subject: string | null;
+    credits: number;
+    semester: string | null;
+    learning_mode: string | null;
+    is_elective: boolean | null;
+    available_slots: number | null;
+    hours_required: number | null;
+    time_slots: string[];
+    time_slots_error: string | null;
+  };
+}
+
+// Same thresholds as the Dashboard's enrollment prediction
+function fillColor(percent: number) {
+  if (percent <= 50) return "bg-green-500";
+  if (percent <= 70) return "bg-yellow-500";
+  return "bg-red-500";
+}
+
+export default function CourseDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { recommendations, addRecommendation, replaceRecommendation } = useRecommendations();
+  const [detail, setDetail] = useState<CourseDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Undefined while loading, null when the course has no enrollment history
+  const [forecast, setForecast] = useState<EnrollmentForecast | null | undefined>(undefined);
+  const [courseToAdd, setCourseToAdd] = useState<CourseRecommendation | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDetail(null);
+    setError(null);
+    setForecast(undefined);
+
+    const loadCourse = async () => {
+      try {
+        const response = await fetch(`/api/courses/${encodeURIComponent(id)}`);
+        if (response.status === 404) {
+          if (!cancelled) setError("This course does not exist or has been removed from the catalog.");
+          return;
+        }
+        if (!response.ok) throw new Error(`Failed to load course: ${response.status}`);
+        const data: CourseDetail = await response.json();
+        if (!cancelled) setDetail(data);
+      } catch (err) {
+        console.error("Error fetching course:", err);
+        if (!cancelled) setError("Failed to load this course. Please try again later.");
+      }
+    };
+
+    loadCourse();
+    getEnrollmentForecasts([Number(id)]).then(forecasts => {
+      if (!cancelled) setForecast(forecasts[Number(id)] ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <Link href="/courses" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+          <ArrowLeft className="h-4 w-4 mr-1" /> Course Catalog
+        </Link>
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">{error}</div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="text-center py-16">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+        <p className="text-gray-500">Loading course...</p>
+      </div>
+    );
+  }
+
+  const { course, prerequisites, unlocks, history, careers, eligibility, completed } = detail;
+  const onDashboard = recommendations.some(rec => rec.course_id === course.id);
+  const levels = [...new Set(prerequisites.map(prerequisite => prerequisite.level))];
+
+  const handleAddToDashboard = () => {
+    const recommendation = formatCourseForRecommendation(
+      course.id,
+      [{ ...course, time_slots: course.time_slots.join(", ") } as Course],
+      ["Added from the course page"],
+      () => eligibility
+    );
+    if (!recommendation) return;
+    if (addRecommendation(recommendation)) {
+      toast({ title: "Added to Dashboard", description: course.title });
+    } else {
+      // The dashboard is full, so ask which course to replace
+      setCourseToAdd(recommendation);
+    }
+  };
+
+  const handleConfirmSwap = (oldCourseId: number) => {
+    if (!courseToAdd) return;
+    setCourseToAdd(null);
+    if (!replaceRecommendation(oldCourseId, courseToAdd)) return;
+    toast({ title: "Dashboard updated", description: `${course.title} replaced a course on your Dashboard.` });
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-5xl">
+      <Link href="/courses" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+        <ArrowLeft className="h-4 w-4 mr-1" /> Course Catalog
+      </Link>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            {course.subject && <Badge variant="secondary">{course.subject}</Badge>}
+            <Badge variant={course.is_elective ? "outline" : "default"}>
+              {course.is_elective ? "Elective" : "Required"}
+            </Badge>
+          </div>
+          <h1 className="text-3xl font-bold">{course.title}</h1>
+          {course.instructor && <p className="text-gray-600 mt-1">Taught by {course.instructor}</p>}
+        </div>
+        <div className="flex gap-2">
+          <WatchButton courseId={course.id} courseTitle={course.title} />
+          <CompareButton courseId={course.id} courseTitle={course.title} />
+          {/* A course the student has already taken is not planned again */}
+          <Button onClick={handleAddToDashboard} disabled={onDashboard || completed}>
+            {onDashboard || completed ? <CheckCircle className="h-4 w-4 mr-2" /> : <LayoutDashboard className="h-4 w-4 mr-2" />}
+            {completed ? "Already completed" : onDashboard ? "On your Dashboard" : "Add to Dashboard"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <div className="md:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">About this course</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-700 whitespace-pre-line">{course.description || "No description yet."}</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Prerequisites</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {prerequisites.length === 0 ? (
+                <p className="text-gray-600">None. You can take this course without completing anything first.</p>
+              ) : (
+                <>
+                  {/* Each step can only be taken once the steps before it are done */}
+                  <ol className="space-y-3">
+                    {levels.map((level, index) => (
+                      <li key={level}>
+                        <p className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">Step {index + 1}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {prerequisites.filter(prerequisite => prerequisite.level === level).map(prerequisite => (
+                            <Link
+                              key={prerequisite.id}
+                              href={`/courses/${prerequisite.id}`}
+                              className={`inline-flex items-center rounded-md border px-2.5 py-1 text-sm hover:bg-gray-50 ${
+                                prerequisite.completed ? "border-green-300 text-green-700" : "border-gray-300 text-gray-800"
+                              }`}
+                            >
+                              {prerequisite.completed && <CheckCircle className="h-3.5 w-3.5 mr-1" />}
+                              {prerequisite.title}
+                            </Link>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                    <li>
+                      <p className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">Step {levels.length + 1}</p>
+                      <span className="inline-flex rounded-md bg-gray-900 px-2.5 py-1 text-sm text-white">{course.title}</span>
+                    </li>
+                  </ol>
+                  <p className={`text-sm ${eligibility.eligible ? "text-green-700" : "text-amber-700"}`}>
+                    {eligibility.eligible
+                      ? "You have completed every prerequisite."
+                      : `You still need ${formatMissingPrerequisites(eligibility.missingPrerequisites)}.`}
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">What this course unlocks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {unlocks.length === 0 ? (
+                <p className="text-gray-600">No other course requires this one.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {unlocks.map(unlocked => (
+                    <li key={unlocked.id} className="text-sm">
+                      <Link href={`/courses/${unlocked.id}`} className="text-blue-600 hover:underline">
+                        {unlocked.title}
+                      </Link>
+                      {!unlocked.direct && <span className="text-gray-500"> (later in the chain)</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Enrollment history</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <p className="text-gray-600">No enrollment history yet.</p>
+              ) : (
+                <div className="flex items-end gap-3 h-48 overflow-x-auto" role="img" aria-label="Share of seats filled per term">
+                  {history.map(({ term, fillRate, filledSlots, maxCapacity }) => {
+                    const percent = Math.round(fillRate * 100);
+                    return (
+                      <div key={term} className="flex flex-col items-center justify-end h-full min-w-[3.5rem]">
+                        <span className="text-xs font-medium text-gray-700 mb-1">{percent}%</span>
+                        <div
+                          className={`w-8 rounded-t ${fillColor(percent)}`}
+                          style={{ height: `${Math.max(percent, 2)}%` }}
+                          title={`${term}: ${filledSlots} of ${maxCapacity} seats filled`}
+                        />
+                        <span className="text-xs text-gray-500 mt-1 whitespace-nowrap">{term}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {forecast && (
+                <p className="mt-4 text-sm text-gray-700">
+                  Forecast for {forecast.term}: {Math.round(forecast.fillRate * 100)}% full
+                  (likely {Math.round(forecast.low * 100)}–{Math.round(forecast.high * 100)}%).
+                  {forecast.fillsUpByDay !== null &&
+                    ` Expected to fill up by day ${forecast.fillsUpByDay} of the ${forecast.registrationDays}-day registration period.`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div><span className="font-medium">Credits:</span> {course.credits}</div>
+              {course.semester && <div><span className="font-medium">Semester:</span> {course.semester}</div>}
+              {course.learning_mode && <div><span className="font-medium">Mode:</span> {course.learning_mode}</div>}
+              {course.hours_required !== null && (
+                <div><span className="font-medium">Workload:</span> {course.hours_required} hours/week</div>
+              )}
+              {course.available_slots !== null && (
+                <div><span className="font-medium">Available Slots:</span> {course.available_slots}</div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Schedule</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {course.time_slots.length === 0 ? (
+                <p className="text-sm text-gray-600">Flexible</p>
+              ) : (
+                <ul className="space-y-1 text-sm text-gray-700">
+                  {course.time_slots.map(slot => <li key={slot}>{formatTimeSlot(slot, { clock: "12h" })}</li>)}
+                </ul>
+              )}
+              {course.time_slots_error && (
+                <p className="mt-2 text-xs text-amber-700">Part of the schedule could not be read: {course.time_slots_error}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Careers that require it</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {careers.length === 0 ? (
+                <p className="text-sm text-gray-600">Not required by any career path.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {careers.map(career => <Badge key={career.id} variant="outline">{career.title}</Badge>)}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {courseToAdd && (
+        <SwapConfirmationDialog
+          course={courseToAdd}
+          dashboardCourses={recommendations}
+          onConfirm={handleConfirmSwap}
+          onCancel={() => setCourseToAdd(null)}
+        />
+      )}
+    </div>
+  );
+}
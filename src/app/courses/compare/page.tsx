@@ -0,0 +1,363 @@
+"use client";
+
+import { Suspense, useEffect, useState, type ReactNode } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { AlertTriangle, ArrowLeft, CheckCircle, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import SwapConfirmationDialog from "@/components/courses/SwapConfirmationDialog";
+import { useCompare } from "@/context/CompareContext";
+import {
+  formatCourseForRecommendation,
+  useRecommendations,
+  type CourseRecommendation,
+} from "@/context/RecommendationsContext";
+import { getCourseAvailabilityData } from "@/lib/courseAvailability";
+import { parseCompareIds, type ComparedCourse } from "@/lib/courseComparison";
+import { formatMissingPrerequisites } from "@/lib/eligibility";
+import { checkConflict, formatTimeSlot } from "@/lib/timeSlot";
+import type { Course } from "@/types";
+
+interface Comparison {
+  courses: ComparedCourse[];
+  careerGoal: string | null;
+}
+
+type PlanCheck = { status: "on-plan" } | { status: "clear" } | { status: "conflict"; with: string[] } | { status: "unknown" };
+
+// Same thresholds as the Dashboard's enrollment prediction, on the share of seats expected taken
+function occupancyColor(percent: number) {
+  if (percent <= 50) return "text-green-600";
+  if (percent <= 70) return "text-yellow-600";
+  return "text-red-600";
+}
+
+function checkAgainstPlan(course: ComparedCourse, plan: CourseRecommendation[]): PlanCheck {
+  if (plan.some((rec) => rec.course_id === course.id)) return { status: "on-plan" };
+  let unknown = false;
+  const conflicts: string[] = [];
+  for (const rec of plan) {
+    const result = checkConflict(course.timeSlots.join(", "), rec.time_slot);
+    if (result.status === "conflict") conflicts.push(rec.title);
+    if (result.status === "unknown") unknown = true;
+  }
+  if (conflicts.length > 0) return { status: "conflict", with: conflicts };
+  return unknown ? { status: "unknown" } : { status: "clear" };
+}
+
+function toCourse(course: ComparedCourse): Course {
+  return {
+    id: course.id,
+    title: course.title,
+    subject: course.subject ?? undefined,
+    credits: course.credits,
+    difficulty_level: course.difficulty,
+    time_slots: course.timeSlots.join(", "),
+    hours_required: course.hoursRequired ?? undefined,
+  };
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <tr className="border-t border-gray-200 align-top">
+      <th scope="row" className="w-40 py-3 pr-4 text-left text-sm font-medium text-gray-600">
+        {label}
+      </th>
+      {children}
+    </tr>
+  );
+}
+
+function CourseComparison() {
+  const searchParams = useSearchParams();
+  const parsed = parseCompareIds(searchParams.get("ids"));
+  const idsKey = parsed.ok ? parsed.ids.join(",") : null;
+  const { recommendations, setRecommendations, addRecommendation, replaceRecommendation } = useRecommendations();
+  const { removeFromCompare } = useCompare();
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [availability, setAvailability] = useState<Record<number, number>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [courseToAdd, setCourseToAdd] = useState<CourseRecommendation | null>(null);
+
+  useEffect(() => {
+    if (!idsKey) return;
+    let cancelled = false;
+    setComparison(null);
+    setError(null);
+
+    const loadComparison = async () => {
+      try {
+        const response = await fetch(`/api/courses/compare?ids=${idsKey}`);
+        if (response.status === 404) {
+          const { error } = await response.json();
+          if (!cancelled) setError(`${error}. It may have been removed from the catalog.`);
+          return;
+        }
+        if (!response.ok) throw new Error(`Failed to compare courses: ${response.status}`);
+        const data: Comparison = await response.json();
+        if (!cancelled) setComparison(data);
+      } catch (err) {
+        console.error("Error comparing courses:", err);
+        if (!cancelled) setError("Failed to compare these courses. Please try again later.");
+      }
+    };
+
+    loadComparison();
+    getCourseAvailabilityData(idsKey.split(",").map(Number)).then((scores) => {
+      if (!cancelled) setAvailability(scores);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey]);
+
+  const backLink = (
+    <Link href="/courses" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+      <ArrowLeft className="h-4 w-4 mr-1" /> Course Catalog
+    </Link>
+  );
+
+  if (!parsed.ok || error) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        {backLink}
+        <div className="bg-amber-50 border border-amber-300 text-amber-800 px-4 py-3 rounded">
+          {error ?? `${parsed.ok ? "" : parsed.error}. Pick courses to compare from the catalog, your Dashboard or the chat.`}
+        </div>
+      </div>
+    );
+  }
+
+  if (!comparison) {
+    return (
+      <div className="text-center py-16">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+        <p className="text-gray-500">Comparing courses...</p>
+      </div>
+    );
+  }
+
+  const { courses, careerGoal } = comparison;
+
+  // The other compared courses already on the plan
+  const plannedAlternatives = (course: ComparedCourse) =>
+    recommendations.filter(
+      (rec) => rec.course_id !== course.id && courses.some((other) => other.id === rec.course_id),
+    );
+
+  const handleUse = (course: ComparedCourse) => {
+    // Picking one course of the comparison drops the planned alternatives: the first one is
+    // swapped for it, or all of them go when it is already planned
+    const alternatives = plannedAlternatives(course);
+    if (recommendations.some((rec) => rec.course_id === course.id)) {
+      if (alternatives.length === 0) return;
+      setRecommendations(recommendations.filter((rec) => !alternatives.includes(rec)));
+      toast({
+        title: "Dashboard updated",
+        description: `Removed ${alternatives.map((rec) => rec.title).join(", ")}.`,
+      });
+      return;
+    }
+
+    const recommendation = formatCourseForRecommendation(
+      course.id,
+      [toCourse(course)],
+      [`Chosen over ${courses.filter((other) => other.id !== course.id).map((other) => other.title).join(", ")}`],
+      () => course.eligibility,
+    );
+    if (!recommendation) return;
+    recommendation.hours_required = course.hoursRequired ?? undefined;
+    recommendation.availability_score = availability[course.id];
+
+    if (alternatives.length > 0) {
+      const [replaced, ...removed] = alternatives;
+      setRecommendations(
+        recommendations.flatMap((rec) => {
+          if (rec === replaced) return [recommendation];
+          return removed.includes(rec) ? [] : [rec];
+        }),
+      );
+      toast({
+        title: "Dashboard updated",
+        description: `${course.title} replaced ${alternatives.map((rec) => rec.title).join(", ")}.`,
+      });
+    } else if (addRecommendation(recommendation)) {
+      toast({ title: "Added to Dashboard", description: course.title });
+    } else {
+      setCourseToAdd(recommendation);
+    }
+  };
+
+  const handleConfirmSwap = (oldCourseId: number) => {
+    if (!courseToAdd) return;
+    setCourseToAdd(null);
+    if (!replaceRecommendation(oldCourseId, courseToAdd)) return;
+    toast({ title: "Dashboard updated", description: `${courseToAdd.title} replaced a course on your Dashboard.` });
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-6xl">
+      {backLink}
+      <h1 className="text-3xl font-bold mb-2">Compare Courses</h1>
+      <p className="text-gray-600 mb-8">
+        {careerGoal ? `Career relevance is measured against your goal: ${careerGoal}.` : "Set a career goal in your profile to see how each course fits it."}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full table-fixed border-collapse">
+          <thead>
+            <tr>
+              <th className="w-40" />
+              {courses.map((course) => (
+                <th key={course.id} scope="col" className="pb-4 pr-4 text-left align-bottom">
+                  {course.subject && (
+                    <Badge variant="secondary" className="mb-2">
+                      {course.subject}
+                    </Badge>
+                  )}
+                  <div className="flex items-start justify-between gap-2">
+                    <Link href={`/courses/${course.id}`} className="text-lg font-semibold hover:text-blue-600 hover:underline">
+                      {course.title}
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => removeFromCompare(course.id)}
+                      className="text-gray-400 hover:text-gray-700"
+                      aria-label={`Stop comparing ${course.title}`}
+                      title="Remove from the comparison tray"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-sm text-gray-800">
+            <Row label="Credits">
+              {courses.map((course) => (
+                <td key={course.id} className="py-3 pr-4">
+                  {course.credits}
+                </td>
+              ))}
+            </Row>
+            <Row label="Difficulty">
+              {courses.map((course) => (
+                <td key={course.id} className="py-3 pr-4">
+                  {course.difficulty}
+                  {course.hoursRequired !== null && <span className="text-gray-500"> · {course.hoursRequired} hours/week</span>}
+                </td>
+              ))}
+            </Row>
+            <Row label="Schedule">
+              {courses.map((course) => {
+                const check = checkAgainstPlan(course, recommendations);
+                return (
+                  <td key={course.id} className="py-3 pr-4">
+                    {course.timeSlots.length === 0 ? (
+                      <p>Flexible</p>
+                    ) : (
+                      <ul className="space-y-0.5">
+                        {course.timeSlots.map((slot) => (
+                          <li key={slot}>{formatTimeSlot(slot, { clock: "12h" })}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {check.status === "on-plan" && <p className="mt-1 text-xs text-gray-500">Already on your plan</p>}
+                    {check.status === "clear" && <p className="mt-1 text-xs text-green-700">Fits your current plan</p>}
+                    {check.status === "unknown" && <p className="mt-1 text-xs text-gray-500">Could not check against your plan</p>}
+                    {check.status === "conflict" && (
+                      <p className="mt-1 flex items-start gap-1 text-xs text-red-600">
+                        <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                        Conflicts with {check.with.join(", ")}
+                      </p>
+                    )}
+                  </td>
+                );
+              })}
+            </Row>
+            <Row label="Availability">
+              {courses.map((course) => {
+                const score = availability[course.id];
+                const occupancy = score === undefined ? null : Math.round((1 - score) * 100);
+                return (
+                  <td key={course.id} className="py-3 pr-4">
+                    {occupancy === null ? (
+                      <span className="text-gray-500">No enrollment history</span>
+                    ) : (
+                      <span className={occupancyColor(occupancy)}>{occupancy}% expected full</span>
+                    )}
+                  </td>
+                );
+              })}
+            </Row>
+            <Row label="Prerequisites">
+              {courses.map((course) => (
+                <td key={course.id} className="py-3 pr-4">
+                  {course.eligibility.eligible ? (
+                    <span className="inline-flex items-center gap-1 text-green-700">
+                      <CheckCircle className="h-4 w-4" /> Met
+                    </span>
+                  ) : (
+                    <span className="text-amber-700">Missing {formatMissingPrerequisites(course.eligibility.missingPrerequisites)}</span>
+                  )}
+                </td>
+              ))}
+            </Row>
+            <Row label="Career relevance">
+              {courses.map(({ id, careerRelevance }) => (
+                <td key={id} className="py-3 pr-4 space-y-1">
+                  {careerRelevance.requiredForGoal && <Badge>Required for your goal</Badge>}
+                  {!careerRelevance.requiredForGoal && careerRelevance.onGoalPath && <Badge variant="secondary">On your career path</Badge>}
+                  {careerRelevance.requiredBy.length > 0 && (
+                    <p className="text-gray-600">Required by {careerRelevance.requiredBy.join(", ")}</p>
+                  )}
+                  {careerRelevance.requiredBy.length === 0 && careerRelevance.careerPaths.length > 0 && (
+                    <p className="text-gray-600">Useful for {careerRelevance.careerPaths.join(", ")}</p>
+                  )}
+                  {careerRelevance.requiredBy.length === 0 && careerRelevance.careerPaths.length === 0 && (
+                    <p className="text-gray-500">Not tied to a career path</p>
+                  )}
+                </td>
+              ))}
+            </Row>
+            <tr className="border-t border-gray-200">
+              <td />
+              {courses.map((course) => {
+                const onDashboard = recommendations.some((rec) => rec.course_id === course.id);
+                const keepOnly = onDashboard && plannedAlternatives(course).length > 0;
+                return (
+                  <td key={course.id} className="py-4 pr-4">
+                    <Button className="w-full" onClick={() => handleUse(course)} disabled={onDashboard && !keepOnly}>
+                      {keepOnly ? "Keep only this one" : onDashboard ? "On your Dashboard" : "Use this one"}
+                    </Button>
+                  </td>
+                );
+              })}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {courseToAdd && (
+        <SwapConfirmationDialog
+          course={courseToAdd}
+          dashboardCourses={recommendations}
+          onConfirm={handleConfirmSwap}
+          onCancel={() => setCourseToAdd(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to prerender
+export default function CompareCoursesPage() {
+  return (
+    <Suspense>
+      <CourseComparison />
+    </Suspense>
+  );
+}
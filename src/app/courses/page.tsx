@@ -1,13 +1,29 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo, Suspense } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { useAuth } from "@/components/auth/AuthProvider";
-import { supabase } from "@/lib/supabase";
+import { formatTimeSlot } from "@/lib/timeSlot";
+import WatchButton from "@/components/courses/WatchButton";
+import CompareButton from "@/components/courses/CompareButton";
+import FilterBar from "@/components/courses/FilterBar";
+import Highlight from "@/components/courses/Highlight";
+import type { CourseSearchField, CourseSearchHit } from "@/lib/retrieval";
+import {
+  courseQueryToParams,
+  parseCourseQuery,
+  type CourseFilters,
+  type CoursePage,
+  type CourseQuery,
+  type CourseSort,
+  type FacetCounts,
+  type SortDirection,
+} from "@/lib/courseSearch";
 
 interface Course {
   id: number;
@@ -22,110 +38,107 @@ interface Course {
   is_elective: boolean;
   learning_mode: string;
   keywords: string;
+  // Only on search results
+  highlights?: CourseSearchHit["highlights"];
 }
 
-// Simple interface for filter parameters
-interface Filters {
-  subject?: string;
-  semester?: string;
-  credits?: number;
-  learning_mode?: string;
-  is_elective?: boolean;
-  search?: string;
+const NO_FILTERS: CourseFilters = {};
+
+const SORT_OPTIONS: { value: string; label: string; sort: CourseSort; direction: SortDirection }[] = [
+  { value: "title-asc", label: "Title (A-Z)", sort: "title", direction: "asc" },
+  { value: "title-desc", label: "Title (Z-A)", sort: "title", direction: "desc" },
+  { value: "credits-asc", label: "Fewest credits", sort: "credits", direction: "asc" },
+  { value: "credits-desc", label: "Most credits", sort: "credits", direction: "desc" },
+  { value: "availability-desc", label: "Most seats available", sort: "availability", direction: "desc" },
+  { value: "availability-asc", label: "Fewest seats available", sort: "availability", direction: "asc" },
+  // Offered only while searching
+  { value: "relevance", label: "Best match", sort: "relevance", direction: "desc" },
+];
+
+// A field of a search result with the matching words marked, or the plain text otherwise
+function highlighted(course: Course, field: CourseSearchField, text: string) {
+  const highlight = course.highlights?.find(candidate => candidate.field === field);
+  return highlight ? <Highlight segments={highlight.snippet} /> : text;
 }
 
+// useSearchParams needs a Suspense boundary to prerender the rest of the page
 export default function CoursesPage() {
-  const { user } = useAuth();
+  return (
+    <Suspense>
+      <CourseCatalog />
+    </Suspense>
+  );
+}
+
+function CourseCatalog() {
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<Filters>({});
   const [searchTerm, setSearchTerm] = useState("");
   
-  // Subjects, semesters, and learning modes for filter options
-  const [subjects, setSubjects] = useState<string[]>([]);
-  const [semesters, setSemesters] = useState<string[]>([]);
-  const [learningModes, setLearningModes] = useState<string[]>([]);
+  // Filters and sort live in the URL, so catalog views can be bookmarked and shared and survive
+  // reloads and back/forward. Malformed URLs show the whole catalog.
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const urlQuery = useMemo(() => {
+    const parsed = parseCourseQuery(new URLSearchParams(searchParams.toString()));
+    return parsed.ok ? parsed.query : null;
+  }, [searchParams]);
+  const filters = urlQuery?.filters ?? NO_FILTERS;
   
-  // Load courses on initial render and when filters change
+  // Filter options and counts for the current filters, and where the next page starts
+  const [facets, setFacets] = useState<FacetCounts | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // Only the latest request may update the list, so a slow response cannot overwrite newer filters
+  const requestId = useRef(0);
+  
+  const sortOptions = SORT_OPTIONS.filter(option => option.sort !== "relevance" || filters.search);
+  const { value: sortOption, sort, direction } = sortOptions.find(
+    option => option.sort === urlQuery?.sort && option.direction === urlQuery.direction
+  ) ?? SORT_OPTIONS[0];
+  
+  // Push rather than replace, so back returns to the previous filters
+  const navigate = useCallback((query: Partial<CourseQuery>) => {
+    const params = courseQueryToParams(query).toString();
+    router.push(params ? `${pathname}?${params}` : pathname, { scroll: false });
+  }, [router, pathname]);
+  
+  // Keep the search box in step with the URL, e.g. after going back
+  useEffect(() => {
+    setSearchTerm(filters.search ?? "");
+  }, [filters.search]);
+  
+  // Fetch one page of the catalog; without a cursor this replaces the list
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const id = ++requestId.current;
+    const params = courseQueryToParams({ filters, sort, direction, cursor });
+    const response = await fetch(`/api/courses?${params}`);
+    
+    if (!response.ok) {
+      throw new Error(`Failed to load courses: ${response.status}`);
+    }
+    
+    const page: CoursePage<Course> = await response.json();
+    if (id !== requestId.current) return;
+    
+    setCourses(prev => cursor ? [...prev, ...page.courses] : page.courses);
+    setNextCursor(page.nextCursor);
+    setFacets(page.facets);
+    setTotal(page.total);
+  }, [filters, sort, direction]);
+  
+  // Load courses on initial render and when filters or sorting change
   useEffect(() => {
     const loadCourses = async () => {
       setLoading(true);
       setError(null);
       
       try {
-        // Start with a base query
-        let query = supabase
-          .from("courses")
-          .select("*");
-        
-        // Apply filters if provided
-        if (filters.subject && filters.subject !== "all_subjects") {
-          query = query.eq("subject", filters.subject);
-        }
-        
-        if (filters.semester && filters.semester !== "all_semesters") {
-          query = query.eq("semester", filters.semester);
-        }
-        
-        if (filters.credits && filters.credits !== 0) {
-          query = query.eq("credits", filters.credits);
-        }
-        
-        if (filters.learning_mode && filters.learning_mode !== "all_modes") {
-          query = query.eq("learning_mode", filters.learning_mode);
-        }
-        
-        if (filters.is_elective !== undefined) {
-          query = query.eq("is_elective", filters.is_elective);
-        }
-        
-        if (filters.search) {
-          // For basic search, we'll use ilike which is less prone to pattern matching errors
-          const safeSearch = filters.search.replace(/[%_]/g, ''); // Remove special characters
-          if (safeSearch) {
-            query = query.ilike('title', `%${safeSearch}%`);
-          }
-        }
-        
-        const { data, error } = await query;
-        
-        if (error) {
-          throw new Error(error.message);
-        }
-        
-        // Process data to ensure time_slots is handled correctly
-        const processedData = (data || []).map(course => {
-          // Handle time_slots conversion from string or JSON
-          let timeSlots = course.time_slots || [];
-          
-          if (typeof timeSlots === 'string') {
-            try {
-              timeSlots = JSON.parse(timeSlots);
-            } catch (e) {
-              timeSlots = [timeSlots];
-            }
-          } else if (!Array.isArray(timeSlots)) {
-            // If it's not an array or a string, make it an empty array
-            timeSlots = [];
-          }
-          
-          return {
-            ...course,
-            time_slots: timeSlots
-          };
-        });
-        
-        setCourses(processedData);
-        
-        // Extract unique filter options from courses
-        const uniqueSubjects = [...new Set(data?.map((c: Course) => c.subject))] as string[];
-        const uniqueSemesters = [...new Set(data?.map((c: Course) => c.semester))] as string[];
-        const uniqueLearningModes = [...new Set(data?.map((c: Course) => c.learning_mode))] as string[];
-        
-        setSubjects(uniqueSubjects);
-        setSemesters(uniqueSemesters);
-        setLearningModes(uniqueLearningModes);
+        await fetchPage(null);
       } catch (err) {
         console.error("Error fetching courses:", err);
         setError("Failed to load courses. Please try again later.");
@@ -135,51 +148,40 @@ export default function CoursesPage() {
     };
     
     loadCourses();
-  }, [filters]);
+  }, [fetchPage]);
+  
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      await fetchPage(nextCursor);
+    } catch (err) {
+      console.error("Error fetching more courses:", err);
+      setLoadMoreError("Failed to load more courses. Please try again.");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
   
-  // Apply search filter
+  // Apply search filter; new searches start with the best matches first
   const handleSearch = () => {
-    setFilters(prev => ({
-      ...prev,
-      search: searchTerm
-    }));
+    const search = searchTerm.trim() || undefined;
+    navigate(search
+      ? { filters: { ...filters, search } }
+      : sort === "relevance"
+        ? { filters: { ...filters, search } }
+        : { filters: { ...filters, search }, sort, direction });
   };
   
   // Reset all filters
   const resetFilters = () => {
-    setFilters({});
-    setSearchTerm("");
+    navigate({});
   };
   
-  // Update a specific filter
-  const updateFilter = (key: keyof Filters, value: any) => {
-    // Handle special "all_*" values which should clear the filter
-    if (value === "all_subjects" || value === "all_semesters" || 
-        value === "all_modes" || value === "all_credits" || value === "all_types") {
-      // Clear this specific filter
-      setFilters(prev => {
-        const newFilters = { ...prev };
-        delete newFilters[key];
-        return newFilters;
-      });
-      return;
-    }
-    
-    // For credits, parse as number
-    if (key === 'credits' && value) {
-      value = parseInt(value);
-    }
-    
-    // For is_elective, convert to boolean
-    if (key === 'is_elective') {
-      value = value === "true";
-    }
-    
-    // Set the filter value
-    setFilters(prev => ({
-      ...prev,
-      [key]: value
-    }));
+  const changeSort = (value: string) => {
+    const option = SORT_OPTIONS.find(candidate => candidate.value === value) ?? SORT_OPTIONS[0];
+    navigate({ filters, sort: option.sort, direction: option.direction });
   };
   
   // Format keywords as an array
@@ -195,7 +197,7 @@ export default function CoursesPage() {
       <h1 className="text-3xl font-bold mb-6">Course Catalog</h1>
       
       {/* Search and filters */}
-      <div className="grid gap-4 mb-8 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 mb-4 md:grid-cols-2">
         <div className="space-y-2">
           <label className="text-sm font-medium">Search</label>
           <div className="flex">
@@ -215,107 +217,27 @@ export default function CoursesPage() {
         </div>
         
         <div className="space-y-2">
-          <label className="text-sm font-medium">Subject</label>
-          <Select 
-            value={filters.subject || "all_subjects"} 
-            onValueChange={(value) => updateFilter('subject', value)}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="All Subjects" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all_subjects">All Subjects</SelectItem>
-              {subjects.map((subject) => (
-                <SelectItem key={subject} value={subject}>{subject}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        <div className="space-y-2">
-          <label className="text-sm font-medium">Semester</label>
-          <Select 
-            value={filters.semester || "all_semesters"} 
-            onValueChange={(value) => updateFilter('semester', value)}
-          >
+          <label className="text-sm font-medium">Sort By</label>
+          <Select value={sortOption} onValueChange={changeSort}>
             <SelectTrigger>
-              <SelectValue placeholder="All Semesters" />
+              <SelectValue placeholder="Title (A-Z)" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all_semesters">All Semesters</SelectItem>
-              {semesters.map((semester) => (
-                <SelectItem key={semester} value={semester}>{semester}</SelectItem>
+              {sortOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
               ))}
             </SelectContent>
           </Select>
         </div>
-        
-        <div className="space-y-2">
-          <label className="text-sm font-medium">Learning Mode</label>
-          <Select 
-            value={filters.learning_mode || "all_modes"} 
-            onValueChange={(value) => updateFilter('learning_mode', value)}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="All Modes" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all_modes">All Modes</SelectItem>
-              {learningModes.map((mode) => (
-                <SelectItem key={mode} value={mode}>{mode}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-        
-        <div className="space-y-2">
-          <label className="text-sm font-medium">Credits</label>
-          <Select 
-            value={filters.credits?.toString() || "all_credits"} 
-            onValueChange={(value) => updateFilter('credits', value)}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="Any Credits" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all_credits">Any Credits</SelectItem>
-              <SelectItem value="1">1 Credit</SelectItem>
-              <SelectItem value="2">2 Credits</SelectItem>
-              <SelectItem value="3">3 Credits</SelectItem>
-              <SelectItem value="4">4 Credits</SelectItem>
-              <SelectItem value="5">5+ Credits</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-        
-        <div className="space-y-2">
-          <label className="text-sm font-medium">Course Type</label>
-          <Select 
-            value={filters.is_elective !== undefined 
-              ? filters.is_elective.toString() 
-              : "all_types"} 
-            onValueChange={(value) => updateFilter('is_elective', value)}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="All Courses" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all_types">All Courses</SelectItem>
-              <SelectItem value="true">Electives Only</SelectItem>
-              <SelectItem value="false">Required Courses</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-        
-        <div className="flex items-end">
-          <Button 
-            variant="outline" 
-            onClick={resetFilters}
-            className="w-full"
-          >
-            Reset Filters
-          </Button>
-        </div>
+      </div>
+      
+      <div className="mb-8">
+        <FilterBar
+          filters={filters}
+          facets={facets}
+          onChange={next => navigate({ filters: next, sort, direction })}
+          onReset={resetFilters}
+        />
       </div>
       
       {/* Loading and error states */}
@@ -336,7 +258,7 @@ export default function CoursesPage() {
       {!loading && !error && (
         <>
           <div className="mb-4">
-            <p className="text-gray-600">Showing {courses.length} course{courses.length !== 1 ? 's' : ''}</p>
+            <p className="text-gray-600">Showing {courses.length} of {total} course{total !== 1 ? 's' : ''}</p>
           </div>
           
           {courses.length === 0 ? (
@@ -357,8 +279,12 @@ export default function CoursesPage() {
                   <CardHeader>
                     <div className="flex justify-between items-start">
                       <div>
-                        <CardTitle className="text-xl">{course.title}</CardTitle>
-                        <CardDescription>{course.instructor}</CardDescription>
+                        <CardTitle className="text-xl">
+                          <Link href={`/courses/${course.id}`} className="hover:underline">
+                            {highlighted(course, "title", course.title)}
+                          </Link>
+                        </CardTitle>
+                        <CardDescription>{highlighted(course, "instructor", course.instructor)}</CardDescription>
                       </div>
                       <Badge variant={course.is_elective ? "outline" : "default"}>
                         {course.is_elective ? "Elective" : "Required"}
@@ -366,7 +292,12 @@ export default function CoursesPage() {
                     </div>
                   </CardHeader>
                   <CardContent className="flex-grow">
-                    <p className="text-gray-600 mb-4">{course.description}</p>
+                    <p className="text-gray-600 mb-4">{highlighted(course, "description", course.description)}</p>
+                    {course.highlights?.some(highlight => highlight.field === "keywords") && (
+                      <p className="text-sm text-gray-500 mb-4">
+                        Matching keywords: {highlighted(course, "keywords", course.keywords)}
+                      </p>
+                    )}
                     
                     <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
                       <div>
@@ -390,10 +321,7 @@ export default function CoursesPage() {
                       <div className="mt-3">
                         <p className="font-medium text-sm">Schedule:</p>
                         <ul className="list-disc list-inside text-sm text-gray-600">
-                          {Array.isArray(course.time_slots) 
-                            ? course.time_slots.map((slot, i) => <li key={i}>{slot}</li>)
-                            : <li>{course.time_slots}</li>
-                          }
+                          {course.time_slots.map((slot, i) => <li key={i}>{formatTimeSlot(slot)}</li>)}
                         </ul>
                       </div>
                     )}
@@ -408,13 +336,24 @@ export default function CoursesPage() {
                       </div>
                     )}
                   </CardContent>
-                  <CardFooter className="border-t pt-4">
-                    <Button className="w-full">Enroll in Course</Button>
+                  <CardFooter className="border-t pt-4 gap-2">
+                    <WatchButton courseId={course.id} courseTitle={course.title} />
+                    <CompareButton courseId={course.id} courseTitle={course.title} />
+                    <Button className="flex-1">Enroll in Course</Button>
                   </CardFooter>
                 </Card>
               ))}
             </div>
           )}
+          
+          {nextCursor && (
+            <div className="mt-8 text-center">
+              <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore ? "Loading..." : "Load more courses"}
+              </Button>
+              {loadMoreError && <p className="mt-2 text-sm text-red-600">{loadMoreError}</p>}
+            </div>
+          )}
         </>
       )}
     </div>
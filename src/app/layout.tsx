@@ -5,6 +5,9 @@ import { cn } from "@/lib/utils";
 import { AuthProvider } from "@/components/auth/AuthProvider";
 import AuthenticatedLayout from "@/components/layout/AuthenticatedLayout";
 import { RecommendationsProvider } from "@/context/RecommendationsContext";
+import { WatchlistProvider } from "@/context/WatchlistContext";
+import { CompareProvider } from "@/context/CompareContext";
+import CompareTray from "@/components/courses/CompareTray";
 import { Toaster } from "@/components/ui/toaster";
 
 const inter = Inter({
@@ -31,8 +34,13 @@ export default function RootLayout({
       <body className={cn("antialiased min-h-screen bg-background", inter.variable)}>
         <AuthProvider>
           <RecommendationsProvider>
-            <AuthenticatedLayout>{children}</AuthenticatedLayout>
-            <Toaster />
+            <WatchlistProvider>
+              <CompareProvider>
+                <AuthenticatedLayout>{children}</AuthenticatedLayout>
+                <CompareTray />
+                <Toaster />
+              </CompareProvider>
+            </WatchlistProvider>
           </RecommendationsProvider>
         </AuthProvider>
       </body>
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface PublicProfile {
+  userId: string;
+  fullName: string;
+  careerGoal: string | null;
+  creditsCompleted: number;
+  skillGoals: string[];
+  courses: { id: number; title: string }[];
+}
+
+export default function PublicProfilePage() {
+  const { userId } = useParams<{ userId: string }>();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProfile(null);
+    setError(null);
+
+    const loadProfile = async () => {
+      try {
+        const response = await fetch(`/api/profile/public/${encodeURIComponent(userId)}`);
+        if (response.status === 401) {
+          if (!cancelled) setError("Sign in to view student profiles.");
+          return;
+        }
+        if (response.status === 404) {
+          if (!cancelled) setError("This profile does not exist or is not public.");
+          return;
+        }
+        if (!response.ok) throw new Error(`Failed to load profile: ${response.status}`);
+        const data: { profile: PublicProfile } = await response.json();
+        if (!cancelled) setProfile(data.profile);
+      } catch (err) {
+        console.error("Error fetching public profile:", err);
+        if (!cancelled) setError("Failed to load this profile. Please try again later.");
+      }
+    };
+
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">{error}</div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="text-center py-16">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+        <p className="text-gray-500">Loading profile...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-3xl">
+      <h1 className="text-3xl font-bold mb-1">{profile.fullName}</h1>
+      {profile.careerGoal && <p className="text-gray-600 mb-6">Working toward {profile.careerGoal}</p>}
+
+      <div className="grid gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Learning Journey</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">{profile.creditsCompleted} credits completed</p>
+            {profile.courses.length > 0 ? (
+              <ul className="space-y-2">
+                {profile.courses.map(course => (
+                  <li key={course.id}>
+                    <Link href={`/courses/${course.id}`} className="hover:underline">
+                      {course.title}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No courses taken yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {profile.skillGoals.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Skill Goals</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              {profile.skillGoals.map(skill => (
+                <Badge key={skill} variant="secondary">
+                  {skill}
+                </Badge>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
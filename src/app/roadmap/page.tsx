@@ -5,6 +5,7 @@ import { useAuth } from "@/components/auth/AuthProvider";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase";
 import Roadmap from "@/components/Roadmap";
+import DegreePlan from "@/components/DegreePlan";
 import { RecommendationsProvider } from "@/context/RecommendationsContext";
 
 interface StudentData {
@@ -98,6 +99,7 @@ export default function RoadmapPage() {
             A personalized course plan to help you achieve your career goals
           </p>
         </div>
+        {user && <DegreePlan userId={user.id} />}
         <RecommendationsProvider>
           <Roadmap
             careerGoal={studentData.career_goal_id}
@@ -0,0 +1,6 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Settings | Smart Course Selector",
+  description: "Manage your account settings and preferences",
+};
@@ -1,22 +1,94 @@
-import { Metadata } from "next";
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import type { UserSettings } from "@/lib/userSettings";
 
-export const metadata: Metadata = {
-  title: "Settings | Smart Course Selector",
-  description: "Manage your account settings and preferences",
-};
+function SettingRow({
+  id,
+  label,
+  description,
+  checked,
+  disabled,
+  onCheckedChange,
+}: {
+  id: string;
+  label: string;
+  description: string;
+  checked: boolean;
+  disabled: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <Label htmlFor={id} className="font-medium">
+          {label}
+        </Label>
+        <p className="text-zinc-500 text-sm">{description}</p>
+      </div>
+      <Switch id={id} checked={checked} disabled={disabled} onCheckedChange={onCheckedChange} />
+    </div>
+  );
+}
 
 export default function SettingsPage() {
+  const { user } = useAuth();
+  const { settings, isLoading, saveSettings } = useUserSettings();
+  const [draft, setDraft] = useState<UserSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start editing from the saved settings once they load
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const changes = (Object.keys(draft) as (keyof UserSettings)[]).filter(key => draft[key] !== settings[key]);
+  const disabled = !user || isLoading || isSaving;
+
+  const bind = (key: keyof UserSettings) => ({
+    checked: draft[key],
+    disabled,
+    onCheckedChange: (checked: boolean) => setDraft(prev => ({ ...prev, [key]: checked })),
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveSettings(Object.fromEntries(changes.map(key => [key, draft[key]])));
+      toast({ title: "Settings saved" });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast({
+        title: "Error",
+        description: "Could not save your settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <div className="container mx-auto p-6 pt-4 max-w-7xl">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Settings</h1>
-        <Button>Save Changes</Button>
+        <Button onClick={handleSave} disabled={disabled || changes.length === 0}>
+          {isSaving ? "Saving..." : "Save Changes"}
+        </Button>
       </div>
 
+      {!user && (
+        <p className="text-zinc-500 text-sm mb-6">Sign in to change your settings.</p>
+      )}
+
       <div className="grid gap-6">
         <Card>
           <CardHeader>
@@ -26,41 +98,32 @@ export default function SettingsPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <Label htmlFor="public-profile" className="font-medium">
-                  Public Profile
-                </Label>
-                <p className="text-zinc-500 text-sm">
-                  Allow others to view your learning journey and achievements
-                </p>
-              </div>
-              <Switch id="public-profile" />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div>
-                <Label htmlFor="email-notifications" className="font-medium">
-                  Email Notifications
-                </Label>
-                <p className="text-zinc-500 text-sm">
-                  Receive updates about new courses and learning opportunities
-                </p>
-              </div>
-              <Switch id="email-notifications" defaultChecked />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div>
-                <Label htmlFor="course-updates" className="font-medium">
-                  Course Updates
-                </Label>
-                <p className="text-zinc-500 text-sm">
-                  Get notified about updates to courses you're enrolled in
-                </p>
-              </div>
-              <Switch id="course-updates" defaultChecked />
-            </div>
+            <SettingRow
+              id="public-profile"
+              label="Public Profile"
+              description="Allow other students to view your learning journey and achievements"
+              {...bind("publicProfile")}
+            />
+            {user && settings.publicProfile && (
+              <p className="text-zinc-500 text-sm">
+                Your public profile is at{" "}
+                <Link href={`/profile/${user.id}`} className="underline">
+                  /profile/{user.id}
+                </Link>
+              </p>
+            )}
+            <SettingRow
+              id="email-notifications"
+              label="Email Notifications"
+              description="Receive updates about new courses, learning opportunities and watched course seats"
+              {...bind("emailNotifications")}
+            />
+            <SettingRow
+              id="course-updates"
+              label="Course Updates"
+              description="Get alerts when seats open up or run low in courses you watch"
+              {...bind("courseUpdates")}
+            />
           </CardContent>
         </Card>
 
@@ -72,41 +135,24 @@ export default function SettingsPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <Label htmlFor="ai-suggestions" className="font-medium">
-                  AI Course Suggestions
-                </Label>
-                <p className="text-zinc-500 text-sm">
-                  Allow the AI to suggest courses based on your profile
-                </p>
-              </div>
-              <Switch id="ai-suggestions" defaultChecked />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div>
-                <Label htmlFor="learning-history" className="font-medium">
-                  Use Learning History
-                </Label>
-                <p className="text-zinc-500 text-sm">
-                  Let the AI analyze your past courses to improve recommendations
-                </p>
-              </div>
-              <Switch id="learning-history" defaultChecked />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <div>
-                <Label htmlFor="career-analysis" className="font-medium">
-                  Career Path Analysis
-                </Label>
-                <p className="text-zinc-500 text-sm">
-                  Get insights about how courses align with your career goals
-                </p>
-              </div>
-              <Switch id="career-analysis" defaultChecked />
-            </div>
+            <SettingRow
+              id="ai-suggestions"
+              label="AI Course Suggestions"
+              description="Allow the AI to suggest courses based on your profile"
+              {...bind("aiSuggestions")}
+            />
+            <SettingRow
+              id="learning-history"
+              label="Use Learning History"
+              description="Let the AI analyze your past courses to improve recommendations"
+              {...bind("useLearningHistory")}
+            />
+            <SettingRow
+              id="career-analysis"
+              label="Career Path Analysis"
+              description="Get insights about how courses align with your career goals"
+              {...bind("careerPathAnalysis")}
+            />
           </CardContent>
         </Card>
       </div>
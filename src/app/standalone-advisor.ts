@@ -1,14 +1,15 @@
-import OpenAI from "openai";
+import { complete } from "../lib/llm";
 import { buildAdvisorPrompt } from "../utils/advisorPromptBuilder";
 import type {
   Course,
   Prerequisite,
   Student,
 } from "../utils/advisorPromptBuilder";
+import { POLICY_SOURCES, retrievePassages } from "../utils/retrieval";
 import supabaseClient from "../utils/supabaseClient";
 
 /**
- * A standalone function that directly uses the OpenAI API to get course recommendations
+ * A standalone function that calls the LLM gateway directly to get course recommendations
  * This doesn't use the API routes and acts as a direct client
  */
 export async function getAdvisorRecommendation(
@@ -16,13 +17,6 @@ export async function getAdvisorRecommendation(
   question = "What courses should I take next semester?",
 ) {
   try {
-    // Initialize OpenAI client with Azure endpoint
-    const client = new OpenAI({
-      baseURL:
-        process.env.AI_ENDPOINT || "https://models.inference.ai.azure.com",
-      apiKey: process.env.OPENAI_API_KEY || process.env.GITHUB_TOKEN,
-    });
-
     // 1. Fetch student data
     const { data: studentData } = await supabaseClient
       .from("students")
@@ -54,26 +48,29 @@ export async function getAdvisorRecommendation(
       .from("prerequisites")
       .select("*");
 
-    // 3. Build the personalized prompt
+    // 3. Build the personalized prompt with policy passages for the question
+    const passages = await retrievePassages(question, {
+      sources: POLICY_SOURCES,
+    });
     const systemPrompt = buildAdvisorPrompt(
       student,
       courses as Course[],
       (prerequisites as Prerequisite[]) || [],
+      { passages, query: question },
     );
 
-    // 4. Ask gpt-4o-mini
-    const response = await client.chat.completions.create({
+    // 4. Ask the configured provider
+    const response = await complete({
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: question },
       ],
       temperature: 0.8,
-      top_p: 1.0,
-      max_tokens: 1200,
-      model: process.env.AI_MODEL || "gpt-4o-mini",
+      topP: 1.0,
+      maxTokens: 1200,
     });
 
-    return response.choices[0].message.content;
+    return response.text;
   } catch (error) {
     console.error("Error in advisor recommendation:", error);
     throw error;
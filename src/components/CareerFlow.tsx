@@ -1,7 +1,7 @@
 // components/CareerFlow.tsx
 "use client";
 
-import React, { useCallback, useLayoutEffect, useState } from 'react';
+import React, { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import ReactFlow, {
   Background,
   Controls,
@@ -15,6 +15,8 @@ import ReactFlow, {
   ReactFlowProvider,
   useNodesState,
   useEdgesState,
+  Handle,
+  Position,
 } from 'reactflow';
 import * as d3 from 'd3';
 import 'reactflow/dist/style.css';
@@ -33,12 +35,17 @@ import {
   Move,
   GitBranch,
   Route,
-  Info
+  Info,
+  Network,
+  LockOpen
 } from 'lucide-react';
+import { downstreamNodeIds, layoutLayered } from '@/lib/prerequisiteFlow';
 
 interface CareerFlowProps {
   initialNodes: Node[];
   initialEdges: Edge[];
+  // 'prerequisites' shows a course DAG with completed/available/locked nodes
+  mode?: 'career' | 'prerequisites';
 }
 
 interface SimulationNode extends d3.SimulationNodeDatum {
@@ -74,6 +81,10 @@ const CustomNode = ({ data }: any) => {
         return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'upcoming':
         return 'bg-gray-100 text-gray-800 border-gray-200';
+      case 'available':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'locked':
+        return 'bg-red-50 text-red-700 border-red-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -81,6 +92,8 @@ const CustomNode = ({ data }: any) => {
 
   return (
     <Card className="min-w-[250px] max-w-[350px] p-4 shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-105 cursor-pointer bg-white/90 backdrop-blur-sm">
+      <Handle type="target" position={Position.Left} className="!bg-gray-400" />
+      <Handle type="source" position={Position.Right} className="!bg-gray-400" />
       <div className="space-y-3">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
@@ -126,13 +139,41 @@ const nodeTypes: NodeTypes = {
   custom: CustomNode,
 };
 
-const CareerFlow: React.FC<CareerFlowProps> = ({ initialNodes, initialEdges }) => {
+const CareerFlow: React.FC<CareerFlowProps> = ({ initialNodes, initialEdges, mode = 'career' }) => {
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
   const [selectedNode, setSelectedNode] = React.useState<Node | null>(null);
-  const [layout, setLayout] = useState<'clustered' | 'roadpath'>('clustered');
+  const [layout, setLayout] = useState<'clustered' | 'roadpath' | 'dag'>(mode === 'prerequisites' ? 'dag' : 'clustered');
   const { zoomIn, zoomOut, fitView } = useReactFlow();
 
+  // In prerequisite mode, the selected course and everything it unlocks
+  const unlockedIds = useMemo(
+    () => mode === 'prerequisites' && selectedNode ? downstreamNodeIds(selectedNode.id, edges) : [],
+    [mode, selectedNode, edges]
+  );
+
+  const displayedNodes = useMemo(() => {
+    if (mode !== 'prerequisites' || !selectedNode) return nodes;
+    const highlighted = new Set([selectedNode.id, ...unlockedIds]);
+    return nodes.map(node => ({
+      ...node,
+      style: { ...node.style, opacity: highlighted.has(node.id) ? 1 : 0.35 }
+    }));
+  }, [mode, nodes, selectedNode, unlockedIds]);
+
+  const displayedEdges = useMemo(() => {
+    if (mode !== 'prerequisites' || !selectedNode) return edges;
+    const highlighted = new Set([selectedNode.id, ...unlockedIds]);
+    return edges.map(edge => {
+      const active = highlighted.has(edge.source) && highlighted.has(edge.target);
+      return {
+        ...edge,
+        animated: active,
+        style: { ...edge.style, stroke: active ? '#2563eb' : '#cbd5e1', strokeWidth: active ? 3 : 1.5 }
+      };
+    });
+  }, [mode, edges, selectedNode, unlockedIds]);
+
   const onNodeClick = useCallback((event: React.MouseEvent, node: Node) => {
     setSelectedNode(node);
   }, []);
@@ -218,12 +259,34 @@ const CareerFlow: React.FC<CareerFlowProps> = ({ initialNodes, initialEdges }) =
     setNodes(newNodes);
   }, [nodes, setNodes]);
 
-  // Apply initial clustered layout
+  // Layered layout: each course sits one column right of its deepest prerequisite
+  const applyLayeredLayout = useCallback(() => {
+    setNodes(layoutLayered(nodes, edges));
+  }, [nodes, edges, setNodes]);
+
+  // Latest layout function, so the effect below reruns when the mode changes, not on every node update
+  const applyClusteredLayoutRef = useRef(applyClusteredLayout);
+  applyClusteredLayoutRef.current = applyClusteredLayout;
+
+  // Apply initial clustered layout; prerequisite graphs arrive already layered
   useLayoutEffect(() => {
-    applyClusteredLayout();
-  }, []);
+    if (mode === 'career') {
+      applyClusteredLayoutRef.current();
+    }
+  }, [mode]);
 
   const toggleLayout = () => {
+    if (mode === 'prerequisites') {
+      if (layout === 'dag') {
+        setLayout('clustered');
+        applyClusteredLayout();
+      } else {
+        setLayout('dag');
+        applyLayeredLayout();
+      }
+      return;
+    }
+
     if (layout === 'clustered') {
       setLayout('roadpath');
       applyRoadPathLayout();
@@ -236,8 +299,8 @@ const CareerFlow: React.FC<CareerFlowProps> = ({ initialNodes, initialEdges }) =
   return (
     <div className="relative w-full h-[800px] bg-gradient-to-br from-gray-50 to-white rounded-xl border shadow-sm">
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayedNodes}
+        edges={displayedEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         nodeTypes={nodeTypes}
@@ -255,7 +318,9 @@ const CareerFlow: React.FC<CareerFlowProps> = ({ initialNodes, initialEdges }) =
           nodeColor={(node) => {
             switch (node.data?.status) {
               case 'completed': return '#22c55e';
-              case 'current': return '#3b82f6';
+              case 'current':
+              case 'available': return '#3b82f6';
+              case 'locked': return '#f87171';
               default: return '#94a3b8';
             }
           }}
@@ -267,9 +332,15 @@ const CareerFlow: React.FC<CareerFlowProps> = ({ initialNodes, initialEdges }) =
             size="icon"
             onClick={toggleLayout}
             className="bg-white/80 backdrop-blur-sm"
-            title={layout === 'clustered' ? 'Switch to Road Path' : 'Switch to Clustered'}
+            title={
+              mode === 'prerequisites'
+                ? (layout === 'dag' ? 'Switch to Clustered' : 'Switch to Layered')
+                : (layout === 'clustered' ? 'Switch to Road Path' : 'Switch to Clustered')
+            }
           >
-            {layout === 'clustered' ? 
+            {mode === 'prerequisites' ? (
+              layout === 'dag' ? <GitBranch className="h-4 w-4" /> : <Network className="h-4 w-4" />
+            ) : layout === 'clustered' ? 
               <Route className="h-4 w-4" /> : 
               <GitBranch className="h-4 w-4" />
             }
@@ -323,6 +394,29 @@ const CareerFlow: React.FC<CareerFlowProps> = ({ initialNodes, initialEdges }) =
                   ))}
                 </div>
               )}
+              {mode === 'prerequisites' && (
+                <div className="mt-3 text-sm">
+                  <div className="flex items-center space-x-2 font-medium text-gray-700">
+                    <LockOpen className="h-4 w-4 text-blue-600" />
+                    <span>Unlocks</span>
+                  </div>
+                  {unlockedIds.length > 0 ? (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {unlockedIds.map(id => {
+                        const unlocked = nodes.find(node => node.id === id);
+                        const direct = edges.some(edge => edge.source === selectedNode.id && edge.target === id);
+                        return (
+                          <Badge key={id} variant="outline" className={direct ? 'border-blue-300 text-blue-800' : 'text-gray-600'}>
+                            {unlocked?.data.title ?? id}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-gray-500">No other courses require this one.</p>
+                  )}
+                </div>
+              )}
             </div>
             <Button
               variant="ghost"
@@ -341,7 +435,7 @@ const CareerFlow: React.FC<CareerFlowProps> = ({ initialNodes, initialEdges }) =
 const FlowWithProvider: React.FC<CareerFlowProps> = (props) => {
   return (
     <ReactFlowProvider>
-      <CareerFlow initialNodes={props.initialNodes} initialEdges={props.initialEdges} />
+      <CareerFlow initialNodes={props.initialNodes} initialEdges={props.initialEdges} mode={props.mode} />
     </ReactFlowProvider>
   );
 };
@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase } from '@/lib/supabase';
 import { Combobox } from '@headlessui/react';
 import { CheckIcon, ChevronUpDownIcon } from '@heroicons/react/20/solid';
+import Highlight from '@/components/courses/Highlight';
+import type { CourseSearchField, HighlightSegment } from '@/lib/retrieval';
 
 type Course = {
   id: string;
@@ -10,6 +11,18 @@ type Course = {
   credits: number;
 };
 
+// A search result: the course plus the words that matched, by field
+type SearchResult = Course & {
+  highlights: { field: CourseSearchField; snippet: HighlightSegment[] }[];
+};
+
+const FIELD_LABELS: Record<CourseSearchField, string> = {
+  title: 'Title',
+  keywords: 'Keywords',
+  instructor: 'Instructor',
+  description: 'Description',
+};
+
 type Props = {
   selectedCourses: Course[];
   onCoursesChange: (courses: Course[]) => void;
@@ -17,7 +30,7 @@ type Props = {
 
 export default function CourseSearchDropdown({ selectedCourses, onCoursesChange }: Props) {
   const [query, setQuery] = useState('');
-  const [courses, setCourses] = useState<Course[]>([]);
+  const [courses, setCourses] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const searchTimeout = useRef<NodeJS.Timeout>();
 
@@ -30,14 +43,11 @@ export default function CourseSearchDropdown({ selectedCourses, onCoursesChange
 
       setIsLoading(true);
       try {
-        const { data, error } = await supabase
-          .from('courses')
-          .select('id, title, subject, credits')
-          .ilike('title', `%${query}%`)
-          .limit(10);
-
-        if (error) throw error;
-        setCourses(data || []);
+        const response = await fetch(`/api/courses/search?q=${encodeURIComponent(query)}&limit=10`);
+        if (!response.ok) throw new Error(`Failed to search courses: ${response.status}`);
+        const { results } = await response.json();
+        // Selected courses are compared and stored by string ID
+        setCourses(results.map((result: SearchResult) => ({ ...result, id: String(result.id) })));
       } catch (error) {
         console.error('Error searching courses:', error);
       } finally {
@@ -86,37 +96,51 @@ export default function CourseSearchDropdown({ selectedCourses, onCoursesChange
               No courses found.
             </div>
           )}
-          {courses.map((course) => (
-            <Combobox.Option
-              key={course.id}
-              value={course}
-              className={({ active }) =>
-                `relative cursor-default select-none py-2 pl-3 pr-9 ${
-                  active ? 'bg-indigo-600 text-white' : 'text-gray-900'
-                }`
-              }
-            >
-              {({ active, selected }) => (
-                <>
-                  <div className="flex items-center">
-                    <span className="truncate font-medium">{course.title}</span>
-                    <span className="ml-2 truncate text-sm text-gray-500">
-                      {course.subject} • {course.credits} credits
-                    </span>
-                  </div>
-                  {selected && (
-                    <span
-                      className={`absolute inset-y-0 right-0 flex items-center pr-4 ${
-                        active ? 'text-white' : 'text-indigo-600'
-                      }`}
-                    >
-                      <CheckIcon className="h-5 w-5" aria-hidden="true" />
-                    </span>
-                  )}
-                </>
-              )}
-            </Combobox.Option>
-          ))}
+          {courses.map(({ highlights, ...course }) => {
+            const title = highlights.find((highlight) => highlight.field === 'title');
+            // Show why a course matched when it was not its title
+            const other = highlights.find((highlight) => highlight.field !== 'title');
+            return (
+              <Combobox.Option
+                key={course.id}
+                value={course}
+                className={({ active }) =>
+                  `relative cursor-default select-none py-2 pl-3 pr-9 ${
+                    active ? 'bg-indigo-600 text-white' : 'text-gray-900'
+                  }`
+                }
+              >
+                {({ active, selected }) => (
+                  <>
+                    <div className="flex items-center">
+                      {title ? (
+                        <Highlight segments={title.snippet} className="truncate font-medium" />
+                      ) : (
+                        <span className="truncate font-medium">{course.title}</span>
+                      )}
+                      <span className="ml-2 truncate text-sm text-gray-500">
+                        {course.subject} • {course.credits} credits
+                      </span>
+                    </div>
+                    {other && !title && (
+                      <div className={`truncate text-xs ${active ? 'text-indigo-200' : 'text-gray-500'}`}>
+                        {FIELD_LABELS[other.field]}: <Highlight segments={other.snippet} />
+                      </div>
+                    )}
+                    {selected && (
+                      <span
+                        className={`absolute inset-y-0 right-0 flex items-center pr-4 ${
+                          active ? 'text-white' : 'text-indigo-600'
+                        }`}
+                      >
+                        <CheckIcon className="h-5 w-5" aria-hidden="true" />
+                      </span>
+                    )}
+                  </>
+                )}
+              </Combobox.Option>
+            );
+          })}
         </Combobox.Options>
       </div>
 
@@ -4,16 +4,22 @@ import { useEffect, useState, useCallback } from "react";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { supabase } from "@/lib/supabase";
 import Link from "next/link";
-import { AcademicCapIcon, BookOpenIcon, ClockIcon, ChartBarIcon, UserIcon, ChatBubbleLeftRightIcon, InformationCircleIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { AcademicCapIcon, BookOpenIcon, ClockIcon, ChartBarIcon, UserIcon, ChatBubbleLeftRightIcon, InformationCircleIcon, ArrowPathIcon, CalendarDaysIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { useRecommendations } from "@/context/RecommendationsContext";
-import { getCourseAvailabilityData } from "@/lib/courseAvailability";
-
-// API Config
-const API_CONFIG = {
-  url: process.env.NEXT_PUBLIC_GEMINI_API_URL || 'https://generativelanguage.googleapis.com/v1beta/models',
-  model: process.env.NEXT_PUBLIC_GEMINI_MODEL || 'gemini-1.5-flash',
-  key: process.env.NEXT_PUBLIC_GEMINI_API_KEY
-};
+import { calculateCreditRequirements } from "@/lib/creditRequirements";
+import { getDifficultyLevel } from "@/lib/difficulty";
+import { formatTimeSlot, normalizeTimeSlot } from "@/lib/timeSlot";
+import WeeklyCalendar from "@/components/courses/WeeklyCalendar";
+import type { MissingPrerequisite } from "@/lib/eligibility";
+import { generateObject } from "@/lib/llm/client";
+import { courseExplanationsSchema, unknownCourseIssues } from "@/lib/recommendationSchemas";
+import { getEnrollmentForecasts } from "@/lib/courseAvailability";
+import type { EnrollmentForecast } from "@/lib/enrollmentForecast";
+import WatchButton from "@/components/courses/WatchButton";
+import CompareButton from "@/components/courses/CompareButton";
+import SeatAlerts from "@/components/courses/SeatAlerts";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import type { UserSettings } from "@/lib/userSettings";
 
 // Types
 type Course = {
@@ -53,245 +59,131 @@ type CourseRecommendation = {
   time_slot: string;
   reasons: string[];
   prerequisites?: string[];
+  missing_prerequisites?: MissingPrerequisite[];
   hours_required?: number;
   availability_score?: number;
 };
 
-// Utility to check for time slot conflicts
-function hasTimeConflict(timeSlot1: any, timeSlot2: any): boolean {
-  try {
-    if (!timeSlot1 || !timeSlot2) return false;
-    
-    // Parse time slots based on their type
-    const parseTimeSlot = (slot: any): { days: string, time: string } | null => {
-      if (!slot) return null;
-      
-      // If it's already an object with days and time
-      if (typeof slot === 'object' && slot.days && slot.time) {
-        return { days: slot.days, time: slot.time };
-      }
-      
-      // If it's a string that looks like JSON
-      if (typeof slot === 'string' && slot.startsWith('{')) {
-        try {
-          const parsed = JSON.parse(slot);
-          if (parsed.days && parsed.time) {
-            return { days: parsed.days, time: parsed.time };
-          }
-        } catch (e) {
-          console.error("Error parsing time slot JSON:", e);
-        }
-      }
-      
-      // If it's a string in format "MWF 10:00-11:15"
-      if (typeof slot === 'string' && /^[MTWRFSU]+ \d+:\d+-\d+:\d+$/.test(slot)) {
-        const parts = slot.split(' ');
-        return { days: parts[0], time: parts[1] };
-      }
-      
-      return null;
-    };
-    
-    const slot1 = parseTimeSlot(timeSlot1);
-    const slot2 = parseTimeSlot(timeSlot2);
-    
-    // If either slot couldn't be parsed, assume no conflict
-    if (!slot1 || !slot2) return false;
-    
-    // Check for day overlaps
-    const days1 = slot1.days.split('');
-    const days2 = slot2.days.split('');
-    
-    const commonDays = days1.filter(day => days2.includes(day));
-    if (commonDays.length === 0) return false;
-    
-    // If days overlap, check times
-    const [start1, end1] = slot1.time.split('-');
-    const [start2, end2] = slot2.time.split('-');
-    
-    // Convert times to minutes for easier comparison
-    const timeToMinutes = (time: string) => {
-      const [hours, minutes] = time.split(':').map(num => parseInt(num));
-      return hours * 60 + minutes;
-    };
-    
-    const start1Mins = timeToMinutes(start1);
-    const end1Mins = timeToMinutes(end1);
-    const start2Mins = timeToMinutes(start2);
-    const end2Mins = timeToMinutes(end2);
-    
-    // Check for time overlap
-    return !(end1Mins <= start2Mins || end2Mins <= start1Mins);
-  } catch (e) {
-    console.error('Error comparing time slots:', e);
-    return false; // Assume no conflict if we can't determine
-  }
-}
+// Shape returned by POST /api/schedule
+type ScheduleResponse = {
+  schedules: {
+    courses: { course: Course; score: number }[];
+    totalCredits: number;
+    score: number;
+  }[];
+  availabilityScores: Record<number, number>;
+  relaxedCredits: boolean;
+};
 
-// Format time slot for display
-function formatTimeSlot(timeSlot: any): string {
-  if (!timeSlot) return 'Flexible';
-  
-  try {
-    // Handle object format directly
-    if (typeof timeSlot === 'object') {
-      const { days, time } = timeSlot;
-      
-      const dayMap: Record<string, string> = {
-        'M': 'Monday',
-        'T': 'Tuesday',
-        'W': 'Wednesday',
-        'R': 'Thursday',
-        'F': 'Friday'
-      };
-      
-      if (days && time) {
-        const formattedDays = days.split('').map((day: string) => dayMap[day] || day).join(', ');
-        return `${formattedDays} ${time}`;
-      }
-      return JSON.stringify(timeSlot);
-    }
-    
-    // Handle string format
-    const timeSlotStr = String(timeSlot);
-    if (timeSlotStr.startsWith('{')) {
-      try {
-        const slotData = JSON.parse(timeSlotStr);
-        const { days, time } = slotData;
-        
-        const dayMap: Record<string, string> = {
-          'M': 'Monday',
-          'T': 'Tuesday',
-          'W': 'Wednesday',
-          'R': 'Thursday',
-          'F': 'Friday'
-        };
-        
-        const formattedDays = days.split('').map((day: string) => dayMap[day] || day).join(', ');
-        return `${formattedDays} ${time}`;
-      } catch (jsonError) {
-        console.error('Error parsing time slot JSON:', jsonError);
-        return timeSlotStr;
-      }
-    } else {
-      return timeSlotStr;
-    }
-  } catch (error) {
-    console.error('Error formatting time slot:', error);
-    return String(timeSlot) || 'Flexible';
+// Template reasons used when the LLM is unavailable
+function buildFallbackReasons(student: Student, course: Course, difficultyLevel: string, availabilityScore: number): string[] {
+  const reasons: string[] = [];
+
+  // Map subjects to specific technical skills
+  const subjectToSkills: Record<string, string[]> = {
+    'Computer Science': ['Data structures', 'Algorithms', 'Problem-solving methodologies'],
+    'Programming': ['Software architecture', 'Design patterns', 'Version control systems'],
+    'Web Development': ['HTML5/CSS3', 'JavaScript frameworks', 'Responsive design'],
+    'Data Science': ['Python libraries (Pandas, NumPy)', 'Statistical analysis', 'Data visualization'],
+    'Artificial Intelligence': ['Machine learning algorithms', 'Neural networks', 'TensorFlow/PyTorch'],
+    'Cybersecurity': ['Encryption techniques', 'Network security', 'Vulnerability assessment'],
+    'Mobile Development': ['Native app development', 'Cross-platform frameworks', 'Mobile UI design'],
+    'Database': ['SQL query optimization', 'Database design', 'NoSQL technologies']
+  };
+
+  // Add skill-specific reason
+  if (course.subject && subjectToSkills[course.subject]) {
+    const skills = subjectToSkills[course.subject];
+    reasons.push(`Master ${skills[0]} and ${skills[1]} for professional ${course.subject} applications`);
+  } else {
+    reasons.push(`Develop technical expertise in ${course.subject || 'key technology'} fundamentals`);
   }
-}
 
-// Utility to determine difficulty level based on hours_required
-function getDifficultyLevel(hoursRequired: number | null | undefined): string {
-  if (hoursRequired === null || hoursRequired === undefined) {
-    return 'Intermediate'; // Default difficulty level
+  // Add project-based reason
+  const projectIdeas: Record<string, string> = {
+    'Computer Science': 'algorithm visualization tools',
+    'Programming': 'scalable software applications',
+    'Web Development': 'dynamic web applications with APIs',
+    'Data Science': 'predictive analytics dashboards',
+    'Artificial Intelligence': 'machine learning models for real-world problems',
+    'Cybersecurity': 'secure systems and penetration testing tools',
+    'Mobile Development': 'feature-rich mobile applications',
+    'Database': 'optimized database systems'
+  };
+
+  if (course.subject && projectIdeas[course.subject]) {
+    reasons.push(`Build portfolio-quality ${projectIdeas[course.subject]} using industry standards`);
+  } else {
+    reasons.push(`Apply concepts through hands-on projects relevant to ${student.career_goal_id}`);
   }
-  
-  // Define hour ranges for each difficulty level
-  if (hoursRequired < 4) {
-    return 'Beginner';
-  } else if (hoursRequired >= 4 && hoursRequired < 8) {
-    return 'Intermediate';
-  } else if (hoursRequired >= 8 && hoursRequired < 12) {
-    return 'Advanced';
+
+  // Add career-focused reason
+  if (course.career_paths && course.career_paths.includes(student.career_goal_id)) {
+    reasons.push(`Gain essential skills required for ${student.career_goal_id} positions in top companies`);
   } else {
-    return 'Expert';
+    reasons.push(`Develop versatile technical abilities valued across multiple tech industries`);
   }
-}
 
-// Get course recommendations from LLM
-async function getRecommendationsFromLLM(student: Student, courses: Course[]): Promise<CourseRecommendation[]> {
-  if (!API_CONFIG.key) {
-    console.error('Missing API key');
-    return [];
+  // Add difficulty-level specific reason based on hours_required
+  reasons.push(`This ${difficultyLevel.toLowerCase()}-level course requires about ${course.hours_required || 'variable'} hours weekly`);
+
+  // Add availability-based reason if availability is low
+  if (availabilityScore < 0.5) {
+    reasons.push(`This course tends to fill up quickly - register early to secure your spot`);
   }
 
-  try {
-    console.log('Generating course recommendations...');
-    
-    // Get course IDs for availability calculation
-    const courseIds = courses.map(course => course.id);
-    
-    // Get historical availability data
-    const availabilityScores = await getCourseAvailabilityData(courseIds);
-    console.log('Retrieved availability data for', Object.keys(availabilityScores).length, 'courses');
-    
-    // Create a concise student profile
-      const studentProfile = {
-        career_goal: student.career_goal_id,
-      technical_level: student.technical_proficiency,
-      preferred_subjects: student.preferred_subjects,
-      time_slot_preference: student.course_slot_preference,
-        current_courses: student.current_courses_taken,
-      credits_completed: student.credits_completed
-    };
-    
-    // Select appropriate courses for recommendation
-    const coursesData = courses.map(course => {
-      // Determine difficulty level based on hours_required if available
-      const calculatedDifficultyLevel = course.hours_required 
-        ? getDifficultyLevel(course.hours_required)
-        : course.difficulty_level || 'Intermediate';
-      
-      // Get availability score (default to 0.7 if no data)
-      const availabilityScore = availabilityScores[course.id] || 0.7;
-      
-      return {
-        id: course.id,
-        title: course.title,
-        subject: course.subject,
-        credits: course.credits,
-        difficulty_level: calculatedDifficultyLevel,
-        time_slots: course.time_slots,
-        prerequisites: course.prerequisites,
-        career_paths: course.career_paths,
-        technical_level: course.technical_level,
-        hours_required: course.hours_required,
-        description: course.description || `Course on ${course.subject}`,
-        availability_score: availabilityScore
-      };
-    });
-    
-    // Create an optimized prompt
-    const prompt = `You are a course recommendation expert with deep technical knowledge. Recommend exactly 3 courses for a student with ABSOLUTELY NO TIME CONFLICTS between them.
-      
+  return reasons;
+}
+
+// Ask the LLM to explain an already-solved schedule. Course selection is not up to the model.
+// The career goal and course history only reach the prompt when the student's settings allow it.
+async function getExplanationsFromLLM(
+  student: Student,
+  courses: Course[],
+  availabilityScores: Record<number, number>,
+  settings: UserSettings
+): Promise<Record<number, string[]>> {
+  // Create a concise student profile
+  const studentProfile = {
+    ...(settings.careerPathAnalysis && { career_goal: student.career_goal_id }),
+    technical_level: student.technical_proficiency,
+    preferred_subjects: student.preferred_subjects,
+    time_slot_preference: student.course_slot_preference,
+    ...(settings.useLearningHistory && { current_courses: student.current_courses_taken }),
+    credits_completed: student.credits_completed
+  };
+
+  const coursesData = courses.map(course => ({
+    id: course.id,
+    title: course.title,
+    subject: course.subject,
+    credits: course.credits,
+    difficulty_level: course.hours_required ? getDifficultyLevel(course.hours_required) : course.difficulty_level || 'Intermediate',
+    career_paths: course.career_paths,
+    hours_required: course.hours_required,
+    description: course.description || `Course on ${course.subject}`,
+    availability_score: availabilityScores[course.id] ?? 0.7
+  }));
+
+  const prompt = `You are a course recommendation expert with deep technical knowledge. The following courses have already been selected for a student by our scheduler; they are conflict-free and fit the student's credit load. Do NOT suggest other courses. Explain why each course is a good fit.
+
 Student Profile:
 ${JSON.stringify(studentProfile, null, 2)}
 
-Available Courses:
+Selected Courses:
 ${JSON.stringify(coursesData, null, 2)}
 
-CRITICAL REQUIREMENTS:
-1. THE 3 COURSES MUST HAVE ABSOLUTELY NO TIME CONFLICTS WITH EACH OTHER. This is your top priority.
-   - Carefully check each course's time_slots property before recommending
-   - Verify day and time combinations don't overlap
-   - If time_slots is a string like "MWF 10:00-11:15", check that other recommended courses don't have classes on the same days at overlapping times
-   - If time_slots is a JSON object with "days" and "time" properties, check each day letter (M=Monday, T=Tuesday, etc.) and time range for conflicts
-
-2. Prioritize courses that align with the student's career goal and could be REQUIRED for their career path
-3. Consider course AVAILABILITY when making recommendations:
-   - Higher availability_score (closer to 1.0) means easier to enroll
-   - Lower availability_score (closer to 0.0) means the course tends to fill up quickly
-   - Look for courses with DIVERSE occupancy rates, but PRIORITIZE LOW OCCUPANCY COURSES (high availability_score)
-   - Try to include at least one course with availability_score above 0.7 (which means under 30% occupancy)
-4. Consider the student's technical level and preferred subjects
-5. Check for prerequisites (student should have taken them already)
-6. Ensure the difficulty level is appropriate based on the hours_required value
-
-For each recommended course, provide HIGHLY SPECIFIC technical reasons:
+For each course, provide HIGHLY SPECIFIC technical reasons:
 - List exactly what TECHNICAL SKILLS the student will learn (programming languages, frameworks, tools, concepts) not more than 2-3 words
-- Explain how these skills will help in their SPECIFIC CAREER PATH not more than 2-3 words
-- Describe specific PROJECTS or APPLICATIONS they could build with these skills not more than 2-3 words
+${settings.careerPathAnalysis ? '- Explain how these skills will help in their SPECIFIC CAREER PATH not more than 2-3 words\n' : ''}- Describe specific PROJECTS or APPLICATIONS they could build with these skills not more than 2-3 words
 - Mention how this builds on their current knowledge or technical level not more than 2-3 words
 - If the course has high occupancy (availability_score below 0.3, meaning >70% full), mention that the student should register early
 
 Respond ONLY with a JSON object in this exact format:
 {
-  "recommendations": [
+  "explanations": [
     {
       "course_id": 123,
-      "match_score": 0.95,
       "reasons": [
         "Learn React.js, Redux, and React Hooks for building responsive single-page applications",
         "Develop skills in modern JavaScript ES6+ features needed for frontend development",
@@ -301,264 +193,85 @@ Respond ONLY with a JSON object in this exact format:
   ]
 }`;
 
-    // Call the LLM API
-    const response = await fetch(`${API_CONFIG.url}/${API_CONFIG.model}:generateContent?key=${API_CONFIG.key}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.3,
-          topP: 0.8,
-          topK: 40,
-          maxOutputTokens: 1024
-        }
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
+  // Call the LLM gateway in JSON mode; explanations may only cover the selected courses
+  const parsed = await generateObject({
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.3,
+    topP: 0.8,
+    maxTokens: 1024
+  }, courseExplanationsSchema, {
+    validate: value => unknownCourseIssues(
+      'explanations.course_id',
+      value.explanations.map(entry => entry.course_id),
+      courses
+    )
+  });
 
-    const data = await response.json();
-    const responseText = data.candidates[0].content.parts[0].text;
-    
-    // Extract JSON from response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
-    
-    const recommendations = JSON.parse(jsonMatch[0]);
-    
-    // Format recommendations with course details
-    return recommendations.recommendations
-        .map((rec: any) => {
-        const course = courses.find(c => c.id === rec.course_id);
-          if (!course) return null;
-
-          // Calculate difficulty level based on hours_required if available
-          const difficultyLevel = course.hours_required 
-            ? getDifficultyLevel(course.hours_required) 
-            : course.difficulty_level || 'Intermediate';
-            
-          // Get availability score
-          const availabilityScore = availabilityScores[course.id] || 0.7;
-
-          return {
-            course_id: course.id,
-            title: course.title,
-            subject: course.subject || 'General',
-            credits: course.credits,
-            match_score: rec.match_score || 0.7,
-            difficulty_level: difficultyLevel,
-            time_slot: typeof course.time_slots === 'object' ? 
-              JSON.stringify(course.time_slots) : course.time_slots,
-            reasons: rec.reasons || ['Recommended based on your profile'],
-            prerequisites: course.prerequisites || [],
-            hours_required: course.hours_required,
-            availability_score: availabilityScore
-          };
-        })
-        .filter(Boolean);
-    } catch (error) {
-    console.error('Error getting LLM recommendations:', error);
-    
-    // Return basic recommendations as fallback - but ensure no time conflicts
-    // and respect the hours_required field for difficulty level
-    const nonConflictingCourses: Course[] = [];
-    
-    // Try to get course availability data
-    let availabilityData: Record<number, number> = {};
-    try {
-      availabilityData = await getCourseAvailabilityData(courses.map(course => course.id));
-    } catch (err) {
-      console.error('Failed to get availability data for fallback recommendations:', err);
-    }
-    
-    // Sort courses by relevance to career goal and availability
-    const sortedCourses = [...courses].sort((a, b) => {
-      // First priority: Required courses for career path
-      const aIsRequired = a.career_paths && a.career_paths.includes(student.career_goal_id);
-      const bIsRequired = b.career_paths && b.career_paths.includes(student.career_goal_id);
-      
-      if (aIsRequired && !bIsRequired) return -1;
-      if (!aIsRequired && bIsRequired) return 1;
-      
-      // Second priority: Matched subjects to student preferences
-      const aMatchesSubject = student.preferred_subjects?.includes(a.subject || '');
-      const bMatchesSubject = student.preferred_subjects?.includes(b.subject || '');
-      
-      if (aMatchesSubject && !bMatchesSubject) return -1;
-      if (!aMatchesSubject && bMatchesSubject) return 1;
-      
-      // Third priority: Availability score (higher is better)
-      const aAvailability = availabilityData[a.id] || 0.5;
-      const bAvailability = availabilityData[b.id] || 0.5;
-      
-      return bAvailability - aAvailability;
-    });
-    
-    // Get up to 3 courses with no time conflicts
-    for (const course of sortedCourses) {
-      // Skip if we already have 3 courses
-      if (nonConflictingCourses.length >= 3) break;
-      
-      // Check if this course conflicts with any already selected courses
-      const hasConflict = nonConflictingCourses.some(selectedCourse => 
-        hasTimeConflict(
-          typeof course.time_slots === 'object' ? JSON.stringify(course.time_slots) : course.time_slots,
-          typeof selectedCourse.time_slots === 'object' ? JSON.stringify(selectedCourse.time_slots) : selectedCourse.time_slots
-        )
-      );
-      
-      // If no conflict, add to our selection
-      if (!hasConflict) {
-        nonConflictingCourses.push(course);
-      }
-    }
-    
-    // If we couldn't find 3 non-conflicting courses, just take the top ones until we have 3
-    if (nonConflictingCourses.length < 3) {
-      for (const course of sortedCourses) {
-        if (nonConflictingCourses.length >= 3) break;
-        if (!nonConflictingCourses.includes(course)) {
-          nonConflictingCourses.push(course);
-        }
-      }
-    }
-    
-    return nonConflictingCourses
-      .map(course => {
-        // Generate course-specific technical reasons based on available course data
-        const reasons: string[] = [];
-        
-        // Calculate difficulty level based on hours_required if available
-        const difficultyLevel = course.hours_required 
-          ? getDifficultyLevel(course.hours_required) 
-          : course.difficulty_level || 'Intermediate';
-        
-        // Get availability score from our calculated data
-        const availabilityScore = availabilityData[course.id] || 0.7;
-        
-        // Map subjects to specific technical skills
-        const subjectToSkills: Record<string, string[]> = {
-          'Computer Science': ['Data structures', 'Algorithms', 'Problem-solving methodologies'],
-          'Programming': ['Software architecture', 'Design patterns', 'Version control systems'],
-          'Web Development': ['HTML5/CSS3', 'JavaScript frameworks', 'Responsive design'],
-          'Data Science': ['Python libraries (Pandas, NumPy)', 'Statistical analysis', 'Data visualization'],
-          'Artificial Intelligence': ['Machine learning algorithms', 'Neural networks', 'TensorFlow/PyTorch'],
-          'Cybersecurity': ['Encryption techniques', 'Network security', 'Vulnerability assessment'],
-          'Mobile Development': ['Native app development', 'Cross-platform frameworks', 'Mobile UI design'],
-          'Database': ['SQL query optimization', 'Database design', 'NoSQL technologies']
-        };
-        
-        // Add skill-specific reason
-        if (course.subject && subjectToSkills[course.subject]) {
-          const skills = subjectToSkills[course.subject];
-          reasons.push(`Master ${skills[0]} and ${skills[1]} for professional ${course.subject} applications`);
-        } else {
-          reasons.push(`Develop technical expertise in ${course.subject || 'key technology'} fundamentals`);
-        }
-        
-        // Add project-based reason
-        const projectIdeas: Record<string, string> = {
-          'Computer Science': 'algorithm visualization tools',
-          'Programming': 'scalable software applications',
-          'Web Development': 'dynamic web applications with APIs',
-          'Data Science': 'predictive analytics dashboards',
-          'Artificial Intelligence': 'machine learning models for real-world problems',
-          'Cybersecurity': 'secure systems and penetration testing tools',
-          'Mobile Development': 'feature-rich mobile applications',
-          'Database': 'optimized database systems'
-        };
-        
-        if (course.subject && projectIdeas[course.subject]) {
-          reasons.push(`Build portfolio-quality ${projectIdeas[course.subject]} using industry standards`);
-        } else {
-          reasons.push(`Apply concepts through hands-on projects relevant to ${student.career_goal_id}`);
-        }
-        
-        // Add career-focused reason
-        if (course.career_paths && course.career_paths.includes(student.career_goal_id)) {
-          reasons.push(`Gain essential skills required for ${student.career_goal_id} positions in top companies`);
-        } else {
-          reasons.push(`Develop versatile technical abilities valued across multiple tech industries`);
-        }
-        
-        // Add difficulty-level specific reason based on hours_required
-        const hourBasedReason = `This ${difficultyLevel.toLowerCase()}-level course requires about ${course.hours_required || 'variable'} hours weekly`;
-        reasons.push(hourBasedReason);
-        
-        // Add availability-based reason if availability is low
-        if (availabilityScore < 0.5) {
-          reasons.push(`This course tends to fill up quickly - register early to secure your spot`);
-        }
-        
-        return {
-          course_id: course.id,
-          title: course.title,
-          subject: course.subject || 'General',
-          credits: course.credits,
-          match_score: 0.7,
-          difficulty_level: difficultyLevel,
-          time_slot: typeof course.time_slots === 'object' ? 
-            JSON.stringify(course.time_slots) : course.time_slots,
-          reasons,
-          prerequisites: course.prerequisites || [],
-          hours_required: course.hours_required,
-          availability_score: availabilityScore
-        };
-      });
+  const explanations: Record<number, string[]> = {};
+  for (const entry of parsed.explanations) {
+    explanations[entry.course_id] = entry.reasons;
   }
+  return explanations;
 }
 
-// Helper function to calculate student enrollment status and credit requirements
-function calculateCreditRequirements(creditsCompleted: number) {
-  // Constants for credit requirements - total for graduation
-  const TOTAL_CREDITS = 30;
-  const SEMESTERS_REMAINING = Math.ceil((TOTAL_CREDITS - creditsCompleted) / 15); // Estimate remaining semesters
-  
-  // Credit requirements per semester - updated values
-  const FULL_TIME_MIN_PER_SEMESTER = 9;
-  const FULL_TIME_MAX_PER_SEMESTER = 12;
-  const PART_TIME_MIN_PER_SEMESTER = 3;
-  const PART_TIME_MAX_PER_SEMESTER = 9;
-  
-  // Determine if student is close to graduation
-  const isNearGraduation = creditsCompleted >= 90;
-  
-  // Calculate remaining credits
-  const remainingCredits = TOTAL_CREDITS - creditsCompleted;
-  
-  // If too few credits remain for full-time, recommend part-time
-  const recommendedStatus = remainingCredits < FULL_TIME_MIN_PER_SEMESTER || SEMESTERS_REMAINING <= 1 ? 'part-time' : 'full-time';
-  
-  // Set min/max credits per semester based on recommended status
-  const minCredits = recommendedStatus === 'full-time' ? FULL_TIME_MIN_PER_SEMESTER : PART_TIME_MIN_PER_SEMESTER;
-  const maxCredits = recommendedStatus === 'full-time' ? FULL_TIME_MAX_PER_SEMESTER : PART_TIME_MAX_PER_SEMESTER;
-  
-  // Calculate optimal number of courses (assuming 3 credits per course on average)
-  const avgCreditsPerCourse = 3;
-  const minCourses = Math.ceil(minCredits / avgCreditsPerCourse);
-  const maxCourses = Math.floor(maxCredits / avgCreditsPerCourse);
-  
-  // Calculate optimal courses based on remaining credits spread over estimated remaining semesters
-  const creditsPerSemester = Math.ceil(remainingCredits / Math.max(1, SEMESTERS_REMAINING));
-  const optimalCourses = Math.min(maxCourses, Math.max(minCourses, Math.ceil(creditsPerSemester / avgCreditsPerCourse)));
-  
-  return {
-    remainingCredits,
-    recommendedStatus,
-    minCredits,
-    maxCredits,
-    minCourses,
-    maxCourses,
-    optimalCourses,
-    isNearGraduation,
-    semestersRemaining: SEMESTERS_REMAINING,
-    totalCredits: TOTAL_CREDITS
-  };
+// Get course recommendations: the server-side solver picks the schedule, the LLM explains it
+async function getRecommendations(student: Student, settings: UserSettings): Promise<CourseRecommendation[]> {
+  console.log('Solving course schedule...');
+
+  const response = await fetch('/api/schedule', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId: student.user_id })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Schedule API error: ${response.status}`);
+  }
+
+  const { schedules, availabilityScores, relaxedCredits }: ScheduleResponse = await response.json();
+  const best = schedules[0];
+  if (!best) {
+    console.warn('Solver found no conflict-free schedule for this student');
+    return [];
+  }
+
+  if (relaxedCredits) {
+    console.warn('No schedule fits the recommended credit load; using best conflict-free schedule');
+  }
+
+  const scheduledCourses = best.courses.map(({ course }) => course);
+
+  let explanations: Record<number, string[]> = {};
+  try {
+    explanations = await getExplanationsFromLLM(student, scheduledCourses, availabilityScores, settings);
+  } catch (error) {
+    console.error('Error getting LLM explanations, using template reasons:', error);
+  }
+
+  return best.courses.map(({ course, score }) => {
+    // Calculate difficulty level based on hours_required if available
+    const difficultyLevel = course.hours_required
+      ? getDifficultyLevel(course.hours_required)
+      : course.difficulty_level || 'Intermediate';
+
+    const availabilityScore = availabilityScores[course.id] ?? 0.7;
+
+    return {
+      course_id: course.id,
+      title: course.title,
+      subject: course.subject || 'General',
+      credits: course.credits,
+      match_score: score,
+      difficulty_level: difficultyLevel,
+      time_slot: normalizeTimeSlot(course.time_slots),
+      reasons: explanations[course.id] || buildFallbackReasons(student, course, difficultyLevel, availabilityScore),
+      prerequisites: course.prerequisites || [],
+      // The solver only schedules courses whose prerequisites are all completed
+      missing_prerequisites: [],
+      hours_required: course.hours_required,
+      availability_score: availabilityScore
+    };
+  });
 }
 
 // Credit Status Component with improved UI
@@ -710,71 +423,37 @@ export default function Dashboard() {
   const { recommendations, setRecommendations, updateRecommendations, applyUpdateRecommendations, recommendationsLoaded } = useRecommendations();
   const [loading, setLoading] = useState(true);
   const [loadingRecommendations, setLoadingRecommendations] = useState(false);
+  const { settings, isLoading: settingsLoading } = useUserSettings();
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [viewingHistoryFor, setViewingHistoryFor] = useState<number | null>(null);
+  // Undefined while loading, null when the course has no enrollment history
+  const [enrollmentForecast, setEnrollmentForecast] = useState<EnrollmentForecast | null | undefined>(undefined);
+  const [recommendationsView, setRecommendationsView] = useState<'cards' | 'calendar'>('cards');
 
-  // Generate course recommendations with automatic retry
-  const generateRecommendations = useCallback(async (studentData: Student, coursesData: Course[], retryCount = 0, maxRetries = 3) => {
+  // Generate course recommendations. The solver guarantees a conflict-free schedule,
+  // so the only retries left are for transient request failures.
+  const generateRecommendations = useCallback(async (studentData: Student, retryCount = 0, maxRetries = 2) => {
     setLoadingRecommendations(true);
     
     try {
-      const newRecommendations = await getRecommendationsFromLLM(studentData, coursesData);
+      const newRecommendations = await getRecommendations(studentData, settings);
       
       if (newRecommendations.length > 0) {
-        // Verify no time conflicts
-        let hasConflicts = false;
-        const conflictPairs: [string, string][] = [];
-        
-        // Check each pair of courses for conflicts
-        for (let i = 0; i < newRecommendations.length; i++) {
-          for (let j = i + 1; j < newRecommendations.length; j++) {
-            const course1 = newRecommendations[i];
-            const course2 = newRecommendations[j];
-            
-            if (hasTimeConflict(course1.time_slot, course2.time_slot)) {
-              hasConflicts = true;
-              conflictPairs.push([course1.title, course2.title]);
-              console.error(`Time conflict detected between "${course1.title}" and "${course2.title}"`);
-            }
-          }
-        }
-        
-        if (hasConflicts && retryCount < maxRetries) {
-          // Log the conflict but don't show error to user, retry instead
-          console.warn(`Attempt ${retryCount + 1}/${maxRetries}: Time conflicts detected in recommendations, retrying...`);
-          conflictPairs.forEach(([course1, course2]) => {
-            console.warn(`  - Conflict between "${course1}" and "${course2}"`);
-          });
-          
-          // Retry with incremented retry count
-          setLoadingRecommendations(false);
-          return generateRecommendations(studentData, coursesData, retryCount + 1, maxRetries);
-        } else if (hasConflicts) {
-          // After max retries, use recommendations but don't show error to user
-          console.warn(`Reached max retries (${maxRetries}). Using recommendations despite conflicts.`);
-          console.log('Generated recommendations with some time conflicts that could not be resolved automatically.');
-          // No error message displayed to user
-          setError(null);
-        } else {
-          console.log('No time conflicts detected in recommendations. All good!');
-          setError(null);
-        }
-        
-        console.log('Generated new recommendations via LLM');
-    setRecommendations(newRecommendations);
+        console.log('Generated new recommendations from solved schedule');
+        setError(null);
+        setRecommendations(newRecommendations);
         const now = new Date();
         setLastUpdated(now);
         console.log('Last updated timestamp set to:', now.toLocaleString());
       }
     } catch (error) {
       console.error('Error generating recommendations:', error);
-      // Instead of showing the error, retry if we haven't hit max retries
       if (retryCount < maxRetries) {
         console.warn(`Attempt ${retryCount + 1}/${maxRetries}: Error generating recommendations, retrying...`);
         setLoadingRecommendations(false);
-        return generateRecommendations(studentData, coursesData, retryCount + 1, maxRetries);
+        return generateRecommendations(studentData, retryCount + 1, maxRetries);
       } else {
         // After max retries, just show a generic message
         setError('Unable to generate optimal recommendations. Showing best available options.');
@@ -782,7 +461,7 @@ export default function Dashboard() {
     } finally {
       setLoadingRecommendations(false);
     }
-  }, [setRecommendations]);
+  }, [setRecommendations, settings]);
 
   // Load student and course data
   useEffect(() => {
@@ -813,7 +492,7 @@ export default function Dashboard() {
         // Normalize course data
         const normalizedCourses = coursesData.map(course => ({
           ...course,
-          time_slots: typeof course.time_slots === 'object' ? JSON.stringify(course.time_slots) : course.time_slots
+          time_slots: normalizeTimeSlot(course.time_slots)
         }));
 
         console.log('Loaded courses:', normalizedCourses.length);
@@ -836,7 +515,12 @@ export default function Dashboard() {
   // Handle recommendations after initial data load
   useEffect(() => {
     // Only run this effect after initial data load and recommendations have been loaded from storage
-    if (!initialLoadComplete || !recommendationsLoaded || !student || courses.length === 0) {
+    if (!initialLoadComplete || !recommendationsLoaded || settingsLoading || !student || courses.length === 0) {
+      return;
+    }
+
+    // The student turned AI course suggestions off in Settings
+    if (!settings.aiSuggestions) {
       return;
     }
 
@@ -845,17 +529,17 @@ export default function Dashboard() {
     // Generate recommendations only if we don't have any stored ones
     if (recommendations.length === 0) {
       console.log('No existing recommendations found, generating new ones...');
-      generateRecommendations(student, courses);
+      generateRecommendations(student);
     } else {
       console.log('Using existing recommendations from context');
       // Update the last updated timestamp if we have existing recommendations
       setLastUpdated(new Date());
     }
-  }, [initialLoadComplete, recommendationsLoaded, recommendations.length, student, courses, generateRecommendations]);
+  }, [initialLoadComplete, recommendationsLoaded, settingsLoading, settings.aiSuggestions, recommendations.length, student, courses, generateRecommendations]);
 
   // Handle refresh recommendations
   const handleRefreshRecommendations = useCallback(() => {
-    if (student && courses.length > 0) {
+    if (student && courses.length > 0 && settings.aiSuggestions) {
       // Clear any existing error
       setError(null);
       
@@ -863,9 +547,9 @@ export default function Dashboard() {
       console.log('Manually refreshing recommendations...');
       
       // Generate new recommendations
-      generateRecommendations(student, courses);
+      generateRecommendations(student);
     }
-  }, [student, courses, generateRecommendations]);
+  }, [student, courses, settings.aiSuggestions, generateRecommendations]);
 
   // Handle apply new recommendations from chat
   const handleApplyRecommendations = useCallback(() => {
@@ -883,6 +567,19 @@ export default function Dashboard() {
     setViewingHistoryFor(null);
   };
 
+  // Load the forecast behind the enrollment history modal
+  useEffect(() => {
+    if (viewingHistoryFor === null) return;
+    let cancelled = false;
+    setEnrollmentForecast(undefined);
+    getEnrollmentForecasts([viewingHistoryFor]).then(forecasts => {
+      if (!cancelled) setEnrollmentForecast(forecasts[viewingHistoryFor] ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [viewingHistoryFor]);
+
   // Loading state
   if (loading) {
     return (
@@ -918,11 +615,35 @@ export default function Dashboard() {
         </p>
       </div>
 
+      <SeatAlerts className="mb-8" />
+
       {/* Recommendations */}
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-2xl font-bold text-gray-900">Your Course Recommendations</h2>
           <div className="flex items-center gap-4">
+            <div className="inline-flex rounded-md border border-gray-200 bg-white p-0.5 text-sm">
+              {(['cards', 'calendar'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setRecommendationsView(view)}
+                  className={`px-3 py-1 rounded ${recommendationsView === view ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                >
+                  {view === 'cards' ? 'Cards' : 'Weekly calendar'}
+                </button>
+              ))}
+            </div>
+            {recommendations.length > 0 && (
+              <a
+                href={`/api/schedule/ics?userId=${encodeURIComponent(student.user_id)}&courseIds=${recommendations.map(rec => rec.course_id).join(',')}`}
+                download
+                className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-200 bg-white text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                title="Download your schedule as an .ics file for Google Calendar, Outlook or Apple Calendar"
+              >
+                <CalendarDaysIcon className="h-4 w-4 mr-1.5" />
+                Export to calendar
+              </a>
+            )}
             {updateRecommendations.length > 0 && (
               <button
                 onClick={handleApplyRecommendations}
@@ -933,9 +654,9 @@ export default function Dashboard() {
             )}
             <button
               onClick={handleRefreshRecommendations}
-              disabled={loadingRecommendations}
+              disabled={loadingRecommendations || !settings.aiSuggestions}
               className="inline-flex items-center justify-center w-9 h-9 bg-blue-50 text-blue-600 rounded-full hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
-              title="Refresh Recommendations"
+              title={settings.aiSuggestions ? "Refresh Recommendations" : "AI course suggestions are turned off in Settings"}
             >
               <ArrowPathIcon className={`h-5 w-5 ${loadingRecommendations ? 'animate-spin' : ''}`} />
             </button>
@@ -956,6 +677,18 @@ export default function Dashboard() {
                 <p className="text-gray-600">Generating personalized recommendations...</p>
         </div>
             </div>
+          ) : recommendations.length === 0 && !settings.aiSuggestions ? (
+            <div className="col-span-full flex items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="text-center max-w-md p-6">
+                <InformationCircleIcon className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">AI course suggestions are off</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Turn on AI Course Suggestions in{' '}
+                  <Link href="/settings" className="text-blue-600 hover:text-blue-800">Settings</Link>
+                  {' '}to get personalized recommendations.
+                </p>
+              </div>
+            </div>
           ) : recommendations.length === 0 ? (
             <div className="col-span-full flex items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
               <div className="text-center max-w-md p-6">
@@ -977,6 +710,8 @@ export default function Dashboard() {
           </div>
         </div>
             </div>
+          ) : recommendationsView === 'calendar' ? (
+            <WeeklyCalendar student={student} catalog={courses} />
           ) : (
             recommendations.map((course, index) => (
               <div key={index} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow duration-200">
@@ -985,7 +720,9 @@ export default function Dashboard() {
                     <div className="flex items-start mb-4">
                       <div className="flex-grow">
                         <h3 className="text-lg font-semibold text-gray-900 mb-1 line-clamp-2">
-                          {course.title}
+                          <Link href={`/courses/${course.course_id}`} className="hover:underline">
+                            {course.title}
+                          </Link>
                         </h3>
           </div>
 
@@ -1080,6 +817,10 @@ export default function Dashboard() {
                           </div>
                         </div>
                       )}
+                    <div className="mt-3 flex gap-2">
+                      <WatchButton courseId={course.course_id} courseTitle={course.title} className="h-7 text-xs" />
+                      <CompareButton courseId={course.course_id} courseTitle={course.title} className="h-7 text-xs" />
+                    </div>
                   </div>
                 </div>
 
@@ -1110,6 +851,26 @@ export default function Dashboard() {
                   </div>
                 </div>
               )}
+
+              {course.missing_prerequisites && course.missing_prerequisites.length > 0 && (
+                <div className="mt-4 p-3 rounded-md bg-amber-50 border border-amber-200">
+                  <h4 className="text-sm font-medium text-amber-800 mb-2 flex items-center">
+                    <ExclamationTriangleIcon className="h-4 w-4 mr-1.5" />
+                    Missing prerequisites
+                  </h4>
+                  <div className="flex flex-wrap gap-2">
+                    {course.missing_prerequisites.map((prereq) => (
+                      <span
+                        key={prereq.courseId}
+                        className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                        title={prereq.direct ? 'Direct prerequisite' : 'Required by another missing prerequisite'}
+                      >
+                        {prereq.title}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
             ))
           )}
@@ -1133,12 +894,17 @@ export default function Dashboard() {
                 if (!course) return null;
                 
                 const availabilityScore = course.availability_score || 0.5;
-                const predictedOccupancy = Math.round((1 - availabilityScore) * 100);
+                const predictedOccupancy = enrollmentForecast
+                  ? Math.round(enrollmentForecast.fillRate * 100)
+                  : Math.round((1 - availabilityScore) * 100);
                 
                 return (
                   <>
                     <div className="flex justify-between items-start mb-4">
-                      <h2 className="text-xl font-semibold text-gray-900">Enrollment Prediction: {course.title}</h2>
+                      <h2 className="text-xl font-semibold text-gray-900">
+                        Enrollment Prediction: {course.title}
+                        {enrollmentForecast && <span className="block text-sm font-normal text-gray-500">{enrollmentForecast.term}</span>}
+                      </h2>
                       <button 
                         onClick={closeEnrollmentHistory}
                         className="text-gray-500 hover:text-gray-700"
@@ -1158,9 +924,19 @@ export default function Dashboard() {
                           'text-red-600'
                         }`}>{predictedOccupancy}%</span>
                       </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2.5">
+                      <div className="relative w-full bg-gray-200 rounded-full h-2.5">
+                        {/* 80% prediction interval behind the point forecast */}
+                        {enrollmentForecast && (
+                          <div
+                            className="absolute inset-y-0 rounded-full bg-gray-400 opacity-50"
+                            style={{
+                              left: `${enrollmentForecast.low * 100}%`,
+                              width: `${(enrollmentForecast.high - enrollmentForecast.low) * 100}%`
+                            }}
+                          />
+                        )}
                         <div 
-                          className={`h-2.5 rounded-full ${
+                          className={`relative h-2.5 rounded-full ${
                             predictedOccupancy <= 50 ? 'bg-green-500' : 
                             predictedOccupancy <= 70 ? 'bg-yellow-500' : 
                             'bg-red-500'
@@ -1175,7 +951,48 @@ export default function Dashboard() {
                             ? 'This course sometimes fills up, but usually not immediately.' 
                             : 'This course tends to fill up quickly after registration opens.'}
                       </p>
+                      {enrollmentForecast === undefined && (
+                        <p className="mt-2 text-sm text-gray-500">Loading enrollment history…</p>
+                      )}
+                      {enrollmentForecast === null && (
+                        <p className="mt-2 text-sm text-gray-500">No enrollment history yet, so this is a default estimate.</p>
+                      )}
+                      {enrollmentForecast && (
+                        <div className="mt-3 space-y-1 text-sm text-gray-700">
+                          <p>
+                            Likely range: {Math.round(enrollmentForecast.low * 100)}–{Math.round(enrollmentForecast.high * 100)}%
+                            {' '}({enrollmentForecast.confidence} confidence, {enrollmentForecast.sampleSize} {enrollmentForecast.sampleSize === 1 ? 'term' : 'terms'} of history)
+                          </p>
+                          <p>
+                            {enrollmentForecast.fillsUpByDay !== null
+                              ? `Expected to fill up by day ${enrollmentForecast.fillsUpByDay} of the ${enrollmentForecast.registrationDays}-day registration period.`
+                              : enrollmentForecast.earliestFillUpDay !== null
+                                ? `Not expected to fill up, but could by day ${enrollmentForecast.earliestFillUpDay} of registration if demand runs high.`
+                                : 'Not expected to fill up during registration.'}
+                          </p>
+                          {Math.abs(enrollmentForecast.seasonalAdjustment) >= 0.02 && (
+                            <p>
+                              {enrollmentForecast.term.split(' ')[0]} terms usually run {Math.round(Math.abs(enrollmentForecast.seasonalAdjustment) * 100)} points
+                              {enrollmentForecast.seasonalAdjustment > 0 ? ' fuller' : ' emptier'} than this course's average.
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </div>
+
+                    {enrollmentForecast && (
+                      <div className="mb-6">
+                        <h3 className="font-medium mb-2 text-gray-900">Past terms:</h3>
+                        <ul className="space-y-1 text-sm text-gray-700">
+                          {enrollmentForecast.history.map(({ term, fillRate }) => (
+                            <li key={term} className="flex justify-between">
+                              <span>{term}</span>
+                              <span>{Math.round(fillRate * 100)}% full</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                     
                     <div className="mb-6">
                       <h3 className="font-medium mb-2 text-gray-900">What this means:</h3>
@@ -1194,14 +1011,14 @@ export default function Dashboard() {
                     <div className="mb-6">
                       <h3 className="font-medium mb-2 text-gray-900">How we calculated this:</h3>
                       <p className="text-gray-700 mb-2">
-                        Our prediction is based on historical enrollment data from previous semesters, with recent 
+                        Our prediction is based on enrollment data from previous semesters, with recent 
                         semesters weighted more heavily. We analyze:
                       </p>
                       <ul className="list-disc pl-5 space-y-1 text-gray-700">
                         <li>Fill rates from previous terms</li>
-                        <li>How quickly the course reached capacity</li>
+                        <li>Differences between Spring, Summer and Fall terms</li>
                         <li>Recent enrollment trends</li>
-                        <li>Course popularity relative to available slots</li>
+                        <li>How far past terms varied, which sets the likely range</li>
                       </ul>
                     </div>
                     
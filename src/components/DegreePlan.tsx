@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  AcademicCapIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import type { DegreePlan as DegreePlanResult } from "@/lib/planner";
+
+interface DegreePlanProps {
+  userId: string;
+}
+
+/**
+ * Term-by-term plan of real courses from /api/planner, with a banner saying whether the
+ * student's target graduation term is reachable.
+ */
+export default function DegreePlan({ userId }: DegreePlanProps) {
+  const [plan, setPlan] = useState<DegreePlanResult | null>(null);
+  const [includeSummer, setIncludeSummer] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch("/api/planner", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ userId, includeSummer }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to generate degree plan");
+        }
+        setPlan(data.plan);
+      } catch (err) {
+        console.error("Error loading degree plan:", err);
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPlan();
+  }, [userId, includeSummer]);
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 mb-8">
+        <div className="h-6 w-48 bg-gray-200 rounded animate-pulse mb-4" />
+        <div className="h-24 bg-gray-100 rounded animate-pulse" />
+      </div>
+    );
+  }
+
+  if (error || !plan) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 mb-8">
+        {error || "No degree plan available"}
+      </div>
+    );
+  }
+
+  const targetIssue = plan.issues.find(
+    (issue) => issue.type === "target_unreachable",
+  );
+  const otherIssues = plan.issues.filter(
+    (issue) => issue.type !== "target_unreachable",
+  );
+
+  return (
+    <div className="mb-12">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">Degree Plan</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={includeSummer}
+            onChange={(e) => setIncludeSummer(e.target.checked)}
+          />
+          Include summer terms
+        </label>
+      </div>
+
+      {plan.targetTerm &&
+        (plan.meetsTarget ? (
+          <div className="flex items-start gap-2 mb-4 p-3 rounded-md bg-green-50 border border-green-200 text-green-800 text-sm">
+            <CheckCircleIcon className="h-5 w-5 flex-shrink-0" />
+            <span>
+              On track to graduate by {plan.targetTerm}
+              {plan.graduationTerm && ` (planned: ${plan.graduationTerm})`}.
+            </span>
+          </div>
+        ) : (
+          <div className="flex items-start gap-2 mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-red-800 text-sm">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+            <span>
+              {targetIssue?.message ||
+                `This plan does not finish by ${plan.targetTerm}.`}
+            </span>
+          </div>
+        ))}
+
+      {otherIssues.length > 0 && (
+        <ul className="mb-4 space-y-1 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-3">
+          {otherIssues.map((issue) => (
+            <li key={issue.message}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {plan.terms.length === 0 ? (
+        <p className="text-gray-600">
+          No further courses are needed to reach your credit requirement.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {plan.terms.map((term) => (
+            <div key={term.term} className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {term.term}
+                </h3>
+                <span className="text-sm text-gray-500">
+                  {term.credits} credits
+                </span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {term.courses.map(({ course, required }) => (
+                  <div key={course.id} className="bg-gray-50 p-4 rounded-lg">
+                    <p className="font-medium text-gray-900">{course.title}</p>
+                    <p className="text-sm text-gray-500 flex items-center gap-1">
+                      <AcademicCapIcon className="h-4 w-4" />
+                      {course.subject || "General"} • {course.credits} credits
+                    </p>
+                    {required && (
+                      <span className="inline-block mt-2 px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                        Required for your career goal
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,14 @@ import { useEffect, useState } from "react";
 import { Node, Edge } from "reactflow";
 import CareerFlow from "@/components/CareerFlow";
 import { supabase } from "@/lib/supabase";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { generateObject } from "@/lib/llm/client";
+import { StructuredOutputError } from "@/lib/llm/structured";
+import { roadmapSchema, unknownCourseIssues } from "@/lib/recommendationSchemas";
 import { useAuth } from "@/components/auth/AuthProvider";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import Link from "next/link";
 import { MessageLoading } from "./ui/message-loading";
+import { buildPrerequisiteFlow } from "@/lib/prerequisiteFlow";
 
 interface RoadmapProps {
   careerGoal: string;
@@ -15,15 +20,51 @@ interface RoadmapProps {
 
 const Roadmap = ({ careerGoal, currentCourses, creditsCompleted }: RoadmapProps) => {
   const { user } = useAuth();
+  const { settings, isLoading: settingsLoading } = useUserSettings();
   const [nodes, setNodes] = useState<Node[]>([]);
   const [edges, setEdges] = useState<Edge[]>([]);
   const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'career' | 'prerequisites'>('career');
+  const [prerequisiteGraph, setPrerequisiteGraph] = useState<{ nodes: Node[]; edges: Edge[]; unlinkedCount: number } | null>(null);
+  const [prerequisiteError, setPrerequisiteError] = useState<string | null>(null);
+  const [roadmapError, setRoadmapError] = useState<string | null>(null);
+
+  // Real courses and prerequisite links, loaded the first time the graph is shown
+  useEffect(() => {
+    if (view !== 'prerequisites' || prerequisiteGraph) return;
+
+    const loadPrerequisiteGraph = async () => {
+      setPrerequisiteError(null);
+
+      const [{ data: allCourses, error: coursesErr }, { data: prerequisites, error: prerequisitesErr }] = await Promise.all([
+        supabase.from("courses").select("id, title, subject, credits"),
+        supabase.from("prerequisites").select("course_id, prerequisite_id"),
+      ]);
+
+      if (coursesErr || prerequisitesErr || !allCourses) {
+        console.error("Error fetching prerequisite graph:", coursesErr || prerequisitesErr);
+        setPrerequisiteError("Failed to load the prerequisite graph");
+        return;
+      }
+
+      setPrerequisiteGraph(buildPrerequisiteFlow(allCourses, prerequisites || [], currentCourses || []));
+    };
+
+    loadPrerequisiteGraph();
+  }, [view, prerequisiteGraph, currentCourses]);
 
   useEffect(() => {
     const loadRoadmap = async () => {
-      if (!user) return;
+      if (!user || settingsLoading) return;
+
+      // The AI career roadmap is off when the student turned off Career Path Analysis
+      if (!settings.careerPathAnalysis) {
+        setLoading(false);
+        return;
+      }
       
       setLoading(true);
+      setRoadmapError(null);
 
       // 1. Fetch student profile
       const { data: profile, error: profileErr } = await supabase
@@ -39,37 +80,33 @@ const Roadmap = ({ careerGoal, currentCourses, creditsCompleted }: RoadmapProps)
 
       if (!allCourses) return;
 
-      // 3. Generate with Gemini
-      const genAI = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI_API_KEY!);
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
+      // 3. Generate through the LLM gateway
       const prompt = `
 Generate a roadmap for a student aiming to be a ${profile.career_goal_id}.
-Based on these courses: ${allCourses.map(c => c.name).join(", ")}.
+Based on these courses (id: title): ${allCourses.map(c => `${c.id}: ${c.title}`).join(", ")}.
 
-Return a JSON array of steps in this exact format:
-[
-  {
-    "title": "Step title",
-    "type": "course/project/internship/start/goal",
-    "description": "Step description"
-  }
-]
+Return a JSON object with 2 to 12 steps in this exact format:
+{
+  "steps": [
+    {
+      "title": "Step title",
+      "type": "start" | "course" | "project" | "internship" | "goal",
+      "description": "Step description",
+      "course_id": 123
+    }
+  ]
+}
 
-Do not include any text before or after the JSON array.`;
+Set "course_id" only on course steps, using an id from the list above.`;
 
-      const response = await model.generateContent(prompt);
-      const raw = response.response.text()
-        .replace(/```json|```|\n/g, "")
-        .trim();
-        
       try {
-        const steps = JSON.parse(raw);
-        if (!Array.isArray(steps)) {
-          throw new Error('Response is not an array');
-        }
+        const { steps } = await generateObject(
+          { messages: [{ role: "user", content: prompt }] },
+          roadmapSchema,
+          { validate: value => unknownCourseIssues("steps.course_id", value.steps.map(step => step.course_id), allCourses) }
+        );
 
-        const newNodes: Node[] = steps.map((step: any, i: number) => {
+        const newNodes: Node[] = steps.map((step, i) => {
           // Calculate position in a curved path
           const angle = (i / (steps.length - 1)) * Math.PI;
           const radius = 400;
@@ -115,22 +152,83 @@ Do not include any text before or after the JSON array.`;
         setEdges(newEdges);
         setLoading(false);
       } catch (error) {
-        console.error('Error parsing response:', error);
+        console.error('Error generating roadmap:', error);
+        setRoadmapError(error instanceof StructuredOutputError
+          ? "The roadmap generator returned an unusable answer. Please try again."
+          : "Failed to generate your roadmap");
         setLoading(false);
       }
     };
 
     loadRoadmap();
-  }, [user]);
+  }, [user, settingsLoading, settings.careerPathAnalysis]);
+
+  const viewToggle = (
+    <div className="inline-flex rounded-md border border-gray-200 bg-white p-1 text-sm">
+      {([['career', 'Career roadmap'], ['prerequisites', 'Prerequisite graph']] as const).map(([value, label]) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => setView(value)}
+          className={`px-3 py-1 rounded ${view === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (view === 'prerequisites') {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-2xl font-bold">Course Prerequisites</h1>
+          {viewToggle}
+        </div>
+        {prerequisiteError ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{prerequisiteError}</div>
+        ) : !prerequisiteGraph ? (
+          <div className="flex items-center space-x-2 h-[200px] justify-center">
+            <MessageLoading />
+            <span className="text-sm text-gray-500">Loading prerequisite graph...</span>
+          </div>
+        ) : prerequisiteGraph.nodes.length === 0 ? (
+          <p className="text-gray-600">No courses in the catalog have prerequisites.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-4 mb-3 text-sm text-gray-600">
+              <span className="flex items-center"><span className="w-3 h-3 rounded-full bg-green-500 mr-2" />Completed</span>
+              <span className="flex items-center"><span className="w-3 h-3 rounded-full bg-blue-500 mr-2" />Available now</span>
+              <span className="flex items-center"><span className="w-3 h-3 rounded-full bg-red-400 mr-2" />Locked</span>
+              {prerequisiteGraph.unlinkedCount > 0 && (
+                <span className="text-gray-500">
+                  {prerequisiteGraph.unlinkedCount} courses with no prerequisite links are not shown.
+                </span>
+              )}
+            </div>
+            <CareerFlow
+              key="prerequisites"
+              mode="prerequisites"
+              initialNodes={prerequisiteGraph.nodes}
+              initialEdges={prerequisiteGraph.edges}
+            />
+          </>
+        )}
+      </div>
+    );
+  }
 
   if (loading) {
     return (
       <div className="p-6">
         <div className="flex items-center justify-between mb-4">
           <div className="h-8 w-64 bg-gray-200 rounded animate-pulse"></div>
-          <div className="flex items-center space-x-2">
-            <MessageLoading />
-            <span className="text-sm text-gray-500">Generating your roadmap...</span>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <MessageLoading />
+              <span className="text-sm text-gray-500">Generating your roadmap...</span>
+            </div>
+            {viewToggle}
           </div>
         </div>
         <div className="relative w-full h-[800px] bg-gradient-to-br from-gray-50 to-white rounded-xl border shadow-sm overflow-hidden">
@@ -252,8 +350,21 @@ Do not include any text before or after the JSON array.`;
 
   return (
     <div className="p-6">
-      <h1 className="text-2xl font-bold mb-4">Your Career Roadmap</h1>
-      <CareerFlow initialNodes={nodes} initialEdges={edges} />
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Your Career Roadmap</h1>
+        {viewToggle}
+      </div>
+      {!settings.careerPathAnalysis ? (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-gray-600">
+          Career Path Analysis is turned off. Turn it on in{' '}
+          <Link href="/settings" className="text-blue-600 hover:text-blue-800">Settings</Link>
+          {' '}to generate your career roadmap, or switch to the prerequisite graph.
+        </div>
+      ) : roadmapError ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{roadmapError}</div>
+      ) : (
+        <CareerFlow key="career" initialNodes={nodes} initialEdges={edges} />
+      )}
     </div>
   );
 };
@@ -1,214 +1,54 @@
 "use client";
 
-import { useState, useRef, useEffect } from 'react';
-import { MessageSquare, Send, Loader2, Settings, Star, HelpCircle, Trash, Sparkles, CheckCircle, Share, BookText, X } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, type ReactNode } from 'react';
+import Link from 'next/link';
+import { MessageSquare, Send, Square, Loader2, History, Plus, Pencil, X, RotateCcw, Search, Settings, Star, HelpCircle, Trash, Sparkles, CheckCircle, Share, BookText } from 'lucide-react';
 import { Card, CardContent } from "@/components/ui/card";
 import { Course, Student } from '@/types';
 import { cn } from "@/lib/utils";
-import { useRecommendations, CourseRecommendation } from "@/context/RecommendationsContext";
+import { useRecommendations, CourseRecommendation, formatCourseForRecommendation } from "@/context/RecommendationsContext";
 import { Button } from "@/components/ui/button";
+import SwapConfirmationDialog from "@/components/courses/SwapConfirmationDialog";
+import WatchButton from "@/components/courses/WatchButton";
+import CompareButton from "@/components/courses/CompareButton";
+import SeatAlerts from "@/components/courses/SeatAlerts";
 import { supabase } from "@/lib/supabase";
 import { getCourseAvailabilityData } from "@/lib/courseAvailability";
+import { normalizeTimeSlot } from "@/lib/timeSlot";
+import { generateObject, streamEvents } from "@/lib/llm/client";
+import { StructuredOutputError } from "@/lib/llm/structured";
+import { chatReplySchema, unknownCourseIssues, type ChatReply } from "@/lib/recommendationSchemas";
+import { createEligibilityChecker, formatMissingPrerequisites } from "@/lib/eligibility";
 import { useAuth } from "@/components/auth/AuthProvider";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import type { UserSettings } from "@/lib/userSettings";
+import {
+  createSessionId,
+  deleteChatSession,
+  fetchChatMessages,
+  fetchChatSessions,
+  importLegacyChatHistory,
+  searchChatSessions,
+  updateChatSession,
+} from "@/components/chat/chatSessionStorage";
+import type { ChatMessage, ChatSearchResult, ChatSession } from "@/utils/chatHistory";
 import { BookOpenIcon, AcademicCapIcon, ChartBarIcon, ClockIcon } from '@heroicons/react/24/outline';
-import { TextGenerateEffect } from "@/components/ui/text-generate-effect";
 
-// API configuration
-const API_CONFIG = {
-  url: process.env.NEXT_PUBLIC_GEMINI_API_URL || 'https://generativelanguage.googleapis.com/v1beta/models',
-  model: process.env.NEXT_PUBLIC_GEMINI_MODEL || 'gemini-1.5-flash',
-  key: process.env.NEXT_PUBLIC_GEMINI_API_KEY
-};
-
-// Cache configuration
-const CHAT_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-
-interface ChatCache {
-  messages: Message[];
-  timestamp: number;
+// Checks a chat reply's recommended course IDs against the catalog the model was shown
+function chatReplyValidator(courses: Course[]) {
+  return (reply: ChatReply) => unknownCourseIssues('recommendedCourses', reply.recommendedCourses, courses);
 }
 
-// Utility functions for chat persistence
-const chatStorage = {
-  getKey: (studentId: string) => `chat_history_${studentId}`,
-  
-  save: (studentId: string, messages: Message[]) => {
-    try {
-      const cache: ChatCache = {
-        messages,
-        timestamp: Date.now()
-      };
-      localStorage.setItem(chatStorage.getKey(studentId), JSON.stringify(cache));
-    } catch (error) {
-      console.error('Failed to save chat history:', error);
-    }
-  },
-  
-  load: (studentId: string): Message[] | null => {
-    try {
-      const cached = localStorage.getItem(chatStorage.getKey(studentId));
-      if (!cached) return null;
-      
-      const { messages, timestamp }: ChatCache = JSON.parse(cached);
-      if (Date.now() - timestamp > CHAT_CACHE_DURATION) {
-        localStorage.removeItem(chatStorage.getKey(studentId));
-        return null;
-      }
-      
-      // Convert string dates back to Date objects
-      return messages.map(m => ({
-        ...m,
-        timestamp: new Date(m.timestamp)
-      }));
-    } catch (error) {
-      console.error('Failed to load chat history:', error);
-      return null;
-    }
-  }
+// Shown in the pending reply while the chat agent runs each tool
+const TOOL_ACTIVITY_LABELS: Record<string, string> = {
+  searchCourses: 'Searching the course catalog…',
+  getCourse: 'Reading course details…',
+  checkPrerequisites: 'Checking prerequisites…',
+  getAvailability: 'Forecasting enrollment…',
+  checkScheduleConflicts: 'Checking your schedule for conflicts…',
+  proposeRecommendationSet: 'Putting together recommendations…'
 };
 
-// Update the parseLLMResponse function to better clean up LLM responses
-function parseLLMResponse(text: string): { content: string; metadata?: Message['metadata'] } {
-  try {
-    // First, remove markdown code blocks that are empty or only contain whitespace
-    text = text.replace(/```(json)?\s*```/g, '');
-    
-    // Then extract complete JSON blocks
-    const fullJsonRegex = /\{(?:[^{}]|(?:\{(?:[^{}]|(?:\{[^{}]*\}))*\}))*\}/g;
-    const jsonMatches = text.match(fullJsonRegex) || [];
-    
-    let cleanContent = text;
-    let metadata: Message['metadata'] = {};
-    let recommendedCourseIds: number[] = [];
-
-    // Process each JSON block found in the text
-    for (const jsonStr of jsonMatches) {
-      try {
-        const data = JSON.parse(jsonStr);
-        let shouldRemoveJson = false;
-        
-        // Extract course recommendations if present
-        if (data.recommendedCourses && Array.isArray(data.recommendedCourses)) {
-          // Ensure course IDs are numbers
-          recommendedCourseIds = data.recommendedCourses.map((id: any) => {
-            if (typeof id === 'number') return id;
-            if (typeof id === 'string' && /^\d+$/.test(id)) return parseInt(id, 10);
-            return id;
-          });
-          
-          metadata.recommendedCourses = recommendedCourseIds;
-          metadata.isRecommending = true;
-          shouldRemoveJson = true;
-        }
-        
-        // Extract user preferences if present
-        if (data.userPreferences) {
-          metadata.userPreferences = data.userPreferences;
-          shouldRemoveJson = true;
-        }
-
-        // Check if the response explicitly states it's a recommendation
-        if (data.isRecommending !== undefined) {
-          metadata.isRecommending = data.isRecommending;
-          shouldRemoveJson = true;
-        }
-        
-        // Remove the JSON from the content if it's not part of a code example
-        if (shouldRemoveJson) {
-          // Only remove if not inside code blocks
-          if (!cleanContent.includes("```") || !cleanContent.includes(jsonStr + "```")) {
-          cleanContent = cleanContent.replace(jsonStr, '');
-          }
-        }
-      } catch (e) {
-        // Skip invalid JSON
-        console.warn('Failed to parse JSON block:', jsonStr, e);
-      }
-    }
-
-    // Clean up the content
-    // 1. Remove markdown code blocks with json
-    cleanContent = cleanContent.replace(/```json[\s\S]*?```/g, '');
-    
-    // 2. Remove empty markdown code blocks
-    cleanContent = cleanContent.replace(/```\s*```/g, '');
-    
-    // 3. Remove quotes at beginning/end
-    cleanContent = cleanContent.trim();
-    if ((cleanContent.startsWith('"') && cleanContent.endsWith('"')) || 
-        (cleanContent.startsWith("'") && cleanContent.endsWith("'"))) {
-      cleanContent = cleanContent.slice(1, -1);
-    }
-    
-    // 4. Remove any JSON-like fragments
-    cleanContent = cleanContent.replace(/\{\s*".*?"\s*:\s*.*?\}/g, '');
-    cleanContent = cleanContent.replace(/\{\s*"isRecommending"\s*:\s*(true|false)\s*\}/g, '');
-    
-    // 5. Remove any trailing JSON format indicators like just "json" text
-    cleanContent = cleanContent.replace(/\s*json\s*$/i, '');
-    
-    // 6. Clean up any triple backticks without content
-    cleanContent = cleanContent.replace(/```\s*$/g, '');
-    cleanContent = cleanContent.replace(/^\s*```/g, '');
-    
-    // 7. Final cleanup of multiple spaces and newlines
-    cleanContent = cleanContent.replace(/\n{3,}/g, '\n\n');
-    cleanContent = cleanContent.replace(/\s{2,}/g, ' ').trim();
-
-    return { content: cleanContent, metadata };
-  } catch (e) {
-    console.error('Error parsing LLM response:', e);
-    return { content: text };
-  }
-}
-
-// A more precise function to match course names in text with their IDs
-function extractCourseRecommendationsFromText(
-  text: string, 
-  availableCourses: Course[], 
-  explicitCourseIds: number[] = []
-): number[] {
-  // If we have explicit course IDs from JSON metadata, use those first
-  if (explicitCourseIds.length > 0) {
-    return explicitCourseIds;
-  }
-  
-  // Try to find exact course name matches
-  const courseIds: number[] = [];
-  const allCourseNames = availableCourses.map(c => c.title);
-  
-  // Sort course names by length (longest first) to avoid matching substrings
-  const sortedCourseNames = [...allCourseNames].sort((a, b) => b.length - a.length);
-  
-  for (const courseName of sortedCourseNames) {
-    // Check if the course name appears in the text (case insensitive)
-    const regex = new RegExp(`\\b${courseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-    if (regex.test(text)) {
-      const course = availableCourses.find(c => c.title === courseName);
-      if (course) {
-        courseIds.push(course.id);
-      }
-    }
-  }
-  
-  // If we found exact matches, return those
-  if (courseIds.length > 0) {
-    return courseIds;
-  }
-  
-  // Fallback to the previous method
-  const courseTitles = text.match(/(?:"[^"]+"|[^,\s.]+)(?=\s*(?:,|\.|$))/g)
-    ?.map(title => title.replace(/"/g, '').trim())
-    ?.filter(title => 
-      availableCourses.some(course => 
-        course.title.toLowerCase().includes(title.toLowerCase()) ||
-        title.toLowerCase().includes(course.title.toLowerCase())
-      )
-    ) || [];
-    
-  return findCourseIdsByTitles(courseTitles, availableCourses);
-}
-
 // Type definition of Message
 type Message = {
   id: string;
@@ -228,11 +68,31 @@ type Message = {
   };
 };
 
-type APIError = {
-  error?: {
-    message: string;
-  };
-};
+// Student profile lines for prompts. Current courses are left out when the student has turned
+// off "Use Learning History" in Settings.
+function describeStudent(student: Student, settings: UserSettings): string {
+  return [
+    `Name: ${student.full_name}`,
+    `Career Goal: ${student.career_goal_id}`,
+    `Technical Proficiency: ${student.technical_proficiency}`,
+    `Preferred Subjects: ${student.preferred_subjects.join(', ')}`,
+    `Preferred Learning Mode: ${student.preferred_learning_mode}`,
+    `Course Slot Preference: ${student.course_slot_preference}`,
+    ...(settings.useLearningHistory ? [`Current Courses: ${student.current_courses_taken.join(', ')}`] : []),
+    `Credits Completed: ${student.credits_completed}`
+  ].join('\n');
+}
+
+// Messages of a conversation reopened from the server
+function fromSavedMessages(saved: ChatMessage[]): Message[] {
+  return saved.map(message => ({
+    id: message.id ?? message.role,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.timestamp ?? Date.now()),
+    status: 'complete'
+  }));
+}
 
 type ChatAssistantProps = {
   student: Student;
@@ -241,60 +101,29 @@ type ChatAssistantProps = {
   onPreferencesUpdate?: (preferences: any) => void;
 };
 
-// Update function to match course titles to IDs more effectively
-function findCourseIdsByTitles(courseTitles: string[], availableCourses: Course[]): number[] {
-  const courseIds: number[] = [];
-  
-  // First, try exact matches
-  for (const title of courseTitles) {
-    const normalizedTitle = title.toLowerCase().trim();
-      const course = availableCourses.find(c => 
-      c.title.toLowerCase() === normalizedTitle
-    );
-    
-    if (course) {
-      courseIds.push(course.id);
-      continue;
-    }
-    
-    // If no exact match, try partial matches
-    const partialMatch = availableCourses.find(c => 
-      c.title.toLowerCase().includes(normalizedTitle) ||
-      normalizedTitle.includes(c.title.toLowerCase())
-    );
-    
-    if (partialMatch) {
-      courseIds.push(partialMatch.id);
-    }
-  }
-  
-  return courseIds;
-}
-
-// Function to format course data for recommendations
-function formatCourseForRecommendation(courseId: number, courses: Course[], reasons: string[] = []): CourseRecommendation | null {
-  try {
-    const course = courses.find(c => c.id === courseId);
-    if (!course) {
-      console.warn(`Course with ID ${courseId} not found`);
-      return null;
-    }
-    
-    return {
-      course_id: course.id,
-      title: course.title || `Course ${course.id}`,
-      subject: course.subject || 'General',
-      credits: course.credits || 3,
-      match_score: 0.85, // This would ideally be calculated
-      difficulty_level: course.difficulty_level || 'Intermediate',
-      time_slot: course.time_slots || 'Flexible',
-      reasons: reasons.length > 0 ? reasons : ['Recommended by AI assistant'],
-      prerequisites: course.prerequisites || []
-    };
-  } catch (error) {
-    console.error('Error formatting course for recommendation:', error);
-    return null;
-  }
+// Replies name courses by their exact catalog title; this links each mention to the course page
+function createCourseLinker(courses: Course[]): (text: string) => ReactNode[] {
+  const titled = courses.filter(course => course.title).sort((a, b) => b.title.length - a.title.length);
+  if (titled.length === 0) return text => [text];
+
+  const ids = new Map(titled.map(course => [course.title.toLowerCase(), course.id]));
+  const escaped = titled.map(course => course.title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // Longest titles first, so "Calculus II" is not linked as "Calculus I"
+  const pattern = new RegExp(`\\b(${escaped.join('|')})(?!\\w)`, 'gi');
+
+  return text => {
+    let offset = 0;
+    return text.split(pattern).map((part, index) => {
+      const key = offset;
+      offset += part.length;
+      const id = index % 2 === 1 ? ids.get(part.toLowerCase()) : undefined;
+      return id === undefined ? part : (
+        <Link key={key} href={`/courses/${id}`} className="underline decoration-dotted underline-offset-2 hover:decoration-solid">
+          {part}
+        </Link>
+      );
+    });
+  };
 }
 
 // Course recommendation UI that appears after LLM response
@@ -320,21 +149,40 @@ const CourseRecommendationUI = ({
           >
             <div className="flex justify-between items-center">
               <div>
-                <h4 className="text-sm font-medium text-gray-900 dark:text-white">{course.title}</h4>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+                  <Link href={`/courses/${course.course_id}`} className="hover:underline">{course.title}</Link>
+                </h4>
                 <div className="flex items-center gap-1 mt-0.5 text-[10px] text-gray-500 dark:text-gray-400">
                   <span>{course.subject || 'General'}</span>
                   <span>•</span>
                   <span>{course.difficulty_level || 'Intermediate'}</span>
                 </div>
+                {course.missing_prerequisites && course.missing_prerequisites.length > 0 && (
+                  <p className="mt-0.5 text-[10px] text-amber-700 dark:text-amber-400">
+                    Missing prerequisites: {formatMissingPrerequisites(course.missing_prerequisites)}
+                  </p>
+                )}
+              </div>
+              <div className="ml-auto flex flex-shrink-0 gap-1">
+                <WatchButton
+                  courseId={course.course_id}
+                  courseTitle={course.title}
+                  className="h-6 text-[10px] px-2 py-0 gap-1 [&_svg]:size-3"
+                />
+                <CompareButton
+                  courseId={course.course_id}
+                  courseTitle={course.title}
+                  className="h-6 text-[10px] px-2 py-0 gap-1 [&_svg]:size-3"
+                />
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={() => onAddToDashboard(course)}
+                  className="h-6 text-[10px] px-2 py-0"
+                >
+                  Add
+                </Button>
               </div>
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={() => onAddToDashboard(course)}
-                className="ml-auto flex-shrink-0 h-6 text-[10px] px-2 py-0"
-              >
-                Add
-              </Button>
             </div>
           </div>
         ))}
@@ -343,129 +191,6 @@ const CourseRecommendationUI = ({
   );
 };
 
-// Fix the formatTimeSlot function to handle non-string inputs
-const formatTimeSlot = (timeSlot: any): string => {
-  const dayMap: Record<string, string> = {
-    'M': 'Monday',
-    'T': 'Tuesday',
-    'W': 'Wednesday',
-    'R': 'Thursday',
-    'F': 'Friday',
-    'S': 'Saturday',
-    'U': 'Sunday',
-  };
-  
-  // Handle null, undefined or non-string values
-  if (!timeSlot) return 'Flexible';
-  
-  // Convert timeSlot to string if it's not already
-  const timeSlotStr = String(timeSlot);
-  
-  // Try to parse JSON if it looks like an object
-  if (typeof timeSlot === 'object') {
-    try {
-      // If it's an object with days and time properties
-      if (timeSlot.days && timeSlot.time) {
-        const days = timeSlot.days.split('').map((day: string) => dayMap[day] || day).join(', ');
-        return `${days} ${timeSlot.time}`;
-      }
-    } catch (e) {
-      console.error('Error formatting time slot object:', e);
-    }
-  }
-  
-  // Parse time slot format like "MWF 10:00-11:15"
-  try {
-    const parts = timeSlotStr.split(' ');
-    if (parts.length !== 2) return timeSlotStr;
-    
-    const days = parts[0].split('').map(day => dayMap[day] || day).join(', ');
-    return `${days} ${parts[1]}`;
-  } catch (e) {
-    console.error('Error formatting time slot:', e);
-    return String(timeSlot) || 'Flexible';
-  }
-};
-
-// Remove the Dialog import and create a simpler internal implementation
-// Swap confirmation dialog using a simpler implementation
-const SimpleDialog = ({ 
-  isOpen,
-  onClose,
-  title,
-  description,
-  children,
-  footer
-}: { 
-  isOpen: boolean;
-  onClose: () => void;
-  title: string;
-  description?: string;
-  children: React.ReactNode;
-  footer?: React.ReactNode;
-}) => {
-  if (!isOpen) return null;
-  
-  return (
-    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-md w-full mx-4 p-6 shadow-xl">
-        <div className="flex justify-between items-start mb-4">
-          <div>
-            <h3 className="text-lg font-semibold">{title}</h3>
-            {description && <p className="text-sm text-gray-500 mt-1">{description}</p>}
-          </div>
-          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
-            <X className="h-5 w-5" />
-          </button>
-        </div>
-        <div className="mb-6">{children}</div>
-        {footer && <div className="flex justify-end">{footer}</div>}
-      </div>
-    </div>
-  );
-};
-
-// Update the swap confirmation dialog
-const SwapConfirmationDialog = ({ 
-  course, 
-  dashboardCourses,
-  onConfirm,
-  onCancel
-}: { 
-  course: CourseRecommendation, 
-  dashboardCourses: CourseRecommendation[],
-  onConfirm: (oldCourseId: number) => void,
-  onCancel: () => void
-}) => {
-  return (
-    <SimpleDialog
-      isOpen={true}
-      onClose={onCancel}
-      title="Replace a Course"
-      description="You already have 3 courses in your dashboard. Please select which course to replace."
-      footer={
-        <Button variant="outline" onClick={onCancel}>
-          Cancel
-        </Button>
-      }
-    >
-      <div className="space-y-3">
-        {dashboardCourses.map((rec, index) => (
-          <div key={`${rec.course_id}-${index}`} className="p-3 border rounded-lg flex justify-between items-center">
-            <div>
-              <h4 className="font-medium">{rec.title}</h4>
-              <p className="text-sm text-gray-500">{rec.subject} • {rec.credits} credits</p>
-            </div>
-            <Button variant="outline" size="sm" onClick={() => onConfirm(rec.course_id)}>
-              Replace
-            </Button>
-          </div>
-        ))}
-      </div>
-    </SimpleDialog>
-  );
-};
-
 export default function ChatAssistant({ 
   student, 
   courses,
@@ -478,10 +203,41 @@ export default function ChatAssistant({
   const [recommendedCourseIds, setRecommendedCourseIds] = useState<Set<number>>(new Set());
   const [appliedRecommendations, setAppliedRecommendations] = useState<Set<number>>(new Set());
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const pendingProposalRef = useRef<{ sessionId: string; recommendations: CourseRecommendation[] } | null>(null);
+  const [agentActivity, setAgentActivity] = useState<string | null>(null);
+  const isStreaming = messages.some(m => m.status === 'streaming');
   const { recommendations, setRecommendations, updateRecommendations, setUpdateRecommendations, applyUpdateRecommendations, courses: contextCourses } = useRecommendations();
   const [showSwapDialog, setShowSwapDialog] = useState(false);
   const [courseToAdd, setCourseToAdd] = useState<CourseRecommendation | null>(null);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+  const [sessionQuery, setSessionQuery] = useState('');
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [highlightedMessageIndex, setHighlightedMessageIndex] = useState<number | null>(null);
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[]>([]);
+  const linkCourseTitles = useMemo(() => createCourseLinker(courses), [courses]);
+
+  // Fetched per request so eligibility reflects the current prerequisites table
+  const loadEligibilityChecker = async (completedCourseIds: string[], catalog: { id: number; title: string }[]) => {
+    const { data: prerequisites, error } = await supabase.from('prerequisites').select('course_id, prerequisite_id');
+    if (error) throw error;
+    return createEligibilityChecker({ prerequisites: prerequisites || [], completedCourseIds, courses: catalog });
+  };
+
+  // Appended to LLM replies that recommend courses the student cannot take yet
+  const describeIneligible = (recommended: CourseRecommendation[]) => {
+    const ineligible = recommended.filter(rec => rec.missing_prerequisites && rec.missing_prerequisites.length > 0);
+    if (ineligible.length === 0) return '';
+    const notes = ineligible
+      .map(rec => `${rec.title} requires ${formatMissingPrerequisites(rec.missing_prerequisites || [])} first.`)
+      .join(' ');
+    return `\n\nNote: ${notes}`;
+  };
   const { user } = useAuth();
+  const { settings } = useUserSettings();
   const [showTasks, setShowTasks] = useState(true);
 
   // Track recommended courses when messages change
@@ -495,42 +251,174 @@ export default function ChatAssistant({
     setRecommendedCourseIds(courseIds);
   }, [messages]);
 
-  // Load chat history on component mount
+  const studentId = student?.id;
+  const userId = user?.id;
+
+  // Move the conversation saved in this browser by earlier versions to the server, then reopen
+  // the most recently active one
   useEffect(() => {
-    if (student?.id) {
-      const cachedMessages = chatStorage.load(student.id);
-      if (cachedMessages) {
-        setMessages(cachedMessages);
-      } else {
-        // Initialize with system message if no cache
-        setMessages([{
-          id: 'system',
-          role: 'system',
-          content: student ? `You are a helpful course recommendation assistant. The student's profile is:
-Name: ${student.full_name}
-Career Goal: ${student.career_goal_id}
-Technical Proficiency: ${student.technical_proficiency}
-Preferred Subjects: ${student.preferred_subjects.join(', ')}
-Preferred Learning Mode: ${student.preferred_learning_mode}
-Course Slot Preference: ${student.course_slot_preference}
-Current Courses: ${student.current_courses_taken.join(', ')}
-Credits Completed: ${student.credits_completed}
-
-Available courses: ${courses.map(c => `${c.title} (${c.subject}, ${c.credits} credits)`).join(', ')}` : 
-          'You are a helpful course recommendation assistant. Please help the user with course recommendations.',
-          timestamp: new Date(),
-          status: 'complete'
-        }]);
+    if (!studentId) return;
+    let cancelled = false;
+
+    const loadSessions = async () => {
+      try {
+        await importLegacyChatHistory(studentId, userId);
+        const saved = await fetchChatSessions(userId);
+        const latest = saved[0] ? await fetchChatMessages(saved[0].id, userId) : [];
+        if (cancelled) return;
+        setSessions(saved);
+        setActiveSessionId(saved[0]?.id ?? createSessionId());
+        setMessages(fromSavedMessages(latest));
+      } catch (error) {
+        console.error('Failed to load chat sessions:', error);
+        if (!cancelled) setActiveSessionId(createSessionId());
       }
-    }
-  }, [student?.id, student, courses]);
+    };
+
+    loadSessions();
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId, userId]);
+
+  // Stop any in-flight answer on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-  // Save chat history when messages change
+  // Search runs on the server across every saved conversation, shortly after typing stops
   useEffect(() => {
-    if (student?.id && messages.length > 0) {
-      chatStorage.save(student.id, messages);
+    const query = sessionQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchChatSessions(query, userId)
+        .then(results => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch(error => console.error('Failed to search chat sessions:', error));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sessionQuery, userId]);
+
+  // Titles and activity times change on the server as messages are saved
+  const refreshSessions = async () => {
+    try {
+      setSessions(await fetchChatSessions(userId));
+    } catch (error) {
+      console.error('Failed to refresh chat sessions:', error);
+    }
+  };
+
+  // The session is created on the server with its first message
+  const startNewConversation = () => {
+    setActiveSessionId(createSessionId());
+    setMessages([]);
+  };
+
+  const openSession = async (sessionId: string, messageId: string | null = null) => {
+    if (isLoading) return;
+    try {
+      const loaded = fromSavedMessages(await fetchChatMessages(sessionId, userId));
+      const index = messageId ? loaded.findIndex(m => m.id === messageId) : -1;
+      setActiveSessionId(sessionId);
+      setMessages(loaded);
+      setHighlightedMessageIndex(index === -1 ? null : index);
+      setShowSessions(false);
+    } catch (error) {
+      console.error('Failed to open chat session:', error);
+    }
+  };
+
+  const handleNewSession = () => {
+    if (isLoading) return;
+    setShowSessions(false);
+    // An untouched conversation is reused rather than piling up empty ones
+    if (messages.some(m => m.role === 'user')) startNewConversation();
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    if (isLoading || !window.confirm('Delete this conversation? This cannot be undone.')) return;
+    try {
+      await deleteChatSession(sessionId, userId);
+    } catch (error) {
+      console.error('Failed to delete chat session:', error);
+      return;
+    }
+    const remaining = sessions.filter(s => s.id !== sessionId);
+    setSessions(remaining);
+    if (sessionId !== activeSessionId) return;
+    if (remaining[0]) {
+      await openSession(remaining[0].id);
+    } else {
+      startNewConversation();
+    }
+  };
+
+  const handleRenameSession = async (sessionId: string) => {
+    // Enter and the blur that follows both land here
+    if (renamingSessionId !== sessionId) return;
+    setRenamingSessionId(null);
+    const title = renameValue.trim();
+    if (!title) return;
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title } : s));
+    try {
+      await updateChatSession(sessionId, userId, { title });
+    } catch (error) {
+      console.error('Failed to rename chat session:', error);
+      await refreshSessions();
     }
-  }, [messages, student?.id]);
+  };
+
+  // Remember the dashboard set applied from the active conversation
+  const recordAppliedRecommendations = (applied: CourseRecommendation[]) => {
+    if (!activeSessionId) return;
+    setSessions(prev => prev.map(s =>
+      s.id === activeSessionId ? { ...s, appliedRecommendations: applied } : s
+    ));
+    updateChatSession(activeSessionId, userId, { appliedRecommendations: applied })
+      .catch(error => console.error('Failed to save applied recommendations:', error));
+  };
+
+  // Offer a set as the pending dashboard update, remembering which conversation proposed it
+  const proposeRecommendations = (proposed: CourseRecommendation[], sessionId = activeSessionId) => {
+    setUpdateRecommendations(proposed);
+    pendingProposalRef.current = sessionId ? { sessionId, recommendations: proposed } : null;
+  };
+
+  // Applying the pending set replaces the dashboard with that same array, whether from here or
+  // from the Dashboard's Apply Chat Suggestions, so record it on the conversation that proposed it
+  useEffect(() => {
+    const pending = pendingProposalRef.current;
+    if (!pending || updateRecommendations.length > 0) return;
+    pendingProposalRef.current = null;
+    if (recommendations !== pending.recommendations) return;
+
+    const { sessionId } = pending;
+    setSessions(prev => prev.map(s =>
+      s.id === sessionId ? { ...s, appliedRecommendations: recommendations } : s
+    ));
+    updateChatSession(sessionId, userId, { appliedRecommendations: recommendations })
+      .catch(error => console.error('Failed to save applied recommendations:', error));
+  }, [updateRecommendations, recommendations, userId]);
+
+  const handleRestoreRecommendations = (session: ChatSession) => {
+    if (session.appliedRecommendations.length === 0) return;
+    applyUpdateRecommendations(session.appliedRecommendations);
+    openSession(session.id);
+  };
+
+  // Scroll to a message opened from search results and highlight it briefly
+  useEffect(() => {
+    if (highlightedMessageIndex === null) return;
+    document.getElementById(`chat-message-${highlightedMessageIndex}`)?.scrollIntoView({ block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageIndex(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageIndex]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -543,19 +431,6 @@ Available courses: ${courses.map(c => `${c.title} (${c.subject}, ${c.credits} cr
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
-    // Validate API key
-    if (!API_CONFIG.key) {
-      console.error('Missing Gemini API key. Please set NEXT_PUBLIC_GEMINI_API_KEY in your environment variables.');
-      setMessages(prev => [...prev, {
-        id: 'assistant',
-        role: 'assistant',
-        content: 'I apologize, but I am not properly configured. Please contact the administrator to set up the API key.',
-        timestamp: new Date(),
-        status: 'complete'
-      }]);
-      return;
-    }
-
     const userMessage: Message = {
       id: 'user',
       role: 'user',
@@ -568,36 +443,8 @@ Available courses: ${courses.map(c => `${c.title} (${c.subject}, ${c.credits} cr
     setInput('');
     setIsLoading(true);
 
-    // Check for low occupancy request
-    if (input.toLowerCase().includes('low occupancy') || 
-        input.toLowerCase().includes('less crowded') ||
-        input.toLowerCase().includes('available slots') ||
-        input.toLowerCase().includes('easy to get') ||
-        input.toLowerCase().includes('not full')) {
-      
-      await handleLowOccupancyRequest();
-      setIsLoading(false);
-      return;
-    }
-    
-    // Check for difficulty-related queries
-    if (input.toLowerCase().includes('beginner') || 
-        input.toLowerCase().includes('intermediate') ||
-        input.toLowerCase().includes('advanced') ||
-        input.toLowerCase().includes('expert') ||
-        input.toLowerCase().includes('easy course') ||
-        input.toLowerCase().includes('hard course') ||
-        input.toLowerCase().includes('difficult course') ||
-        input.toLowerCase().includes('challenging')) {
-      
-      await handleDifficultyRequest(input);
-      setIsLoading(false);
-      return;
-    }
-
     try {
-      // Use the existing sendMessageToLLM function
-      await sendMessageToLLM(input, messages);
+      await sendMessageToLLM(input);
     } catch (error) {
       console.error('Error sending message to LLM:', error);
       
@@ -610,62 +457,39 @@ Available courses: ${courses.map(c => `${c.title} (${c.subject}, ${c.credits} cr
       }]);
     } finally {
       setIsLoading(false);
+      await refreshSessions();
     }
   };
 
-  const handleResetChat = () => {
-    if (window.confirm('Are you sure you want to reset the chat? This will clear all messages.')) {
-      if (student?.id) {
-        localStorage.removeItem(chatStorage.getKey(student.id));
+  const handleResetChat = async () => {
+    if (!window.confirm('Are you sure you want to reset the chat? This will clear all messages in this conversation.')) return;
+    if (activeSessionId && sessions.some(s => s.id === activeSessionId)) {
+      try {
+        await deleteChatSession(activeSessionId, userId);
+      } catch (error) {
+        console.error('Failed to reset chat session:', error);
+        return;
       }
-      setMessages([{
-        id: 'system',
-        role: 'system',
-        content: student ? `You are a helpful course recommendation assistant. The student's profile is:
-Name: ${student.full_name}
-Career Goal: ${student.career_goal_id}
-Technical Proficiency: ${student.technical_proficiency}
-Preferred Subjects: ${student.preferred_subjects.join(', ')}
-Preferred Learning Mode: ${student.preferred_learning_mode}
-Course Slot Preference: ${student.course_slot_preference}
-Current Courses: ${student.current_courses_taken.join(', ')}
-Credits Completed: ${student.credits_completed}
-
-Available courses: ${courses.map(c => `${c.title} (${c.subject}, ${c.credits} credits)`).join(', ')}` : 
-        'You are a helpful course recommendation assistant. Please help the user with course recommendations.',
-        timestamp: new Date(),
-        status: 'complete'
-      }]);
+      setSessions(prev => prev.filter(s => s.id !== activeSessionId));
     }
+    startNewConversation();
   };
 
   const handleGenerateRecommendations = async () => {
-    if (!student || !courses.length) return;
+    if (!student || !courses.length || !settings.aiSuggestions) return;
 
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_CONFIG.url}/${API_CONFIG.model}:generateContent?key=${API_CONFIG.key}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: `You are a helpful course recommendation assistant. Generate new course recommendations based on the student's profile and conversation history.
+      const { reply: content, recommendedCourses } = await generateObject({
+        messages: [{
+          role: 'user',
+          content: `You are a helpful course recommendation assistant. Generate new course recommendations based on the student's profile and conversation history.
 
 Student Profile:
-Name: ${student.full_name}
-Career Goal: ${student.career_goal_id}
-Technical Proficiency: ${student.technical_proficiency}
-Preferred Subjects: ${student.preferred_subjects.join(', ')}
-Preferred Learning Mode: ${student.preferred_learning_mode}
-Course Slot Preference: ${student.course_slot_preference}
-Current Courses: ${student.current_courses_taken.join(', ')}
-Credits Completed: ${student.credits_completed}
+${describeStudent(student, settings)}
 
 Conversation History:
-${messages.map(m => `${m.role}: ${m.content}`).join('\n')}
+${messages.filter(m => m.role !== 'system').map(m => `${m.role}: ${m.content}`).join('\n')}
 
 Previously Recommended Courses: ${Array.from(recommendedCourseIds).map(id => {
   const course = courses.find(c => c.id === id);
@@ -702,72 +526,49 @@ STRICT Response Guidelines:
 2. When recommending courses:
    - Suggest 1-2 NEW courses not previously recommended
    - Explain WHY each course is recommended in one brief sentence
-   - DO NOT include ANY course IDs or numbers in the response text
    - Use EXACTLY the same course title as shown in the available courses list, with no alterations
-   - ALWAYS include course IDs in the JSON metadata block
-
-3. Response structure:
-   - Brief answer to the question
-   - Course recommendations with brief explanations
-   - ALWAYS include a JSON metadata block with recommended course IDs
-
-4. CRITICAL: For any courses you recommend, you MUST:
-   - Include their EXACT IDs in a JSON block: {"recommendedCourses": [course_ids_here]}
-   - Use the EXACT same course name in your text response as listed in the available courses
-   - Example: If recommending "Introduction to Python Programming", use EXACTLY that title in both your text and the metadata
-
-5. Format for preferences:
-   {"userPreferences": {"subjects": [], "difficulty": ""}}
-
-6. NEVER mention course numbers, IDs, or use quotes around course names in your visible response
-7. Do NOT use phrases like "Course #123" or "(ID: 456)" - just use the course title
-
-Example response:
-"Based on your interest in web development, I recommend Introduction to React. This course will teach you modern frontend development skills essential for your career goal. The course fits well with your current technical proficiency level."
-{"recommendedCourses": [123]}`
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.7,
-            topP: 0.95,
-            topK: 40,
-            maxOutputTokens: 400
-          }
-        })
-      });
+   - NEVER mention course numbers or IDs in the reply text - IDs go only in "recommendedCourses"
 
-      if (!response.ok) {
-        throw new Error('Failed to generate recommendations');
-      }
-
-      const data = await response.json();
-      const { content, metadata } = parseLLMResponse(data.candidates[0].content.parts[0].text);
-
-      // Extract course recommendations from both metadata and text
-      const metadataCourseIds = metadata?.recommendedCourses || [];
-      const extractedCoursesFromText = extractCourseRecommendationsFromText(content, courses, metadataCourseIds);
+3. Respond with a single JSON object in this exact format:
+{
+  "reply": "Based on your interest in web development, I recommend Introduction to React. This course will teach you modern frontend development skills essential for your career goal.",
+  "isRecommending": true,
+  "recommendedCourses": [123]
+}
+"recommendedCourses" must only contain ids from the available courses above.`
+        }],
+        temperature: 0.7,
+        topP: 0.95,
+        maxTokens: 400
+      }, chatReplySchema, { validate: chatReplyValidator(courses) });
 
       // Log for debugging
-      console.log('Recommended courses:', extractedCoursesFromText);
+      console.log('Recommended courses:', recommendedCourses);
+
+      // The model is told about prerequisites but nothing guarantees it respects them
+      const checkEligibility = await loadEligibilityChecker(student.current_courses_taken, courses);
+      let eligibilityNote = '';
 
       // Update recommendations in dashboard
-      if (extractedCoursesFromText.length > 0) {
+      if (recommendedCourses.length > 0) {
         // Format recommended courses
-        const formattedRecommendations = extractedCoursesFromText
+        const formattedRecommendations = recommendedCourses
           .map(id => formatCourseForRecommendation(
             id, 
             courses, 
-            ['Generated based on your profile and preferences']
+            ['Generated based on your profile and preferences'],
+            checkEligibility
           ))
           .filter((course): course is CourseRecommendation => course !== null);
+        eligibilityNote = describeIneligible(formattedRecommendations);
         
         // Update the recommendations in context
         if (formattedRecommendations.length > 0) {
-          setUpdateRecommendations(formattedRecommendations);
+          proposeRecommendations(formattedRecommendations);
         }
 
         // Call the callback if provided
-        const newRecommendations = extractedCoursesFromText
+        const newRecommendations = recommendedCourses
           .filter(id => !Array.from(recommendedCourseIds).includes(id));
         
         if (newRecommendations.length > 0 && onRecommendationsUpdate) {
@@ -779,11 +580,11 @@ Example response:
       const assistantMessage: Message = {
         id: 'assistant',
         role: 'assistant',
-        content: `I've generated new course recommendations based on your profile and our conversation:\n\n${content}`,
+        content: `I've generated new course recommendations based on your profile and our conversation:\n\n${content}${eligibilityNote}`,
         timestamp: new Date(),
         status: 'complete',
         metadata: {
-          recommendedCourses: extractedCoursesFromText
+          recommendedCourses: recommendedCourses
         }
       };
 
@@ -794,7 +595,9 @@ Example response:
       setMessages(prev => [...prev, {
         id: 'assistant',
         role: 'assistant',
-        content: 'I apologize, but I encountered an error while generating recommendations. Please try again.',
+        content: error instanceof StructuredOutputError
+          ? 'I could not put together valid recommendations from the course catalog this time. Please try again.'
+          : 'I apologize, but I encountered an error while generating recommendations. Please try again.',
         timestamp: new Date(),
         status: 'complete'
       }]);
@@ -839,6 +642,7 @@ Example response:
       // Apply the updates directly with the new recommendations array
       // This ensures immediate update without timing issues
       applyUpdateRecommendations(newRecommendations);
+      recordAppliedRecommendations(newRecommendations);
       
       console.log('Course added to dashboard:', course.title);
       
@@ -873,6 +677,7 @@ Example response:
       // Apply the updates directly with the new recommendations array
       // This ensures immediate update without timing issues
       applyUpdateRecommendations(newRecommendations);
+      recordAppliedRecommendations(newRecommendations);
       
       console.log('Course swapped in dashboard:', courseToAdd.title);
       
@@ -892,752 +697,95 @@ Example response:
     setCourseToAdd(null);
   };
 
-  // Function to handle low occupancy course requests
-  const handleLowOccupancyRequest = async () => {
-    // Add loading message
-    const loadingMessage: Message = {
+  // Answer through /api/chat, whose agent looks up courses, prerequisites, availability and
+  // schedules with tools; tool progress is shown until the reply arrives
+  const sendMessageToLLM = async (userInput: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessages(prev => [...prev, {
       id: 'assistant',
       role: 'assistant',
-      content: 'I can help you find courses with low occupancy. Let me search for those options...',
+      content: '',
       timestamp: new Date(),
-      status: 'complete'
+      status: 'streaming'
+    }]);
+    // Deltas are successive pieces of the answer
+    const appendToStreamingMessage = (text: string) => {
+      setMessages(prev => prev.map(m => m.status === 'streaming' ? { ...m, content: m.content + text } : m));
     };
-    
-    setMessages(prev => [...prev, loadingMessage]);
-    
+
+    let response: Record<string, unknown> | null = null;
     try {
-      // Get all courses
-      const { data: coursesData, error: coursesError } = await supabase.from('courses').select('*');
-      if (coursesError) throw coursesError;
-      
-      // Get student data
-      const { data: studentData, error: studentError } = await supabase
-        .from('students')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single();
-      if (studentError) throw studentError;
-      
-      // Get availability data
-      const availabilityScores = await getCourseAvailabilityData(coursesData.map(c => c.id));
-      
-      // Add availability scores and determine difficulty levels
-      const enhancedCourses = coursesData.map(course => {
-        // Get availability score (default to 0.5 if not found)
-        const availScore = availabilityScores[course.id] || 0.5;
-        
-        // Determine difficulty level based on hours_required if available
-        let difficultyLevel = course.difficulty_level || 'Intermediate';
-        if ('hours_required' in course && typeof course.hours_required === 'number') {
-          if (course.hours_required < 4) {
-            difficultyLevel = 'Beginner';
-          } else if (course.hours_required >= 4 && course.hours_required < 8) {
-            difficultyLevel = 'Intermediate';
-          } else if (course.hours_required >= 8 && course.hours_required < 12) {
-            difficultyLevel = 'Advanced';
-          } else {
-            difficultyLevel = 'Expert';
-          }
-        }
-        
-        let occupancyDescription = "high occupancy";
-        if (availScore <= 0.3) {
-          occupancyDescription = "very low occupancy";
-        } else if (availScore <= 0.5) {
-          occupancyDescription = "low occupancy";
-        } else if (availScore <= 0.7) {
-          occupancyDescription = "medium occupancy";
-        }
-        
-        // Create a comprehensive list of technologies and skills likely covered in the course
-        // This will help the model match user queries about specific technologies
-        const technicalSkills = [];
-        
-        // Add skills based on subject area
-        if (course.subject === 'Programming') {
-          technicalSkills.push('programming fundamentals', 'algorithms', 'data structures');
-        } else if (course.subject === 'Web Development') {
-          technicalSkills.push('HTML', 'CSS', 'JavaScript', 'web frameworks', 'responsive design');
-        } else if (course.subject === 'Database') {
-          technicalSkills.push('SQL', 'database design', 'data modeling', 'query optimization');
-        } else if (course.subject === 'Computer Science') {
-          technicalSkills.push('algorithms', 'data structures', 'discrete mathematics', 'computational theory');
-        } else if (course.subject === 'Data Science') {
-          technicalSkills.push('Python', 'R', 'statistical analysis', 'data visualization', 'machine learning');
-        } else if (course.subject === 'Artificial Intelligence') {
-          technicalSkills.push('machine learning', 'neural networks', 'NLP', 'computer vision', 'TensorFlow', 'PyTorch');
-        } else if (course.subject === 'Mobile Development') {
-          technicalSkills.push('iOS', 'Android', 'Swift', 'Kotlin', 'React Native', 'mobile UI design');
-        } else if (course.subject === 'Cybersecurity') {
-          technicalSkills.push('network security', 'encryption', 'ethical hacking', 'security principles');
-        }
-        
-        // Add inferred skills from the title and prerequisites
-        const titleLower = course.title.toLowerCase();
-        if (titleLower.includes('java')) {
-          technicalSkills.push('Java', 'object-oriented programming', 'Java frameworks');
-        } else if (titleLower.includes('python')) {
-          technicalSkills.push('Python', 'scripting', 'data analysis');
-        } else if (titleLower.includes('javascript') || titleLower.includes('js')) {
-          technicalSkills.push('JavaScript', 'ES6+', 'web development');
-        } else if (titleLower.includes('react')) {
-          technicalSkills.push('React', 'JavaScript', 'frontend development');
-        } else if (titleLower.includes('node')) {
-          technicalSkills.push('Node.js', 'JavaScript', 'backend development');
-        } else if (titleLower.includes('data')) {
-          technicalSkills.push('data analysis', 'SQL', 'statistics');
-        } else if (titleLower.includes('cloud')) {
-          technicalSkills.push('cloud computing', 'AWS', 'Azure', 'DevOps');
-        } else if (titleLower.includes('object')) {
-          technicalSkills.push('object-oriented programming', 'Java', 'C++', 'inheritance', 'polymorphism');
+      for await (const event of streamEvents('/api/chat', {
+        message: userInput,
+        sessionId: activeSessionId,
+        userId,
+        useAdvisorMode: true
+      }, controller.signal)) {
+        if (event.type === 'tool') {
+          setAgentActivity(TOOL_ACTIVITY_LABELS[event.tool] ?? 'Looking things up…');
+        } else if (event.type === 'delta') {
+          appendToStreamingMessage(event.text);
+        } else {
+          response = event.data;
         }
-        
-        return {
-          ...course,
-          availability_score: availScore,
-          difficulty_level: difficultyLevel,
-          occupancy_percent: Math.round((1 - availScore) * 100),
-          occupancy: `${Math.round((1 - availScore) * 100)}% (${occupancyDescription})`,
-          description: course.description || `Course on ${course.subject || 'general topics'}.`,
-          technical_skills: technicalSkills.length > 0 ? [...new Set(technicalSkills)] : undefined
-        };
-      });
-      
-      // Categorize courses by occupancy
-      const veryLowOccupancy = enhancedCourses.filter(c => c.occupancy_percent <= 30);
-      const lowOccupancy = enhancedCourses.filter(c => c.occupancy_percent > 30 && c.occupancy_percent <= 50);
-      const mediumOccupancy = enhancedCourses.filter(c => c.occupancy_percent > 50 && c.occupancy_percent <= 70);
-      
-      // Prioritize student's preferred subjects
-      const preferredSubjects = studentData.preferred_subjects || [];
-      
-      // Get candidates - prioritize low occupancy courses in preferred subjects
-      let candidates = [
-        ...veryLowOccupancy.filter(c => preferredSubjects.includes(c.subject)),
-        ...veryLowOccupancy,
-        ...lowOccupancy.filter(c => preferredSubjects.includes(c.subject)),
-        ...lowOccupancy,
-        ...mediumOccupancy.filter(c => preferredSubjects.includes(c.subject))
-      ];
-      
-      // Remove duplicates
-      candidates = Array.from(new Map(candidates.map(c => [c.id, c])).values());
-      
-      // Take top 5
-      const topCandidates = candidates.slice(0, 5);
-      
-      // Format the courses as recommendations
-      const recommendations = topCandidates.map(course => {
-        const match = calculateMatchScore(course, studentData);
-        
-        // Generate detailed course-specific reasons if none provided
-        let reasons = ['Recommended by AI Assistant'];
-        if (course.subject) {
-          reasons.push(`Covers key ${course.subject} concepts and skills`);
-        }
-        if (course.career_paths && Array.isArray(course.career_paths) && course.career_paths.length > 0) {
-          reasons.push(`Relevant for ${course.career_paths[0]} career path`);
-        }
-        if ('hours_required' in course && typeof course.hours_required === 'number') {
-          reasons.push(`Requires approximately ${course.hours_required} hours of work per week`);
-        }
-        
-        return {
-          course_id: course.id,
-          title: course.title,
-          subject: course.subject || 'General',
-          credits: course.credits,
-          match_score: match,
-          difficulty_level: course.difficulty_level,
-          time_slot: course.time_slots || 'Flexible',
-          reasons,
-          prerequisites: course.prerequisites || [],
-          hours_required: ('hours_required' in course) ? course.hours_required : undefined,
-          availability_score: course.availability_score,
-          description: course.description || `Course on ${course.subject || 'general topics'}.`,
-          technical_skills: course.technical_skills || []
-        };
-      });
-      
-      // Update the assistant message with results
-      if (recommendations.length > 0) {
-        const resultMessage: Message = {
-          id: 'assistant',
-          role: 'assistant',
-          content: `I found ${recommendations.length} courses with good availability. These are sorted by occupancy rate, with preference given to your interests and career goals.`,
-          timestamp: new Date(),
-          status: 'complete',
-          metadata: {
-            recommendations
-          }
-        };
-        
-        // Replace the loading message with the results
-        setMessages(prevMessages => [
-          ...prevMessages.slice(0, -1),
-          resultMessage
-        ]);
-      } else {
-        // If no suitable courses found
-        const noResultsMessage: Message = {
-          id: 'assistant',
-          role: 'assistant',
-          content: "I couldn't find any courses with low occupancy rates at the moment. Would you like to see general course recommendations instead?",
-          timestamp: new Date(),
-          status: 'complete'
-        };
-        
-        // Replace the loading message with no results
-        setMessages(prevMessages => [
-          ...prevMessages.slice(0, -1),
-          noResultsMessage
-        ]);
       }
     } catch (error) {
-      console.error('Error finding low occupancy courses:', error);
-      
-      // Update with error message
-      const errorMessage: Message = {
-        id: 'assistant',
-        role: 'assistant',
-        content: "I'm having trouble finding course occupancy information at the moment. Please try again later or ask me for general course recommendations instead.",
-        timestamp: new Date(),
-        status: 'complete'
-      };
-      
-      // Replace the loading message with the error
-      setMessages(prevMessages => [
-        ...prevMessages.slice(0, -1),
-        errorMessage
-      ]);
-    }
-  };
-  
-  // Calculate match score between course and student
-  const calculateMatchScore = (course: any, student: any): number => {
-    let score = 0.5; // Base score
-    
-    // Preferred subjects match
-    if (student.preferred_subjects?.includes(course.subject)) {
-      score += 0.2;
-    }
-    
-    // Career path match
-    if (course.career_paths?.includes(student.career_goal_id)) {
-      score += 0.2;
-    }
-    
-    // Availability bonus
-    if (course.occupancy_percent <= 30) {
-      score += 0.1;
-    } else if (course.occupancy_percent <= 50) {
-      score += 0.05;
+      if (controller.signal.aborted) {
+        // Keep a reply that already arrived; drop an empty placeholder
+        setMessages(prev => prev.flatMap(m =>
+          m.status !== 'streaming' ? [m] : m.content ? [{ ...m, status: 'stopped' }] : []
+        ));
+        return;
+      }
+      setMessages(prev => prev.filter(m => m.status !== 'streaming'));
+      console.error('Error sending message to LLM:', error);
+      throw error;
+    } finally {
+      abortRef.current = null;
+      setAgentActivity(null);
     }
-    
-    // Cap at 0.95
-    return Math.min(score, 0.95);
-  };
 
-  // Add a new function to handle difficulty-related queries
-  const handleDifficultyRequest = async (query: string) => {
-    // Determine which difficulty level is being requested
-    let targetDifficulty: string | null = null;
-    
-    if (query.toLowerCase().includes('beginner') || query.toLowerCase().includes('easy course')) {
-      targetDifficulty = 'Beginner';
-    } else if (query.toLowerCase().includes('intermediate')) {
-      targetDifficulty = 'Intermediate';
-    } else if (query.toLowerCase().includes('advanced') || 
-               query.toLowerCase().includes('hard course') || 
-               query.toLowerCase().includes('difficult course')) {
-      targetDifficulty = 'Advanced';
-    } else if (query.toLowerCase().includes('expert') || query.toLowerCase().includes('challenging')) {
-      targetDifficulty = 'Expert';
+    if (!response || typeof response.answer !== 'string') {
+      setMessages(prev => prev.filter(m => m.status !== 'streaming'));
+      throw new Error('Empty response from assistant');
     }
-    
-    if (!targetDifficulty) {
-      // If no specific difficulty was detected, fallback to the regular flow
-      await sendMessageToLLM(query, messages);
-      return;
-    }
-    
-    // Add loading message
-    const loadingMessage: Message = {
+
+    // Only set when the agent proposed a set that passed the prerequisite and schedule checks
+    const recommendedCourses = Array.isArray(response.recommendedCourses)
+      ? (response.recommendedCourses as number[])
+      : [];
+    const formattedRecommendations = recommendedCourses
+      .map(id => formatCourseForRecommendation(id, courses))
+      .filter((course): course is CourseRecommendation => course !== null);
+
+    setMessages(prev => prev.map(m => m.status === 'streaming' ? {
       id: 'assistant',
       role: 'assistant',
-      content: `I'm finding ${targetDifficulty.toLowerCase()} level courses that match your profile...`,
+      content: response.answer as string,
       timestamp: new Date(),
-      status: 'complete'
-    };
-    
-    setMessages(prev => [...prev, loadingMessage]);
-    
-    try {
-      // Get all courses
-      const { data: coursesData, error: coursesError } = await supabase.from('courses').select('*');
-      if (coursesError) throw coursesError;
-      
-      // Get student data
-      const { data: studentData, error: studentError } = await supabase
-        .from('students')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single();
-      if (studentError) throw studentError;
-      
-      // Get availability data
-      const availabilityScores = await getCourseAvailabilityData(coursesData.map(c => c.id));
-      
-      // Enhance courses with difficulty and availability data
-      const enhancedCourses = coursesData.map(course => {
-        // Get availability score (default to 0.5 if not found)
-        const availScore = availabilityScores[course.id] || 0.5;
-        
-        // Determine difficulty level based on hours_required if available
-        let difficultyLevel = course.difficulty_level || 'Intermediate';
-        if ('hours_required' in course && typeof course.hours_required === 'number') {
-          if (course.hours_required < 4) {
-            difficultyLevel = 'Beginner';
-          } else if (course.hours_required >= 4 && course.hours_required < 8) {
-            difficultyLevel = 'Intermediate';
-          } else if (course.hours_required >= 8 && course.hours_required < 12) {
-            difficultyLevel = 'Advanced';
-          } else {
-            difficultyLevel = 'Expert';
-          }
-        }
-        
-        return {
-          ...course,
-          availability_score: availScore,
-          difficulty_level: difficultyLevel,
-          occupancy_percent: Math.round((1 - availScore) * 100)
-        };
-      });
-      
-      // Filter by target difficulty
-      const matchingCourses = enhancedCourses.filter(c => c.difficulty_level === targetDifficulty);
-      
-      // Also consider student's preferred subjects
-      const preferredSubjects = studentData.preferred_subjects || [];
-      
-      // Get candidates - prioritize preferred subjects
-      let candidates = [
-        ...matchingCourses.filter(c => preferredSubjects.includes(c.subject)),
-        ...matchingCourses
-      ];
-      
-      // Remove duplicates
-      candidates = Array.from(new Map(candidates.map(c => [c.id, c])).values());
-      
-      // Sort by match score and take top 5
-      candidates.sort((a, b) => calculateMatchScore(b, studentData) - calculateMatchScore(a, studentData));
-      const topCandidates = candidates.slice(0, 5);
-      
-      // Format the courses as recommendations
-      const recommendations = topCandidates.map(course => {
-        const match = calculateMatchScore(course, studentData);
-        
-        // Generate detailed course-specific reasons if none provided
-        let reasons = ['Recommended by AI Assistant'];
-        if (course.subject) {
-          reasons.push(`Covers key ${course.subject} concepts and skills`);
-        }
-        if (course.career_paths && Array.isArray(course.career_paths) && course.career_paths.length > 0) {
-          reasons.push(`Relevant for ${course.career_paths[0]} career path`);
-        }
-        if ('hours_required' in course && typeof course.hours_required === 'number') {
-          reasons.push(`Requires approximately ${course.hours_required} hours of work per week`);
-        }
-        
-        return {
-          course_id: course.id,
-          title: course.title,
-          subject: course.subject || 'General',
-          credits: course.credits,
-          match_score: match,
-          difficulty_level: course.difficulty_level,
-          time_slot: course.time_slots || 'Flexible',
-          reasons,
-          prerequisites: course.prerequisites || [],
-          hours_required: ('hours_required' in course) ? course.hours_required : undefined,
-          availability_score: course.availability_score
-        };
-      });
-      
-      // Update the assistant message with results
-      if (recommendations.length > 0) {
-        const resultMessage: Message = {
-          id: 'assistant',
-          role: 'assistant',
-          content: `I found ${recommendations.length} ${targetDifficulty.toLowerCase()} level courses that might interest you. These are sorted by relevance to your profile and interests.`,
-          timestamp: new Date(),
-          status: 'complete',
-          metadata: {
-            recommendations
-          }
-        };
-        
-        // Replace the loading message with the results
-        setMessages(prevMessages => [
-          ...prevMessages.slice(0, -1),
-          resultMessage
-        ]);
-      } else {
-        // If no matching courses found
-        const noResultsMessage: Message = {
-          id: 'assistant',
-          role: 'assistant',
-          content: `I couldn't find any ${targetDifficulty.toLowerCase()} level courses at the moment. Would you like to see courses of a different difficulty level?`,
-          timestamp: new Date(),
-          status: 'complete'
-        };
-        
-        // Replace the loading message with no results
-        setMessages(prevMessages => [
-          ...prevMessages.slice(0, -1),
-          noResultsMessage
-        ]);
+      status: 'complete',
+      metadata: {
+        isRecommending: recommendedCourses.length > 0,
+        recommendedCourses
       }
-    } catch (error) {
-      console.error('Error finding courses by difficulty:', error);
-      
-      // Update with error message
-      const errorMessage: Message = {
-        id: 'assistant',
-        role: 'assistant',
-        content: "I'm having trouble finding course information at the moment. Please try again later.",
-        timestamp: new Date(),
-        status: 'complete'
-      };
-      
-      // Replace the loading message with the error
-      setMessages(prevMessages => [
-        ...prevMessages.slice(0, -1),
-        errorMessage
-      ]);
-    }
-  };
+    } : m));
 
-  // Update the sendMessageToLLM function to improve formatting guidance
-  const sendMessageToLLM = async (userInput: string, currentMessages: Message[]) => {
-    try {
-      const conversationHistory = currentMessages.map(m => ({
-        role: m.role,
-        content: m.content
-      }));
-
-      // Get previously recommended courses with titles
-      const previouslyRecommended = Array.from(recommendedCourseIds).map(id => {
-        const course = courses.find(c => c.id === id);
-        return course ? course.title : null;
-      }).filter(Boolean);
-      
-      // Get availability data to enrich the prompt
-      const availabilityScores = await getCourseAvailabilityData(courses.map(c => c.id));
-      
-      // Enrich course data with difficulty and occupancy information
-      const enhancedCourses = courses.map(course => {
-        // Get availability score (default to 0.5 if not found)
-        const availScore = availabilityScores[course.id] || 0.5;
-        const occupancyPercent = Math.round((1 - availScore) * 100);
-        
-        // Determine difficulty level based on hours_required if available
-        let difficultyLevel = course.difficulty_level || 'Intermediate';
-        if ('hours_required' in course && typeof course.hours_required === 'number') {
-          if (course.hours_required < 4) {
-            difficultyLevel = 'Beginner';
-          } else if (course.hours_required >= 4 && course.hours_required < 8) {
-            difficultyLevel = 'Intermediate';
-          } else if (course.hours_required >= 8 && course.hours_required < 12) {
-            difficultyLevel = 'Advanced';
-          } else {
-            difficultyLevel = 'Expert';
-          }
-        }
-        
-        let occupancyDescription = "high occupancy";
-        if (occupancyPercent <= 30) {
-          occupancyDescription = "very low occupancy";
-        } else if (occupancyPercent <= 50) {
-          occupancyDescription = "low occupancy";
-        } else if (occupancyPercent <= 70) {
-          occupancyDescription = "medium occupancy";
-        }
-        
-        // Create a comprehensive list of technologies and skills likely covered in the course
-        // This will help the model match user queries about specific technologies
-        const technicalSkills = [];
-        
-        // Add skills based on subject area
-        if (course.subject === 'Programming') {
-          technicalSkills.push('programming fundamentals', 'algorithms', 'data structures');
-        } else if (course.subject === 'Web Development') {
-          technicalSkills.push('HTML', 'CSS', 'JavaScript', 'web frameworks', 'responsive design');
-        } else if (course.subject === 'Database') {
-          technicalSkills.push('SQL', 'database design', 'data modeling', 'query optimization');
-        } else if (course.subject === 'Computer Science') {
-          technicalSkills.push('algorithms', 'data structures', 'discrete mathematics', 'computational theory');
-        } else if (course.subject === 'Data Science') {
-          technicalSkills.push('Python', 'R', 'statistical analysis', 'data visualization', 'machine learning');
-        } else if (course.subject === 'Artificial Intelligence') {
-          technicalSkills.push('machine learning', 'neural networks', 'NLP', 'computer vision', 'TensorFlow', 'PyTorch');
-        } else if (course.subject === 'Mobile Development') {
-          technicalSkills.push('iOS', 'Android', 'Swift', 'Kotlin', 'React Native', 'mobile UI design');
-        } else if (course.subject === 'Cybersecurity') {
-          technicalSkills.push('network security', 'encryption', 'ethical hacking', 'security principles');
-        }
-        
-        // Add inferred skills from the title and prerequisites
-        const titleLower = course.title.toLowerCase();
-        if (titleLower.includes('java')) {
-          technicalSkills.push('Java', 'object-oriented programming', 'Java frameworks');
-        } else if (titleLower.includes('python')) {
-          technicalSkills.push('Python', 'scripting', 'data analysis');
-        } else if (titleLower.includes('javascript') || titleLower.includes('js')) {
-          technicalSkills.push('JavaScript', 'ES6+', 'web development');
-        } else if (titleLower.includes('react')) {
-          technicalSkills.push('React', 'JavaScript', 'frontend development');
-        } else if (titleLower.includes('node')) {
-          technicalSkills.push('Node.js', 'JavaScript', 'backend development');
-        } else if (titleLower.includes('data')) {
-          technicalSkills.push('data analysis', 'SQL', 'statistics');
-        } else if (titleLower.includes('cloud')) {
-          technicalSkills.push('cloud computing', 'AWS', 'Azure', 'DevOps');
-        } else if (titleLower.includes('object')) {
-          technicalSkills.push('object-oriented programming', 'Java', 'C++', 'inheritance', 'polymorphism');
-        }
-        
-        return {
-          id: course.id,
-          title: course.title,
-          subject: course.subject || 'General',
-          credits: course.credits,
-          difficulty: difficultyLevel,
-          occupancy: `${occupancyPercent}% (${occupancyDescription})`,
-          hours_per_week: 'hours_required' in course ? course.hours_required : 'varies',
-          career_paths: course.career_paths || [],
-          prerequisites: course.prerequisites || [],
-          description: course.description || `Course on ${course.subject || 'general topics'}.`,
-          technical_skills: technicalSkills.length > 0 ? [...new Set(technicalSkills)] : undefined,
-          time_slot: course.time_slots || 'Flexible'
-        };
-      });
-      
-      // Detect if the query is about difficulty or occupancy
-      const isDifficultyQuery = userInput.toLowerCase().includes('beginner') || 
-                              userInput.toLowerCase().includes('intermediate') ||
-                              userInput.toLowerCase().includes('advanced') ||
-                              userInput.toLowerCase().includes('expert') ||
-                              userInput.toLowerCase().includes('easy course') ||
-                              userInput.toLowerCase().includes('hard course') ||
-                              userInput.toLowerCase().includes('difficult') ||
-                              userInput.toLowerCase().includes('challenging');
-                              
-      const isOccupancyQuery = userInput.toLowerCase().includes('low occupancy') || 
-                             userInput.toLowerCase().includes('less crowded') ||
-                             userInput.toLowerCase().includes('available slots') ||
-                             userInput.toLowerCase().includes('easy to get') ||
-                             userInput.toLowerCase().includes('not full');
-      
-      // Detect subject-specific queries by looking for technology/subject keywords
-      const subjectKeywords = [
-        'java', 'python', 'javascript', 'react', 'node', 'web', 'database', 'sql', 
-        'machine learning', 'ai', 'artificial intelligence', 'data science', 'cybersecurity',
-        'security', 'cloud', 'aws', 'azure', 'devops', 'mobile', 'ios', 'android',
-        'c++', 'c#', 'ruby', 'php', 'html', 'css', 'swift', 'kotlin', 'blockchain',
-        'programming', 'software', 'front-end', 'back-end', 'fullstack'
-      ];
-      
-      const queryWords = userInput.toLowerCase().split(/\W+/);
-      const detectedSubjects = subjectKeywords.filter(keyword => 
-        userInput.toLowerCase().includes(keyword) || 
-        queryWords.some(word => word === keyword.split(' ')[0])
+    if (formattedRecommendations.length > 0) {
+      proposeRecommendations(
+        formattedRecommendations,
+        typeof response.sessionId === 'string' ? response.sessionId : activeSessionId
       );
-      
-      const isSubjectQuery = detectedSubjects.length > 0;
-      
-      // Detect greeting or casual conversation
-      const isGreeting = /^(hi|hello|hey|greetings|good (morning|afternoon|evening)|howdy)/i.test(userInput.trim());
-      const isCasualQuestion = /(how are you|what'?s up|how'?s it going|how do you work)/i.test(userInput);
-      
-      // Add special instructions based on query type
-      let specialInstructions = "";
-      if (isDifficultyQuery) {
-        specialInstructions = `
-The user is asking about course difficulty. When responding:
-- Focus on courses matching the difficulty level the user is interested in
-- Explain why courses of that difficulty level would be beneficial for them
-- Be brief and direct about hours required per week`;
-      } else if (isOccupancyQuery) {
-        specialInstructions = `
-The user is asking about course occupancy/availability. When responding:
-- Prioritize recommending courses with lower occupancy rates
-- Be concise about occupancy percentages and their meaning
-- Mention when registration timing is important`;
-      } else if (isSubjectQuery) {
-        const subjectList = detectedSubjects.join(', ');
-        specialInstructions = `
-The user is asking about courses related to ${subjectList}. When responding:
-- Search course titles, descriptions, and prerequisites for relevant content
-- Even if no courses have "${subjectList}" directly in the title, find courses that would teach these skills
-- If looking for programming languages or technologies, find courses where these would be taught
-- Be intelligent about related technologies (e.g. for Java, also consider courses teaching OOP concepts)
-- Explain why each course is relevant to ${subjectList}
-- ALWAYS suggest relevant courses even if they don't have the exact keyword in the title
-- If no exact matches exist, suggest the closest alternatives that would help learn these skills`;
-      } else if (isGreeting || isCasualQuestion) {
-        specialInstructions = `
-The user is making casual conversation. When responding:
-- Be friendly but brief (1-2 sentences max)
-- DO NOT recommend courses unless specifically asked
-- Avoid excessive greetings or pleasantries
-- DO NOT mention IDs or include technical metadata in your visible response`;
-      }
-
-      const response = await fetch(`${API_CONFIG.url}/${API_CONFIG.model}:generateContent?key=${API_CONFIG.key}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: "You are a course assistant for a technical university. Be conversational, natural and concise in your responses.\n\n" +
-                "STUDENT CONTEXT:\n" +
-                "Career Goal: " + student.career_goal_id + "\n" +
-                "Technical Level: " + student.technical_proficiency + "\n" +
-                "Preferred Subjects: " + student.preferred_subjects.join(', ') + "\n" +
-                "Learning Mode: " + student.preferred_learning_mode + "\n" +
-                "Credits: " + student.credits_completed + "\n" +
-                "Current Courses: " + student.current_courses_taken.join(', ') + "\n\n" +
-                
-                "Previous conversation:\n" +
-                conversationHistory.map(m => (m.role === 'user' ? 'Student' : 'Assistant') + ": " + m.content).join('\n') + "\n\n" +
-                
-                "Previously recommended: " + (previouslyRecommended.length > 0 ? previouslyRecommended.join(', ') : 'None') + "\n\n" +
-                
-                "IMPORTANT NOTE ABOUT TIME SLOTS: When you see time slots like 'MW 10:00-11:15', 'TR 14:30-15:45', or 'F 09:00-10:30', the letters represent days of the week where:\n" +
-                "- M = Monday\n" +
-                "- T = Tuesday\n" +
-                "- W = Wednesday\n" +
-                "- R = Thursday\n" +
-                "- F = Friday\n" +
-                "So 'MW' means Monday and Wednesday, 'TR' means Tuesday and Thursday.\n\n" +
-                
-                "Available courses with full details: \n" +
-                JSON.stringify(enhancedCourses.map(c => {
-                  return {
-                    id: c.id,
-                    title: c.title,
-                    subject: c.subject,
-                    credits: c.credits,
-                    difficulty: c.difficulty,
-                    hours_per_week: c.hours_per_week,
-                    occupancy: c.occupancy,
-                    prerequisites: c.prerequisites,
-                    career_paths: c.career_paths,
-                    description: c.description || `Course on ${c.subject}`,
-                    technical_skills: c.technical_skills || [],
-                    time_slot: c.time_slot
-                  };
-                }), null, 2) + "\n\n" +
-                
-                "Student: \"" + userInput + "\"\n\n" +
-                
-                specialInstructions + "\n\n" +
-                
-                "CRITICAL FORMATTING GUIDELINES:\n" +
-                "1. Be natural and conversational - no need to say \"hi\" or have lengthy greetings\n" +
-                "2. Keep responses SHORT and FOCUSED - 1-3 sentences when possible\n" +
-                "3. NEVER include course IDs in your visible text response\n" +
-                "4. When recommending courses, include this metadata AFTER your message, NOT inside code blocks:\n" +
-                "   {\"recommendedCourses\": [ids], \"isRecommending\": true}\n" +
-                "5. When NOT recommending specific courses, include:\n" +
-                "   {\"isRecommending\": false}\n" +
-                "6. DO NOT use markdown code blocks in your response\n" +
-                "7. DO NOT return raw JSON in the visible part of your message\n" +
-                "8. DO NOT include phrases like \"here's the metadata\" or \"here's the JSON\"\n" +
-                "9. Answer ALL technical questions using the provided course data\n\n" +
-                
-                "Your response should simply consist of plain text followed by a single JSON object."
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.6, // Slightly reduced for more focused responses
-            topP: 0.92,
-            topK: 40,
-            maxOutputTokens: 500 // Reduced to encourage shorter responses
-          }
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null) as APIError | null;
-        console.error('API Error:', errorData);
-        throw new Error(errorData?.error?.message || 'Failed to get response from assistant');
-      }
-
-      const data = await response.json();
-      
-      if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-        throw new Error('Invalid response format from API');
-      }
-
-      const { content, metadata } = parseLLMResponse(data.candidates[0].content.parts[0].text);
-
-      // Extract course recommendations from both metadata and text
-      const metadataCourseIds = metadata?.recommendedCourses || [];
-      const extractedCoursesFromText = extractCourseRecommendationsFromText(content, courses, metadataCourseIds);
-
-      // Use extracted course IDs for the assistant message
-      const assistantMessage: Message = {
-        id: 'assistant',
-        role: 'assistant',
-        content,
-        timestamp: new Date(),
-        status: 'complete',
-        metadata: {
-          ...metadata,
-          recommendedCourses: extractedCoursesFromText
-        }
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
-
-      // Format and update recommendations
-      if (extractedCoursesFromText.length > 0) {
-        // Format recommended courses
-        const formattedRecommendations = extractedCoursesFromText
-          .map(id => formatCourseForRecommendation(id, courses))
-          .filter((course): course is CourseRecommendation => course !== null);
-        
-        // Update the recommendations in context
-        if (formattedRecommendations.length > 0) {
-          setUpdateRecommendations(formattedRecommendations);
-        }
 
-        // Call the callback if provided
-        const newRecommendations = extractedCoursesFromText
-          .filter(id => !Array.from(recommendedCourseIds).includes(id));
-        
-        if (newRecommendations.length > 0 && onRecommendationsUpdate) {
-          onRecommendationsUpdate(newRecommendations);
-        }
+      const newRecommendations = recommendedCourses.filter(id => !recommendedCourseIds.has(id));
+      if (newRecommendations.length > 0 && onRecommendationsUpdate) {
+        onRecommendationsUpdate(newRecommendations);
       }
-
-      // Update preferences if present
-      if (metadata?.userPreferences && onPreferencesUpdate) {
-        onPreferencesUpdate(metadata.userPreferences);
-      }
-    } catch (error) {
-      console.error('Error sending message to LLM:', error);
-      throw error;
     }
   };
 
   return (
-    <Card className="h-full flex flex-col bg-white dark:bg-black rounded-lg overflow-hidden border-0">
+    <Card className="relative h-full flex flex-col bg-white dark:bg-black rounded-lg overflow-hidden border-0">
       {/* Header with AI Profile */}
       <div className="p-6 border-b border-gray-200 dark:border-gray-800">
         <div className="flex items-start gap-4">
@@ -1650,9 +798,26 @@ The user is making casual conversation. When responding:
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-lg font-semibold text-black dark:text-white">Course Assistant</h2>
-                <p className="text-sm text-gray-600 dark:text-gray-400">Your AI Copilot</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400 truncate max-w-[220px]">
+                  {sessions.find(s => s.id === activeSessionId)?.title ?? 'Your AI Copilot'}
+                </p>
               </div>
               <div className="flex gap-2">
+                <button
+                  onClick={handleNewSession}
+                  disabled={isLoading}
+                  className="text-gray-500 hover:text-black dark:hover:text-white p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                  title="New Conversation"
+                >
+                  <Plus className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => setShowSessions(true)}
+                  className="text-gray-500 hover:text-black dark:hover:text-white p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  title="Conversations"
+                >
+                  <History className="h-5 w-5" />
+                </button>
                 {/* <button
                   onClick={handleGenerateRecommendations}
                   disabled={isLoading}
@@ -1726,6 +891,7 @@ The user is making casual conversation. When responding:
 
       {/* Chat Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50 dark:bg-gray-900">
+        <SeatAlerts compact />
         {messages.filter(m => m.role !== 'system').map((message, index) => {
           // Clean message content - remove empty markdown code blocks and JSON blocks
           let cleanedContent = message.content;
@@ -1739,12 +905,16 @@ The user is making casual conversation. When responding:
             cleanedContent = cleanedContent.trim();
           }
           
+          const messageIndex = messages.indexOf(message);
+
           return (
           <div
             key={index}
+            id={`chat-message-${messageIndex}`}
             className={cn(
-              "flex",
-              message.role === 'user' ? 'justify-end' : 'justify-start'
+              "flex rounded-lg transition-shadow",
+              message.role === 'user' ? 'justify-end' : 'justify-start',
+              highlightedMessageIndex === messageIndex && 'ring-2 ring-black dark:ring-white ring-offset-2'
             )}
           >
             <div
@@ -1756,12 +926,15 @@ The user is making casual conversation. When responding:
               )}
             >
                 {message.role === 'assistant' ? (
-                  <TextGenerateEffect 
-                    words={cleanedContent} 
-                    className="text-[13px] leading-[1.5] whitespace-pre-wrap text-gray-800 dark:text-gray-200"
-                    duration={1}
-                    filter={false}
-                  />
+                  <p className="text-[13px] leading-[1.5] whitespace-pre-wrap text-gray-800 dark:text-gray-200">
+                    {linkCourseTitles(cleanedContent)}
+                    {message.status === 'streaming' && !cleanedContent && agentActivity && (
+                      <span className="text-gray-500 dark:text-gray-400">{agentActivity}</span>
+                    )}
+                    {message.status === 'streaming' && (
+                      <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-current align-middle" />
+                    )}
+                  </p>
                 ) : (
                   <p className="text-[14px] leading-relaxed whitespace-pre-wrap">{cleanedContent}</p>
                 )}
@@ -1822,7 +995,7 @@ The user is making casual conversation. When responding:
                         credits: course.credits,
                         match_score: 0.85,
                         difficulty_level: difficultyLevel,
-                        time_slot: course.time_slots || 'Flexible',
+                        time_slot: normalizeTimeSlot(course.time_slots),
                         reasons: reasons,
                         prerequisites: course.prerequisites || [],
                         hours_required: ('hours_required' in course) ? course.hours_required : undefined,
@@ -1835,6 +1008,7 @@ The user is making casual conversation. When responding:
 
               <span className="text-xs opacity-70 mt-2 block">
                 {message.timestamp.toLocaleTimeString()}
+                {message.status === 'stopped' && ' · Stopped'}
               </span>
             </div>
           </div>
@@ -1854,6 +1028,15 @@ The user is making casual conversation. When responding:
             placeholder="Ask me anything..."
             className="flex-1 rounded-lg border border-gray-300 dark:border-gray-700 px-4 py-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white bg-white dark:bg-gray-900 text-black dark:text-white"
           />
+          {isStreaming ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="border border-gray-300 dark:border-gray-700 text-black dark:text-white rounded-lg px-5 py-3 hover:bg-gray-100 dark:hover:bg-gray-900 flex items-center gap-2 text-[15px] font-medium transition-colors"
+            >
+              <Square className="h-4 w-4" />
+              Stop
+            </button>
+          ) : (
           <button
             onClick={handleSend}
             disabled={isLoading}
@@ -1869,9 +1052,149 @@ The user is making casual conversation. When responding:
             )}
             Send
           </button>
+          )}
         </div>
       </div>
 
+      {/* Conversations panel */}
+      {showSessions && (
+        <div className="absolute inset-0 z-20 flex flex-col bg-white dark:bg-black">
+          <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-800">
+            <h3 className="text-base font-semibold text-black dark:text-white">Conversations</h3>
+            <div className="flex gap-2">
+              <button
+                onClick={handleNewSession}
+                disabled={isLoading}
+                className="flex items-center gap-1 text-sm px-3 py-1.5 rounded-md bg-black text-white dark:bg-white dark:text-black disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                New
+              </button>
+              <button
+                onClick={() => setShowSessions(false)}
+                className="text-gray-500 hover:text-black dark:hover:text-white p-1.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800"
+                title="Close"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 border-b border-gray-200 dark:border-gray-800">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="search"
+                value={sessionQuery}
+                onChange={(e) => setSessionQuery(e.target.value)}
+                placeholder="Search past conversations..."
+                className="w-full rounded-md border border-gray-300 dark:border-gray-700 pl-9 pr-3 py-2 text-sm bg-white dark:bg-gray-900 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white"
+              />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2">
+            {sessionQuery.trim() ? (
+              searchResults.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500">No messages match "{sessionQuery.trim()}".</p>
+              ) : (
+                searchResults.map(result => (
+                  <button
+                    key={`${result.sessionId}-${result.messageId ?? 'session'}`}
+                    onClick={() => openSession(result.sessionId, result.messageId)}
+                    disabled={isLoading}
+                    className="w-full text-left p-3 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+                  >
+                    <p className="text-xs font-medium text-gray-500 truncate">{result.sessionTitle}</p>
+                    <p className="text-sm text-black dark:text-white line-clamp-2">{result.snippet}</p>
+                  </button>
+                ))
+              )
+            ) : (
+              sessions.map(session => (
+                <div
+                  key={session.id}
+                  className={cn(
+                    "group p-3 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800",
+                    session.id === activeSessionId && 'bg-gray-100 dark:bg-gray-800'
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    {renamingSessionId === session.id ? (
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={() => handleRenameSession(session.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRenameSession(session.id);
+                          if (e.key === 'Escape') setRenamingSessionId(null);
+                        }}
+                        maxLength={80}
+                        className="flex-1 rounded border border-gray-300 dark:border-gray-700 px-2 py-1 text-sm bg-white dark:bg-gray-900 text-black dark:text-white"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => openSession(session.id)}
+                        disabled={isLoading}
+                        className="flex-1 min-w-0 text-left disabled:opacity-50"
+                      >
+                        <p className="text-sm font-medium text-black dark:text-white truncate">{session.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(session.updatedAt).toLocaleString()}
+                        </p>
+                      </button>
+                    )}
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {session.appliedRecommendations.length > 0 && (
+                        <button
+                          onClick={() => handleRestoreRecommendations(session)}
+                          disabled={isLoading}
+                          className="p-1 text-gray-500 hover:text-black dark:hover:text-white"
+                          title="Restore these courses to the dashboard"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          setRenamingSessionId(session.id);
+                          setRenameValue(session.title);
+                        }}
+                        className="p-1 text-gray-500 hover:text-black dark:hover:text-white"
+                        title="Rename"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteSession(session.id)}
+                        disabled={isLoading}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {session.appliedRecommendations.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {session.appliedRecommendations.map(rec => (
+                        <span
+                          key={rec.course_id}
+                          className="text-xs px-2 py-0.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-full"
+                        >
+                          {rec.title}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
       {showSwapDialog && courseToAdd && (
         <SwapConfirmationDialog
           course={courseToAdd}
@@ -0,0 +1,144 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  ChatMessage,
+  ChatSearchResult,
+  ChatSession,
+  ChatSessionChanges,
+} from "@/utils/chatHistory";
+
+/**
+ * Browser side of the course assistant's conversations. Sessions and their messages are stored
+ * on the server; listing, search, rename and delete go through /api/chat/sessions and
+ * /api/chat/search. Earlier versions kept a single conversation in localStorage instead, and
+ * importLegacyChatHistory moves that copy to the server once.
+ */
+
+interface LegacyChatHistory {
+  messages: { role: string; content: string }[];
+  timestamp: number;
+}
+
+const legacyKey = (studentId: string) => `chat_history_${studentId}`;
+
+// One import per student even when the caller mounts twice
+const imports = new Map<string, Promise<number>>();
+
+// Session IDs are the primary key of chat_sessions, a uuid column
+export function createSessionId(): string {
+  return uuidv4();
+}
+
+function withUser(url: string, userId?: string) {
+  return userId
+    ? `${url}${url.includes("?") ? "&" : "?"}userId=${encodeURIComponent(userId)}`
+    : url;
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: ${response.status}`);
+  }
+  return data;
+}
+
+// Most recently active first
+export async function fetchChatSessions(
+  userId?: string,
+): Promise<ChatSession[]> {
+  const { sessions } = await requestJson<{ sessions: ChatSession[] }>(
+    withUser("/api/chat/sessions", userId),
+  );
+  return sessions;
+}
+
+// Oldest first
+export async function fetchChatMessages(
+  sessionId: string,
+  userId?: string,
+): Promise<ChatMessage[]> {
+  const { messages } = await requestJson<{ messages: ChatMessage[] }>(
+    withUser(`/api/chat/sessions/${encodeURIComponent(sessionId)}`, userId),
+  );
+  return messages;
+}
+
+export async function updateChatSession(
+  sessionId: string,
+  userId: string | undefined,
+  changes: ChatSessionChanges,
+) {
+  await requestJson(`/api/chat/sessions/${encodeURIComponent(sessionId)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, ...changes }),
+  });
+}
+
+export async function deleteChatSession(sessionId: string, userId?: string) {
+  await requestJson(
+    withUser(`/api/chat/sessions/${encodeURIComponent(sessionId)}`, userId),
+    { method: "DELETE" },
+  );
+}
+
+export async function searchChatSessions(
+  query: string,
+  userId?: string,
+): Promise<ChatSearchResult[]> {
+  const { results } = await requestJson<{ results: ChatSearchResult[] }>(
+    withUser(`/api/chat/search?q=${encodeURIComponent(query)}`, userId),
+  );
+  return results;
+}
+
+function readLegacyMessages(studentId: string): LegacyChatHistory["messages"] {
+  const stored = localStorage.getItem(legacyKey(studentId));
+  if (!stored) return [];
+  const { messages }: LegacyChatHistory = JSON.parse(stored);
+  return Array.isArray(messages) ? messages : [];
+}
+
+/**
+ * Upload the conversation this browser saved for the student before chats moved to the server,
+ * then forget the local copy. A failed upload keeps it for the next visit. Resolves to the number
+ * of sessions imported: 1, or 0 when there was nothing to import.
+ */
+export function importLegacyChatHistory(
+  studentId: string,
+  userId?: string,
+): Promise<number> {
+  const pending = imports.get(studentId);
+  if (pending) return pending;
+
+  const run = async () => {
+    let messages: LegacyChatHistory["messages"];
+    try {
+      messages = readLegacyMessages(studentId);
+    } catch (error) {
+      console.error("Failed to read the chat saved in this browser:", error);
+      return 0;
+    }
+    if (messages.length === 0) return 0;
+
+    const { imported } = await requestJson<{ imported: number }>(
+      "/api/chat/sessions",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, messages }),
+      },
+    );
+    localStorage.removeItem(legacyKey(studentId));
+    return imported;
+  };
+
+  const result = run().catch((error) => {
+    console.error("Failed to import the chat saved in this browser:", error);
+    imports.delete(studentId);
+    return 0;
+  });
+  imports.set(studentId, result);
+  return result;
+}
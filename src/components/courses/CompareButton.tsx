@@ -0,0 +1,46 @@
+"use client";
+
+import { Columns3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { useCompare } from "@/context/CompareContext";
+import { MAX_COMPARED_COURSES } from "@/lib/courseComparison";
+import { cn } from "@/lib/utils";
+
+interface CompareButtonProps {
+  courseId: number;
+  courseTitle: string;
+  className?: string;
+}
+
+/**
+ * Adds a course to, or takes it out of, the side-by-side comparison.
+ */
+export default function CompareButton({ courseId, courseTitle, className }: CompareButtonProps) {
+  const { isComparing, toggleCompare } = useCompare();
+  const comparing = isComparing(courseId);
+
+  const handleClick = () => {
+    if (!toggleCompare({ id: courseId, title: courseTitle })) {
+      toast({
+        title: "Comparison is full",
+        description: `You can compare up to ${MAX_COMPARED_COURSES} courses. Remove one to add ${courseTitle}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Button
+      variant={comparing ? "secondary" : "outline"}
+      size="sm"
+      className={cn("gap-2", className)}
+      onClick={handleClick}
+      aria-pressed={comparing}
+      title={comparing ? "Remove from comparison" : "Compare side by side with other courses"}
+    >
+      <Columns3 size={16} />
+      {comparing ? "Comparing" : "Compare"}
+    </Button>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCompare } from "@/context/CompareContext";
+import { MAX_COMPARED_COURSES, MIN_COMPARED_COURSES } from "@/lib/courseComparison";
+
+/**
+ * The courses picked for comparison, pinned to the bottom of the screen until the student
+ * compares or clears them.
+ */
+export default function CompareTray() {
+  const pathname = usePathname();
+  const { selected, removeFromCompare, clearCompare } = useCompare();
+
+  if (selected.length === 0 || pathname === "/courses/compare") return null;
+  const ready = selected.length >= MIN_COMPARED_COURSES;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-40 flex max-w-3xl -translate-x-1/2 items-center gap-3 rounded-lg border border-gray-200 bg-white px-4 py-3 shadow-lg">
+      <span className="text-sm font-medium text-gray-700 whitespace-nowrap">
+        Compare ({selected.length}/{MAX_COMPARED_COURSES})
+      </span>
+      <div className="flex flex-wrap gap-2">
+        {selected.map((course) => (
+          <span
+            key={course.id}
+            className="flex items-center gap-1 rounded-full bg-blue-50 px-3 py-1 text-xs text-blue-800"
+          >
+            {course.title}
+            <button
+              type="button"
+              onClick={() => removeFromCompare(course.id)}
+              className="text-blue-600 hover:text-blue-900"
+              aria-label={`Remove ${course.title} from comparison`}
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+      </div>
+      <Button variant="ghost" size="sm" onClick={clearCompare}>
+        Clear
+      </Button>
+      {ready ? (
+        <Button size="sm" asChild>
+          <Link href={`/courses/compare?ids=${selected.map((course) => course.id).join(",")}`}>Compare</Link>
+        </Button>
+      ) : (
+        <Button size="sm" disabled title={`Pick at least ${MIN_COMPARED_COURSES} courses`}>
+          Compare
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { BookmarkIcon, GraduationCap, MessageSquare } from "lucide-react";
+import WatchButton from "@/components/courses/WatchButton";
 
 interface CourseCardProps {
+  // Enables the seat watch button
+  courseId?: number;
   title: string;
   institution: string;
   description: string;
@@ -18,6 +21,7 @@ interface CourseCardProps {
 }
 
 export default function CourseCard({
+  courseId,
   title,
   institution,
   description,
@@ -105,6 +109,9 @@ export default function CourseCard({
           Ask AI Why
         </Button>
         <div className="flex gap-2">
+          {courseId !== undefined && (
+            <WatchButton courseId={courseId} courseTitle={title} />
+          )}
           <Button variant="outline" size="sm" className="gap-2">
             <BookmarkIcon size={16} />
             Save
@@ -8,63 +8,116 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { SlidersHorizontal } from "lucide-react";
+import type {
+  CourseFilters,
+  FacetCounts,
+  FacetValue,
+} from "@/lib/courseSearch";
+import { RotateCcw } from "lucide-react";
 
-export default function FilterBar() {
-  return (
-    <div className="bg-white p-4 border border-zinc-200 rounded-md flex flex-col sm:flex-row gap-4 items-center">
-      <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-4 w-full">
-        <div className="flex flex-col gap-1">
-          <label className="text-sm text-zinc-500">Subject:</label>
-          <Select defaultValue="all">
-            <SelectTrigger>
-              <SelectValue placeholder="All" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All</SelectItem>
-              <SelectItem value="cs">Computer Science</SelectItem>
-              <SelectItem value="data">Data Science</SelectItem>
-              <SelectItem value="web">Web Development</SelectItem>
-              <SelectItem value="ai">Artificial Intelligence</SelectItem>
-              <SelectItem value="business">Business</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+interface FilterBarProps {
+  filters: CourseFilters;
+  // Null until the first page of the catalog has loaded
+  facets: FacetCounts | null;
+  onChange: (filters: CourseFilters) => void;
+  onReset: () => void;
+}
+
+type SelectFacet =
+  | "subject"
+  | "semester"
+  | "learning_mode"
+  | "credits"
+  | "is_elective";
+
+// Select value for "no filter"; facet values are never empty
+const ALL = "all";
 
-        <div className="flex flex-col gap-1">
-          <label className="text-sm text-zinc-500">Credit Load:</label>
-          <Select defaultValue="all">
-            <SelectTrigger>
-              <SelectValue placeholder="All" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All</SelectItem>
-              <SelectItem value="1-2">1-2 Credits</SelectItem>
-              <SelectItem value="3-4">3-4 Credits</SelectItem>
-              <SelectItem value="5+">5+ Credits</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+const IS_ELECTIVE_LABELS: Record<string, string> = {
+  true: "Electives Only",
+  false: "Required Courses",
+};
 
-        <div className="flex flex-col gap-1">
-          <label className="text-sm text-zinc-500">Time Available:</label>
-          <Select defaultValue="all">
-            <SelectTrigger>
-              <SelectValue placeholder="All" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All</SelectItem>
-              <SelectItem value="5-10">5-10 hours/week</SelectItem>
-              <SelectItem value="10-15">10-15 hours/week</SelectItem>
-              <SelectItem value="15+">15+ hours/week</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+function optionLabel(facet: SelectFacet, value: FacetValue["value"]): string {
+  if (facet === "credits") return `${value} Credit${value !== 1 ? "s" : ""}`;
+  if (facet === "is_elective") return IS_ELECTIVE_LABELS[String(value)];
+  return String(value);
+}
+
+// Select values are strings; filters keep the column's type
+function filterValue(
+  facet: SelectFacet,
+  value: string,
+): CourseFilters[SelectFacet] {
+  if (facet === "credits") return Number(value);
+  if (facet === "is_elective") return value === "true";
+  return value;
+}
+
+/**
+ * Facet filters for the course catalog. Options and counts come from the catalog's facets, so
+ * each option shows how many courses it would leave given the other filters. An active filter
+ * stays selectable even when no course matches it any more.
+ */
+export default function FilterBar({
+  filters,
+  facets,
+  onChange,
+  onReset,
+}: FilterBarProps) {
+  const update = (facet: SelectFacet, value: string) => {
+    const next = { ...filters };
+    if (value === ALL) delete next[facet];
+    else Object.assign(next, { [facet]: filterValue(facet, value) });
+    onChange(next);
+  };
+
+  const facetSelect = (facet: SelectFacet, label: string, allLabel: string) => {
+    const options = [...(facets?.[facet] ?? [])];
+    const active = filters[facet];
+    if (
+      active !== undefined &&
+      !options.some((option) => option.value === active)
+    ) {
+      options.push({ value: active, count: 0 });
+    }
+
+    return (
+      <div className="flex flex-col gap-1">
+        <label className="text-sm text-zinc-500">{label}:</label>
+        <Select
+          value={active === undefined ? ALL : String(active)}
+          onValueChange={(value) => update(facet, value)}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={allLabel} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{allLabel}</SelectItem>
+            {options.map(({ value, count }) => (
+              <SelectItem key={String(value)} value={String(value)}>
+                {optionLabel(facet, value)} ({count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-4 border border-zinc-200 rounded-md flex flex-col sm:flex-row gap-4 items-end">
+      <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-5 gap-4 w-full">
+        {facetSelect("subject", "Subject", "All Subjects")}
+        {facetSelect("semester", "Semester", "All Semesters")}
+        {facetSelect("learning_mode", "Learning Mode", "All Modes")}
+        {facetSelect("credits", "Credits", "Any Credits")}
+        {facetSelect("is_elective", "Course Type", "All Courses")}
       </div>
 
-      <Button variant="outline" className="whitespace-nowrap">
-        <SlidersHorizontal size={16} className="mr-2" />
-        More Filters
+      <Button variant="outline" className="whitespace-nowrap" onClick={onReset}>
+        <RotateCcw size={16} className="mr-2" />
+        Reset Filters
       </Button>
     </div>
   );
@@ -0,0 +1,34 @@
+import type { HighlightSegment } from "@/lib/retrieval";
+
+interface HighlightProps {
+  segments: HighlightSegment[];
+  className?: string;
+}
+
+// Search snippet with the words that matched the query marked
+export default function Highlight({ segments, className }: HighlightProps) {
+  // Keyed by where each segment starts in the snippet
+  let offset = 0;
+  const keyed = segments.map((segment) => {
+    const key = offset;
+    offset += segment.text.length;
+    return { ...segment, key };
+  });
+
+  return (
+    <span className={className}>
+      {keyed.map(({ text, match, key }) =>
+        match ? (
+          <mark
+            key={key}
+            className="bg-yellow-100 text-inherit rounded-sm px-0.5"
+          >
+            {text}
+          </mark>
+        ) : (
+          <span key={key}>{text}</span>
+        ),
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { Bell, X } from "lucide-react";
+import { useWatchlist } from "@/context/WatchlistContext";
+import { cn } from "@/lib/utils";
+
+interface SeatAlertsProps {
+  // Compact rendering for narrow panels such as the assistant chat
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Unread seat alerts for watched courses, each dismissable. Renders nothing when there are none.
+ */
+export default function SeatAlerts({ compact = false, className }: SeatAlertsProps) {
+  const { alerts, dismissAlerts } = useWatchlist();
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className={cn("rounded-lg border border-amber-200 bg-amber-50 text-amber-900", compact ? "p-3" : "p-4", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className={cn("font-medium flex items-center gap-2", compact ? "text-xs" : "text-sm")}>
+          <Bell className={compact ? "h-3.5 w-3.5" : "h-4 w-4"} />
+          Seat alerts
+        </h3>
+        {alerts.length > 1 && (
+          <button
+            onClick={() => dismissAlerts(alerts.map(alert => alert.id))}
+            className="text-xs text-amber-700 hover:text-amber-900"
+          >
+            Dismiss all
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {alerts.map(alert => (
+          <li key={alert.id} className={cn("flex items-start justify-between gap-2", compact ? "text-xs" : "text-sm")}>
+            <span>
+              {alert.message}
+              {!compact && (
+                <span className="ml-2 text-xs text-amber-700">
+                  {new Date(alert.created_at).toLocaleString()}
+                </span>
+              )}
+            </span>
+            <button
+              onClick={() => dismissAlerts([alert.id])}
+              className="flex-shrink-0 text-amber-700 hover:text-amber-900"
+              title="Dismiss"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { CourseRecommendation } from "@/context/RecommendationsContext";
+
+const SimpleDialog = ({
+  isOpen,
+  onClose,
+  title,
+  description,
+  children,
+  footer,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-md w-full mx-4 p-6 shadow-xl">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">{title}</h3>
+            {description && (
+              <p className="text-sm text-gray-500 mt-1">{description}</p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="mb-6">{children}</div>
+        {footer && <div className="flex justify-end">{footer}</div>}
+      </div>
+    </div>
+  );
+};
+
+// Ask which recommendation a new course should replace once the set is full
+export default function SwapConfirmationDialog({
+  course,
+  dashboardCourses,
+  onConfirm,
+  onCancel,
+}: {
+  course: CourseRecommendation;
+  dashboardCourses: CourseRecommendation[];
+  onConfirm: (oldCourseId: number) => void;
+  onCancel: () => void;
+}) {
+  return (
+    <SimpleDialog
+      isOpen={true}
+      onClose={onCancel}
+      title="Replace a Course"
+      description="You already have 3 courses in your dashboard. Please select which course to replace."
+      footer={
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      }
+    >
+      <div className="space-y-3">
+        {dashboardCourses.map((rec, index) => (
+          <div
+            key={`${rec.course_id}-${index}`}
+            className="p-3 border rounded-lg flex justify-between items-center"
+          >
+            <div>
+              <h4 className="font-medium">{rec.title}</h4>
+              <p className="text-sm text-gray-500">
+                {rec.subject} • {rec.credits} credits
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onConfirm(rec.course_id)}
+            >
+              Replace
+            </Button>
+          </div>
+        ))}
+      </div>
+    </SimpleDialog>
+  );
+}
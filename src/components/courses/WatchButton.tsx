@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { Bell, BellOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { useWatchlist } from "@/context/WatchlistContext";
+import { cn } from "@/lib/utils";
+
+interface WatchButtonProps {
+  courseId: number;
+  courseTitle?: string;
+  className?: string;
+}
+
+/**
+ * Toggles a seat watch on a course. Hidden for signed-out visitors.
+ */
+export default function WatchButton({ courseId, courseTitle, className }: WatchButtonProps) {
+  const { user } = useAuth();
+  const { isWatching, watchCourse, unwatchCourse } = useWatchlist();
+  const [pending, setPending] = useState(false);
+
+  if (!user) return null;
+  const watching = isWatching(courseId);
+
+  const handleClick = async () => {
+    setPending(true);
+    try {
+      if (watching) {
+        await unwatchCourse(courseId);
+      } else {
+        await watchCourse(courseId);
+        toast({
+          title: "Watching seats",
+          description: `We'll let you know when seats open up or run low${courseTitle ? ` in ${courseTitle}` : ""}.`,
+        });
+      }
+    } catch (error) {
+      console.error("Error updating watchlist:", error);
+      toast({
+        title: "Error",
+        description: "Could not update your watchlist. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <Button
+      variant={watching ? "secondary" : "outline"}
+      size="sm"
+      className={cn("gap-2", className)}
+      onClick={handleClick}
+      disabled={pending}
+      aria-pressed={watching}
+      title={watching ? "Stop watching seats" : "Get alerts when seats open or run low"}
+    >
+      {watching ? <BellOff size={16} /> : <Bell size={16} />}
+      {watching ? "Watching" : "Watch seats"}
+    </Button>
+  );
+}
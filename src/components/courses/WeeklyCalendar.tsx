@@ -0,0 +1,500 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { Input } from "@/components/ui/input";
+import SwapConfirmationDialog from "@/components/courses/SwapConfirmationDialog";
+import {
+  MAX_DASHBOARD_COURSES,
+  useRecommendations,
+  type CourseRecommendation,
+} from "@/context/RecommendationsContext";
+import {
+  createEligibilityChecker,
+  type EligibilityChecker,
+} from "@/lib/eligibility";
+import type { PrerequisiteRow } from "@/lib/prerequisites";
+import { createCourseScorer } from "@/lib/scheduler";
+import { supabase } from "@/lib/supabase";
+import {
+  checkConflict,
+  formatTimeSlot,
+  isTimeSlotError,
+  normalizeTimeSlot,
+  parseTimeSlot,
+  WEEKDAY_NAMES,
+  type Meeting,
+  type Weekday,
+} from "@/lib/timeSlot";
+import type { Course, Student } from "@/types";
+
+const GRID_DAYS: Weekday[] = ["M", "T", "W", "R", "F"];
+const DEFAULT_START = 8 * 60;
+const DEFAULT_END = 18 * 60;
+const HOUR_HEIGHT = 48; // px
+const DRAG_TYPE = "application/x-course-id";
+
+const BLOCK_COLORS = [
+  "bg-blue-100 border-blue-400 text-blue-900",
+  "bg-emerald-100 border-emerald-400 text-emerald-900",
+  "bg-amber-100 border-amber-400 text-amber-900",
+  "bg-purple-100 border-purple-400 text-purple-900",
+  "bg-pink-100 border-pink-400 text-pink-900",
+];
+
+interface WeeklyCalendarProps {
+  student: Student;
+  catalog: Course[];
+}
+
+interface PlacedMeeting extends Meeting {
+  recommendation: CourseRecommendation;
+  colorIndex: number;
+  lane: number;
+  lanes: number;
+}
+
+function formatHour(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${hours % 12 || 12}${hours < 12 ? "am" : "pm"}`;
+}
+
+// Build a recommendation for a catalog course dropped onto the grid, flagged like every other
+// recommendation when the student is missing its prerequisites
+function toRecommendation(
+  course: Course,
+  student: Student,
+  checkEligibility: EligibilityChecker | null,
+): CourseRecommendation {
+  const scoreCourse = createCourseScorer(student, {});
+
+  return {
+    course_id: course.id,
+    title: course.title,
+    subject: course.subject || "General",
+    credits: course.credits,
+    match_score: scoreCourse(course),
+    difficulty_level: course.difficulty_level,
+    time_slot: normalizeTimeSlot(course.time_slots),
+    reasons: ["Added from your weekly calendar"],
+    prerequisites: course.prerequisites || [],
+    hours_required: course.hours_required,
+    missing_prerequisites: checkEligibility?.(course.id).missingPrerequisites,
+  };
+}
+
+// Assign side-by-side lanes to meetings that overlap on the same day
+function layoutDay(
+  meetings: Omit<PlacedMeeting, "lane" | "lanes">[],
+): PlacedMeeting[] {
+  const sorted = [...meetings].sort(
+    (a, b) => a.start - b.start || a.end - b.end,
+  );
+  const placed: PlacedMeeting[] = [];
+  let cluster: PlacedMeeting[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    const lanes = Math.max(1, ...cluster.map((m) => m.lane + 1));
+    for (const meeting of cluster) meeting.lanes = lanes;
+    placed.push(...cluster);
+    cluster = [];
+  };
+
+  for (const meeting of sorted) {
+    if (meeting.start >= clusterEnd && cluster.length > 0) closeCluster();
+
+    const used = new Set(
+      cluster.filter((m) => m.end > meeting.start).map((m) => m.lane),
+    );
+    let lane = 0;
+    while (used.has(lane)) lane++;
+
+    cluster.push({ ...meeting, lane, lanes: 1 });
+    clusterEnd = Math.max(clusterEnd, meeting.end);
+  }
+  if (cluster.length > 0) closeCluster();
+
+  return placed;
+}
+
+/**
+ * Weekly Mon–Fri grid of the current recommendation set. Overlapping courses are highlighted, and
+ * catalog courses can be dragged onto the grid to swap them into the set.
+ */
+export default function WeeklyCalendar({
+  student,
+  catalog,
+}: WeeklyCalendarProps) {
+  const { recommendations, applyUpdateRecommendations } = useRecommendations();
+  const [search, setSearch] = useState("");
+  const [dropTarget, setDropTarget] = useState<number | "grid" | null>(null);
+  const [draggedCourseId, setDraggedCourseId] = useState<number | null>(null);
+  const [courseToAdd, setCourseToAdd] = useState<CourseRecommendation | null>(
+    null,
+  );
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteRow[] | null>(
+    null,
+  );
+
+  useEffect(() => {
+    const loadPrerequisites = async () => {
+      const { data, error } = await supabase
+        .from("prerequisites")
+        .select("course_id, prerequisite_id");
+      if (error) {
+        console.error("Error fetching prerequisites:", error);
+        return;
+      }
+      setPrerequisites(data || []);
+    };
+    loadPrerequisites();
+  }, []);
+
+  const checkEligibility = useMemo(
+    () =>
+      prerequisites
+        ? createEligibilityChecker({
+            prerequisites,
+            completedCourseIds: student.current_courses_taken || [],
+            courses: catalog,
+          })
+        : null,
+    [prerequisites, student.current_courses_taken, catalog],
+  );
+
+  const parsed = useMemo(
+    () =>
+      recommendations.map((rec) => ({
+        rec,
+        slot: parseTimeSlot(rec.time_slot),
+      })),
+    [recommendations],
+  );
+
+  // Course IDs that clash with another course in the set, and courses whose slot cannot be read
+  const { conflicting, unreadable } = useMemo(() => {
+    const conflicting = new Set<number>();
+    const unreadable = new Set<number>();
+
+    for (let i = 0; i < recommendations.length; i++) {
+      for (let j = i + 1; j < recommendations.length; j++) {
+        const result = checkConflict(
+          recommendations[i].time_slot,
+          recommendations[j].time_slot,
+        );
+        if (result.status === "conflict") {
+          conflicting.add(recommendations[i].course_id);
+          conflicting.add(recommendations[j].course_id);
+        }
+      }
+    }
+    for (const { rec, slot } of parsed) {
+      if (isTimeSlotError(slot)) unreadable.add(rec.course_id);
+    }
+
+    return { conflicting, unreadable };
+  }, [recommendations, parsed]);
+
+  const meetingsByDay = useMemo(() => {
+    const byDay = new Map<Weekday, PlacedMeeting[]>();
+    for (const day of GRID_DAYS) {
+      const dayMeetings = parsed.flatMap(({ rec, slot }, index) =>
+        slot.kind === "scheduled"
+          ? slot.meetings
+              .filter((meeting) => meeting.day === day)
+              .map((meeting) => ({
+                ...meeting,
+                recommendation: rec,
+                colorIndex: index % BLOCK_COLORS.length,
+              }))
+          : [],
+      );
+      byDay.set(day, layoutDay(dayMeetings));
+    }
+    return byDay;
+  }, [parsed]);
+
+  // Courses without a place on the grid (TBA, online, weekend-only or unreadable)
+  const unplaced = parsed.filter(
+    ({ slot }) =>
+      slot.kind !== "scheduled" ||
+      !slot.meetings.some((meeting) => GRID_DAYS.includes(meeting.day)),
+  );
+
+  const allMeetings = [...meetingsByDay.values()].flat();
+  const dayStart = Math.min(
+    DEFAULT_START,
+    ...allMeetings.map((m) => Math.floor(m.start / 60) * 60),
+  );
+  const dayEnd = Math.max(
+    DEFAULT_END,
+    ...allMeetings.map((m) => Math.ceil(m.end / 60) * 60),
+  );
+  const hours = Array.from(
+    { length: (dayEnd - dayStart) / 60 },
+    (_, i) => dayStart + i * 60,
+  );
+
+  const takenIds = new Set((student.current_courses_taken || []).map(String));
+  const inSet = new Set(recommendations.map((rec) => rec.course_id));
+  const alternatives = catalog
+    .filter(
+      (course) => !inSet.has(course.id) && !takenIds.has(String(course.id)),
+    )
+    .filter((course) => {
+      const term = search.trim().toLowerCase();
+      return (
+        !term ||
+        course.title.toLowerCase().includes(term) ||
+        (course.subject || "").toLowerCase().includes(term)
+      );
+    })
+    .slice(0, 50);
+
+  // Preview whether the dragged course would clash with the rest of the set
+  const draggedCourse =
+    draggedCourseId !== null
+      ? catalog.find((c) => c.id === draggedCourseId)
+      : undefined;
+  const wouldConflict = (replacedId: number | null) => {
+    if (!draggedCourse) return false;
+    return recommendations
+      .filter((rec) => rec.course_id !== replacedId)
+      .some(
+        (rec) =>
+          checkConflict(draggedCourse.time_slots, rec.time_slot).status ===
+          "conflict",
+      );
+  };
+
+  const swapInto = (
+    incoming: CourseRecommendation,
+    oldCourseId: number | null,
+  ) => {
+    if (oldCourseId === null) {
+      applyUpdateRecommendations([...recommendations, incoming]);
+      return;
+    }
+
+    const newRecommendations = [...recommendations];
+    const indexToReplace = recommendations.findIndex(
+      (c) => c.course_id === oldCourseId,
+    );
+    if (indexToReplace === -1) {
+      console.error("Could not find course to replace in recommendations");
+      return;
+    }
+    newRecommendations[indexToReplace] = incoming;
+    applyUpdateRecommendations(newRecommendations);
+  };
+
+  const handleDrop = (event: React.DragEvent, oldCourseId: number | null) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+    setDraggedCourseId(null);
+
+    const courseId = Number(event.dataTransfer.getData(DRAG_TYPE));
+    const course = catalog.find((c) => c.id === courseId);
+    if (!course) return;
+
+    const incoming = toRecommendation(course, student, checkEligibility);
+    if (oldCourseId !== null || recommendations.length < MAX_DASHBOARD_COURSES) {
+      swapInto(incoming, oldCourseId);
+    } else {
+      // Dropped on empty space with a full set: ask which course to replace
+      setCourseToAdd(incoming);
+    }
+  };
+
+  const allowDrop = (event: React.DragEvent, target: number | "grid") => {
+    if (!event.dataTransfer.types.includes(DRAG_TYPE)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(target);
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      <div className="flex-grow bg-white rounded-lg shadow-sm border border-gray-200 p-4 overflow-x-auto">
+        {(conflicting.size > 0 || unreadable.size > 0) && (
+          <div className="mb-3 flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-2">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+            <span>
+              {conflicting.size > 0 &&
+                "Some courses in this set meet at the same time. "}
+              {unreadable.size > 0 &&
+                "Some schedules couldn't be read, so conflicts with them can't be checked."}
+            </span>
+          </div>
+        )}
+
+        <div
+          className={`grid min-w-[560px] ${dropTarget === "grid" ? "ring-2 ring-blue-400 rounded" : ""}`}
+          style={{
+            gridTemplateColumns: `3rem repeat(${GRID_DAYS.length}, minmax(0, 1fr))`,
+          }}
+          onDragOver={(e) => allowDrop(e, "grid")}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, null)}
+        >
+          <div />
+          {GRID_DAYS.map((day) => (
+            <div
+              key={day}
+              className="text-center text-sm font-medium text-gray-700 pb-2"
+            >
+              {WEEKDAY_NAMES[day].slice(0, 3)}
+            </div>
+          ))}
+
+          <div
+            className="relative"
+            style={{ height: hours.length * HOUR_HEIGHT }}
+          >
+            {hours.map((hour, i) => (
+              <div
+                key={hour}
+                className="absolute right-2 text-xs text-gray-400"
+                style={{ top: i * HOUR_HEIGHT - 6 }}
+              >
+                {formatHour(hour)}
+              </div>
+            ))}
+          </div>
+
+          {GRID_DAYS.map((day) => (
+            <div
+              key={day}
+              className="relative border-l border-gray-100"
+              style={{ height: hours.length * HOUR_HEIGHT }}
+            >
+              {hours.map((hour, i) => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-gray-100"
+                  style={{ top: i * HOUR_HEIGHT }}
+                />
+              ))}
+
+              {(meetingsByDay.get(day) || []).map((meeting) => {
+                const { recommendation } = meeting;
+                const isConflict = conflicting.has(recommendation.course_id);
+                const isTarget = dropTarget === recommendation.course_id;
+                const previewClash =
+                  isTarget && wouldConflict(recommendation.course_id);
+
+                return (
+                  <div
+                    key={`${recommendation.course_id}-${meeting.start}`}
+                    className={`absolute rounded-md border-l-4 px-1.5 py-1 text-xs overflow-hidden shadow-sm ${BLOCK_COLORS[meeting.colorIndex]} ${
+                      isConflict ? "ring-2 ring-red-500" : ""
+                    } ${isTarget ? (previewClash ? "outline outline-2 outline-red-500" : "outline outline-2 outline-green-500") : ""}`}
+                    style={{
+                      top: ((meeting.start - dayStart) / 60) * HOUR_HEIGHT,
+                      height:
+                        ((meeting.end - meeting.start) / 60) * HOUR_HEIGHT,
+                      left: `${(meeting.lane / meeting.lanes) * 100}%`,
+                      width: `${100 / meeting.lanes}%`,
+                    }}
+                    title={`${recommendation.title}\n${formatTimeSlot(recommendation.time_slot)}`}
+                    onDragOver={(e) => allowDrop(e, recommendation.course_id)}
+                    onDrop={(e) => handleDrop(e, recommendation.course_id)}
+                  >
+                    <p className="font-semibold line-clamp-2">
+                      {recommendation.title}
+                    </p>
+                    {isConflict && (
+                      <p className="text-red-700 font-medium">Time conflict</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {unplaced.length > 0 && (
+          <div className="mt-4 border-t border-gray-100 pt-3">
+            <h4 className="text-sm font-medium text-gray-700 mb-2">
+              Not on the weekly grid
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {unplaced.map(({ rec, slot }) => (
+                <div
+                  key={rec.course_id}
+                  className={`px-2 py-1 rounded-md border text-xs ${
+                    isTimeSlotError(slot)
+                      ? "border-red-300 bg-red-50 text-red-700"
+                      : "border-gray-200 bg-gray-50 text-gray-700"
+                  } ${dropTarget === rec.course_id ? "outline outline-2 outline-blue-400" : ""}`}
+                  onDragOver={(e) => allowDrop(e, rec.course_id)}
+                  onDrop={(e) => handleDrop(e, rec.course_id)}
+                >
+                  {rec.title} · {formatTimeSlot(rec.time_slot)}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="lg:w-72 flex-shrink-0 bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <h4 className="text-sm font-medium text-gray-700 mb-1">
+          Swap in a course
+        </h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Drag a course onto one in your calendar to replace it.
+        </p>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search catalog..."
+          className="mb-3"
+        />
+        <ul className="space-y-2 max-h-96 overflow-y-auto">
+          {alternatives.map((course) => (
+            <li
+              key={course.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(DRAG_TYPE, String(course.id));
+                e.dataTransfer.effectAllowed = "copy";
+                setDraggedCourseId(course.id);
+              }}
+              onDragEnd={() => {
+                setDraggedCourseId(null);
+                setDropTarget(null);
+              }}
+              className="p-2 border border-gray-200 rounded-md cursor-grab active:cursor-grabbing hover:border-blue-300 hover:bg-blue-50"
+            >
+              <p className="text-sm font-medium text-gray-900 line-clamp-1">
+                {course.title}
+              </p>
+              <p className="text-xs text-gray-500">
+                {course.subject || "General"} • {course.credits} credits •{" "}
+                {formatTimeSlot(course.time_slots)}
+              </p>
+            </li>
+          ))}
+          {alternatives.length === 0 && (
+            <li className="text-xs text-gray-500">No other courses match.</li>
+          )}
+        </ul>
+      </div>
+
+      {courseToAdd && (
+        <SwapConfirmationDialog
+          course={courseToAdd}
+          dashboardCourses={recommendations}
+          onConfirm={(oldCourseId) => {
+            swapInto(courseToAdd, oldCourseId);
+            setCourseToAdd(null);
+          }}
+          onCancel={() => setCourseToAdd(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+import { createContext, useContext, useState, type ReactNode } from 'react';
+import { MAX_COMPARED_COURSES } from '@/lib/courseComparison';
+
+export type ComparedCourseRef = {
+  id: number;
+  title: string;
+};
+
+interface CompareContextType {
+  // In the order they were picked
+  selected: ComparedCourseRef[];
+  isComparing: (courseId: number) => boolean;
+  // False when the course could not be added because the comparison is full
+  toggleCompare: (course: ComparedCourseRef) => boolean;
+  removeFromCompare: (courseId: number) => void;
+  clearCompare: () => void;
+}
+
+const CompareContext = createContext<CompareContextType | undefined>(undefined);
+
+export function CompareProvider({ children }: { children: ReactNode }) {
+  const [selected, setSelected] = useState<ComparedCourseRef[]>([]);
+
+  const isComparing = (courseId: number) => selected.some(course => course.id === courseId);
+
+  const toggleCompare = (course: ComparedCourseRef) => {
+    if (isComparing(course.id)) {
+      setSelected(selected.filter(entry => entry.id !== course.id));
+      return true;
+    }
+    if (selected.length >= MAX_COMPARED_COURSES) return false;
+    setSelected([...selected, { id: course.id, title: course.title }]);
+    return true;
+  };
+
+  return (
+    <CompareContext.Provider
+      value={{
+        selected,
+        isComparing,
+        toggleCompare,
+        removeFromCompare: (courseId) => setSelected(prev => prev.filter(course => course.id !== courseId)),
+        clearCompare: () => setSelected([]),
+      }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+}
+
+export function useCompare() {
+  const context = useContext(CompareContext);
+  if (context === undefined) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+}
@@ -3,6 +3,8 @@
 import { createContext, useContext, useState, ReactNode, useEffect } from 'react';
 import { Course } from '@/types';
 import { useAuth } from '@/components/auth/AuthProvider';
+import type { EligibilityChecker, MissingPrerequisite } from '@/lib/eligibility';
+import { normalizeTimeSlot } from '@/lib/timeSlot';
 
 export type CourseRecommendation = {
   course_id: number;
@@ -14,10 +16,42 @@ export type CourseRecommendation = {
   time_slot: string;
   reasons: string[];
   prerequisites?: string[];
+  // Unmet prerequisites from the eligibility service; empty when the course can be taken now
+  missing_prerequisites?: MissingPrerequisite[];
   hours_required?: number;
   availability_score?: number;
 };
 
+// Function to format course data for recommendations
+export function formatCourseForRecommendation(courseId: number, courses: Course[], reasons: string[] = [], checkEligibility?: EligibilityChecker): CourseRecommendation | null {
+  try {
+    const course = courses.find(c => c.id === courseId);
+    if (!course) {
+      console.warn(`Course with ID ${courseId} not found`);
+      return null;
+    }
+    
+    return {
+      course_id: course.id,
+      title: course.title || `Course ${course.id}`,
+      subject: course.subject || 'General',
+      credits: course.credits || 3,
+      match_score: 0.85, // This would ideally be calculated
+      difficulty_level: course.difficulty_level || 'Intermediate',
+      time_slot: normalizeTimeSlot(course.time_slots),
+      reasons: reasons.length > 0 ? reasons : ['Recommended by AI assistant'],
+      prerequisites: course.prerequisites || [],
+      missing_prerequisites: checkEligibility ? checkEligibility(course.id).missingPrerequisites : undefined
+    };
+  } catch (error) {
+    console.error('Error formatting course for recommendation:', error);
+    return null;
+  }
+}
+
+// The dashboard shows at most this many courses; adding another means replacing one
+export const MAX_DASHBOARD_COURSES = 3;
+
 interface RecommendationsContextType {
   recommendations: CourseRecommendation[];
   setRecommendations: (recommendations: CourseRecommendation[]) => void;
@@ -27,6 +61,10 @@ interface RecommendationsContextType {
   courses: Course[];
   setCourses: (courses: Course[]) => void;
   recommendationsLoaded: boolean;
+  // False when the dashboard is full and the caller should ask which course to replace
+  addRecommendation: (course: CourseRecommendation) => boolean;
+  // False, leaving the dashboard unchanged, when the course is already on it
+  replaceRecommendation: (oldCourseId: number, course: CourseRecommendation) => boolean;
 }
 
 const RecommendationsContext = createContext<RecommendationsContextType | undefined>(undefined);
@@ -110,6 +148,19 @@ export function RecommendationsProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const addRecommendation = (course: CourseRecommendation) => {
+    if (recommendations.some(rec => rec.course_id === course.course_id)) return true;
+    if (recommendations.length >= MAX_DASHBOARD_COURSES) return false;
+    setRecommendations([...recommendations, course]);
+    return true;
+  };
+
+  const replaceRecommendation = (oldCourseId: number, course: CourseRecommendation) => {
+    if (recommendations.some(rec => rec.course_id === course.course_id)) return false;
+    setRecommendations(recommendations.map(rec => rec.course_id === oldCourseId ? course : rec));
+    return true;
+  };
+
   return (
     <RecommendationsContext.Provider 
       value={{ 
@@ -120,7 +171,9 @@ export function RecommendationsProvider({ children }: { children: ReactNode }) {
         applyUpdateRecommendations,
         courses,
         setCourses,
-        recommendationsLoaded
+        recommendationsLoaded,
+        addRecommendation,
+        replaceRecommendation
       }}
     >
       {children}
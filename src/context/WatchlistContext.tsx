@@ -0,0 +1,147 @@
+"use client";
+import { createContext, useContext, useState, type ReactNode, useEffect, useCallback } from 'react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import type { SeatAlertKind } from '@/lib/seatWatch';
+
+export type WatchedCourse = {
+  course_id: number;
+  title: string;
+  threshold: number;
+  notify_email: boolean;
+  available_slots: number | null;
+};
+
+export type SeatAlertNotice = {
+  id: string;
+  course_id: number;
+  kind: SeatAlertKind;
+  title: string;
+  message: string;
+  created_at: string;
+};
+
+interface WatchlistContextType {
+  watches: WatchedCourse[];
+  isWatching: (courseId: number) => boolean;
+  watchCourse: (courseId: number, options?: { threshold?: number; notifyEmail?: boolean }) => Promise<void>;
+  unwatchCourse: (courseId: number) => Promise<void>;
+  // Unread seat alerts, newest first
+  alerts: SeatAlertNotice[];
+  dismissAlerts: (alertIds: string[]) => Promise<void>;
+}
+
+// Alerts are raised by a scheduled job, so checking on focus and every few minutes is enough
+const ALERT_POLL_MS = 5 * 60 * 1000;
+
+const WatchlistContext = createContext<WatchlistContextType | undefined>(undefined);
+
+export function WatchlistProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [watches, setWatches] = useState<WatchedCourse[]>([]);
+  const [alerts, setAlerts] = useState<SeatAlertNotice[]>([]);
+  const userId = user?.id;
+
+  const loadWatches = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const response = await fetch(`/api/watchlist?userId=${encodeURIComponent(userId)}`);
+      if (!response.ok) throw new Error(`Failed to load watchlist: ${response.status}`);
+      const { watches } = await response.json();
+      setWatches(watches);
+    } catch (error) {
+      console.error('Error loading watchlist:', error);
+    }
+  }, [userId]);
+
+  const loadAlerts = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const response = await fetch(`/api/watchlist/alerts?userId=${encodeURIComponent(userId)}&unread=1`);
+      if (!response.ok) throw new Error(`Failed to load seat alerts: ${response.status}`);
+      const { alerts } = await response.json();
+      setAlerts(alerts);
+    } catch (error) {
+      console.error('Error loading seat alerts:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setWatches([]);
+      setAlerts([]);
+      return;
+    }
+    loadWatches();
+    loadAlerts();
+
+    const timer = setInterval(loadAlerts, ALERT_POLL_MS);
+    window.addEventListener('focus', loadAlerts);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', loadAlerts);
+    };
+  }, [userId, loadWatches, loadAlerts]);
+
+  const watchCourse = async (courseId: number, options: { threshold?: number; notifyEmail?: boolean } = {}) => {
+    if (!userId) return;
+    const response = await fetch('/api/watchlist', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, courseId, ...options }),
+    });
+    if (!response.ok) throw new Error(`Failed to watch course: ${response.status}`);
+    await loadWatches();
+  };
+
+  const unwatchCourse = async (courseId: number) => {
+    if (!userId) return;
+    // Optimistic: the watch disappears right away and comes back if the request fails
+    setWatches(prev => prev.filter(watch => watch.course_id !== courseId));
+    const response = await fetch(`/api/watchlist?userId=${encodeURIComponent(userId)}&courseId=${courseId}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok && response.status !== 404) {
+      await loadWatches();
+      throw new Error(`Failed to unwatch course: ${response.status}`);
+    }
+  };
+
+  const dismissAlerts = async (alertIds: string[]) => {
+    if (!userId || alertIds.length === 0) return;
+    setAlerts(prev => prev.filter(alert => !alertIds.includes(alert.id)));
+    try {
+      const response = await fetch('/api/watchlist/alerts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, alertIds }),
+      });
+      if (!response.ok) throw new Error(`Failed to dismiss seat alerts: ${response.status}`);
+    } catch (error) {
+      console.error('Error dismissing seat alerts:', error);
+      await loadAlerts();
+    }
+  };
+
+  return (
+    <WatchlistContext.Provider
+      value={{
+        watches,
+        isWatching: (courseId) => watches.some(watch => watch.course_id === courseId),
+        watchCourse,
+        unwatchCourse,
+        alerts,
+        dismissAlerts,
+      }}
+    >
+      {children}
+    </WatchlistContext.Provider>
+  );
+}
+
+export function useWatchlist() {
+  const context = useContext(WatchlistContext);
+  if (context === undefined) {
+    throw new Error('useWatchlist must be used within a WatchlistProvider');
+  }
+  return context;
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { DEFAULT_USER_SETTINGS, RESTRICTED_USER_SETTINGS, type UserSettings } from "@/lib/userSettings";
+
+/**
+ * The signed-in user's settings. Until they load (and for signed-out visitors) `settings` holds
+ * the defaults, so check `isLoading` before acting on a flag that triggers work. When they fail to
+ * load every opt-in reads as off.
+ */
+export function useUserSettings() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    async function loadSettings() {
+      if (!user) {
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/settings?userId=${user.id}`);
+
+        if (!response.ok) {
+          throw new Error("Failed to load settings");
+        }
+
+        const data = await response.json();
+        setSettings(data.settings);
+      } catch (err) {
+        setSettings(RESTRICTED_USER_SETTINGS);
+        setError(err instanceof Error ? err : new Error("Unknown error"));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadSettings();
+  }, [user]);
+
+  const saveSettings = useCallback(async (update: Partial<UserSettings>) => {
+    if (!user) throw new Error("Sign in to save settings");
+
+    const response = await fetch("/api/settings", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ userId: user.id, settings: update }),
+    });
+    if (!response.ok) {
+      throw new Error("Failed to save settings");
+    }
+
+    const data = await response.json();
+    setSettings(data.settings);
+    return data.settings as UserSettings;
+  }, [user]);
+
+  return { settings, isLoading, error, saveSettings };
+}
@@ -0,0 +1,154 @@
+/**
+ * Term naming and approximate instruction dates.
+ *
+ * Course rows only carry a term label (e.g. "Fall 2024" in course_history.semester), so dates
+ * come from this fixed calendar unless the caller supplies explicit ones.
+ */
+
+export type Season = "Spring" | "Summer" | "Fall";
+
+export interface TermDates extends Term {
+  term: string; // "Fall 2025"
+  start: string; // YYYY-MM-DD, first day of instruction
+  end: string; // YYYY-MM-DD, last day of instruction
+}
+
+// Month is 1-based
+const SEASON_DATES: Record<
+  Season,
+  { start: [number, number]; end: [number, number] }
+> = {
+  Spring: { start: [1, 12], end: [5, 1] },
+  Summer: { start: [5, 11], end: [8, 7] },
+  Fall: { start: [8, 25], end: [12, 12] },
+};
+
+const SEASON_ORDER: Season[] = ["Spring", "Summer", "Fall"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+export function isIsoDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Parse "Fall 2025" / "fall-2025" / "2025 Fall" into its season and year.
+ */
+export function parseTerm(term: string): Term | null {
+  const match =
+    term.match(/^\s*(spring|summer|fall)[\s_-]*(\d{4})\s*$/i) ??
+    term.match(/^\s*(\d{4})[\s_-]*(spring|summer|fall)\s*$/i);
+  if (!match) return null;
+
+  const [seasonPart, yearPart] = /^\d/.test(match[1])
+    ? [match[2], match[1]]
+    : [match[1], match[2]];
+  const season = (seasonPart[0].toUpperCase() +
+    seasonPart.slice(1).toLowerCase()) as Season;
+
+  return { season, year: Number(yearPart) };
+}
+
+export function getTermDates(term: string): TermDates | null {
+  const parsed = parseTerm(term);
+  if (!parsed) return null;
+
+  const { season, year } = parsed;
+  const { start, end } = SEASON_DATES[season];
+  return {
+    season,
+    year,
+    term: `${season} ${year}`,
+    start: isoDate(year, ...start),
+    end: isoDate(year, ...end),
+  };
+}
+
+/**
+ * The term in session on `date`, or the next one to start if it falls between terms.
+ */
+export function getCurrentOrUpcomingTerm(date: Date = new Date()): TermDates {
+  const today = isoDate(
+    date.getFullYear(),
+    date.getMonth() + 1,
+    date.getDate(),
+  );
+
+  for (const year of [date.getFullYear(), date.getFullYear() + 1]) {
+    for (const season of SEASON_ORDER) {
+      const dates = getTermDates(`${season} ${year}`);
+      if (dates && dates.end >= today) return dates;
+    }
+  }
+
+  // Unreachable: Spring of next year always ends after today
+  return getTermDates(`Spring ${date.getFullYear() + 1}`) as TermDates;
+}
+
+export interface Term {
+  season: Season;
+  year: number;
+}
+
+export function formatTerm({ season, year }: Term): string {
+  return `${season} ${year}`;
+}
+
+// Monotonic index so terms can be compared and subtracted
+function termIndex({ season, year }: Term): number {
+  return year * SEASON_ORDER.length + SEASON_ORDER.indexOf(season);
+}
+
+export function compareTerms(a: Term, b: Term): number {
+  return termIndex(a) - termIndex(b);
+}
+
+export function nextTerm(term: Term, includeSummer = false): Term {
+  let index = termIndex(term) + 1;
+  let season = SEASON_ORDER[index % SEASON_ORDER.length];
+  if (season === "Summer" && !includeSummer) {
+    index++;
+    season = SEASON_ORDER[index % SEASON_ORDER.length];
+  }
+  return { season, year: Math.floor(index / SEASON_ORDER.length) };
+}
+
+/**
+ * Number of terms from `from` through `to` inclusive (0 when `to` is earlier).
+ */
+export function countTerms(
+  from: Term,
+  to: Term,
+  includeSummer = false,
+): number {
+  let count = 0;
+  for (
+    let term = from;
+    compareTerms(term, to) <= 0;
+    term = nextTerm(term, includeSummer)
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Seasons a course is offered in, from `courses.semester`. Accepts "Fall", "Fall 2024",
+ * "Fall, Spring" and similar; an empty value or "Any"/"All" means every season.
+ */
+export function parseOfferedSeasons(semester: unknown): Season[] {
+  if (typeof semester !== "string" || !semester.trim()) return SEASON_ORDER;
+  if (/\b(any|all|every)\b/i.test(semester)) return SEASON_ORDER;
+
+  const seasons = SEASON_ORDER.filter((season) =>
+    new RegExp(`\\b${season}\\b`, "i").test(semester),
+  );
+  return seasons.length > 0 ? seasons : SEASON_ORDER;
+}
@@ -0,0 +1,179 @@
+import { literal, object, optional, string, unknown } from "@/lib/llm/schema";
+import { readPartialStringField, repairStructured } from "@/lib/llm/structured";
+import type { LLMMessage, LLMRequest } from "@/lib/llm/types";
+import type { AgentResult, AgentTool, ToolCall } from "./types";
+
+export interface AgentOptions {
+  // `complete` on the server; any function returning the model's text for a request
+  generate: (request: LLMRequest) => Promise<string>;
+  // `stream` on the server. Used with onAnswerDelta, so the answer shows while it is written
+  streamGenerate?: (request: LLMRequest) => AsyncIterable<string>;
+  tools: AgentTool[];
+  // Conversation so far, ending with the user's message
+  messages: LLMMessage[];
+  // Tool calls allowed before the model must answer
+  maxToolCalls?: number;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // Sees each call once it has run, e.g. to stream progress
+  onToolCall?: (call: ToolCall) => void;
+  // Receives the answer's reply text piece by piece as it streams in
+  onAnswerDelta?: (text: string) => void;
+}
+
+const agentStepSchema = object({
+  action: literal("call_tool", "answer"),
+  tool: optional(string()),
+  arguments: optional(unknown()),
+  reply: optional(string()),
+});
+
+// Tool results are data for the model, not the user; long ones are cut to keep turns cheap
+const MAX_RESULT_LENGTH = 6000;
+
+const ANSWER_ACTION = /"action"\s*:\s*"answer"/;
+
+/**
+ * Stream one turn's JSON, passing on the reply text once the turn turns out to be an answer.
+ * Tool-call turns are read silently. Resolves with the whole turn for validation.
+ */
+async function streamTurn(
+  chunks: AsyncIterable<string>,
+  onAnswerDelta: (text: string) => void,
+): Promise<string> {
+  let output = "";
+  let shown = 0;
+  for await (const chunk of chunks) {
+    output += chunk;
+    if (!ANSWER_ACTION.test(output)) continue;
+    const reply = readPartialStringField(output, "reply");
+    if (reply.length > shown) {
+      onAnswerDelta(reply.slice(shown));
+      shown = reply.length;
+    }
+  }
+  return output;
+}
+
+function toolInstructions(tools: AgentTool[]): string {
+  const catalog = tools
+    .map(
+      (tool) =>
+        `- ${tool.name}: ${tool.description}\n  arguments: ${tool.parameters}`,
+    )
+    .join("\n");
+
+  return `You can look things up with these tools before answering:
+${catalog}
+
+Reply with one JSON object per turn. To call a tool:
+{"action": "call_tool", "tool": "<tool name>", "arguments": { ... }}
+To answer the student:
+{"action": "answer", "reply": "<your answer>"}
+
+Call tools whenever the answer depends on course data, prerequisites, availability or schedules; never guess those. Each tool result arrives in the next user turn. Answer once you have what you need.`;
+}
+
+function formatResult(call: ToolCall): string {
+  const payload = JSON.stringify(
+    call.error === undefined ? call.result : { error: call.error },
+  );
+  return `Result of ${call.tool}:\n${
+    payload.length > MAX_RESULT_LENGTH
+      ? `${payload.slice(0, MAX_RESULT_LENGTH)}… (truncated)`
+      : payload
+  }`;
+}
+
+/**
+ * Tool-calling loop over the gateway's JSON mode, so it works with every provider. Each turn the
+ * model either calls a tool, whose result is appended to the conversation, or answers. A failing
+ * tool is reported to the model rather than ending the loop; once `maxToolCalls` is used up the
+ * model is told to answer with what it has. With `streamGenerate` and `onAnswerDelta` every turn
+ * is streamed and validated afterwards; if an answer needs repairing, the result's reply is the
+ * repaired one rather than the text already passed on.
+ */
+export async function runAgent({
+  generate,
+  tools,
+  messages,
+  maxToolCalls = 6,
+  temperature = 0.3,
+  maxTokens = 800,
+  signal,
+  onToolCall,
+  streamGenerate,
+  onAnswerDelta,
+}: AgentOptions): Promise<AgentResult> {
+  const byName = new Map(tools.map((tool) => [tool.name, tool]));
+  const transcript: LLMMessage[] = [
+    { role: "system", content: toolInstructions(tools) },
+    ...messages,
+  ];
+  const toolCalls: ToolCall[] = [];
+
+  for (;;) {
+    const mustAnswer = toolCalls.length >= maxToolCalls;
+    const request: LLMRequest = {
+      messages: mustAnswer
+        ? [
+            ...transcript,
+            {
+              role: "user",
+              content:
+                'No more tool calls are available. Answer now with {"action": "answer", "reply": ...}.',
+            },
+          ]
+        : transcript,
+      temperature,
+      maxTokens,
+      responseFormat: "json",
+    };
+    const output =
+      streamGenerate && onAnswerDelta
+        ? await streamTurn(streamGenerate(request), onAnswerDelta)
+        : await generate(request);
+    const step = await repairStructured(
+      generate,
+      request,
+      output,
+      agentStepSchema,
+      {
+        validate: (value) => {
+          if (value.action === "answer") {
+            return value.reply?.trim()
+              ? []
+              : ["reply: required when answering"];
+          }
+          if (mustAnswer) return ['action: must be "answer" now'];
+          return value.tool && byName.has(value.tool)
+            ? []
+            : [
+                `tool: expected one of ${[...byName.keys()].join(", ")}, got ${JSON.stringify(value.tool)}`,
+              ];
+        },
+      },
+    );
+
+    if (step.action === "answer") {
+      return { reply: step.reply ?? "", toolCalls };
+    }
+
+    signal?.throwIfAborted();
+    const tool = byName.get(step.tool ?? "");
+    const call: ToolCall = { tool: step.tool ?? "", arguments: step.arguments };
+    try {
+      call.result = await tool?.run(step.arguments, signal);
+    } catch (error) {
+      call.error = error instanceof Error ? error.message : String(error);
+    }
+    toolCalls.push(call);
+    onToolCall?.(call);
+
+    transcript.push(
+      { role: "assistant", content: JSON.stringify(step) },
+      { role: "user", content: formatResult(call) },
+    );
+  }
+}
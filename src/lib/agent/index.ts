@@ -0,0 +1,3 @@
+export { type AgentOptions, runAgent } from "./agent";
+export { defineTool } from "./tool";
+export type { AgentResult, AgentTool, ToolCall } from "./types";
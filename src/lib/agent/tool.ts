@@ -0,0 +1,27 @@
+import { parseWithSchema, type Schema } from "@/lib/llm/schema";
+import type { AgentTool } from "./types";
+
+/**
+ * Tool whose arguments are checked against `schema` before `run` sees them. Invalid arguments
+ * throw SchemaValidationError, which the agent reports back to the model as the call's error.
+ */
+export function defineTool<Args>({
+  name,
+  description,
+  parameters,
+  schema,
+  run,
+}: {
+  name: string;
+  description: string;
+  parameters: string;
+  schema: Schema<Args>;
+  run: (args: Args, signal?: AbortSignal) => Promise<unknown>;
+}): AgentTool {
+  return {
+    name,
+    description,
+    parameters,
+    run: (args, signal) => run(parseWithSchema(schema, args ?? {}), signal),
+  };
+}
@@ -0,0 +1,21 @@
+export interface AgentTool {
+  name: string;
+  description: string;
+  // Argument shape as shown to the model, e.g. '{ "courseId": number }'
+  parameters: string;
+  // Validates the raw arguments from the model before running
+  run(args: unknown, signal?: AbortSignal): Promise<unknown>;
+}
+
+export interface ToolCall {
+  tool: string;
+  arguments: unknown;
+  // Exactly one of result and error is set once the call has run
+  result?: unknown;
+  error?: string;
+}
+
+export interface AgentResult {
+  reply: string;
+  toolCalls: ToolCall[];
+}
@@ -1,94 +1,85 @@
 // Export the course availability utility function
 import { supabase } from "@/lib/supabase";
+import { getCurrentOrUpcomingTerm, nextTerm, type Term } from "@/lib/academicCalendar";
+import {
+  availabilityFromForecast,
+  forecastEnrollment,
+  type EnrollmentForecast,
+  type EnrollmentRecord,
+} from "@/lib/enrollmentForecast";
+import { selectAllRows } from "@/utils/supabase/paging";
 
-// Utility to calculate course availability based on historical data
-export async function getCourseAvailabilityData(courseIds: number[]): Promise<Record<number, number>> {
+// Course IDs per `.in()` filter, which PostgREST reads from the URL
+const COURSE_IDS_PER_REQUEST = 100;
+
+// Browser pages use the shared client; server code passes its own
+type AvailabilityClient = Pick<typeof supabase, 'from'>;
+
+// Registration during a term is for the one after it
+export function getRegistrationTerm(date: Date = new Date()): Term {
+  return nextTerm(getCurrentOrUpcomingTerm(date));
+}
+
+// Next-term enrollment forecast for each course with usable history in course_history
+export async function getEnrollmentForecasts(
+  courseIds: number[],
+  targetTerm: Term = getRegistrationTerm(),
+  client: AvailabilityClient = supabase,
+): Promise<Record<number, EnrollmentForecast>> {
   try {
     // Skip if no course IDs provided
     if (!courseIds.length) return {};
-    
-    // Fetch course history data for these courses
-    const { data, error } = await supabase
-      .from('course_history')
-      .select('*')
-      .in('course_id', courseIds);
-      
-    if (error) {
-      console.error('Error fetching course history:', error);
-      return {};
+
+    // Fetch course history data for these courses, a batch of IDs at a time
+    const records: (EnrollmentRecord & { course_id: number })[] = [];
+    for (let start = 0; start < courseIds.length; start += COURSE_IDS_PER_REQUEST) {
+      const batch = courseIds.slice(start, start + COURSE_IDS_PER_REQUEST);
+      const { data, error } = await selectAllRows<EnrollmentRecord & { course_id: number }>((from, to) =>
+        client
+          .from('course_history')
+          .select('course_id, semester, filled_slots, max_capacity')
+          .in('course_id', batch)
+          .order('id')
+          .range(from, to),
+      );
+
+      if (error) {
+        console.error('Error fetching course history:', error);
+        return {};
+      }
+      records.push(...data);
     }
-    
+
     // Group data by course_id
-    const historyByCourseid: Record<number, any[]> = {};
-    
-    data.forEach(record => {
-      const courseId = record.course_id;
-      if (!historyByCourseid[courseId]) {
-        historyByCourseid[courseId] = [];
-      }
-      historyByCourseid[courseId].push(record);
-    });
-    
-    // Calculate availability score (0-1) for each course
-    const availabilityScores: Record<number, number> = {};
-    
-    Object.entries(historyByCourseid).forEach(([courseId, history]) => {
-      const numericId = Number(courseId);
-      
-      // If no history, assume high availability (0.8)
-      if (!history.length) {
-        availabilityScores[numericId] = 0.8;
-        return;
-      }
-      
-      // Sort by semester to get most recent first
-      // Assuming semester format like "Fall 2023", "Spring 2024"
-      const sortedHistory = [...history].sort((a, b) => {
-        const yearA = parseInt(a.semester.match(/\d{4}/)?.[0] || '0');
-        const yearB = parseInt(b.semester.match(/\d{4}/)?.[0] || '0');
-        
-        if (yearA !== yearB) return yearB - yearA;
-        
-        // If same year, sort by semester (Spring < Summer < Fall < Winter)
-        const semesterOrder: Record<string, number> = { 'Spring': 0, 'Summer': 1, 'Fall': 2, 'Winter': 3 };
-        const semesterA = a.semester.split(' ')[0] || '';
-        const semesterB = b.semester.split(' ')[0] || '';
-        const semA = semesterOrder[semesterA] ?? 0;
-        const semB = semesterOrder[semesterB] ?? 0;
-        
-        return semB - semA;
-      });
-      
-      // Calculate average fill rate with higher weight to recent semesters
-      let totalWeight = 0;
-      let weightedFillRate = 0;
-      
-      sortedHistory.forEach((record, index) => {
-        if (record.filled_slots && record.max_capacity && record.max_capacity > 0) {
-          const fillRate = record.filled_slots / record.max_capacity;
-          // Weight decreases with older semesters (recency bias)
-          const weight = 1 / (index + 1);
-          weightedFillRate += fillRate * weight;
-          totalWeight += weight;
-        }
-      });
-      
-      const avgFillRate = totalWeight > 0 ? weightedFillRate / totalWeight : 0.5;
-      
-      // Convert fill rate to availability score (1 - fillRate)
-      // Add small variance to avoid all courses having same score
-      const baseAvailability = 1 - avgFillRate;
-      
-      // Add small random variance (±0.05) to avoid ties
-      const variance = (Math.random() * 0.1) - 0.05;
-      
-      // Ensure score stays between 0.1 and 0.95
-      availabilityScores[numericId] = Math.max(0.1, Math.min(0.95, baseAvailability + variance));
-    });
-    
-    return availabilityScores;
+    const historyByCourseId = new Map<number, EnrollmentRecord[]>();
+    for (const record of records) {
+      const history = historyByCourseId.get(record.course_id) ?? [];
+      history.push(record);
+      historyByCourseId.set(record.course_id, history);
+    }
+
+    const forecasts: Record<number, EnrollmentForecast> = {};
+    for (const [courseId, history] of historyByCourseId) {
+      const forecast = forecastEnrollment(history, { targetTerm });
+      if (forecast) forecasts[courseId] = forecast;
+    }
+    return forecasts;
   } catch (error) {
-    console.error('Error calculating course availability:', error);
+    console.error('Error forecasting course enrollment:', error);
     return {};
   }
-} 
\ No newline at end of file
+}
+
+// Availability score (0.1-0.95) per course from its enrollment forecast; courses without
+// history are left out so callers can apply their own default
+export async function getCourseAvailabilityData(
+  courseIds: number[],
+  client: AvailabilityClient = supabase,
+): Promise<Record<number, number>> {
+  const forecasts = await getEnrollmentForecasts(courseIds, getRegistrationTerm(), client);
+  const availabilityScores: Record<number, number> = {};
+  for (const [courseId, forecast] of Object.entries(forecasts)) {
+    availabilityScores[Number(courseId)] = availabilityFromForecast(forecast);
+  }
+  return availabilityScores;
+}
@@ -0,0 +1,129 @@
+/**
+ * Rows of the side-by-side course comparison. Everything here depends only on the catalog and
+ * the student's record; availability and conflicts with the current plan are added in the
+ * browser, where the plan lives.
+ */
+import {
+  careersRequiring,
+  type CareerRow,
+  type LinkedCourse,
+} from "@/lib/courseDetail";
+import { getDifficultyLevel, type DifficultyLevel } from "@/lib/difficulty";
+import { createEligibilityChecker, type Eligibility } from "@/lib/eligibility";
+import type { PrerequisiteRow } from "@/lib/prerequisites";
+import { splitTimeSlot } from "@/lib/timeSlot";
+
+export const MIN_COMPARED_COURSES = 2;
+export const MAX_COMPARED_COURSES = 4;
+
+export interface ComparableCourse extends LinkedCourse {
+  subject: string | null;
+  credits: number;
+  hours_required: number | null;
+  time_slots: unknown;
+  career_paths: string[] | null;
+}
+
+export interface CareerRelevance {
+  // The student's career goal requires this course
+  requiredForGoal: boolean;
+  // The course lists the goal among its career paths
+  onGoalPath: boolean;
+  // Careers whose required courses include it
+  requiredBy: string[];
+  careerPaths: string[];
+}
+
+export interface ComparedCourse {
+  id: number;
+  title: string;
+  subject: string | null;
+  credits: number;
+  hoursRequired: number | null;
+  difficulty: DifficultyLevel;
+  // Canonical segments, e.g. ["MW 10:00-11:15"]
+  timeSlots: string[];
+  eligibility: Eligibility;
+  careerRelevance: CareerRelevance;
+}
+
+export interface ComparisonInput {
+  courses: ComparableCourse[];
+  catalog: LinkedCourse[];
+  prerequisites: PrerequisiteRow[];
+  careers: CareerRow[];
+  careerGoalId: string | number | null;
+  completedCourseIds: (string | number)[];
+}
+
+/**
+ * Read `?ids=1,2,3` into distinct course IDs, or an error when there are not two to four of them
+ */
+export function parseCompareIds(
+  value: string | null,
+): { ok: true; ids: number[] } | { ok: false; error: string } {
+  const parts = (value ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.some((part) => !/^\d+$/.test(part))) {
+    return {
+      ok: false,
+      error: "ids must be a comma-separated list of course IDs",
+    };
+  }
+  const ids = [...new Set(parts.map(Number))];
+  if (ids.length < MIN_COMPARED_COURSES || ids.length > MAX_COMPARED_COURSES) {
+    return {
+      ok: false,
+      error: `Compare ${MIN_COMPARED_COURSES} to ${MAX_COMPARED_COURSES} different courses`,
+    };
+  }
+  return { ok: true, ids };
+}
+
+export function compareCourses({
+  courses,
+  catalog,
+  prerequisites,
+  careers,
+  careerGoalId,
+  completedCourseIds,
+}: ComparisonInput): ComparedCourse[] {
+  const checkEligibility = createEligibilityChecker({
+    prerequisites,
+    completedCourseIds,
+    courses: catalog,
+  });
+  const goal = careers.find(
+    (career) => String(career.id) === String(careerGoalId),
+  );
+
+  return courses.map((course) => {
+    const requiredBy = careersRequiring(course, careers);
+    const careerPaths = course.career_paths ?? [];
+    return {
+      id: course.id,
+      title: course.title,
+      subject: course.subject,
+      credits: course.credits,
+      hoursRequired: course.hours_required,
+      difficulty: getDifficultyLevel(course.hours_required),
+      timeSlots: course.time_slots ? splitTimeSlot(course.time_slots) : [],
+      eligibility: checkEligibility(course.id),
+      careerRelevance: {
+        requiredForGoal:
+          goal !== undefined &&
+          requiredBy.some((career) => career.id === goal.id),
+        onGoalPath:
+          goal !== undefined &&
+          careerPaths.some(
+            (path) =>
+              path.trim().toLowerCase() === goal.title.trim().toLowerCase(),
+          ),
+        requiredBy: requiredBy.map((career) => career.title),
+        careerPaths,
+      },
+    };
+  });
+}
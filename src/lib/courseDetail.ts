@@ -0,0 +1,168 @@
+/**
+ * Everything the course detail page shows besides the course row itself: where the course sits in
+ * the prerequisite graph, its enrollment history and the careers that require it.
+ */
+import {
+  compareTerms,
+  formatTerm,
+  parseTerm,
+  type Term,
+} from "@/lib/academicCalendar";
+import { createEligibilityChecker, type Eligibility } from "@/lib/eligibility";
+import {
+  buildPrerequisiteGraph,
+  prerequisiteDepths,
+  transitiveDependents,
+  transitivePrerequisites,
+  type PrerequisiteRow,
+} from "@/lib/prerequisites";
+
+export interface LinkedCourse {
+  id: number;
+  title: string;
+}
+
+export interface ChainCourse extends LinkedCourse {
+  // Position in the chain: 1 needs nothing else first, the course itself is one past the deepest
+  level: number;
+  completed: boolean;
+}
+
+export interface UnlockedCourse extends LinkedCourse {
+  // False when another unlocked course is needed in between
+  direct: boolean;
+}
+
+export interface TermFillRate {
+  term: string;
+  filledSlots: number;
+  maxCapacity: number;
+  // Share of seats taken, 0-1
+  fillRate: number;
+}
+
+export interface CourseHistoryRow {
+  semester: string;
+  filled_slots: number | null;
+  max_capacity: number | null;
+}
+
+export interface CareerRow {
+  id: string | number;
+  title: string;
+  required_courses: unknown[] | null;
+}
+
+export interface CourseRelations {
+  prerequisites: ChainCourse[];
+  unlocks: UnlockedCourse[];
+  // Oldest term first
+  history: TermFillRate[];
+  careers: { id: string | number; title: string }[];
+  // For the signed-in student
+  eligibility: Eligibility;
+  // The signed-in student has already taken the course
+  completed: boolean;
+}
+
+export interface CourseRelationsInput {
+  course: LinkedCourse;
+  // Every course, to title the ones linked from this one
+  catalog: LinkedCourse[];
+  prerequisites: PrerequisiteRow[];
+  history: CourseHistoryRow[];
+  careers: CareerRow[];
+  completedCourseIds: (string | number)[];
+}
+
+function linked(id: string, titles: Map<string, string>): LinkedCourse {
+  return { id: Number(id), title: titles.get(id) ?? `Course ${id}` };
+}
+
+// Sections of the same term are added up. Terms that cannot be parsed or have no capacity are
+// left out rather than charted as zero.
+export function fillRateHistory(history: CourseHistoryRow[]): TermFillRate[] {
+  const terms = new Map<
+    string,
+    { term: Term; filledSlots: number; maxCapacity: number }
+  >();
+  for (const { semester, filled_slots, max_capacity } of history) {
+    const term = parseTerm(semester);
+    if (!term || !max_capacity || max_capacity <= 0 || filled_slots === null)
+      continue;
+    const key = formatTerm(term);
+    const totals = terms.get(key) ?? { term, filledSlots: 0, maxCapacity: 0 };
+    totals.filledSlots += Math.min(Math.max(0, filled_slots), max_capacity);
+    totals.maxCapacity += max_capacity;
+    terms.set(key, totals);
+  }
+
+  return [...terms.values()]
+    .sort((a, b) => compareTerms(a.term, b.term))
+    .map(({ term, filledSlots, maxCapacity }) => ({
+      term: formatTerm(term),
+      filledSlots,
+      maxCapacity,
+      fillRate: filledSlots / maxCapacity,
+    }));
+}
+
+/**
+ * `careers.required_courses` may hold course IDs or titles, matched the same way as the planner
+ */
+export function careersRequiring(course: LinkedCourse, careers: CareerRow[]) {
+  const keys = [String(course.id), course.title.trim().toLowerCase()];
+  return careers
+    .filter((career) =>
+      (career.required_courses ?? []).some((entry) =>
+        keys.includes(String(entry).trim().toLowerCase()),
+      ),
+    )
+    .map(({ id, title }) => ({ id, title }));
+}
+
+export function buildCourseRelations({
+  course,
+  catalog,
+  prerequisites,
+  history,
+  careers,
+  completedCourseIds,
+}: CourseRelationsInput): CourseRelations {
+  const graph = buildPrerequisiteGraph(prerequisites);
+  const titles = new Map(catalog.map(({ id, title }) => [String(id), title]));
+  const completed = new Set(completedCourseIds.map(String));
+
+  const chain = transitivePrerequisites(graph, course.id);
+  const depths = prerequisiteDepths(graph, chain);
+  const chainCourses = chain
+    .map((id) => ({
+      ...linked(id, titles),
+      level: depths.get(id) ?? 1,
+      completed: completed.has(id),
+    }))
+    .sort((a, b) => a.level - b.level || a.title.localeCompare(b.title));
+
+  const direct = new Set(graph.dependentsOf.get(String(course.id)) ?? []);
+  const unlocks = transitiveDependents(graph, course.id)
+    .map((id) => ({ ...linked(id, titles), direct: direct.has(id) }))
+    .sort(
+      (a, b) =>
+        Number(b.direct) - Number(a.direct) || a.title.localeCompare(b.title),
+    );
+
+  const checkEligibility = createEligibilityChecker({
+    prerequisites,
+    completedCourseIds,
+    courses: catalog,
+  });
+
+  return {
+    prerequisites: chainCourses,
+    unlocks,
+    history: fillRateHistory(history),
+    careers: careersRequiring(course, careers),
+    eligibility: checkEligibility(course.id),
+    completed: completed.has(String(course.id)),
+  };
+}
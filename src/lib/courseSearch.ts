@@ -0,0 +1,325 @@
+/**
+ * Query model for the course catalog API: filters, sorting, keyset cursors and facet counts.
+ * Shared by `GET /api/courses`, which runs the queries, and the catalog page, which builds them.
+ */
+
+export const COURSE_FACETS = [
+  "subject",
+  "semester",
+  "credits",
+  "learning_mode",
+  "is_elective",
+] as const;
+
+export type CourseFacet = (typeof COURSE_FACETS)[number];
+
+export interface CourseFilters {
+  subject?: string;
+  semester?: string;
+  credits?: number;
+  learning_mode?: string;
+  is_elective?: boolean;
+  search?: string;
+}
+
+// Relevance needs a search; it orders by the search index score, best match first by default
+export type CourseSort = "relevance" | "title" | "credits" | "availability";
+export type SortDirection = "asc" | "desc";
+
+// Column each sort orders by; ties are broken by id so every course has one place in the order.
+// `score` is not a table column: search results are ordered in memory with their score attached.
+export const SORT_COLUMNS: Record<CourseSort, string> = {
+  relevance: "score",
+  title: "title",
+  credits: "credits",
+  availability: "available_slots",
+};
+
+export function defaultSort(filters: CourseFilters): CourseSort {
+  return filters.search ? "relevance" : "title";
+}
+
+export function defaultDirection(sort: CourseSort): SortDirection {
+  return sort === "relevance" ? "desc" : "asc";
+}
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+export interface CourseQuery {
+  filters: CourseFilters;
+  sort: CourseSort;
+  direction: SortDirection;
+  limit: number;
+  // From the previous page's `nextCursor`; null for the first page
+  cursor: string | null;
+}
+
+export interface FacetValue {
+  value: string | number | boolean;
+  count: number;
+}
+
+// For each facet, how many courses each value would leave given the other active filters
+export type FacetCounts = Record<CourseFacet, FacetValue[]>;
+
+export interface CoursePage<T> {
+  courses: T[];
+  // Null on the last page
+  nextCursor: string | null;
+  // Courses matching every filter, across all pages
+  total: number;
+  facets: FacetCounts;
+}
+
+// Position after the last course of a page, tied to the order it was read in
+export interface CourseCursor {
+  sort: CourseSort;
+  direction: SortDirection;
+  value: string | number | null;
+  id: number;
+}
+
+function isSort(value: string): value is CourseSort {
+  return Object.hasOwn(SORT_COLUMNS, value);
+}
+
+/**
+ * Read a catalog query from URL search params, as sent by the catalog page. Blank params are
+ * ignored; malformed ones are reported by name.
+ */
+export function parseCourseQuery(
+  params: URLSearchParams,
+): { ok: true; query: CourseQuery } | { ok: false; error: string } {
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+  const filters: CourseFilters = {
+    subject: text("subject"),
+    semester: text("semester"),
+    learning_mode: text("learning_mode"),
+    search: text("search"),
+  };
+
+  const credits = text("credits");
+  if (credits !== undefined) {
+    if (!/^\d+$/.test(credits)) {
+      return { ok: false, error: "credits must be a whole number" };
+    }
+    filters.credits = Number(credits);
+  }
+
+  const isElective = text("is_elective");
+  if (isElective !== undefined) {
+    if (isElective !== "true" && isElective !== "false") {
+      return { ok: false, error: "is_elective must be true or false" };
+    }
+    filters.is_elective = isElective === "true";
+  }
+
+  const sort = text("sort") ?? defaultSort(filters);
+  if (!isSort(sort)) {
+    return {
+      ok: false,
+      error: `sort must be one of ${Object.keys(SORT_COLUMNS).join(", ")}`,
+    };
+  }
+  if (sort === "relevance" && !filters.search) {
+    return { ok: false, error: "sort=relevance needs a search" };
+  }
+
+  const direction = text("direction") ?? defaultDirection(sort);
+  if (direction !== "asc" && direction !== "desc") {
+    return { ok: false, error: "direction must be asc or desc" };
+  }
+
+  const limitParam = text("limit");
+  const limit =
+    limitParam === undefined ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return {
+      ok: false,
+      error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`,
+    };
+  }
+
+  for (const key of Object.keys(filters) as (keyof CourseFilters)[]) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+  return {
+    ok: true,
+    query: { filters, sort, direction, limit, cursor: text("cursor") ?? null },
+  };
+}
+
+// The inverse of parseCourseQuery, leaving out defaults
+export function courseQueryToParams(
+  query: Partial<CourseQuery>,
+): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query.filters ?? {})) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  const sort = query.sort ?? defaultSort(query.filters ?? {});
+  if (sort !== defaultSort(query.filters ?? {})) params.set("sort", sort);
+  if (query.direction && query.direction !== defaultDirection(sort)) {
+    params.set("direction", query.direction);
+  }
+  if (query.limit && query.limit !== DEFAULT_PAGE_SIZE) {
+    params.set("limit", String(query.limit));
+  }
+  if (query.cursor) params.set("cursor", query.cursor);
+  return params;
+}
+
+export function encodeCursor(cursor: CourseCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Null for a cursor that is malformed or was issued for a different sort order
+export function decodeCursor(
+  encoded: string,
+  sort: CourseSort,
+  direction: SortDirection,
+): CourseCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, "base64url").toString());
+    const validValue =
+      cursor?.value === null ||
+      typeof cursor?.value === "string" ||
+      typeof cursor?.value === "number";
+    if (
+      cursor?.sort !== sort ||
+      cursor.direction !== direction ||
+      !validValue ||
+      !Number.isInteger(cursor.id)
+    ) {
+      return null;
+    }
+    return cursor as CourseCursor;
+  } catch {
+    return null;
+  }
+}
+
+// PostgREST filter values containing reserved characters must be double-quoted
+function filterValue(value: string | number): string {
+  if (typeof value === "number") return String(value);
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * PostgREST `or` filter selecting the rows after `cursor` in ORDER BY column, id. Postgres sorts
+ * nulls last ascending and first descending, so a null sort value needs its own branches.
+ */
+export function keysetFilter(cursor: CourseCursor): string {
+  const column = SORT_COLUMNS[cursor.sort];
+  const afterId = `id.gt.${cursor.id}`;
+
+  if (cursor.value === null) {
+    return cursor.direction === "asc"
+      ? `and(${column}.is.null,${afterId})`
+      : `${column}.not.is.null,and(${column}.is.null,${afterId})`;
+  }
+
+  const value = filterValue(cursor.value);
+  const tie = `and(${column}.eq.${value},${afterId})`;
+  return cursor.direction === "asc"
+    ? `${column}.gt.${value},${tie},${column}.is.null`
+    : `${column}.lt.${value},${tie}`;
+}
+
+type FacetRow = Partial<Record<CourseFacet, unknown>>;
+
+// Whether a course passes the facet filters, optionally ignoring one of them
+export function matchesFilters(
+  row: FacetRow,
+  filters: CourseFilters,
+  except?: CourseFacet,
+): boolean {
+  return COURSE_FACETS.every(
+    (facet) =>
+      facet === except ||
+      filters[facet] === undefined ||
+      row[facet] === filters[facet],
+  );
+}
+
+function compareValues(a: FacetValue["value"], b: FacetValue["value"]): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Facet counts over the courses that match the search. Each facet ignores its own filter, so
+ * picking a subject still shows how many courses the other subjects have.
+ */
+export function countFacets(
+  rows: FacetRow[],
+  filters: CourseFilters,
+): { facets: FacetCounts; total: number } {
+  const facets = {} as FacetCounts;
+  for (const facet of COURSE_FACETS) {
+    const counts = new Map<FacetValue["value"], number>();
+    for (const row of rows) {
+      const value = row[facet];
+      if (value === null || value === undefined || value === "") continue;
+      if (!matchesFilters(row, filters, facet)) continue;
+      const key = value as FacetValue["value"];
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    facets[facet] = [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => compareValues(a.value, b.value));
+  }
+
+  const total = rows.filter((row) => matchesFilters(row, filters)).length;
+  return { facets, total };
+}
+
+type SortValue = CourseCursor["value"];
+
+// Same order as the database: nulls last ascending and first descending, then by id
+function compareKeys(
+  a: { value: SortValue; id: number },
+  b: { value: SortValue; id: number },
+  direction: SortDirection,
+): number {
+  if (a.value !== b.value) {
+    if (a.value === null) return direction === "asc" ? 1 : -1;
+    if (b.value === null) return direction === "asc" ? -1 : 1;
+    const order = compareValues(a.value, b.value);
+    if (order !== 0) return direction === "asc" ? order : -order;
+  }
+  return a.id - b.id;
+}
+
+/**
+ * The in-memory counterpart of keysetFilter and the ORDER BY in `GET /api/courses`, for result
+ * sets that are already loaded, such as search results. Returns the page after `after` and the
+ * cursor for the one following it.
+ */
+export function pageRows<T extends { id: number }>(
+  rows: T[],
+  { sort, direction, limit }: Pick<CourseQuery, "sort" | "direction" | "limit">,
+  after: CourseCursor | null,
+): { page: T[]; nextCursor: string | null } {
+  const column = SORT_COLUMNS[sort];
+  const keyOf = (row: T) => ({
+    value: ((row as Record<string, unknown>)[column] ?? null) as SortValue,
+    id: row.id,
+  });
+
+  const ordered = [...rows].sort((a, b) =>
+    compareKeys(keyOf(a), keyOf(b), direction),
+  );
+  const remaining = after
+    ? ordered.filter((row) => compareKeys(keyOf(row), after, direction) > 0)
+    : ordered;
+
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor =
+    remaining.length > limit && last
+      ? encodeCursor({ sort, direction, ...keyOf(last) })
+      : null;
+  return { page, nextCursor };
+}
@@ -0,0 +1,64 @@
+// Total credits required for graduation
+export const TOTAL_CREDITS = 30;
+
+// Helper function to calculate student enrollment status and credit requirements
+export function calculateCreditRequirements(creditsCompleted: number) {
+  const SEMESTERS_REMAINING = Math.ceil(
+    (TOTAL_CREDITS - creditsCompleted) / 15,
+  ); // Estimate remaining semesters
+
+  // Credit requirements per semester - updated values
+  const FULL_TIME_MIN_PER_SEMESTER = 9;
+  const FULL_TIME_MAX_PER_SEMESTER = 12;
+  const PART_TIME_MIN_PER_SEMESTER = 3;
+  const PART_TIME_MAX_PER_SEMESTER = 9;
+
+  // Determine if student is close to graduation
+  const isNearGraduation = creditsCompleted >= 90;
+
+  // Calculate remaining credits
+  const remainingCredits = TOTAL_CREDITS - creditsCompleted;
+
+  // If too few credits remain for full-time, recommend part-time
+  const recommendedStatus =
+    remainingCredits < FULL_TIME_MIN_PER_SEMESTER || SEMESTERS_REMAINING <= 1
+      ? "part-time"
+      : "full-time";
+
+  // Set min/max credits per semester based on recommended status
+  const minCredits =
+    recommendedStatus === "full-time"
+      ? FULL_TIME_MIN_PER_SEMESTER
+      : PART_TIME_MIN_PER_SEMESTER;
+  const maxCredits =
+    recommendedStatus === "full-time"
+      ? FULL_TIME_MAX_PER_SEMESTER
+      : PART_TIME_MAX_PER_SEMESTER;
+
+  // Calculate optimal number of courses (assuming 3 credits per course on average)
+  const avgCreditsPerCourse = 3;
+  const minCourses = Math.ceil(minCredits / avgCreditsPerCourse);
+  const maxCourses = Math.floor(maxCredits / avgCreditsPerCourse);
+
+  // Calculate optimal courses based on remaining credits spread over estimated remaining semesters
+  const creditsPerSemester = Math.ceil(
+    remainingCredits / Math.max(1, SEMESTERS_REMAINING),
+  );
+  const optimalCourses = Math.min(
+    maxCourses,
+    Math.max(minCourses, Math.ceil(creditsPerSemester / avgCreditsPerCourse)),
+  );
+
+  return {
+    remainingCredits,
+    recommendedStatus,
+    minCredits,
+    maxCredits,
+    minCourses,
+    maxCourses,
+    optimalCourses,
+    isNearGraduation,
+    semestersRemaining: SEMESTERS_REMAINING,
+    totalCredits: TOTAL_CREDITS,
+  };
+}
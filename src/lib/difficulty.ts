@@ -0,0 +1,24 @@
+export const DIFFICULTY_LEVELS = [
+  "Beginner",
+  "Intermediate",
+  "Advanced",
+  "Expert",
+] as const;
+
+export type DifficultyLevel = (typeof DIFFICULTY_LEVELS)[number];
+
+/**
+ * Difficulty from the weekly workload in `courses.hours_required`. Courses without one are
+ * treated as Intermediate.
+ */
+export function getDifficultyLevel(
+  hoursRequired: number | null | undefined,
+): DifficultyLevel {
+  if (hoursRequired === null || hoursRequired === undefined) {
+    return "Intermediate";
+  }
+  if (hoursRequired < 4) return "Beginner";
+  if (hoursRequired < 8) return "Intermediate";
+  if (hoursRequired < 12) return "Advanced";
+  return "Expert";
+}
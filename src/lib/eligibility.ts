@@ -0,0 +1,143 @@
+/**
+ * Prerequisite eligibility shared by every recommendation path: the schedule solver, the chat
+ * assistant and /api/advisor.
+ *
+ * A course is eligible when every prerequisite is in `students.current_courses_taken`. Unmet
+ * prerequisites are resolved transitively (a missing prerequisite's own unmet prerequisites are
+ * missing too), while a completed prerequisite ends the walk down that chain.
+ */
+
+import {
+  buildPrerequisiteGraph,
+  directPrerequisites,
+  type PrerequisiteRow,
+} from "@/lib/prerequisites";
+
+export interface MissingPrerequisite {
+  courseId: number;
+  title: string;
+  // False when the course is only required by another missing prerequisite
+  direct: boolean;
+}
+
+export interface Eligibility {
+  eligible: boolean;
+  missingPrerequisites: MissingPrerequisite[];
+}
+
+export type EligibilityChecker = (courseId: string | number) => Eligibility;
+
+export interface EligibilityInput {
+  prerequisites: PrerequisiteRow[];
+  completedCourseIds: (string | number)[];
+  // Used to title missing prerequisites; unknown IDs fall back to "Course <id>"
+  courses?: { id: string | number; title: string }[];
+}
+
+export function createEligibilityChecker({
+  prerequisites,
+  completedCourseIds,
+  courses = [],
+}: EligibilityInput): EligibilityChecker {
+  const graph = buildPrerequisiteGraph(prerequisites);
+  const completed = new Set(completedCourseIds.map(String));
+  const titles = new Map(
+    courses.map((course) => [String(course.id), course.title]),
+  );
+  const cache = new Map<string, Eligibility>();
+
+  return (courseId) => {
+    const id = String(courseId);
+    const cached = cache.get(id);
+    if (cached) return cached;
+
+    const missingPrerequisites: MissingPrerequisite[] = [];
+    const seen = new Set([id]);
+    // Breadth-first so a prerequisite that is both direct and indirect is reported as direct
+    const queue = directPrerequisites(graph, id).map((prerequisite) => ({
+      id: prerequisite,
+      direct: true,
+    }));
+
+    while (queue.length > 0) {
+      const next = queue.shift() as { id: string; direct: boolean };
+      if (seen.has(next.id) || completed.has(next.id)) continue;
+      seen.add(next.id);
+      missingPrerequisites.push({
+        courseId: Number(next.id),
+        title: titles.get(next.id) ?? `Course ${next.id}`,
+        direct: next.direct,
+      });
+      for (const prerequisite of directPrerequisites(graph, next.id)) {
+        queue.push({ id: prerequisite, direct: false });
+      }
+    }
+
+    const result = {
+      eligible: missingPrerequisites.length === 0,
+      missingPrerequisites,
+    };
+    cache.set(id, result);
+    return result;
+  };
+}
+
+/**
+ * Split courses into those the student can take now and those with missing prerequisites.
+ */
+export function partitionByEligibility<T extends { id: string | number }>(
+  courses: T[],
+  check: EligibilityChecker,
+): {
+  eligible: T[];
+  ineligible: { course: T; missingPrerequisites: MissingPrerequisite[] }[];
+} {
+  const eligible: T[] = [];
+  const ineligible: {
+    course: T;
+    missingPrerequisites: MissingPrerequisite[];
+  }[] = [];
+
+  for (const course of courses) {
+    const { eligible: canTake, missingPrerequisites } = check(course.id);
+    if (canTake) {
+      eligible.push(course);
+    } else {
+      ineligible.push({ course, missingPrerequisites });
+    }
+  }
+
+  return { eligible, ineligible };
+}
+
+/**
+ * One-line summary for chat messages and prompts, e.g. "Data Structures, Discrete Math".
+ */
+export function formatMissingPrerequisites(
+  missing: MissingPrerequisite[],
+): string {
+  return missing.map((prerequisite) => prerequisite.title).join(", ");
+}
+
+export interface CourseEligibility extends Eligibility {
+  courseId: string | number;
+  title: string;
+}
+
+/**
+ * Check each course an answer recommends, by ID, rather than trusting the model to have respected
+ * prerequisites. IDs that are not in `courses` are left out.
+ */
+export function checkRecommendedCourses(
+  courseIds: (string | number)[],
+  courses: { id: string | number; title: string }[],
+  check: EligibilityChecker,
+): CourseEligibility[] {
+  const byId = new Map(courses.map((course) => [String(course.id), course]));
+  return [...new Set(courseIds.map(String))].flatMap((id) => {
+    const course = byId.get(id);
+    return course
+      ? [{ courseId: course.id, title: course.title, ...check(course.id) }]
+      : [];
+  });
+}
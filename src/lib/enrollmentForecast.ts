@@ -0,0 +1,211 @@
+/**
+ * Next-term enrollment forecasts from `course_history` (one row per course and term with
+ * `filled_slots` / `max_capacity`).
+ *
+ * Deterministic: the same history always gives the same forecast. A full term only shows that
+ * demand reached capacity, so it counts as FULL_TERM_DEMAND to keep popular courses ranked above
+ * ones that merely filled.
+ */
+
+import {
+  compareTerms,
+  countTerms,
+  formatTerm,
+  nextTerm,
+  parseTerm,
+  type Season,
+  type Term,
+} from "./academicCalendar";
+
+export interface EnrollmentRecord {
+  semester: string;
+  filled_slots: number | null;
+  max_capacity: number | null;
+}
+
+export interface EnrollmentForecast {
+  term: string; // "Spring 2027"
+  // Predicted share of seats taken at the end of registration, 0-1
+  fillRate: number;
+  // 80% prediction interval for fillRate
+  low: number;
+  high: number;
+  confidence: "low" | "medium" | "high";
+  // Terms of history the forecast is based on
+  sampleSize: number;
+  // Fill-rate adjustment applied for the target term's season
+  seasonalAdjustment: number;
+  // Day of registration the course is expected to fill up (1-based), or null if it should not
+  fillsUpByDay: number | null;
+  // Earliest plausible fill-up day, from the upper end of the interval
+  earliestFillUpDay: number | null;
+  registrationDays: number;
+  history: { term: string; fillRate: number }[];
+}
+
+export interface ForecastOptions {
+  // Defaults to the term after the latest one in the history
+  targetTerm?: Term;
+  registrationDays?: number;
+}
+
+export const DEFAULT_REGISTRATION_DAYS = 21;
+
+const FULL_TERM_DEMAND = 1.15;
+// Weight of a term halves every RECENCY_HALF_LIFE terms back
+const RECENCY_HALF_LIFE = 2;
+// Prior spread of fill rates, so one or two terms of history do not look certain
+const PRIOR_SD = 0.15;
+const PRIOR_WEIGHT = 2;
+// Season offsets are shrunk towards zero until a season has a few terms of its own
+const SEASON_SHRINKAGE = 1;
+const TREND_DAMPING = 0.5;
+const MAX_TREND_STEPS = 3;
+const Z_80 = 1.2816;
+
+interface Observation {
+  term: Term;
+  demand: number;
+  fillRate: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function toObservations(history: EnrollmentRecord[]): Observation[] {
+  const observations: Observation[] = [];
+  for (const record of history) {
+    const term = parseTerm(record.semester);
+    if (!term || !record.max_capacity || record.max_capacity <= 0) continue;
+    if (record.filled_slots === null || record.filled_slots < 0) continue;
+
+    const fillRate = Math.min(1, record.filled_slots / record.max_capacity);
+    observations.push({
+      term,
+      fillRate,
+      demand: fillRate >= 1 ? FULL_TERM_DEMAND : fillRate,
+    });
+  }
+  return observations.sort((a, b) => compareTerms(a.term, b.term));
+}
+
+// Registration is front-loaded: by day t of T, 1 - (1 - t/T)^2 of the final demand has enrolled
+function fillUpDay(demand: number, registrationDays: number): number | null {
+  if (demand < 1) return null;
+  const share = 1 - Math.sqrt(1 - 1 / demand);
+  return Math.max(1, Math.ceil(registrationDays * share));
+}
+
+/**
+ * Forecast the fill rate of the next term from a course's enrollment history. Seasonal offsets
+ * (Spring/Summer/Fall) are removed first; a recency-weighted level plus a damped trend (from three
+ * terms on) is projected to the target term and its season's offset added back. The interval
+ * comes from the fit's residuals blended with a prior, so short histories get wide intervals.
+ * Null when no usable history exists.
+ */
+export function forecastEnrollment(
+  history: EnrollmentRecord[],
+  options: ForecastOptions = {},
+): EnrollmentForecast | null {
+  const observations = toObservations(history);
+  if (observations.length === 0) return null;
+
+  const registrationDays =
+    options.registrationDays ?? DEFAULT_REGISTRATION_DAYS;
+  const latest = observations[observations.length - 1].term;
+  const target = options.targetTerm ?? nextTerm(latest);
+
+  // Season offsets from the plain mean, shrunk by how many terms each season has
+  const seasonOffsets = new Map<Season, number>();
+  const seasons = new Set(observations.map(({ term }) => term.season));
+  if (seasons.size > 1) {
+    const mean =
+      observations.reduce((sum, { demand }) => sum + demand, 0) /
+      observations.length;
+    for (const season of seasons) {
+      const inSeason = observations.filter(
+        ({ term }) => term.season === season,
+      );
+      const offset =
+        inSeason.reduce((sum, { demand }) => sum + demand - mean, 0) /
+        inSeason.length;
+      seasonOffsets.set(
+        season,
+        offset * (inSeason.length / (inSeason.length + SEASON_SHRINKAGE)),
+      );
+    }
+  }
+  const deseasonalized = observations.map(
+    ({ term, demand }) => demand - (seasonOffsets.get(term.season) ?? 0),
+  );
+
+  // Terms from the latest observation, counting summers: past terms are negative
+  const xs = observations.map(({ term }) => 1 - countTerms(term, latest, true));
+  const weights = xs.map((x) => 0.5 ** (-x / RECENCY_HALF_LIFE));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const weightedMean = (values: number[]) =>
+    values.reduce((sum, value, index) => sum + value * weights[index], 0) /
+    totalWeight;
+  const level = weightedMean(deseasonalized);
+  const meanX = weightedMean(xs);
+
+  // Weighted least-squares slope per term
+  let trend = 0;
+  if (observations.length >= 3) {
+    let covariance = 0;
+    let variance = 0;
+    for (const [index, x] of xs.entries()) {
+      covariance +=
+        weights[index] * (x - meanX) * (deseasonalized[index] - level);
+      variance += weights[index] * (x - meanX) ** 2;
+    }
+    trend = variance > 0 ? (covariance / variance) * TREND_DAMPING : 0;
+  }
+  const fitted = (x: number) => level + trend * (x - meanX);
+
+  const horizon = Math.min(
+    MAX_TREND_STEPS,
+    Math.max(1, countTerms(latest, target, true) - 1),
+  );
+  const seasonalAdjustment = seasonOffsets.get(target.season) ?? 0;
+  const demand = Math.max(0, fitted(horizon) + seasonalAdjustment);
+
+  const n = observations.length;
+  const squaredErrors = deseasonalized.reduce(
+    (sum, value, index) => sum + (value - fitted(xs[index])) ** 2,
+    0,
+  );
+  const spread = Math.sqrt(
+    (squaredErrors + PRIOR_SD ** 2 * PRIOR_WEIGHT) / (n - 1 + PRIOR_WEIGHT),
+  );
+  const margin = Z_80 * spread * Math.sqrt(1 + 1 / n);
+
+  return {
+    term: formatTerm(target),
+    fillRate: round(clamp(demand, 0, 1)),
+    low: round(clamp(demand - margin, 0, 1)),
+    high: round(clamp(demand + margin, 0, 1)),
+    confidence: n >= 5 && margin < 0.15 ? "high" : n >= 3 ? "medium" : "low",
+    sampleSize: n,
+    seasonalAdjustment: round(seasonalAdjustment),
+    fillsUpByDay: fillUpDay(demand, registrationDays),
+    earliestFillUpDay: fillUpDay(demand + margin, registrationDays),
+    registrationDays,
+    history: observations.map(({ term, fillRate }) => ({
+      term: formatTerm(term),
+      fillRate: round(fillRate),
+    })),
+  };
+}
+
+/**
+ * Availability score (0.1-0.95) used to rank courses: the forecast share of seats left.
+ */
+export function availabilityFromForecast(forecast: EnrollmentForecast): number {
+  return clamp(1 - forecast.fillRate, 0.1, 0.95);
+}
@@ -0,0 +1,367 @@
+/**
+ * RFC 5545 (iCalendar) export of a weekly course schedule.
+ *
+ * Each course becomes one weekly recurring VEVENT per distinct meeting time, anchored in the
+ * student's time zone so classes stay at the same wall-clock time across DST changes.
+ */
+
+import type { TermDates } from "@/lib/academicCalendar";
+import { parseTimeSlot, type Weekday } from "@/lib/timeSlot";
+
+export interface CalendarCourse {
+  id: number;
+  title: string;
+  subject?: string;
+  credits?: number;
+  time_slots: unknown;
+}
+
+export interface ScheduleCalendarOptions {
+  courses: CalendarCourse[];
+  term: TermDates;
+  timeZone: string;
+  // Used for DTSTAMP; defaults to the current time
+  now?: Date;
+  // Right-hand side of event UIDs
+  uidDomain?: string;
+}
+
+export interface ScheduleCalendar {
+  ics: string;
+  // Courses with TBA, online or unparseable slots have nothing to put on a calendar
+  skippedCourseIds: number[];
+}
+
+const ICS_DAYS: Record<Weekday, string> = {
+  M: "MO",
+  T: "TU",
+  W: "WE",
+  R: "TH",
+  F: "FR",
+  S: "SA",
+  U: "SU",
+};
+
+// Weekday index as returned by Date#getUTCDay
+const DAY_INDEX: Record<Weekday, number> = {
+  U: 0,
+  M: 1,
+  T: 2,
+  W: 3,
+  R: 4,
+  F: 5,
+  S: 6,
+};
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11).
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1), never splitting a UTF-8 character.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  let limit = 75;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74; // continuation lines start with a space
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+// Local wall-clock time, with the fields stored in a UTC Date for easy arithmetic
+function formatLocal(wallClock: Date): string {
+  return formatUtc(wallClock).slice(0, -1);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+/**
+ * Offset of `timeZone` from UTC, in minutes, at the given instant.
+ */
+export function getTimeZoneOffset(timeZone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+
+  const field = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    field("year"),
+    field("month") - 1,
+    field("day"),
+    field("hour"),
+    field("minute"),
+    field("second"),
+  );
+
+  return Math.round(
+    (asUtc - Math.floor(instant.getTime() / 1000) * 1000) / MINUTE,
+  );
+}
+
+// Convert a wall-clock time in `timeZone` to the real instant
+function wallClockToInstant(wallClock: Date, timeZone: string): Date {
+  let guess = wallClock.getTime();
+  for (let i = 0; i < 2; i++) {
+    guess =
+      wallClock.getTime() -
+      getTimeZoneOffset(timeZone, new Date(guess)) * MINUTE;
+  }
+  return new Date(guess);
+}
+
+function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+interface OffsetTransition {
+  instant: Date;
+  from: number;
+  to: number;
+}
+
+// Find every UTC offset change between two instants, to the minute
+function findTransitions(
+  timeZone: string,
+  from: Date,
+  to: Date,
+): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  let cursor = from.getTime();
+  let offset = getTimeZoneOffset(timeZone, from);
+
+  while (cursor < to.getTime()) {
+    const next = cursor + DAY;
+    const nextOffset = getTimeZoneOffset(timeZone, new Date(next));
+    if (nextOffset !== offset) {
+      let low = cursor;
+      let high = next;
+      while (high - low > MINUTE) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+        if (getTimeZoneOffset(timeZone, new Date(middle)) === offset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({
+        instant: new Date(high),
+        from: offset,
+        to: nextOffset,
+      });
+      offset = nextOffset;
+    }
+    cursor = next;
+  }
+
+  return transitions;
+}
+
+/**
+ * VTIMEZONE covering the term. Observances are listed explicitly for each transition in range
+ * rather than as RRULEs, which every client accepts and needs no tzdata rules.
+ */
+function buildTimeZone(timeZone: string, term: TermDates): string[] {
+  // Pad a month either side so events near the edges resolve unambiguously
+  const from = new Date(parseIsoDate(term.start).getTime() - 31 * DAY);
+  const to = new Date(parseIsoDate(term.end).getTime() + 31 * DAY);
+  const initialOffset = getTimeZoneOffset(timeZone, from);
+  const transitions = findTransitions(timeZone, from, to);
+
+  const observance = (
+    from: number,
+    to: number,
+    start: Date,
+    isDaylight: boolean,
+  ) => {
+    const type = isDaylight ? "DAYLIGHT" : "STANDARD";
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${formatLocal(start)}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${type}`,
+    ];
+  };
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  lines.push(
+    ...observance(
+      transitions[0]?.to ?? initialOffset,
+      initialOffset,
+      new Date(Date.UTC(1970, 0, 1)),
+      transitions.length > 0 && initialOffset > transitions[0].to,
+    ),
+  );
+  for (const transition of transitions) {
+    // Observance DTSTART is the local time just before the change takes effect
+    const localStart = new Date(
+      transition.instant.getTime() + transition.from * MINUTE,
+    );
+    lines.push(
+      ...observance(
+        transition.from,
+        transition.to,
+        localStart,
+        transition.to > transition.from,
+      ),
+    );
+  }
+  lines.push("END:VTIMEZONE");
+
+  return lines;
+}
+
+// First date on or after `start` that falls on one of `days`
+function firstMeetingDate(start: Date, days: Weekday[]): Date {
+  const wanted = new Set(days.map((day) => DAY_INDEX[day]));
+  let date = start;
+  while (!wanted.has(date.getUTCDay())) {
+    date = new Date(date.getTime() + DAY);
+  }
+  return date;
+}
+
+/**
+ * Build the calendar for a set of courses over one term.
+ */
+export function buildScheduleCalendar({
+  courses,
+  term,
+  timeZone,
+  now = new Date(),
+  uidDomain = "course-planner",
+}: ScheduleCalendarOptions): ScheduleCalendar {
+  const termStart = parseIsoDate(term.start);
+  // Recurrence runs through the end of the last day, expressed in UTC as RFC 5545 requires
+  const until = wallClockToInstant(
+    new Date(parseIsoDate(term.end).getTime() + DAY - 1000),
+    timeZone,
+  );
+  const dtstamp = formatUtc(now);
+
+  const events: string[] = [];
+  const skippedCourseIds: number[] = [];
+
+  for (const course of courses) {
+    const slot = parseTimeSlot(course.time_slots);
+    if (slot.kind !== "scheduled" || slot.meetings.length === 0) {
+      skippedCourseIds.push(course.id);
+      continue;
+    }
+
+    // One VEVENT per distinct meeting time so each can carry a single BYDAY rule
+    const groups = new Map<
+      string,
+      { days: Weekday[]; start: number; end: number }
+    >();
+    for (const meeting of slot.meetings) {
+      const key = `${meeting.start}-${meeting.end}`;
+      const group = groups.get(key) ?? {
+        days: [],
+        start: meeting.start,
+        end: meeting.end,
+      };
+      if (!group.days.includes(meeting.day)) group.days.push(meeting.day);
+      groups.set(key, group);
+    }
+
+    for (const group of groups.values()) {
+      const firstDate = firstMeetingDate(termStart, group.days);
+      const dtstart = new Date(firstDate.getTime() + group.start * MINUTE);
+      const dtend = new Date(firstDate.getTime() + group.end * MINUTE);
+      const byDay = group.days.map((day) => ICS_DAYS[day]).join(",");
+      const description = [
+        course.subject,
+        course.credits !== undefined ? `${course.credits} credits` : undefined,
+        term.term,
+      ]
+        .filter(Boolean)
+        .join(" • ");
+
+      events.push(
+        "BEGIN:VEVENT",
+        `UID:course-${course.id}-${term.term.replace(/\s+/g, "-").toLowerCase()}-${group.days.join("")}-${group.start}@${uidDomain}`,
+        `DTSTAMP:${dtstamp}`,
+        `DTSTART;TZID=${timeZone}:${formatLocal(dtstart)}`,
+        `DTEND;TZID=${timeZone}:${formatLocal(dtend)}`,
+        `RRULE:FREQ=WEEKLY;BYDAY=${byDay};UNTIL=${formatUtc(until)}`,
+        `SUMMARY:${escapeText(course.title)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        "END:VEVENT",
+      );
+    }
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Course Planner//Semester Schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${term.term} Schedule`)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...buildTimeZone(timeZone, term),
+    ...events,
+    "END:VCALENDAR",
+  ];
+
+  return {
+    ics: `${lines.map(foldLine).join("\r\n")}\r\n`,
+    skippedCourseIds,
+  };
+}
@@ -0,0 +1,77 @@
+import type { Schema } from "./schema";
+import { parseServerSentEvents } from "./sse";
+import { generateStructured, type StructuredOptions } from "./structured";
+import type { LLMRequest } from "./types";
+
+/**
+ * Browser-side entry point to the LLM gateway. Provider keys and model selection stay on the
+ * server behind POST /api/llm.
+ */
+export async function generateText(request: LLMRequest): Promise<string> {
+  const response = await fetch("/api/llm", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `LLM API error: ${response.status}`);
+  }
+  return data.text;
+}
+
+/**
+ * JSON reply validated against `schema`, with one repair attempt. Throws StructuredOutputError
+ * when the model cannot produce a valid reply.
+ */
+export function generateObject<T>(
+  request: LLMRequest,
+  schema: Schema<T>,
+  options?: StructuredOptions<T>,
+): Promise<T> {
+  return generateStructured(generateText, request, schema, options);
+}
+
+export type StreamEvent =
+  | { type: "tool"; tool: string }
+  | { type: "delta"; text: string }
+  | { type: "done"; data: Record<string, unknown> };
+
+/**
+ * POST `body` with `stream: true` to one of the streaming routes (/api/llm, /api/chat,
+ * /api/advisor) and yield its events. An `error` event is thrown as an Error; aborting `signal`
+ * rejects with the fetch AbortError, so check `signal.aborted` to tell cancellation apart.
+ */
+export async function* streamEvents(
+  url: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
+): AsyncGenerator<StreamEvent> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(
+      data.error || `Streaming request failed: ${response.status}`,
+    );
+  }
+
+  for await (const { event, data } of parseServerSentEvents(response.body)) {
+    const payload = JSON.parse(data);
+    if (event === "tool") {
+      yield { type: "tool", tool: payload.tool };
+    } else if (event === "delta") {
+      yield { type: "delta", text: payload.text };
+    } else if (event === "done") {
+      yield { type: "done", data: payload };
+    } else if (event === "error") {
+      throw new Error(payload.error || "Streaming request failed");
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { DEFAULT_MOCK_RULES } from "./mockScript";
+import { createGeminiProvider } from "./providers/gemini";
+import { createMockProvider } from "./providers/mock";
+import { createOpenAIProvider } from "./providers/openai";
+import {
+  type LLMCompletion,
+  type LLMConfig,
+  LLMError,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMRequest,
+} from "./types";
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: "gemini-1.5-flash",
+  openai: "gpt-4o-mini",
+  mock: "mock",
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed)
+    ? parsed
+    : fallback;
+}
+
+/**
+ * Read the gateway configuration from server-only environment variables:
+ * LLM_PROVIDER (gemini | openai | mock, default gemini), LLM_MODEL (or the older AI_MODEL),
+ * GEMINI_API_KEY, OPENAI_API_KEY, OPENAI_BASE_URL (or AI_ENDPOINT), LLM_TIMEOUT_MS and
+ * LLM_MAX_RETRIES.
+ */
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const requested = env.LLM_PROVIDER?.toLowerCase();
+  const provider: LLMProviderName =
+    requested === "openai" || requested === "mock" ? requested : "gemini";
+
+  return {
+    provider,
+    model: env.LLM_MODEL || env.AI_MODEL || DEFAULT_MODELS[provider],
+    timeoutMs: parseNumber(env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    maxRetries: Math.max(
+      0,
+      parseNumber(env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES),
+    ),
+    geminiApiKey: env.GEMINI_API_KEY,
+    openaiApiKey: env.OPENAI_API_KEY || env.GITHUB_TOKEN,
+    openaiBaseUrl:
+      env.OPENAI_BASE_URL || env.AI_ENDPOINT || "https://api.openai.com/v1",
+  };
+}
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider(config.openaiApiKey, config.openaiBaseUrl);
+    case "mock":
+      return createMockProvider({ rules: DEFAULT_MOCK_RULES });
+    default:
+      return createGeminiProvider(config.geminiApiKey);
+  }
+}
+
+/**
+ * Run a completion through the configured provider. Each attempt is aborted after
+ * `timeoutMs`; timeouts, rate limits and 5xx responses are retried with exponential backoff.
+ * Aborting `signal` cancels the current attempt and skips any retries.
+ */
+export async function complete(
+  request: LLMRequest,
+  options: {
+    config?: LLMConfig;
+    provider?: LLMProvider;
+    signal?: AbortSignal;
+  } = {},
+): Promise<LLMCompletion> {
+  const config = options.config ?? getLLMConfig();
+  const provider = options.provider ?? createProvider(config);
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw new LLMError("LLM request was cancelled");
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener("abort", cancel, { once: true });
+
+    try {
+      const text = await provider.complete(
+        request,
+        config.model,
+        controller.signal,
+      );
+      return { text, provider: provider.name, model: config.model };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new LLMError("LLM request was cancelled");
+      }
+      const llmError =
+        error instanceof LLMError
+          ? error
+          : new LLMError(
+              error instanceof Error ? error.message : String(error),
+            );
+      if (!llmError.retryable || attempt >= config.maxRetries) throw llmError;
+
+      console.warn(
+        `LLM attempt ${attempt + 1} failed, retrying:`,
+        llmError.message,
+      );
+      await new Promise((resolve) =>
+        setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt),
+      );
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", cancel);
+    }
+  }
+}
+
+/**
+ * Stream a completion through the configured provider, yielding text deltas. The timeout applies
+ * to the wait for each chunk, and failures are only retried before the first chunk arrives since
+ * a retry would repeat text the caller has already shown. Aborting `signal` stops the provider
+ * request and ends the stream with a non-retryable LLMError.
+ */
+export async function* stream(
+  request: LLMRequest,
+  options: {
+    config?: LLMConfig;
+    provider?: LLMProvider;
+    signal?: AbortSignal;
+  } = {},
+): AsyncGenerator<string> {
+  const config = options.config ?? getLLMConfig();
+  const provider = options.provider ?? createProvider(config);
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener("abort", cancel, { once: true });
+    let timer = setTimeout(cancel, config.timeoutMs);
+    let started = false;
+
+    try {
+      if (options.signal?.aborted) cancel();
+      const chunks = provider.stream
+        ? provider.stream(request, config.model, controller.signal)
+        : [await provider.complete(request, config.model, controller.signal)];
+
+      for await (const chunk of chunks) {
+        clearTimeout(timer);
+        started = true;
+        yield chunk;
+        timer = setTimeout(cancel, config.timeoutMs);
+      }
+      // Providers may end quietly on abort; report it so callers do not treat it as complete
+      if (options.signal?.aborted)
+        throw new LLMError("LLM request was cancelled");
+      return;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new LLMError("LLM request was cancelled");
+      }
+      const llmError =
+        error instanceof LLMError
+          ? error
+          : new LLMError(
+              error instanceof Error ? error.message : String(error),
+            );
+      if (started || !llmError.retryable || attempt >= config.maxRetries) {
+        throw llmError;
+      }
+
+      console.warn(
+        `LLM stream attempt ${attempt + 1} failed, retrying:`,
+        llmError.message,
+      );
+      await new Promise((resolve) =>
+        setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt),
+      );
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", cancel);
+      // Stops the provider request when the caller stops reading early
+      controller.abort();
+    }
+  }
+}
@@ -0,0 +1,43 @@
+// Server-side only: the gateway reads provider API keys from the environment. Client components
+// call /api/llm through `@/lib/llm/client` instead.
+export { complete, createProvider, getLLMConfig, stream } from "./gateway";
+export { createGeminiProvider } from "./providers/gemini";
+export { DEFAULT_MOCK_RULES } from "./mockScript";
+export {
+  createMockProvider,
+  createRecordingProvider,
+  fingerprintRequest,
+  type MockProviderOptions,
+  type MockRule,
+} from "./providers/mock";
+export { createOpenAIProvider } from "./providers/openai";
+export {
+  type Infer,
+  parseWithSchema,
+  type Schema,
+  SchemaValidationError,
+} from "./schema";
+export {
+  generateStructured,
+  parseStructured,
+  readPartialStringField,
+  repairStructured,
+  type StructuredOptions,
+  StructuredOutputError,
+} from "./structured";
+export {
+  createEventStreamResponse,
+  encodeServerSentEvent,
+  parseServerSentEvents,
+  type ServerSentEvent,
+} from "./sse";
+export {
+  type LLMCompletion,
+  type LLMConfig,
+  LLMError,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMRequest,
+  type LLMRole,
+} from "./types";
@@ -0,0 +1,103 @@
+import type { MockRule } from "./providers/mock";
+
+/**
+ * Scripted replies used when LLM_PROVIDER=mock, shaped like what each app flow parses so the
+ * dashboard, chat, roadmap and advisor all work offline.
+ */
+export const DEFAULT_MOCK_RULES: MockRule[] = [
+  {
+    // Chat agent: search the catalog for the question once, then answer
+    match: '"action": "call_tool"',
+    response: (request) => {
+      const userMessages = request.messages.filter(
+        (message) => message.role === "user",
+      );
+      if (
+        userMessages.some(({ content }) => content.startsWith("Result of "))
+      ) {
+        return JSON.stringify({
+          action: "answer",
+          reply:
+            "This is a mock reply from the offline assistant, based on the course search above.",
+        });
+      }
+      return JSON.stringify({
+        action: "call_tool",
+        tool: "searchCourses",
+        arguments: { query: userMessages.at(-1)?.content ?? "", limit: 5 },
+      });
+    },
+  },
+  {
+    // Dashboard: explanations for solver-picked courses
+    match: '"explanations"',
+    response: (request) => {
+      const prompt = request.messages
+        .map((message) => message.content)
+        .join("\n");
+      const selected = prompt.split("Selected Courses:")[1] ?? "";
+      const ids = [...selected.matchAll(/"id":\s*(\d+)/g)].map((match) =>
+        Number(match[1]),
+      );
+      return JSON.stringify({
+        explanations: ids.map((id) => ({
+          course_id: id,
+          reasons: [
+            "Builds core skills for your career goal",
+            "Fits your current technical level",
+            "Portfolio project opportunity",
+          ],
+        })),
+      });
+    },
+  },
+  {
+    // Roadmap: linear list of steps
+    match: '"steps"',
+    response: JSON.stringify({
+      steps: [
+        { title: "Start", type: "start", description: "Where you are today" },
+        {
+          title: "Core coursework",
+          type: "course",
+          description: "Finish the foundational courses",
+        },
+        {
+          title: "Capstone project",
+          type: "project",
+          description: "Apply what you learned end to end",
+        },
+        {
+          title: "Internship",
+          type: "internship",
+          description: "Gain industry experience",
+        },
+        { title: "Career goal", type: "goal", description: "Land the role" },
+      ],
+    }),
+  },
+  {
+    // /api/advisor: advice recommending the first eligible course in the catalog
+    match: "course advisor",
+    response: (request) => {
+      const prompt = request.messages
+        .map((message) => message.content)
+        .join("\n");
+      const eligible = prompt.match(/^- .+ \(ID (\d+), [^\n]* - Eligible$/m);
+      return JSON.stringify({
+        reply:
+          "This is a mock advisor reply. Review the eligible courses in your catalog and pick those that match your goals.",
+        recommendedCourses: eligible ? [Number(eligible[1])] : [],
+      });
+    },
+  },
+  {
+    // Chat assistant: reply with its recommendation metadata
+    match: '"recommendedCourses"',
+    response: JSON.stringify({
+      reply: "This is a mock reply from the offline assistant.",
+      isRecommending: false,
+      recommendedCourses: [],
+    }),
+  },
+];
@@ -0,0 +1,79 @@
+import { LLMError, type LLMProvider, type LLMRequest } from "../types";
+import { postEventStream, postJson } from "./http";
+
+const GEMINI_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+// System messages become the system instruction and assistant turns use Gemini's "model" role
+function toGeminiBody(request: LLMRequest) {
+  const system = request.messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+  const contents = request.messages
+    .filter((message) => message.role !== "system")
+    .map((message) => ({
+      role: message.role === "assistant" ? "model" : "user",
+      parts: [{ text: message.content }],
+    }));
+
+  return {
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+    contents,
+    generationConfig: {
+      temperature: request.temperature,
+      topP: request.topP,
+      maxOutputTokens: request.maxTokens,
+      ...(request.responseFormat === "json"
+        ? { responseMimeType: "application/json" }
+        : {}),
+    },
+  };
+}
+
+function candidateText(data: GeminiResponse): string | undefined {
+  return data.candidates?.[0]?.content?.parts
+    ?.map((part) => part.text ?? "")
+    .join("");
+}
+
+/**
+ * Google Gemini over the REST generateContent and streamGenerateContent endpoints.
+ */
+export function createGeminiProvider(apiKey: string | undefined): LLMProvider {
+  return {
+    name: "gemini",
+    async complete(request, model, signal) {
+      if (!apiKey) throw new LLMError("GEMINI_API_KEY is not configured");
+
+      const data = (await postJson(
+        `${GEMINI_URL}/${model}:generateContent`,
+        toGeminiBody(request),
+        { "x-goog-api-key": apiKey },
+        signal,
+      )) as GeminiResponse;
+
+      const text = candidateText(data);
+      if (text === undefined) {
+        throw new LLMError("Gemini response contained no candidates");
+      }
+      return text;
+    },
+    async *stream(request, model, signal) {
+      if (!apiKey) throw new LLMError("GEMINI_API_KEY is not configured");
+
+      for await (const chunk of postEventStream(
+        `${GEMINI_URL}/${model}:streamGenerateContent?alt=sse`,
+        toGeminiBody(request),
+        { "x-goog-api-key": apiKey },
+        signal,
+      )) {
+        const text = candidateText(chunk as GeminiResponse);
+        if (text) yield text;
+      }
+    },
+  };
+}
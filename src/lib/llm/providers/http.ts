@@ -0,0 +1,83 @@
+import { parseServerSentEvents } from "../sse";
+import { LLMError } from "../types";
+
+/**
+ * POST a JSON body and return the response once it is known to be OK, mapping failures to
+ * LLMError. Rate limits, 5xx responses and network errors are retryable; other 4xx responses
+ * are not.
+ */
+async function post(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal.aborted)
+      throw new LLMError("LLM request timed out", undefined, true);
+    throw new LLMError(
+      `LLM request failed: ${error instanceof Error ? error.message : String(error)}`,
+      undefined,
+      true,
+    );
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new LLMError(
+      `LLM provider returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`,
+      response.status,
+      response.status === 429 || response.status >= 500,
+    );
+  }
+
+  return response;
+}
+
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+): Promise<unknown> {
+  const response = await post(url, body, headers, signal);
+  return response.json();
+}
+
+/**
+ * POST a JSON body to a server-sent events endpoint and yield each event's parsed JSON `data`.
+ * `[DONE]` sentinels end the stream; a dropped connection surfaces as a retryable LLMError.
+ */
+export async function* postEventStream(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+): AsyncGenerator<unknown> {
+  const response = await post(url, body, headers, signal);
+  if (!response.body) throw new LLMError("LLM provider returned no body");
+
+  try {
+    for await (const { data } of parseServerSentEvents(response.body)) {
+      if (data === "[DONE]") return;
+      yield JSON.parse(data);
+    }
+  } catch (error) {
+    if (error instanceof LLMError) throw error;
+    if (signal.aborted)
+      throw new LLMError("LLM request timed out", undefined, true);
+    throw new LLMError(
+      `LLM stream failed: ${error instanceof Error ? error.message : String(error)}`,
+      undefined,
+      true,
+    );
+  }
+}
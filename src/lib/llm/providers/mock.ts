@@ -0,0 +1,121 @@
+import type { LLMProvider, LLMRequest } from "../types";
+
+export interface MockRule {
+  // Substring or pattern tested against every message of the request, joined by newlines
+  match: string | RegExp;
+  response: string | ((request: LLMRequest) => string);
+}
+
+export interface MockProviderOptions {
+  // Recorded replies keyed by fingerprintRequest(); checked before any rule
+  recorded?: Record<string, string>;
+  // Scripted replies, first match wins
+  rules?: MockRule[];
+  // Sees every request, e.g. to capture prompts or fingerprints for new recordings
+  onRequest?: (request: LLMRequest, fingerprint: string) => void;
+}
+
+// FNV-1a: synchronous and dependency-free so it also runs on the edge runtime
+function fnv1a(text: string, seed: number): string {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+/**
+ * Stable key for a request: roles, whitespace-normalized content and response format.
+ * Sampling options are ignored so a recording survives temperature tweaks.
+ */
+export function fingerprintRequest(request: LLMRequest): string {
+  const normalized = JSON.stringify({
+    messages: request.messages.map((message) => [
+      message.role,
+      message.content.replace(/\s+/g, " ").trim(),
+    ]),
+    format: request.responseFormat ?? "text",
+  });
+  return fnv1a(normalized, 0x811c9dc5) + fnv1a(normalized, 0x050c5d1f);
+}
+
+function fallbackResponse(request: LLMRequest): string {
+  if (request.responseFormat === "json") return "{}";
+  const lastUser = [...request.messages]
+    .reverse()
+    .find((message) => message.role === "user");
+  return `[mock] ${lastUser?.content.slice(0, 200) ?? ""}`;
+}
+
+/**
+ * Offline provider for local development and tests. Replies are deterministic: a recorded reply
+ * for the request's fingerprint, else the first matching scripted rule, else `{}` when JSON is
+ * requested or an echo of the last user message.
+ */
+export function createMockProvider(
+  options: MockProviderOptions = {},
+): LLMProvider {
+  const provider: LLMProvider = {
+    name: "mock",
+    async complete(request) {
+      const fingerprint = fingerprintRequest(request);
+      options.onRequest?.(request, fingerprint);
+
+      const recorded = options.recorded?.[fingerprint];
+      if (recorded !== undefined) return recorded;
+
+      const text = request.messages
+        .map((message) => message.content)
+        .join("\n");
+      const rule = options.rules?.find(({ match }) =>
+        typeof match === "string" ? text.includes(match) : match.test(text),
+      );
+      if (rule) {
+        return typeof rule.response === "function"
+          ? rule.response(request)
+          : rule.response;
+      }
+
+      return fallbackResponse(request);
+    },
+    // Same reply as `complete`, one word (with its trailing whitespace) per chunk
+    async *stream(request, model, signal) {
+      const text = await provider.complete(request, model, signal);
+      for (const word of text.match(/\S+\s*|\s+/g) ?? []) {
+        if (signal.aborted) return;
+        yield word;
+      }
+    },
+  };
+  return provider;
+}
+
+/**
+ * Wrap a real provider and report each reply with its fingerprint, for building `recorded`
+ * fixtures from live runs.
+ */
+export function createRecordingProvider(
+  inner: LLMProvider,
+  record: (fingerprint: string, response: string) => void,
+): LLMProvider {
+  const innerStream = inner.stream?.bind(inner);
+  return {
+    name: inner.name,
+    async complete(request, model, signal) {
+      const response = await inner.complete(request, model, signal);
+      record(fingerprintRequest(request), response);
+      return response;
+    },
+    stream: innerStream
+      ? async function* (request, model, signal) {
+          let response = "";
+          for await (const chunk of innerStream(request, model, signal)) {
+            response += chunk;
+            yield chunk;
+          }
+          record(fingerprintRequest(request), response);
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,67 @@
+import { LLMError, type LLMProvider, type LLMRequest } from "../types";
+import { postEventStream, postJson } from "./http";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+function toChatCompletionBody(request: LLMRequest, model: string) {
+  return {
+    model,
+    messages: request.messages,
+    temperature: request.temperature,
+    top_p: request.topP,
+    max_tokens: request.maxTokens,
+    ...(request.responseFormat === "json"
+      ? { response_format: { type: "json_object" } }
+      : {}),
+  };
+}
+
+/**
+ * Any OpenAI-compatible chat completions API (OpenAI, Azure AI inference, local servers).
+ */
+export function createOpenAIProvider(
+  apiKey: string | undefined,
+  baseUrl: string,
+): LLMProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai",
+    async complete(request, model, signal) {
+      if (!apiKey) throw new LLMError("OPENAI_API_KEY is not configured");
+
+      const data = (await postJson(
+        url,
+        toChatCompletionBody(request, model),
+        { Authorization: `Bearer ${apiKey}` },
+        signal,
+      )) as ChatCompletionResponse;
+
+      const text = data.choices?.[0]?.message?.content;
+      if (text === undefined || text === null) {
+        throw new LLMError("Chat completion response contained no choices");
+      }
+      return text;
+    },
+    async *stream(request, model, signal) {
+      if (!apiKey) throw new LLMError("OPENAI_API_KEY is not configured");
+
+      for await (const chunk of postEventStream(
+        url,
+        { ...toChatCompletionBody(request, model), stream: true },
+        { Authorization: `Bearer ${apiKey}` },
+        signal,
+      )) {
+        const text = (chunk as ChatCompletionChunk).choices?.[0]?.delta
+          ?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
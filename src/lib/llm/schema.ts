@@ -0,0 +1,156 @@
+/**
+ * Minimal runtime schemas for model output. Each schema checks an unknown value and returns it
+ * typed, collecting every problem with its path so a repair prompt can name them all.
+ */
+
+export interface Schema<T> {
+  // Appends problems to `issues` and returns the value; the value is only valid when none were added
+  check(value: unknown, path: string, issues: string[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid value: ${issues.join("; ")}`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const at = (path: string) => path || "value";
+
+function primitive<T>(
+  expected: string,
+  test: (value: unknown) => value is T,
+): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push(
+          `${at(path)}: expected ${expected}, got ${describe(value)}`,
+        );
+      }
+      return value as T;
+    },
+  };
+}
+
+export function string({ min = 0 }: { min?: number } = {}): Schema<string> {
+  const base = primitive(
+    "string",
+    (value): value is string => typeof value === "string",
+  );
+  return {
+    check(value, path, issues) {
+      const text = base.check(value, path, issues);
+      if (typeof text === "string" && text.trim().length < min) {
+        issues.push(`${at(path)}: must not be empty`);
+      }
+      return text;
+    },
+  };
+}
+
+export const number = (): Schema<number> =>
+  primitive(
+    "number",
+    (value): value is number =>
+      typeof value === "number" && Number.isFinite(value),
+  );
+
+export const integer = (): Schema<number> =>
+  primitive("integer", (value): value is number => Number.isInteger(value));
+
+export const boolean = (): Schema<boolean> =>
+  primitive("boolean", (value): value is boolean => typeof value === "boolean");
+
+export function literal<const T extends readonly string[]>(
+  ...values: T
+): Schema<T[number]> {
+  return {
+    check(value, path, issues) {
+      if (!values.includes(value as string)) {
+        issues.push(
+          `${at(path)}: expected one of ${values.map((v) => `"${v}"`).join(", ")}, got ${JSON.stringify(value)}`,
+        );
+      }
+      return value as T[number];
+    },
+  };
+}
+
+export function array<T>(
+  item: Schema<T>,
+  {
+    min = 0,
+    max = Number.POSITIVE_INFINITY,
+  }: { min?: number; max?: number } = {},
+): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(`${at(path)}: expected array, got ${describe(value)}`);
+        return [];
+      }
+      if (value.length < min || value.length > max) {
+        issues.push(
+          `${at(path)}: expected ${max === Number.POSITIVE_INFINITY ? `at least ${min}` : `${min} to ${max}`} items, got ${value.length}`,
+        );
+      }
+      return value.map((entry, index) =>
+        item.check(entry, `${path}[${index}]`, issues),
+      );
+    },
+  };
+}
+
+// Accepts anything; for payloads another schema checks later, such as tool arguments
+export const unknown = (): Schema<unknown> => ({ check: (value) => value });
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, path, issues) {
+      return value === undefined || value === null
+        ? undefined
+        : schema.check(value, path, issues);
+    },
+  };
+}
+
+// Unknown keys are dropped, so extra fields from the model never reach callers
+export function object<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape,
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+  return {
+    check(value, path, issues) {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        issues.push(`${at(path)}: expected object, got ${describe(value)}`);
+        return {} as { [K in keyof Shape]: Infer<Shape[K]> };
+      }
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const checked = schema.check(
+          record[key],
+          path ? `${path}.${key}` : key,
+          issues,
+        );
+        if (checked !== undefined) result[key] = checked;
+      }
+      return result as { [K in keyof Shape]: Infer<Shape[K]> };
+    },
+  };
+}
+
+/**
+ * Check a value against a schema, throwing SchemaValidationError with every issue found
+ */
+export function parseWithSchema<T>(schema: Schema<T>, value: unknown): T {
+  const issues: string[] = [];
+  const result = schema.check(value, "", issues);
+  if (issues.length > 0) throw new SchemaValidationError(issues);
+  return result;
+}
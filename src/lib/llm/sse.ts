@@ -0,0 +1,114 @@
+/**
+ * Server-sent events in both directions: parsing provider streams on the server, encoding our
+ * own routes' streams, and reading those in the browser. No Node APIs, so it runs everywhere.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parse an event stream body into events. Multi-line `data:` fields are joined with newlines
+ * and events without a name default to "message", as in the EventSource spec.
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // Keep a trailing partial line for the next chunk unless the stream has ended
+      buffer = done ? "" : (lines.pop() ?? "");
+
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) yield { event, data: data.join("\n") };
+          event = "message";
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        } else if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) yield { event, data: data.join("\n") };
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function encodeServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Stream events from a route handler. `run` sends events until it resolves; a thrown error is
+ * reported as a final `error` event carrying `errorMessage(error)`. The signal passed to `run`
+ * fires when the client disconnects or the request is aborted.
+ */
+export function createEventStreamResponse(
+  run: (
+    send: (event: string, data: unknown) => void,
+    signal: AbortSignal,
+  ) => Promise<void>,
+  options: {
+    signal?: AbortSignal;
+    errorMessage?: (error: unknown) => string;
+  } = {},
+): Response {
+  const controller = new AbortController();
+  options.signal?.addEventListener("abort", () => controller.abort(), {
+    once: true,
+  });
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: string, data: unknown) => {
+        if (!controller.signal.aborted) {
+          stream.enqueue(encoder.encode(encodeServerSentEvent(event, data)));
+        }
+      };
+
+      try {
+        await run(send, controller.signal);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          send("error", {
+            error: options.errorMessage?.(error) ?? "Something went wrong",
+          });
+        }
+      } finally {
+        if (!controller.signal.aborted) stream.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
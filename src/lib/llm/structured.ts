@@ -0,0 +1,154 @@
+import { parseWithSchema, type Schema, SchemaValidationError } from "./schema";
+import { LLMError, type LLMRequest } from "./types";
+
+/**
+ * Thrown when a reply is still not valid JSON for its schema after the repair attempt. Callers
+ * decide whether to fall back or show an error; nothing is silently replaced by an empty value.
+ */
+export class StructuredOutputError extends LLMError {
+  constructor(
+    readonly issues: string[],
+    // The last reply, for logs
+    readonly output: string,
+  ) {
+    super(
+      `Model output did not match the expected schema: ${issues.join("; ")}`,
+    );
+    this.name = "StructuredOutputError";
+  }
+}
+
+export interface StructuredOptions<T> {
+  // Checks the schema cannot express, e.g. that course IDs exist in the catalog; returns issues
+  validate?: (value: T) => string[];
+  // Repair attempts after an invalid reply
+  maxRepairs?: number;
+}
+
+// Providers in JSON mode sometimes still wrap the object in a Markdown fence
+function stripCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text.trim();
+}
+
+/**
+ * Parse and validate one reply, returning the typed value or the list of problems with it
+ */
+export function parseStructured<T>(
+  text: string,
+  schema: Schema<T>,
+  validate?: (value: T) => string[],
+): { ok: true; value: T } | { ok: false; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    return {
+      ok: false,
+      issues: [
+        `reply is not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+      ],
+    };
+  }
+
+  try {
+    const value = parseWithSchema(schema, json);
+    const issues = validate?.(value) ?? [];
+    return issues.length ? { ok: false, issues } : { ok: true, value };
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      return { ok: false, issues: error.issues };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validate a reply already in hand, e.g. one that was streamed, and repair it if needed. The
+ * repair turn quotes the problems back to the model; if that reply is also invalid this throws
+ * StructuredOutputError.
+ */
+export async function repairStructured<T>(
+  generate: (request: LLMRequest) => Promise<string>,
+  request: LLMRequest,
+  output: string,
+  schema: Schema<T>,
+  { validate, maxRepairs = 1 }: StructuredOptions<T> = {},
+): Promise<T> {
+  const jsonRequest: LLMRequest = { ...request, responseFormat: "json" };
+  let reply = output;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = parseStructured(reply, schema, validate);
+    if (result.ok) return result.value;
+    if (attempt >= maxRepairs) {
+      throw new StructuredOutputError(result.issues, reply);
+    }
+
+    console.warn("Repairing invalid structured output:", result.issues);
+    reply = await generate({
+      ...jsonRequest,
+      messages: [
+        ...jsonRequest.messages,
+        { role: "assistant", content: reply },
+        {
+          role: "user",
+          content: `Your reply could not be used:\n${result.issues.map((issue) => `- ${issue}`).join("\n")}\n\nReply again with only the corrected JSON object, in the format requested above, and no other text.`,
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Ask for JSON through the provider's JSON mode and validate the reply, with one repair attempt.
+ * `generate` is `complete` on the server or `generateText` in the browser, so the same schemas
+ * serve both.
+ */
+export async function generateStructured<T>(
+  generate: (request: LLMRequest) => Promise<string>,
+  request: LLMRequest,
+  schema: Schema<T>,
+  options: StructuredOptions<T> = {},
+): Promise<T> {
+  const jsonRequest: LLMRequest = { ...request, responseFormat: "json" };
+  return repairStructured(
+    generate,
+    jsonRequest,
+    await generate(jsonRequest),
+    schema,
+    options,
+  );
+}
+
+/**
+ * The value of a top-level string field in a JSON object that is still streaming in, decoded as
+ * far as it has arrived. Empty until the field starts.
+ */
+export function readPartialStringField(json: string, field: string): string {
+  const start = json.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return "";
+
+  let value = "";
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+    // An escape split across chunks is finished by the next chunk
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = json.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(Number.parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" }[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+}
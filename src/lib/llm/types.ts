@@ -0,0 +1,69 @@
+export type LLMRole = "system" | "user" | "assistant";
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  // "json" asks the provider for a JSON-only reply where it supports that
+  responseFormat?: "text" | "json";
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+}
+
+export type LLMProviderName = "gemini" | "openai" | "mock";
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  /**
+   * Run one completion. Implementations do not retry; the gateway owns timeouts and retries and
+   * passes an abort signal that fires when the attempt times out.
+   */
+  complete(
+    request: LLMRequest,
+    model: string,
+    signal: AbortSignal,
+  ): Promise<string>;
+  /**
+   * Yield the reply as text deltas while the model produces it. Optional: the gateway falls back
+   * to `complete` and yields the whole reply at once.
+   */
+  stream?(
+    request: LLMRequest,
+    model: string,
+    signal: AbortSignal,
+  ): AsyncIterable<string>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  // Per-attempt timeout
+  timeoutMs: number;
+  // Retries after the first attempt, for timeouts, rate limits and 5xx responses
+  maxRetries: number;
+  geminiApiKey?: string;
+  openaiApiKey?: string;
+  openaiBaseUrl: string;
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    // HTTP status from the provider, when there was a response
+    readonly status?: number,
+    readonly retryable = false,
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
@@ -0,0 +1,54 @@
+import { createConsoleTransport } from "./transports/console";
+import { createFileTransport } from "./transports/file";
+import { createHttpTransport } from "./transports/http";
+import type {
+  NotificationConfig,
+  NotificationTransport,
+  NotificationTransportName,
+} from "./types";
+
+export {
+  type EmailMessage,
+  type NotificationConfig,
+  NotificationError,
+  type NotificationTransport,
+  type NotificationTransportName,
+} from "./types";
+
+/**
+ * Read the notification configuration from server-only environment variables:
+ * NOTIFY_TRANSPORT (console | file | http, default console), NOTIFY_FILE_PATH,
+ * EMAIL_API_URL, EMAIL_API_KEY and EMAIL_FROM.
+ */
+export function getNotificationConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): NotificationConfig {
+  const requested = env.NOTIFY_TRANSPORT?.toLowerCase();
+  const transport: NotificationTransportName =
+    requested === "file" || requested === "http" ? requested : "console";
+
+  return {
+    transport,
+    filePath: env.NOTIFY_FILE_PATH || ".notifications/outbox.jsonl",
+    emailApiUrl: env.EMAIL_API_URL,
+    emailApiKey: env.EMAIL_API_KEY,
+    from: env.EMAIL_FROM || "EduMuse <notifications@edumuse.app>",
+  };
+}
+
+export function createNotificationTransport(
+  config: NotificationConfig = getNotificationConfig(),
+): NotificationTransport {
+  switch (config.transport) {
+    case "file":
+      return createFileTransport(config.filePath);
+    case "http":
+      return createHttpTransport(
+        config.emailApiUrl,
+        config.emailApiKey,
+        config.from,
+      );
+    default:
+      return createConsoleTransport();
+  }
+}
@@ -0,0 +1,12 @@
+import type { NotificationTransport } from "../types";
+
+export function createConsoleTransport(): NotificationTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(
+        `[notification] to ${message.to}: ${message.subject}\n${message.text}`,
+      );
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { NotificationTransport } from "../types";
+
+/**
+ * Appends each message as one JSON line to `filePath`, so local runs can inspect what would
+ * have been sent.
+ */
+export function createFileTransport(filePath: string): NotificationTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(dirname(filePath), { recursive: true });
+      await appendFile(
+        filePath,
+        `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`,
+      );
+    },
+  };
+}
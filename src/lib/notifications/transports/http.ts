@@ -0,0 +1,33 @@
+import { NotificationError, type NotificationTransport } from "../types";
+
+export function createHttpTransport(
+  url: string | undefined,
+  apiKey: string | undefined,
+  from: string,
+): NotificationTransport {
+  return {
+    name: "http",
+    async send(message) {
+      if (!url || !apiKey) {
+        throw new NotificationError(
+          "EMAIL_API_URL and EMAIL_API_KEY are required",
+        );
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({ from, ...message }),
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new NotificationError(
+          `Email API returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`,
+        );
+      }
+    },
+  };
+}
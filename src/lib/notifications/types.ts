@@ -0,0 +1,32 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export type NotificationTransportName = "console" | "file" | "http";
+
+/**
+ * Delivers notification emails. Dev transports only record the message.
+ */
+export interface NotificationTransport {
+  name: NotificationTransportName;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface NotificationConfig {
+  transport: NotificationTransportName;
+  // file transport: JSON lines outbox
+  filePath: string;
+  // http transport: endpoint taking { from, to, subject, text } with a bearer key (e.g. Resend)
+  emailApiUrl?: string;
+  emailApiKey?: string;
+  from: string;
+}
+
+export class NotificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotificationError";
+  }
+}
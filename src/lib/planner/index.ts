@@ -0,0 +1,9 @@
+export { planDegree } from "./planner";
+export type {
+  DegreePlan,
+  PlanIssue,
+  PlannedCourse,
+  PlannedTerm,
+  PlannerCourse,
+  PlannerInput,
+} from "./types";
@@ -0,0 +1,309 @@
+import {
+  compareTerms,
+  countTerms,
+  formatTerm,
+  nextTerm,
+  parseOfferedSeasons,
+  parseTerm,
+  type Season,
+  type Term,
+} from "@/lib/academicCalendar";
+import {
+  buildPrerequisiteGraph,
+  directPrerequisites,
+  prerequisiteDepths,
+  topologicalOrder,
+  transitiveDependents,
+  transitivePrerequisites,
+} from "@/lib/prerequisites";
+import type {
+  DegreePlan,
+  PlanIssue,
+  PlannedTerm,
+  PlannerCourse,
+  PlannerInput,
+} from "./types";
+
+const DEFAULT_MAX_TERMS = 16;
+
+type Blocked = Extract<PlanIssue, { type: "unplannable_course" }>["reason"];
+
+/**
+ * Build a term-by-term plan of real catalog courses.
+ *
+ * Terms are filled greedily from `startTerm`. A course is only placed once every prerequisite is
+ * completed or planned in an earlier term, and only in a term whose season it is offered in, so
+ * every plan returned is valid by construction. Required courses (and the chains leading to
+ * them) go first, longest remaining chain first; optional courses then fill the credits still
+ * needed, highest score first.
+ */
+export function planDegree<T extends PlannerCourse>(
+  input: PlannerInput<T>,
+): DegreePlan<T> {
+  const {
+    courses,
+    minCredits,
+    maxCredits,
+    startTerm,
+    includeSummer = false,
+    maxTerms = DEFAULT_MAX_TERMS,
+    scoreCourse = () => 0,
+  } = input;
+
+  // Without summer planning, a summer start date rolls forward to fall
+  const firstTerm =
+    startTerm.season === "Summer" && !includeSummer
+      ? nextTerm(startTerm)
+      : startTerm;
+
+  const graph = buildPrerequisiteGraph(input.prerequisites);
+  const completed = new Set(input.completedCourseIds.map(String));
+  const byId = new Map(courses.map((course) => [String(course.id), course]));
+  const pending = courses
+    .map((course) => String(course.id))
+    .filter((id) => !completed.has(id));
+
+  const plannableSeasons: Season[] = includeSummer
+    ? ["Spring", "Summer", "Fall"]
+    : ["Spring", "Fall"];
+  const offered = new Map(
+    pending.map((id) => [
+      id,
+      parseOfferedSeasons(byId.get(id)?.semester).filter((season) =>
+        plannableSeasons.includes(season),
+      ),
+    ]),
+  );
+
+  // Courses that can never be planned, and everything downstream of them
+  const blocked = new Map<string, Blocked>();
+  for (const id of topologicalOrder(graph, pending).cyclic) {
+    blocked.set(id, "prerequisite_cycle");
+  }
+  for (const id of pending) {
+    if (blocked.has(id)) continue;
+    if ((offered.get(id) ?? []).length === 0) {
+      blocked.set(id, "not_offered");
+      continue;
+    }
+    const unknown = transitivePrerequisites(graph, id).some(
+      (prerequisite) => !completed.has(prerequisite) && !byId.has(prerequisite),
+    );
+    if (unknown) blocked.set(id, "unknown_prerequisite");
+  }
+  for (const [id, reason] of [...blocked]) {
+    for (const dependent of transitiveDependents(graph, id)) {
+      if (!blocked.has(dependent)) blocked.set(dependent, reason);
+    }
+  }
+
+  // Required courses plus every outstanding prerequisite leading to them
+  const requiredIds = (input.requiredCourseIds ?? [])
+    .map(String)
+    .filter((id) => !completed.has(id));
+  const requiredClosure = new Set<string>();
+  for (const id of requiredIds) {
+    requiredClosure.add(id);
+    for (const prerequisite of transitivePrerequisites(graph, id)) {
+      if (!completed.has(prerequisite)) requiredClosure.add(prerequisite);
+    }
+  }
+
+  const issues: PlanIssue[] = [];
+  for (const id of requiredClosure) {
+    const reason = blocked.get(id);
+    if (!reason && byId.has(id)) continue;
+
+    const course = byId.get(id);
+    const label = course ? `${course.title} (${id})` : `Course ${id}`;
+    const messages: Record<Blocked, string> = {
+      prerequisite_cycle: `${label} is part of a prerequisite cycle.`,
+      unknown_prerequisite: `${label} depends on a course that is not in the catalog.`,
+      not_offered: `${label} is not offered in any term being planned.`,
+    };
+    issues.push({
+      type: "unplannable_course",
+      courseId: Number(id),
+      reason: reason ?? "unknown_prerequisite",
+      message: course
+        ? messages[reason ?? "unknown_prerequisite"]
+        : `${label} is not in the catalog.`,
+    });
+    requiredClosure.delete(id);
+  }
+
+  // How many terms of prerequisites still hang off each required course
+  const chainLength = new Map<string, number>();
+  const { order } = topologicalOrder(graph, [...requiredClosure]);
+  for (const id of [...order].reverse()) {
+    const downstream = (graph.dependentsOf.get(id) ?? [])
+      .filter((dependent) => requiredClosure.has(dependent))
+      .map((dependent) => chainLength.get(dependent) ?? 0);
+    chainLength.set(id, 1 + Math.max(0, ...downstream));
+  }
+
+  const creditsOf = (id: string) => byId.get(id)?.credits ?? 0;
+  const scores = new Map(
+    pending.map((id) => [id, scoreCourse(byId.get(id) as T)]),
+  );
+
+  const done = new Set(completed);
+  let creditsNeeded = Math.max(
+    0,
+    input.totalCreditsRequired - input.creditsCompleted,
+  );
+  const outstandingRequired = new Set(requiredClosure);
+  const terms: PlannedTerm<T>[] = [];
+  let lastPlannedTerm: Term | null = null;
+  let idleTerms = 0;
+
+  for (
+    let term = firstTerm, count = 0;
+    count < maxTerms && (outstandingRequired.size > 0 || creditsNeeded > 0);
+    term = nextTerm(term, includeSummer), count++
+  ) {
+    const eligible = pending.filter(
+      (id) =>
+        !done.has(id) &&
+        !blocked.has(id) &&
+        (offered.get(id) ?? []).includes(term.season) &&
+        directPrerequisites(graph, id).every((prerequisite) =>
+          done.has(prerequisite),
+        ),
+    );
+
+    eligible.sort((a, b) => {
+      const requiredOrder =
+        Number(requiredClosure.has(b)) - Number(requiredClosure.has(a));
+      if (requiredOrder !== 0) return requiredOrder;
+      const chainOrder = (chainLength.get(b) ?? 0) - (chainLength.get(a) ?? 0);
+      if (chainOrder !== 0) return chainOrder;
+      return (
+        (scores.get(b) ?? 0) - (scores.get(a) ?? 0) || Number(a) - Number(b)
+      );
+    });
+
+    const chosen: string[] = [];
+    let termCredits = 0;
+    for (const id of eligible) {
+      const credits = creditsOf(id);
+      if (termCredits + credits > maxCredits) continue;
+
+      if (!requiredClosure.has(id)) {
+        // Optional courses only fill credits the outstanding required ones won't cover
+        const requiredCredits = [...outstandingRequired]
+          .filter((requiredId) => !chosen.includes(requiredId))
+          .reduce((total, requiredId) => total + creditsOf(requiredId), 0);
+        if (termCredits + requiredCredits >= creditsNeeded) continue;
+      }
+
+      chosen.push(id);
+      termCredits += credits;
+    }
+
+    if (chosen.length === 0) {
+      // Nothing can be taken in a full cycle of seasons, so nothing ever will
+      idleTerms++;
+      if (idleTerms >= plannableSeasons.length) break;
+      continue;
+    }
+    idleTerms = 0;
+
+    // Mark done only after the term is filled so same-term prerequisites are not allowed
+    for (const id of chosen) {
+      done.add(id);
+      outstandingRequired.delete(id);
+    }
+    creditsNeeded = Math.max(0, creditsNeeded - termCredits);
+    lastPlannedTerm = term;
+    terms.push({
+      term: formatTerm(term),
+      courses: chosen.map((id) => ({
+        course: byId.get(id) as T,
+        required: requiredClosure.has(id),
+      })),
+      credits: termCredits,
+    });
+  }
+
+  for (const planned of terms.slice(0, -1)) {
+    if (planned.credits < minCredits) {
+      issues.push({
+        type: "below_min_credits",
+        term: planned.term,
+        message: `${planned.term} has ${planned.credits} credits, below the ${minCredits}-credit minimum; no more eligible courses were available or needed that term.`,
+      });
+    }
+  }
+
+  if (outstandingRequired.size > 0 || creditsNeeded > 0) {
+    const missingRequired = [...outstandingRequired].reduce(
+      (total, id) => total + creditsOf(id),
+      0,
+    );
+    const missingCredits = Math.max(creditsNeeded, missingRequired);
+    issues.push({
+      type: "insufficient_courses",
+      missingCredits,
+      message: `Could not schedule ${missingCredits} more credits within ${maxTerms} terms from the courses available.`,
+    });
+  }
+
+  // Compare against the target graduation term
+  let targetTerm: string | null = null;
+  let meetsTarget: boolean | null = null;
+  if (input.targetTerm) {
+    const target = parseTerm(input.targetTerm);
+    if (!target) {
+      issues.push({
+        type: "invalid_target_term",
+        message: `Target graduation term "${input.targetTerm}" is not in a recognized format such as "Spring 2027".`,
+      });
+    } else {
+      targetTerm = formatTerm(target);
+      const finished = outstandingRequired.size === 0 && creditsNeeded === 0;
+      meetsTarget =
+        finished &&
+        (lastPlannedTerm === null ||
+          compareTerms(lastPlannedTerm, target) <= 0);
+
+      if (!meetsTarget) {
+        const availableTerms = countTerms(firstTerm, target, includeSummer);
+        const remaining = Math.max(
+          0,
+          input.totalCreditsRequired - input.creditsCompleted,
+        );
+        const depths = prerequisiteDepths(graph, [...requiredClosure]);
+        const minimumTerms = Math.max(
+          Math.ceil(remaining / Math.max(1, maxCredits)),
+          ...[...requiredClosure].map((id) => depths.get(id) ?? 0),
+        );
+
+        issues.push({
+          type: "target_unreachable",
+          availableTerms,
+          minimumTerms,
+          message:
+            minimumTerms > availableTerms
+              ? `Graduating by ${targetTerm} is impossible: at least ${minimumTerms} terms are needed but only ${availableTerms} remain.`
+              : `Could not find a plan that finishes by ${targetTerm}; course offerings and prerequisites push graduation to ${lastPlannedTerm ? formatTerm(lastPlannedTerm) : "a later term"}.`,
+        });
+      }
+    }
+  }
+
+  const plannedCredits = terms.reduce(
+    (total, planned) => total + planned.credits,
+    0,
+  );
+
+  return {
+    terms,
+    graduationTerm: lastPlannedTerm ? formatTerm(lastPlannedTerm) : null,
+    targetTerm,
+    meetsTarget,
+    plannedCredits,
+    remainingCredits: creditsNeeded,
+    issues,
+  };
+}
@@ -0,0 +1,74 @@
+import type { Term } from "@/lib/academicCalendar";
+import type { PrerequisiteRow } from "@/lib/prerequisites";
+
+export interface PlannerCourse {
+  id: number;
+  title: string;
+  credits: number;
+  // courses.semester, e.g. "Fall", "Spring 2024" or "Fall, Spring"
+  semester?: string | null;
+  subject?: string;
+  career_paths?: string[];
+}
+
+export interface PlannerInput<T extends PlannerCourse = PlannerCourse> {
+  courses: T[];
+  prerequisites: PrerequisiteRow[];
+  // students.current_courses_taken
+  completedCourseIds: (string | number)[];
+  creditsCompleted: number;
+  totalCreditsRequired: number;
+  // Per-term credit bounds
+  minCredits: number;
+  maxCredits: number;
+  // First term to plan, usually the current or upcoming one
+  startTerm: Term;
+  // students.target_graduation_term, e.g. "Spring 2027"
+  targetTerm?: string | null;
+  // Courses that must appear in the plan (e.g. a career's required courses)
+  requiredCourseIds?: (string | number)[];
+  // Higher scores are planned first among optional courses
+  scoreCourse?: (course: T) => number;
+  includeSummer?: boolean;
+  // Safety cap on the number of planned terms
+  maxTerms?: number;
+}
+
+export interface PlannedCourse<T extends PlannerCourse = PlannerCourse> {
+  course: T;
+  required: boolean;
+}
+
+export interface PlannedTerm<T extends PlannerCourse = PlannerCourse> {
+  term: string;
+  courses: PlannedCourse<T>[];
+  credits: number;
+}
+
+export type PlanIssue =
+  | {
+      type: "target_unreachable";
+      message: string;
+      // Fewest terms any plan could need, from credit load and prerequisite chain length
+      minimumTerms: number;
+      availableTerms: number;
+    }
+  | { type: "invalid_target_term"; message: string }
+  | {
+      type: "unplannable_course";
+      courseId: number;
+      reason: "prerequisite_cycle" | "unknown_prerequisite" | "not_offered";
+      message: string;
+    }
+  | { type: "insufficient_courses"; message: string; missingCredits: number }
+  | { type: "below_min_credits"; term: string; message: string };
+
+export interface DegreePlan<T extends PlannerCourse = PlannerCourse> {
+  terms: PlannedTerm<T>[];
+  graduationTerm: string | null;
+  targetTerm: string | null;
+  meetsTarget: boolean | null;
+  plannedCredits: number;
+  remainingCredits: number;
+  issues: PlanIssue[];
+}
@@ -0,0 +1,197 @@
+/**
+ * React Flow nodes and edges for the prerequisite graph, plus a layered (DAG) layout that places
+ * every course one column to the right of its deepest prerequisite.
+ */
+
+import type { Edge, Node } from "reactflow";
+import {
+  buildPrerequisiteGraph,
+  directPrerequisites,
+  type PrerequisiteRow,
+} from "@/lib/prerequisites";
+
+export type PrerequisiteStatus = "completed" | "available" | "locked";
+
+export interface FlowCourse {
+  id: number;
+  title: string;
+  subject?: string;
+  credits?: number;
+}
+
+const COLUMN_WIDTH = 380;
+const ROW_HEIGHT = 220;
+
+/**
+ * Completed if taken, available if every direct prerequisite is taken, otherwise locked.
+ */
+export function prerequisiteStatus(
+  courseId: string | number,
+  prerequisites: string[],
+  completed: Set<string>,
+): PrerequisiteStatus {
+  if (completed.has(String(courseId))) return "completed";
+  return prerequisites.every((id) => completed.has(id))
+    ? "available"
+    : "locked";
+}
+
+/**
+ * Position nodes in columns by longest path from a source, ordering each column by the average
+ * row of its parents to cut down on edge crossings. Nodes on a cycle go in a final column.
+ */
+export function layoutLayered(nodes: Node[], edges: Edge[]): Node[] {
+  const ids = new Set(nodes.map((node) => node.id));
+  const parents = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) continue;
+    parents.set(edge.target, [
+      ...(parents.get(edge.target) ?? []),
+      edge.source,
+    ]);
+  }
+
+  const layer = new Map<string, number>();
+  const visiting = new Set<string>();
+  const layerOf = (id: string): number => {
+    const known = layer.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return Number.POSITIVE_INFINITY;
+    visiting.add(id);
+    const value = Math.max(-1, ...(parents.get(id) ?? []).map(layerOf)) + 1;
+    visiting.delete(id);
+    layer.set(id, value);
+    return value;
+  };
+  for (const node of nodes) layerOf(node.id);
+
+  const finite = [...layer.values()].filter(Number.isFinite);
+  const cycleLayer = (finite.length > 0 ? Math.max(...finite) : -1) + 1;
+  const columns: string[][] = [];
+  for (const node of nodes) {
+    const value = layer.get(node.id) ?? 0;
+    const column = Number.isFinite(value) ? value : cycleLayer;
+    columns[column] = [...(columns[column] ?? []), node.id];
+  }
+
+  const row = new Map<string, number>();
+  for (const column of columns) {
+    if (!column) continue;
+    const barycenter = (id: string) => {
+      const placed = (parents.get(id) ?? [])
+        .map((parent) => row.get(parent))
+        .filter((value): value is number => value !== undefined);
+      return placed.length > 0
+        ? placed.reduce((total, value) => total + value, 0) / placed.length
+        : Number.POSITIVE_INFINITY;
+    };
+    column.sort((a, b) => barycenter(a) - barycenter(b) || a.localeCompare(b));
+    for (const [index, id] of column.entries()) row.set(id, index);
+  }
+
+  const tallest = Math.max(1, ...columns.map((column) => column?.length ?? 0));
+  return nodes.map((node) => {
+    const value = layer.get(node.id) ?? 0;
+    const column = Number.isFinite(value) ? value : cycleLayer;
+    const height = columns[column]?.length ?? 1;
+    // Center shorter columns against the tallest one
+    const offset = ((tallest - height) * ROW_HEIGHT) / 2;
+    return {
+      ...node,
+      position: {
+        x: column * COLUMN_WIDTH,
+        y: offset + (row.get(node.id) ?? 0) * ROW_HEIGHT,
+      },
+    };
+  });
+}
+
+/**
+ * One node per course that has or is a prerequisite, one edge per prerequisite row
+ * (prerequisite → course). Courses with no prerequisite links are counted but not drawn.
+ */
+export function buildPrerequisiteFlow(
+  courses: FlowCourse[],
+  rows: PrerequisiteRow[],
+  completedCourseIds: (string | number)[],
+): { nodes: Node[]; edges: Edge[]; unlinkedCount: number } {
+  const graph = buildPrerequisiteGraph(rows);
+  const completed = new Set(completedCourseIds.map(String));
+  const byId = new Map(courses.map((course) => [String(course.id), course]));
+  const titleOf = (id: string) => byId.get(id)?.title ?? `Course ${id}`;
+
+  const linked = new Set<string>();
+  for (const { course_id, prerequisite_id } of rows) {
+    linked.add(String(course_id));
+    linked.add(String(prerequisite_id));
+  }
+
+  const nodes: Node[] = [...linked].map((id) => {
+    const course = byId.get(id);
+    const prerequisites = directPrerequisites(graph, id);
+    const status = prerequisiteStatus(id, prerequisites, completed);
+    const missing = prerequisites.filter((p) => !completed.has(p));
+
+    return {
+      id,
+      type: "custom",
+      position: { x: 0, y: 0 },
+      data: {
+        courseId: course?.id ?? Number(id),
+        title: titleOf(id),
+        type: "course",
+        status,
+        description: course?.subject,
+        details: {
+          Credits: course?.credits ?? "-",
+          Prerequisites: prerequisites.map(titleOf).join(", ") || "None",
+          ...(status === "locked"
+            ? { Missing: missing.map(titleOf).join(", ") }
+            : {}),
+        },
+      },
+    };
+  });
+
+  const edges = new Map<string, Edge>();
+  for (const { course_id, prerequisite_id } of rows) {
+    const id = `prereq-${prerequisite_id}-${course_id}`;
+    edges.set(id, {
+      id,
+      source: String(prerequisite_id),
+      target: String(course_id),
+      type: "smoothstep",
+      style: { stroke: "#94a3b8", strokeWidth: 2 },
+    });
+  }
+
+  return {
+    nodes: layoutLayered(nodes, [...edges.values()]),
+    edges: [...edges.values()],
+    unlinkedCount: courses.filter((course) => !linked.has(String(course.id)))
+      .length,
+  };
+}
+
+/**
+ * IDs of every node reachable from `nodeId` along edges, i.e. the courses it unlocks.
+ */
+export function downstreamNodeIds(nodeId: string, edges: Edge[]): string[] {
+  const children = new Map<string, string[]>();
+  for (const edge of edges) {
+    children.set(edge.source, [
+      ...(children.get(edge.source) ?? []),
+      edge.target,
+    ]);
+  }
+
+  const seen = new Set<string>();
+  const queue = [...(children.get(nodeId) ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (seen.has(id) || id === nodeId) continue;
+    seen.add(id);
+    queue.push(...(children.get(id) ?? []));
+  }
+  return [...seen];
+}
@@ -0,0 +1,148 @@
+/**
+ * Prerequisite graph built from rows of the `prerequisites` table.
+ *
+ * Course IDs are compared as strings because `students.current_courses_taken` stores them as
+ * text while `courses.id` is numeric.
+ */
+
+export interface PrerequisiteRow {
+  course_id: string | number;
+  prerequisite_id: string | number;
+}
+
+export interface PrerequisiteGraph {
+  // course -> courses that must be completed first
+  prerequisitesOf: Map<string, string[]>;
+  // course -> courses it directly unlocks
+  dependentsOf: Map<string, string[]>;
+}
+
+function addEdge(map: Map<string, string[]>, from: string, to: string) {
+  const existing = map.get(from);
+  if (!existing) {
+    map.set(from, [to]);
+  } else if (!existing.includes(to)) {
+    existing.push(to);
+  }
+}
+
+export function buildPrerequisiteGraph(
+  rows: PrerequisiteRow[],
+): PrerequisiteGraph {
+  const prerequisitesOf = new Map<string, string[]>();
+  const dependentsOf = new Map<string, string[]>();
+
+  for (const { course_id, prerequisite_id } of rows) {
+    const course = String(course_id);
+    const prerequisite = String(prerequisite_id);
+    addEdge(prerequisitesOf, course, prerequisite);
+    addEdge(dependentsOf, prerequisite, course);
+  }
+
+  return { prerequisitesOf, dependentsOf };
+}
+
+export function directPrerequisites(
+  graph: PrerequisiteGraph,
+  courseId: string | number,
+): string[] {
+  return graph.prerequisitesOf.get(String(courseId)) ?? [];
+}
+
+// Breadth-first walk over one edge direction, excluding the start node
+function reachable(
+  edges: Map<string, string[]>,
+  start: string | number,
+): string[] {
+  const seen = new Set<string>();
+  const queue = [...(edges.get(String(start)) ?? [])];
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (seen.has(id) || id === String(start)) continue;
+    seen.add(id);
+    queue.push(...(edges.get(id) ?? []));
+  }
+
+  return [...seen];
+}
+
+/**
+ * Every course that must be completed before `courseId`, directly or through a chain.
+ */
+export function transitivePrerequisites(
+  graph: PrerequisiteGraph,
+  courseId: string | number,
+): string[] {
+  return reachable(graph.prerequisitesOf, courseId);
+}
+
+/**
+ * Every course that `courseId` eventually unlocks.
+ */
+export function transitiveDependents(
+  graph: PrerequisiteGraph,
+  courseId: string | number,
+): string[] {
+  return reachable(graph.dependentsOf, courseId);
+}
+
+/**
+ * Order `courseIds` so every course comes after its prerequisites (Kahn's algorithm). Edges to
+ * courses outside the set are ignored. Courses on a prerequisite cycle cannot be ordered and are
+ * returned separately.
+ */
+export function topologicalOrder(
+  graph: PrerequisiteGraph,
+  courseIds: (string | number)[],
+): { order: string[]; cyclic: string[] } {
+  const ids = [...new Set(courseIds.map(String))];
+  const inSet = new Set(ids);
+  const indegree = new Map<string, number>();
+
+  for (const id of ids) {
+    const prerequisites = directPrerequisites(graph, id).filter((p) =>
+      inSet.has(p),
+    );
+    indegree.set(id, prerequisites.length);
+  }
+
+  const queue = ids.filter((id) => indegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    order.push(id);
+    for (const dependent of graph.dependentsOf.get(id) ?? []) {
+      if (!inSet.has(dependent)) continue;
+      const remaining = (indegree.get(dependent) ?? 0) - 1;
+      indegree.set(dependent, remaining);
+      if (remaining === 0) queue.push(dependent);
+    }
+  }
+
+  const ordered = new Set(order);
+  return { order, cyclic: ids.filter((id) => !ordered.has(id)) };
+}
+
+/**
+ * Length of the longest prerequisite chain ending at each course, counting the course itself
+ * (a course with no prerequisites has depth 1). Courses on a cycle are left out.
+ */
+export function prerequisiteDepths(
+  graph: PrerequisiteGraph,
+  courseIds: (string | number)[],
+): Map<string, number> {
+  const { order } = topologicalOrder(graph, courseIds);
+  const depths = new Map<string, number>();
+
+  for (const id of order) {
+    const deepest = Math.max(
+      0,
+      ...directPrerequisites(graph, id).map((p) => depths.get(p) ?? 0),
+    );
+    depths.set(id, deepest + 1);
+  }
+
+  return depths;
+}
@@ -0,0 +1,91 @@
+import {
+  array,
+  boolean,
+  type Infer,
+  integer,
+  literal,
+  object,
+  optional,
+  string,
+} from "@/lib/llm/schema";
+
+/**
+ * Response schemas for every LLM call that returns recommendations, plus the catalog checks
+ * that go with them. Prompts describe the same shapes, so change both together.
+ */
+
+// Dashboard: why each solver-picked course suits the student
+export const courseExplanationsSchema = object({
+  explanations: array(
+    object({
+      course_id: integer(),
+      reasons: array(string({ min: 1 }), { min: 1, max: 5 }),
+    }),
+  ),
+});
+
+export const ROADMAP_STEP_TYPES = [
+  "start",
+  "course",
+  "project",
+  "internship",
+  "goal",
+] as const;
+
+// Roadmap: ordered steps from today to the career goal
+export const roadmapSchema = object({
+  steps: array(
+    object({
+      title: string({ min: 1 }),
+      type: literal(...ROADMAP_STEP_TYPES),
+      description: string(),
+      // Set on course steps, and must be a catalog course
+      course_id: optional(integer()),
+      prerequisites: optional(array(string())),
+    }),
+    { min: 2, max: 12 },
+  ),
+});
+
+// Chat assistant: the visible reply comes first so it can be shown while streaming
+export const chatReplySchema = object({
+  reply: string({ min: 1 }),
+  isRecommending: boolean(),
+  recommendedCourses: array(integer()),
+  userPreferences: optional(
+    object({
+      subjects: optional(array(string())),
+      difficulty: optional(string()),
+      timeSlots: optional(array(string())),
+    }),
+  ),
+});
+
+// Advisor: the answer, then the catalog courses it recommends, whose eligibility is checked
+export const advisorReplySchema = object({
+  reply: string({ min: 1 }),
+  recommendedCourses: array(integer()),
+});
+
+export type CourseExplanations = Infer<typeof courseExplanationsSchema>;
+export type Roadmap = Infer<typeof roadmapSchema>;
+export type RoadmapStep = Roadmap["steps"][number];
+export type ChatReply = Infer<typeof chatReplySchema>;
+export type AdvisorReply = Infer<typeof advisorReplySchema>;
+
+/**
+ * Issues for course IDs that are not in `catalog`, labelled with `field` so a repair prompt
+ * can point at them
+ */
+export function unknownCourseIssues(
+  field: string,
+  ids: (number | undefined)[],
+  catalog: { id: number }[],
+): string[] {
+  const known = new Set(catalog.map((course) => course.id));
+  return ids.flatMap((id, index) =>
+    id === undefined || known.has(id)
+      ? []
+      : [`${field}[${index}]: ${id} is not a course ID from the catalog`],
+  );
+}
@@ -0,0 +1,139 @@
+import type { RetrievalDocument, RetrievedPassage, Retriever } from "./types";
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by can do does for from has have how i if in into is it its " +
+    "me my of on or our should so than that the their them then there these they this to " +
+    "was we what when where which who why will with would you your"
+  ).split(" "),
+);
+
+// Titles and tags say more about a document than any sentence of its body
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+const EXCERPT_LENGTH = 600;
+
+// Light suffix stripping so "prerequisites" matches "prerequisite" and "courses" matches "course"
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith("ing")) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith("ies"))
+    return `${token.slice(0, -3)}y`;
+  if (token.length > 4 && token.endsWith("es") && !token.endsWith("ses")) {
+    return token.slice(0, -1);
+  }
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9+#]+/g) ?? [])
+    .filter((token) => !STOPWORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * The window of sentences around the best-matching one, so a long policy document contributes
+ * its relevant paragraph rather than its opening.
+ */
+function bestExcerpt(content: string, queryTerms: Set<string>): string {
+  if (content.length <= EXCERPT_LENGTH) return content.trim();
+
+  const sentences = content.match(/[^.!?\n]+[.!?]*\s*/g) ?? [content];
+  let best = 0;
+  let bestHits = -1;
+  for (const [index, sentence] of sentences.entries()) {
+    const hits = tokenize(sentence).filter((token) =>
+      queryTerms.has(token),
+    ).length;
+    if (hits > bestHits) {
+      best = index;
+      bestHits = hits;
+    }
+  }
+
+  let start = best;
+  let end = best + 1;
+  let length = sentences[best].length;
+  while (length < EXCERPT_LENGTH && (start > 0 || end < sentences.length)) {
+    if (end < sentences.length) length += sentences[end++].length;
+    if (length < EXCERPT_LENGTH && start > 0)
+      length += sentences[--start].length;
+  }
+
+  const excerpt = sentences.slice(start, end).join("").trim();
+  return `${start > 0 ? "…" : ""}${excerpt.slice(0, EXCERPT_LENGTH)}${end < sentences.length || excerpt.length > EXCERPT_LENGTH ? "…" : ""}`;
+}
+
+/**
+ * Okapi BM25 over title, tags and content. The index is built once in memory; documents only
+ * change when the corpus is reloaded.
+ */
+export function createBm25Retriever(
+  documents: RetrievalDocument[],
+  { k1 = 1.2, b = 0.75 }: { k1?: number; b?: number } = {},
+): Retriever {
+  const termFrequencies = documents.map((document) => {
+    const frequencies = new Map<string, number>();
+    const add = (tokens: string[], weight: number) => {
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + weight);
+      }
+    };
+    add(tokenize(document.title), TITLE_WEIGHT);
+    add(tokenize((document.tags ?? []).join(" ")), TAG_WEIGHT);
+    add(tokenize(document.content), 1);
+    return frequencies;
+  });
+
+  const lengths = termFrequencies.map((frequencies) =>
+    [...frequencies.values()].reduce((sum, count) => sum + count, 0),
+  );
+  const averageLength =
+    lengths.reduce((sum, length) => sum + length, 0) / (lengths.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = (term: string) => {
+    const n = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (documents.length - n + 0.5) / (n + 0.5));
+  };
+
+  return {
+    size: documents.length,
+    search(query, { k = 5, sources } = {}) {
+      const terms = new Set(tokenize(query));
+      if (terms.size === 0) return [];
+
+      const scored: { index: number; score: number }[] = [];
+      for (const [index, frequencies] of termFrequencies.entries()) {
+        if (sources && !sources.includes(documents[index].source)) continue;
+        let score = 0;
+        for (const term of terms) {
+          const frequency = frequencies.get(term);
+          if (!frequency) continue;
+          score +=
+            (idf(term) * frequency * (k1 + 1)) /
+            (frequency +
+              k1 * (1 - b + (b * lengths[index]) / (averageLength || 1)));
+        }
+        if (score > 0) scored.push({ index, score });
+      }
+
+      return scored
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k)
+        .map(({ index, score }) => ({
+          document: documents[index],
+          score,
+          excerpt: bestExcerpt(documents[index].content, terms),
+        }));
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import type { RetrievalDocument, RetrievedPassage } from "./types";
+
+export interface KnowledgeBaseRow {
+  id: string | number;
+  title: string;
+  content: string;
+  tags?: string[] | null;
+}
+
+export interface GuidelineRow {
+  id: string | number;
+  title: string;
+  content: string;
+}
+
+export interface CourseRow {
+  id: string;
+  title: string;
+  description?: string | null;
+  subject?: string | null;
+}
+
+/**
+ * Flatten the knowledge_base and guidelines tables and the course catalog into one corpus.
+ * Rows without content are skipped, since they can never be cited.
+ */
+export function buildRetrievalDocuments({
+  knowledgeBase = [],
+  guidelines = [],
+  courses = [],
+}: {
+  knowledgeBase?: KnowledgeBaseRow[];
+  guidelines?: GuidelineRow[];
+  courses?: CourseRow[];
+}): RetrievalDocument[] {
+  return [
+    ...knowledgeBase.map((row) => ({
+      id: `knowledge_base:${row.id}`,
+      source: "knowledge_base" as const,
+      title: row.title,
+      content: row.content,
+      tags: row.tags ?? undefined,
+    })),
+    ...guidelines.map((row) => ({
+      id: `guidelines:${row.id}`,
+      source: "guidelines" as const,
+      title: row.title,
+      content: row.content,
+    })),
+    ...courses.map((row) => ({
+      id: `course:${row.id}`,
+      source: "course" as const,
+      title: row.title,
+      content: row.description ?? "",
+      tags: row.subject ? [row.subject] : undefined,
+    })),
+  ].filter((document) => document.content.trim());
+}
+
+const SOURCE_LABELS: Record<RetrievalDocument["source"], string> = {
+  knowledge_base: "Knowledge base",
+  guidelines: "Guideline",
+  course: "Course catalog",
+};
+
+/**
+ * Numbered reference list for a system prompt, with an instruction to cite passages by number.
+ * Empty when nothing was retrieved, so callers can append it unconditionally.
+ */
+export function formatPassagesForPrompt(passages: RetrievedPassage[]): string {
+  if (passages.length === 0) return "";
+
+  const references = passages
+    .map(
+      ({ document, excerpt }, index) =>
+        `[${index + 1}] ${document.title} (${SOURCE_LABELS[document.source]})\n${excerpt}`,
+    )
+    .join("\n\n");
+
+  return `Reference material retrieved for this question:
+${references}
+
+When your answer relies on this material, cite it inline by number, e.g. [1]. Do not cite passages you did not use, and say so if the material does not answer the question.`;
+}
@@ -0,0 +1,276 @@
+import { tokenize } from "./bm25";
+
+export type CourseSearchField =
+  | "title"
+  | "keywords"
+  | "instructor"
+  | "description";
+
+export interface SearchableCourse {
+  id: number;
+  title: string;
+  description?: string | null;
+  // Comma-separated in the courses table
+  keywords?: string | string[] | null;
+  instructor?: string | null;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface CourseSearchHit<
+  T extends SearchableCourse = SearchableCourse,
+> {
+  course: T;
+  score: number;
+  // Fields the query matched, most heavily weighted first, with the matching words marked
+  highlights: { field: CourseSearchField; snippet: HighlightSegment[] }[];
+}
+
+export interface CourseSearchIndex<
+  T extends SearchableCourse = SearchableCourse,
+> {
+  // `matchAll` (the default) drops courses that miss any query word; without it courses are
+  // ranked by how much of the query they cover, which suits sentences from the chat
+  search(
+    query: string,
+    options?: { limit?: number; matchAll?: boolean },
+  ): CourseSearchHit<T>[];
+  size: number;
+}
+
+// A hit in the title says far more than one in a long description
+const FIELD_WEIGHTS: Record<CourseSearchField, number> = {
+  title: 4,
+  keywords: 3,
+  instructor: 2,
+  description: 1,
+};
+const FIELDS = Object.keys(FIELD_WEIGHTS) as CourseSearchField[];
+
+// Score multipliers for looser matches, so exact words always rank first
+const PREFIX_FACTOR = 0.7;
+const TYPO_FACTOR = 0.5;
+const MIN_PREFIX_LENGTH = 2;
+const MIN_TYPO_LENGTH = 4;
+const SNIPPET_LENGTH = 160;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// Index terms with their place in the original text, for highlighting
+function tokenizeWithOffsets(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[a-z0-9+#]+/gi)) {
+    const [term] = tokenize(match[0]);
+    if (term) {
+      const start = match.index ?? 0;
+      tokens.push({ term, start, end: start + match[0].length });
+    }
+  }
+  return tokens;
+}
+
+function fieldText(course: SearchableCourse, field: CourseSearchField): string {
+  const value = course[field];
+  if (Array.isArray(value)) return value.join(", ");
+  return value ?? "";
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Segments for `text[from, to)` with the given tokens marked
+function segments(
+  text: string,
+  tokens: Token[],
+  from: number,
+  to: number,
+): HighlightSegment[] {
+  const result: HighlightSegment[] = [];
+  let position = from;
+  for (const token of tokens) {
+    if (token.start < from || token.end > to) continue;
+    if (token.start > position)
+      result.push({ text: text.slice(position, token.start), match: false });
+    result.push({ text: text.slice(token.start, token.end), match: true });
+    position = token.end;
+  }
+  if (position < to)
+    result.push({ text: text.slice(position, to), match: false });
+  return result;
+}
+
+// Short fields are shown whole; long ones as a window around the first match
+function snippet(text: string, matched: Token[]): HighlightSegment[] {
+  if (text.length <= SNIPPET_LENGTH)
+    return segments(text, matched, 0, text.length);
+
+  let from = Math.max(0, matched[0].start - SNIPPET_LENGTH / 4);
+  let to = Math.min(text.length, from + SNIPPET_LENGTH);
+  from = Math.max(0, to - SNIPPET_LENGTH);
+  // Do not cut words in half
+  if (from > 0) from = text.indexOf(" ", from) + 1 || from;
+  if (to < text.length)
+    to = text.lastIndexOf(" ", to) > from ? text.lastIndexOf(" ", to) : to;
+
+  const result = segments(text, matched, from, to);
+  if (from > 0) result.unshift({ text: "…", match: false });
+  if (to < text.length) result.push({ text: "…", match: false });
+  return result;
+}
+
+/**
+ * BM25 over title, keywords, instructor and description, weighted by field. Each query word
+ * matches index words exactly, as a prefix (for search-as-you-type) or within one or two typos,
+ * with the looser matches scoring less. The index is built once; rebuild it when courses change.
+ */
+export function createCourseSearchIndex<T extends SearchableCourse>(
+  courses: T[],
+  { k1 = 1.2, b = 0.75 }: { k1?: number; b?: number } = {},
+): CourseSearchIndex<T> {
+  const documents = courses.map((course) => {
+    const tokens = {} as Record<CourseSearchField, Token[]>;
+    const frequencies = new Map<string, number>();
+    for (const field of FIELDS) {
+      tokens[field] = tokenizeWithOffsets(fieldText(course, field));
+      for (const { term } of tokens[field]) {
+        frequencies.set(
+          term,
+          (frequencies.get(term) ?? 0) + FIELD_WEIGHTS[field],
+        );
+      }
+    }
+    const length = [...frequencies.values()].reduce(
+      (sum, count) => sum + count,
+      0,
+    );
+    return { course, tokens, frequencies, length };
+  });
+
+  const averageLength =
+    documents.reduce((sum, document) => sum + document.length, 0) /
+    (documents.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const { frequencies } of documents) {
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const vocabulary = [...documentFrequency.keys()];
+
+  const bm25 = (
+    term: string,
+    frequencies: Map<string, number>,
+    length: number,
+  ) => {
+    const frequency = frequencies.get(term);
+    if (!frequency) return 0;
+    const n = documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (documents.length - n + 0.5) / (n + 0.5));
+    return (
+      (idf * frequency * (k1 + 1)) /
+      (frequency + k1 * (1 - b + (b * length) / (averageLength || 1)))
+    );
+  };
+
+  // Index words a query word matches, with the factor applied to their score
+  const expand = (word: string): Map<string, number> => {
+    const matches = new Map<string, number>();
+    const maxTypos = word.length >= 8 ? 2 : 1;
+    for (const term of vocabulary) {
+      if (term === word) matches.set(term, 1);
+      else if (word.length >= MIN_PREFIX_LENGTH && term.startsWith(word))
+        matches.set(term, PREFIX_FACTOR);
+      else if (
+        word.length >= MIN_TYPO_LENGTH &&
+        editDistance(word, term, maxTypos) <= maxTypos
+      ) {
+        matches.set(term, TYPO_FACTOR);
+      }
+    }
+    return matches;
+  };
+
+  return {
+    size: documents.length,
+    search(query, { limit = 20, matchAll = true } = {}) {
+      const words = [...new Set(tokenize(query))];
+      if (words.length === 0) return [];
+      const expansions = words.map(expand);
+
+      const hits: CourseSearchHit<T>[] = [];
+      for (const document of documents) {
+        let score = 0;
+        let matchedWords = 0;
+        const matchedTerms = new Set<string>();
+        for (const expansion of expansions) {
+          let best = 0;
+          for (const [term, factor] of expansion) {
+            const termScore =
+              factor * bm25(term, document.frequencies, document.length);
+            if (termScore > 0) {
+              matchedTerms.add(term);
+              best = Math.max(best, termScore);
+            }
+          }
+          if (best > 0) matchedWords++;
+          score += best;
+        }
+        if (matchedWords === 0 || (matchAll && matchedWords < words.length))
+          continue;
+        if (!matchAll) score *= matchedWords / words.length;
+
+        const highlights = FIELDS.flatMap((field) => {
+          const matched = document.tokens[field].filter((token) =>
+            matchedTerms.has(token.term),
+          );
+          return matched.length > 0
+            ? [
+                {
+                  field,
+                  snippet: snippet(fieldText(document.course, field), matched),
+                },
+              ]
+            : [];
+        });
+        hits.push({ course: document.course, score, highlights });
+      }
+
+      return hits
+        .sort((a, b) => b.score - a.score || a.course.id - b.course.id)
+        .slice(0, limit);
+    },
+  };
+}
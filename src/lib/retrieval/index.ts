@@ -0,0 +1,29 @@
+export { createBm25Retriever, tokenize } from "./bm25";
+export {
+  type CourseSearchField,
+  type CourseSearchHit,
+  type CourseSearchIndex,
+  createCourseSearchIndex,
+  type HighlightSegment,
+  type SearchableCourse,
+} from "./courseIndex";
+export {
+  buildRetrievalDocuments,
+  formatPassagesForPrompt,
+  type CourseRow,
+  type GuidelineRow,
+  type KnowledgeBaseRow,
+} from "./corpus";
+export {
+  type CatalogPackOptions,
+  estimateTokens,
+  type PackableCourse,
+  type PackedCatalog,
+  packCourseCatalog,
+} from "./packer";
+export type {
+  RetrievalDocument,
+  RetrievalSource,
+  RetrievedPassage,
+  Retriever,
+} from "./types";
@@ -0,0 +1,136 @@
+import { createBm25Retriever } from "./bm25";
+
+export interface PackableCourse {
+  id: string | number;
+  title: string;
+  description?: string | null;
+  subject?: string | null;
+}
+
+export interface CatalogPackOptions<T extends PackableCourse> {
+  // The student's question; the strongest ranking signal
+  query?: string;
+  // Profile text such as preferred subjects and career goal, weighted below the query
+  profile?: string[];
+  tokenBudget: number;
+  // Upper bound on full-detail entries, however much budget is left
+  maxFullDetail?: number;
+  formatFull: (course: T) => string;
+  formatCompact: (course: T) => string;
+}
+
+export interface PackedCatalog<T extends PackableCourse> {
+  text: string;
+  full: T[];
+  compact: T[];
+  dropped: T[];
+  estimatedTokens: number;
+}
+
+const PROFILE_WEIGHT = 0.5;
+// Share of the budget kept back for one-liners so a few long descriptions cannot crowd out the rest
+const COMPACT_RESERVE = 0.35;
+const ENTRY_SEPARATOR = "\n\n";
+
+/**
+ * Rough token count for budgeting: about four characters per token for English prose, which
+ * overestimates slightly for the common tokenizers.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Rank courses by BM25 relevance to the query and, more weakly, the student profile, then fill
+ * the token budget in rank order: full detail for the top courses, one-liners for the rest, and
+ * whatever still does not fit is dropped. Ties keep catalog order.
+ */
+export function packCourseCatalog<T extends PackableCourse>(
+  courses: T[],
+  {
+    query = "",
+    profile = [],
+    tokenBudget,
+    maxFullDetail = 12,
+    formatFull,
+    formatCompact,
+  }: CatalogPackOptions<T>,
+): PackedCatalog<T> {
+  const retriever = createBm25Retriever(
+    courses.map((course) => ({
+      id: String(course.id),
+      source: "course" as const,
+      title: course.title,
+      content: course.description ?? "",
+      tags: course.subject ? [course.subject] : undefined,
+    })),
+  );
+
+  const scores = new Map<string, number>();
+  const addScores = (text: string, weight: number) => {
+    for (const { document, score } of retriever.search(text, {
+      k: courses.length,
+    })) {
+      scores.set(document.id, (scores.get(document.id) ?? 0) + score * weight);
+    }
+  };
+  addScores(query, 1);
+  addScores(profile.join(" "), PROFILE_WEIGHT);
+
+  const ranked = courses
+    .map((course, index) => ({
+      course,
+      index,
+      score: scores.get(String(course.id)) ?? 0,
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ course }) => course);
+
+  const entries = ranked.map((course) => ({
+    course,
+    full: formatFull(course),
+    compact: formatCompact(course),
+  }));
+  const cost = (text: string) => estimateTokens(text + ENTRY_SEPARATOR);
+
+  // Tokens needed to list every course after position i as a one-liner
+  const tailCompactCost: number[] = new Array(entries.length + 1).fill(0);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    tailCompactCost[i] = tailCompactCost[i + 1] + cost(entries[i].compact);
+  }
+
+  const full: T[] = [];
+  const compact: T[] = [];
+  const dropped: T[] = [];
+  const lines: string[] = [];
+  let remaining = tokenBudget;
+
+  for (const [i, entry] of entries.entries()) {
+    const reserve = Math.min(
+      tailCompactCost[i + 1],
+      tokenBudget * COMPACT_RESERVE,
+    );
+    const fullCost = cost(entry.full);
+    const compactCost = cost(entry.compact);
+
+    if (full.length < maxFullDetail && remaining - fullCost >= reserve) {
+      full.push(entry.course);
+      lines.push(entry.full);
+      remaining -= fullCost;
+    } else if (remaining >= compactCost) {
+      compact.push(entry.course);
+      lines.push(entry.compact);
+      remaining -= compactCost;
+    } else {
+      dropped.push(entry.course);
+    }
+  }
+
+  return {
+    text: lines.join(ENTRY_SEPARATOR),
+    full,
+    compact,
+    dropped,
+    estimatedTokens: tokenBudget - remaining,
+  };
+}
@@ -0,0 +1,26 @@
+export type RetrievalSource = "knowledge_base" | "guidelines" | "course";
+
+export interface RetrievalDocument {
+  // Unique across sources, e.g. "guidelines:42"
+  id: string;
+  source: RetrievalSource;
+  title: string;
+  content: string;
+  tags?: string[];
+}
+
+export interface RetrievedPassage {
+  document: RetrievalDocument;
+  score: number;
+  // Most relevant part of the document, short enough to inline in a prompt
+  excerpt: string;
+}
+
+export interface Retriever {
+  // Restricting `sources` lets callers skip material already in their prompt
+  search(
+    query: string,
+    options?: { k?: number; sources?: RetrievalSource[] },
+  ): RetrievedPassage[];
+  size: number;
+}
@@ -0,0 +1,13 @@
+export { solveSchedules } from "./solver";
+export { createCourseScorer, type ScoringProfile } from "./scoring";
+export type {
+  ExcludedCourse,
+  ExclusionReason,
+  ScheduleOption,
+  SchedulerConstraints,
+  SchedulerCourse,
+  SchedulerPrerequisite,
+  ScoredCourse,
+  SolverOptions,
+  SolverResult,
+} from "./types";
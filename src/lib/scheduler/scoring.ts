@@ -0,0 +1,41 @@
+import type { SchedulerCourse } from "./types";
+
+export interface ScoringProfile {
+  career_goal_id?: string;
+  preferred_subjects?: string[];
+}
+
+// Availability score assumed when a course has no enrollment history
+const DEFAULT_AVAILABILITY = 0.7;
+
+/**
+ * Build a per-course scorer (0-1) from the same signals the Dashboard fallback used:
+ * career path relevance first, then preferred subjects, then historical availability.
+ */
+export function createCourseScorer(
+  profile: ScoringProfile,
+  availabilityScores: Record<number, number>,
+) {
+  return (course: SchedulerCourse): number => {
+    let score = 0.3;
+
+    if (
+      profile.career_goal_id &&
+      course.career_paths?.includes(profile.career_goal_id)
+    ) {
+      score += 0.35;
+    }
+
+    if (
+      course.subject &&
+      profile.preferred_subjects?.includes(course.subject)
+    ) {
+      score += 0.2;
+    }
+
+    const availability = availabilityScores[course.id] ?? DEFAULT_AVAILABILITY;
+    score += 0.15 * availability;
+
+    return Math.min(1, Math.round(score * 100) / 100);
+  };
+}
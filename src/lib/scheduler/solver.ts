@@ -0,0 +1,173 @@
+import { createEligibilityChecker } from "@/lib/eligibility";
+import {
+  findOverlaps,
+  isTimeSlotError,
+  parseTimeSlot,
+  type TimeSlot,
+} from "@/lib/timeSlot";
+import type {
+  ExcludedCourse,
+  ScheduleOption,
+  SchedulerConstraints,
+  SchedulerCourse,
+  ScoredCourse,
+  SolverOptions,
+  SolverResult,
+} from "./types";
+
+const DEFAULT_LIMIT = 3;
+const DEFAULT_MAX_NODES = 50000;
+
+interface Candidate<T extends SchedulerCourse> extends ScoredCourse<T> {
+  slot: TimeSlot;
+}
+
+/**
+ * Split the catalog into courses the student can take now and courses that are excluded,
+ * either because they were already completed, a prerequisite is missing, or their time slot
+ * cannot be parsed (and so cannot be checked for conflicts).
+ */
+function partitionCandidates<T extends SchedulerCourse>(
+  courses: T[],
+  constraints: SchedulerConstraints,
+): { eligible: { course: T; slot: TimeSlot }[]; excluded: ExcludedCourse[] } {
+  const completed = new Set(constraints.completedCourseIds.map(String));
+  const checkEligibility = createEligibilityChecker({
+    prerequisites: constraints.prerequisites,
+    completedCourseIds: constraints.completedCourseIds,
+    courses,
+  });
+
+  const eligible: { course: T; slot: TimeSlot }[] = [];
+  const excluded: ExcludedCourse[] = [];
+
+  for (const course of courses) {
+    const id = String(course.id);
+
+    if (completed.has(id)) {
+      excluded.push({ courseId: course.id, reason: "already_taken" });
+      continue;
+    }
+
+    const { eligible: canTake, missingPrerequisites } = checkEligibility(id);
+    if (!canTake) {
+      excluded.push({
+        courseId: course.id,
+        reason: "missing_prerequisites",
+        missingPrerequisites,
+      });
+      continue;
+    }
+
+    const slot = parseTimeSlot(course.time_slots);
+    if (isTimeSlotError(slot)) {
+      excluded.push({
+        courseId: course.id,
+        reason: "unparseable_time_slot",
+        timeSlotError: slot.message,
+      });
+      continue;
+    }
+
+    eligible.push({ course, slot });
+  }
+
+  return { eligible, excluded };
+}
+
+/**
+ * Find conflict-free course schedules that satisfy the credit and course-count bounds.
+ *
+ * Runs a depth-first branch-and-bound search over candidates sorted by score. A schedule's
+ * score is the sum of its course scores, so the best `limit` schedules are kept and any branch
+ * whose optimistic bound cannot beat the worst kept schedule is pruned.
+ */
+export function solveSchedules<T extends SchedulerCourse>(
+  courses: T[],
+  constraints: SchedulerConstraints,
+  options: SolverOptions<T>,
+): SolverResult<T> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const { eligible, excluded } = partitionCandidates(courses, constraints);
+
+  const candidates: Candidate<T>[] = eligible
+    .map(({ course, slot }) => ({
+      course,
+      score: options.scoreCourse(course),
+      slot,
+    }))
+    .sort((a, b) => b.score - a.score || a.course.id - b.course.id);
+
+  const conflicts = candidates.map((first, i) =>
+    candidates.map(
+      (second, j) =>
+        i !== j && findOverlaps(first.slot, second.slot).length > 0,
+    ),
+  );
+
+  const best: ScheduleOption<T>[] = [];
+  const chosen: number[] = [];
+  let nodes = 0;
+
+  const worstKeptScore = () =>
+    best.length < limit
+      ? Number.NEGATIVE_INFINITY
+      : best[best.length - 1].score;
+
+  const record = (credits: number, score: number) => {
+    best.push({
+      courses: chosen.map((index) => ({
+        course: candidates[index].course,
+        score: candidates[index].score,
+      })),
+      totalCredits: credits,
+      score,
+    });
+    best.sort((a, b) => b.score - a.score);
+    if (best.length > limit) best.pop();
+  };
+
+  const search = (start: number, credits: number, score: number) => {
+    nodes++;
+    if (nodes > maxNodes) return;
+
+    if (
+      chosen.length >= constraints.minCourses &&
+      credits >= constraints.minCredits &&
+      credits <= constraints.maxCredits &&
+      score > worstKeptScore()
+    ) {
+      record(credits, score);
+    }
+
+    if (chosen.length >= constraints.maxCourses) return;
+
+    // Candidates are sorted by score, so the next slots can at most add the next best scores
+    const slotsLeft = constraints.maxCourses - chosen.length;
+    const optimistic = candidates
+      .slice(start, start + slotsLeft)
+      .reduce((total, candidate) => total + candidate.score, score);
+    if (optimistic <= worstKeptScore()) return;
+
+    for (let i = start; i < candidates.length; i++) {
+      const candidate = candidates[i];
+      if (credits + candidate.course.credits > constraints.maxCredits) continue;
+      if (chosen.some((index) => conflicts[index][i])) continue;
+
+      chosen.push(i);
+      search(
+        i + 1,
+        credits + candidate.course.credits,
+        score + candidate.score,
+      );
+      chosen.pop();
+
+      if (nodes > maxNodes) return;
+    }
+  };
+
+  search(0, 0, 0);
+
+  return { schedules: best, excluded };
+}
@@ -0,0 +1,64 @@
+import type { MissingPrerequisite } from "@/lib/eligibility";
+
+export interface SchedulerCourse {
+  id: number;
+  title: string;
+  credits: number;
+  time_slots: unknown;
+  subject?: string;
+  career_paths?: string[];
+  hours_required?: number;
+}
+
+export interface SchedulerPrerequisite {
+  course_id: string | number;
+  prerequisite_id: string | number;
+}
+
+export interface SchedulerConstraints {
+  minCredits: number;
+  maxCredits: number;
+  minCourses: number;
+  maxCourses: number;
+  // IDs of courses the student has already completed (students.current_courses_taken)
+  completedCourseIds: (string | number)[];
+  prerequisites: SchedulerPrerequisite[];
+}
+
+export interface ScoredCourse<T extends SchedulerCourse = SchedulerCourse> {
+  course: T;
+  score: number;
+}
+
+export interface ScheduleOption<T extends SchedulerCourse = SchedulerCourse> {
+  courses: ScoredCourse<T>[];
+  totalCredits: number;
+  score: number;
+}
+
+export type ExclusionReason =
+  | "already_taken"
+  | "missing_prerequisites"
+  | "unparseable_time_slot";
+
+export interface ExcludedCourse {
+  courseId: number;
+  reason: ExclusionReason;
+  missingPrerequisites?: MissingPrerequisite[];
+  // Parser message when reason is "unparseable_time_slot"
+  timeSlotError?: string;
+}
+
+export interface SolverResult<T extends SchedulerCourse = SchedulerCourse> {
+  schedules: ScheduleOption<T>[];
+  excluded: ExcludedCourse[];
+}
+
+export interface SolverOptions<T extends SchedulerCourse = SchedulerCourse> {
+  // Number of ranked schedules to return
+  limit?: number;
+  // Per-course score in the 0-1 range; higher is better
+  scoreCourse: (course: T) => number;
+  // Upper bound on search nodes so very large catalogs stay responsive
+  maxNodes?: number;
+}
@@ -0,0 +1,60 @@
+/**
+ * Rules for the seat watchlist: when a change in a course's `available_slots` is worth an alert,
+ * and how the alert reads. Shared by the seat-watch job and the UI.
+ */
+
+export type SeatAlertKind = "opened" | "low";
+
+export const DEFAULT_WATCH_THRESHOLD = 5;
+
+export interface CourseWatch {
+  id: string;
+  user_id: string;
+  course_id: number;
+  threshold: number;
+  notify_email: boolean;
+  last_seen_slots: number | null;
+  created_at: string;
+}
+
+export interface SeatAlert {
+  id: string;
+  user_id: string;
+  course_id: number;
+  kind: SeatAlertKind;
+  available_slots: number;
+  previous_slots: number;
+  created_at: string;
+  read_at: string | null;
+}
+
+/**
+ * Alert raised by a change from `previous` to `current` available seats, if any: "opened" when a
+ * full course gets a seat back, "low" when seats drop below the threshold. A watch that has not
+ * seen the course yet (`previous` null) only records a baseline.
+ */
+export function detectSeatChange(
+  previous: number | null,
+  current: number,
+  threshold: number,
+): SeatAlertKind | null {
+  if (previous === null || previous === current) return null;
+  if (previous <= 0 && current > 0) return "opened";
+  if (previous >= threshold && current < threshold) return "low";
+  return null;
+}
+
+export function describeSeatAlert(
+  alert: Pick<SeatAlert, "kind" | "available_slots">,
+  courseTitle: string,
+): string {
+  if (alert.kind === "opened") {
+    return alert.available_slots === 1
+      ? `A seat opened up in ${courseTitle}.`
+      : `${alert.available_slots} seats opened up in ${courseTitle}.`;
+  }
+  if (alert.available_slots <= 0) return `${courseTitle} is now full.`;
+  return alert.available_slots === 1
+    ? `Only 1 seat left in ${courseTitle}.`
+    : `Only ${alert.available_slots} seats left in ${courseTitle}.`;
+}
@@ -0,0 +1,223 @@
+import type { MemoryUser, Tables } from "./memorySupabase";
+
+/**
+ * Small, internally consistent catalog for offline runs: one student part-way through the
+ * Software Development track, a prerequisite chain CS101 -> CS201 -> CS301 and enough history
+ * rows for the availability forecast.
+ */
+export const FIXTURE_USER: MemoryUser = {
+  id: "00000000-0000-4000-8000-000000000001",
+  email: "alex.rivera@example.edu",
+};
+
+export const FIXTURE_TABLES: Tables = {
+  students: [
+    {
+      id: 1,
+      user_id: FIXTURE_USER.id,
+      full_name: "Alex Rivera",
+      email: FIXTURE_USER.email,
+      career_goal_id: 1,
+      enrollment_type: "Full-time",
+      credits_completed: 30,
+      preferred_subjects: ["Computer Science", "Mathematics"],
+      preferred_learning_mode: "In-person",
+      course_slot_preference: "Morning",
+      current_courses_taken: ["1", "4"],
+      weekly_study_availability: { hours: 20 },
+      technical_proficiency: "Intermediate",
+      timezone: "America/New_York",
+      target_graduation_term: "Spring 2028",
+    },
+  ],
+  careers: [
+    {
+      id: 1,
+      title: "Software Development",
+      required_courses: ["1", "2", "3", "5"],
+    },
+    {
+      id: 2,
+      title: "Data Science",
+      required_courses: ["4", "6", "7"],
+    },
+  ],
+  courses: [
+    {
+      id: 1,
+      title: "Introduction to Programming",
+      description:
+        "Variables, control flow, functions and basic data structures.",
+      credits: 3,
+      subject: "Computer Science",
+      semester: "Fall",
+      time_slots: "MWF 9:00-9:50",
+      career_paths: ["Software Development", "Data Science"],
+      hours_required: 8,
+      available_slots: 24,
+      learning_mode: "In-person",
+      is_elective: false,
+    },
+    {
+      id: 2,
+      title: "Data Structures",
+      description: "Lists, trees, graphs and hashing with complexity analysis.",
+      credits: 3,
+      subject: "Computer Science",
+      semester: "Spring",
+      time_slots: "TTh 10:00-11:15",
+      career_paths: ["Software Development"],
+      hours_required: 10,
+      available_slots: 3,
+      learning_mode: "In-person",
+      is_elective: false,
+    },
+    {
+      id: 3,
+      title: "Algorithms",
+      description: "Design paradigms, graph algorithms and NP-completeness.",
+      credits: 3,
+      subject: "Computer Science",
+      semester: "Fall",
+      time_slots: "MW 11:00-12:15",
+      career_paths: ["Software Development"],
+      hours_required: 10,
+      available_slots: 12,
+      learning_mode: "In-person",
+      is_elective: false,
+    },
+    {
+      id: 4,
+      title: "Calculus I",
+      description: "Limits, derivatives and integrals of a single variable.",
+      credits: 4,
+      subject: "Mathematics",
+      semester: "Fall",
+      time_slots: "MTWTh 8:00-8:50",
+      career_paths: ["Data Science"],
+      hours_required: 9,
+      available_slots: 30,
+      learning_mode: "In-person",
+      is_elective: false,
+    },
+    {
+      id: 5,
+      title: "Web Development",
+      description: "HTTP, HTML, CSS and building full-stack applications.",
+      credits: 3,
+      subject: "Computer Science",
+      semester: "Spring",
+      time_slots: "Online",
+      career_paths: ["Software Development"],
+      hours_required: 7,
+      available_slots: 40,
+      learning_mode: "Online",
+      is_elective: true,
+    },
+    {
+      id: 6,
+      title: "Probability and Statistics",
+      description: "Random variables, distributions, estimation and testing.",
+      credits: 3,
+      subject: "Mathematics",
+      semester: "Spring",
+      time_slots: "TTh 13:00-14:15",
+      career_paths: ["Data Science"],
+      hours_required: 8,
+      available_slots: 0,
+      learning_mode: "In-person",
+      is_elective: false,
+    },
+    {
+      id: 7,
+      title: "Machine Learning",
+      description:
+        "Supervised and unsupervised learning with practical projects.",
+      credits: 3,
+      subject: "Computer Science",
+      semester: "Fall",
+      time_slots: "MW 14:00-15:15",
+      career_paths: ["Data Science", "AI/ML"],
+      hours_required: 12,
+      available_slots: 2,
+      learning_mode: "Hybrid",
+      is_elective: true,
+    },
+  ],
+  prerequisites: [
+    { course_id: 2, prerequisite_id: 1 },
+    { course_id: 3, prerequisite_id: 2 },
+    { course_id: 5, prerequisite_id: 1 },
+    { course_id: 6, prerequisite_id: 4 },
+    { course_id: 7, prerequisite_id: 2 },
+    { course_id: 7, prerequisite_id: 6 },
+  ],
+  course_history: [
+    {
+      id: 1,
+      course_id: 2,
+      semester: "Spring 2024",
+      filled_slots: 58,
+      max_capacity: 60,
+    },
+    {
+      id: 2,
+      course_id: 2,
+      semester: "Spring 2025",
+      filled_slots: 60,
+      max_capacity: 60,
+    },
+    {
+      id: 3,
+      course_id: 3,
+      semester: "Fall 2024",
+      filled_slots: 35,
+      max_capacity: 50,
+    },
+    {
+      id: 4,
+      course_id: 5,
+      semester: "Spring 2025",
+      filled_slots: 40,
+      max_capacity: 80,
+    },
+    {
+      id: 5,
+      course_id: 6,
+      semester: "Spring 2025",
+      filled_slots: 44,
+      max_capacity: 45,
+    },
+    {
+      id: 6,
+      course_id: 7,
+      semester: "Fall 2024",
+      filled_slots: 30,
+      max_capacity: 30,
+    },
+  ],
+  knowledge_base: [
+    {
+      id: "kb-1",
+      title: "Credit load limits",
+      content:
+        "Full-time students may register for 12 to 18 credits per semester. Taking more than 18 credits requires advisor approval and a cumulative GPA of at least 3.3. Part-time students may register for up to 11 credits.",
+      tags: ["registration", "credits", "policy"],
+    },
+    {
+      id: "kb-2",
+      title: "Prerequisite waivers",
+      content:
+        "A prerequisite may be waived when the student shows equivalent experience, such as transfer credit or a passed placement exam. Waiver requests are submitted to the department before the add/drop deadline.",
+      tags: ["prerequisites", "policy"],
+    },
+  ],
+  guidelines: [
+    {
+      id: "gl-1",
+      title: "Advising tone",
+      content:
+        "Be encouraging and concrete. Recommend at most four courses at a time and explain how each one serves the student's career goal.",
+    },
+  ],
+};
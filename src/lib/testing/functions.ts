@@ -0,0 +1,59 @@
+import type { Functions, Row } from "./memorySupabase";
+
+async function succeed(
+  query: PromiseLike<{ error: { message: string } | null }>,
+) {
+  const { error } = await query;
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * In-memory versions of the database functions in supabase/migrations, for the fixture client
+ */
+export const FIXTURE_FUNCTIONS: Functions = {
+  async record_seat_watch_run(args, db) {
+    const alerts = args.alerts as Row[];
+    const baselines = args.baselines as {
+      id: string;
+      last_seen_slots: number;
+    }[];
+
+    const createdAt = new Date().toISOString();
+    if (alerts.length > 0) {
+      await succeed(
+        db.from("seat_alerts").insert(
+          alerts.map((alert) => ({
+            ...alert,
+            created_at: createdAt,
+            read_at: null,
+          })),
+        ),
+      );
+    }
+    for (const { id, last_seen_slots } of baselines) {
+      await succeed(
+        db.from("course_watches").update({ last_seen_slots }).eq("id", id),
+      );
+    }
+  },
+  async public_student_profile(args, db) {
+    const userId = args.profile_user_id as string;
+    const { data: settings, error: settingsError } = await db
+      .from("user_settings")
+      .select("public_profile")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (settingsError) throw new Error(settingsError.message);
+    if (!(settings as Row | null)?.public_profile) return null;
+
+    const { data: student, error } = await db
+      .from("students")
+      .select(
+        "user_id, full_name, career_goal_id, credits_completed, current_courses_taken, skill_goals",
+      )
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return student;
+  },
+};
@@ -0,0 +1,32 @@
+import { FIXTURE_TABLES, FIXTURE_USER } from "./fixtures";
+import { FIXTURE_FUNCTIONS } from "./functions";
+import { createMemorySupabase, type MemorySupabase } from "./memorySupabase";
+
+export { FIXTURE_TABLES, FIXTURE_USER } from "./fixtures";
+export { FIXTURE_FUNCTIONS } from "./functions";
+export {
+  createMemorySupabase,
+  type Functions,
+  type MemoryError,
+  type MemoryFunction,
+  type MemoryResult,
+  type MemorySupabase,
+  type MemoryUser,
+  type Row,
+  type Tables,
+} from "./memorySupabase";
+
+let shared: MemorySupabase | null = null;
+
+/**
+ * Process-wide fixture database that tests/setup.ts puts behind every Supabase client module, so
+ * writes made through one are visible through the others. Test-only: nothing in the app imports
+ * this package.
+ */
+export function getMemorySupabase(): MemorySupabase {
+  shared ??= createMemorySupabase(FIXTURE_TABLES, {
+    user: FIXTURE_USER,
+    functions: FIXTURE_FUNCTIONS,
+  });
+  return shared;
+}
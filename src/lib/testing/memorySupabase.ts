@@ -0,0 +1,626 @@
+/**
+ * In-memory stand-in for the Supabase client covering the query builder calls this app makes
+ * (select/insert/upsert/update/delete with eq, neq, in, not, or, ilike, match, comparison
+ * filters, order, limit, range, single and maybeSingle), `rpc` for the database functions passed
+ * in as `functions`, plus a signed-in session for the auth calls. Like PostgREST, a response
+ * holds at most `maxRows` rows however many were asked for.
+ *
+ * Rows are plain objects held per table; every query works on a snapshot and writes replace the
+ * table array, so fixtures passed in are never mutated.
+ */
+
+export type Row = Record<string, unknown>;
+export type Tables = Record<string, Row[]>;
+
+// Stand-in for a Postgres function called through `rpc`, working on the same tables. Throw to
+// fail the call.
+export type MemoryFunction = (
+  args: Record<string, unknown>,
+  db: { from: (table: string) => MemoryQuery },
+) => unknown;
+export type Functions = Record<string, MemoryFunction>;
+
+export interface MemoryError {
+  message: string;
+  code?: string;
+}
+
+export interface MemoryResult<T = unknown> {
+  data: T;
+  error: MemoryError | null;
+  count: number | null;
+}
+
+export interface MemoryUser {
+  id: string;
+  email?: string;
+}
+
+type Filter = (row: Row) => boolean;
+type Operation = "select" | "insert" | "upsert" | "update" | "delete";
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return false;
+  }
+  if (typeof a === "object" || typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  // PostgREST compares filter values as text, so 5 and "5" match
+  return String(a) === String(b);
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// `not("subject", "in", "(a,b)")` accepts a PostgREST list string as well as an array
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return String(value)
+    .replace(/^\(|\)$/g, "")
+    .split(",")
+    .map((item) => item.trim().replace(/^"|"$/g, ""));
+}
+
+// Split a PostgREST filter list on the commas outside parentheses and double quotes
+function splitFilterList(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (let i = 0; i < list.length; i++) {
+    const char = list[i];
+    if (quoted && char === "\\") {
+      current += char + (list[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === "(") depth++;
+    else if (!quoted && char === ")") depth--;
+    if (char === "," && depth === 0 && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+// A filter value as PostgREST reads it: quoted text, null, a boolean, a number or bare text
+function filterValue(raw: string): unknown {
+  if (raw.startsWith('"') && raw.endsWith('"')) {
+    return raw.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  if (raw === "null") return null;
+  if (raw === "true" || raw === "false") return raw === "true";
+  if (raw !== "" && !Number.isNaN(Number(raw))) return Number(raw);
+  return raw;
+}
+
+function likePattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(
+    `^${escaped.replace(/%/g, ".*").replace(/_/g, ".")}$`,
+    "is",
+  );
+}
+
+function project(row: Row, columns: string[] | null): Row {
+  if (!columns) return { ...row };
+  return Object.fromEntries(columns.map((column) => [column, row[column]]));
+}
+
+class MemoryQuery implements PromiseLike<MemoryResult> {
+  private operation: Operation = "select";
+  private filters: Filter[] = [];
+  private columns: string[] | null = null;
+  private returning = false;
+  private payload: Row[] = [];
+  private changes: Row = {};
+  private conflictColumns = ["id"];
+  private orderings: { column: string; ascending: boolean }[] = [];
+  private window: { from: number; to?: number } | null = null;
+  private cardinality: "many" | "single" | "maybeSingle" = "many";
+  private countRows = false;
+
+  constructor(
+    private readonly store: MemorySupabaseStore,
+    private readonly table: string,
+  ) {}
+
+  select(columns = "*", options: { count?: "exact" } = {}) {
+    if (this.operation !== "select") this.returning = true;
+    const names = columns
+      .split(",")
+      .map((column) => column.trim())
+      .filter(Boolean);
+    this.columns = names.includes("*") ? null : names;
+    this.countRows = options.count === "exact";
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = "insert";
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.operation = "upsert";
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    if (options.onConflict) {
+      this.conflictColumns = options.onConflict
+        .split(",")
+        .map((column) => column.trim());
+    }
+    return this;
+  }
+
+  update(changes: Row) {
+    this.operation = "update";
+    this.changes = changes;
+    return this;
+  }
+
+  delete() {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => sameValue(row[column], value));
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => !sameValue(row[column], value));
+    return this;
+  }
+
+  // Comparisons with NULL are never true in SQL
+  gt(column: string, value: unknown) {
+    this.filters.push(
+      (row) => row[column] != null && compare(row[column], value) > 0,
+    );
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push(
+      (row) => row[column] != null && compare(row[column], value) >= 0,
+    );
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push(
+      (row) => row[column] != null && compare(row[column], value) < 0,
+    );
+    return this;
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push(
+      (row) => row[column] != null && compare(row[column], value) <= 0,
+    );
+    return this;
+  }
+
+  in(column: string, values: unknown) {
+    const list = toList(values);
+    this.filters.push((row) =>
+      list.some((value) => sameValue(row[column], value)),
+    );
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  ilike(column: string, pattern: string) {
+    const regex = likePattern(pattern);
+    this.filters.push((row) => regex.test(String(row[column] ?? "")));
+    return this;
+  }
+
+  like(column: string, pattern: string) {
+    const regex = new RegExp(likePattern(pattern).source, "s");
+    this.filters.push((row) => regex.test(String(row[column] ?? "")));
+    return this;
+  }
+
+  contains(column: string, values: unknown[]) {
+    this.filters.push((row) => {
+      const cell = row[column];
+      return (
+        Array.isArray(cell) &&
+        values.every((value) => cell.some((item) => sameValue(item, value)))
+      );
+    });
+    return this;
+  }
+
+  // Plain full-text search approximated as "every word appears", without stemming
+  textSearch(column: string, query: string, _options?: unknown) {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    this.filters.push((row) => {
+      const text = String(row[column] ?? "").toLowerCase();
+      return words.every((word) => text.includes(word));
+    });
+    return this;
+  }
+
+  match(query: Row) {
+    for (const [column, value] of Object.entries(query)) this.eq(column, value);
+    return this;
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    const negated = new MemoryQuery(this.store, this.table);
+    switch (operator) {
+      case "in":
+        negated.in(column, value);
+        break;
+      case "is":
+        negated.is(column, value as null | boolean);
+        break;
+      case "ilike":
+        negated.ilike(column, String(value));
+        break;
+      default:
+        negated.eq(column, value);
+    }
+    const [inner] = negated.filters;
+    this.filters.push((row) => !inner(row));
+    return this;
+  }
+
+  // `or("a.eq.1,and(b.gt.2,c.is.null)")`: PostgREST filter syntax, including not. and nesting
+  or(filters: string) {
+    const branches = splitFilterList(filters).map((part) =>
+      this.parseFilter(part.trim()),
+    );
+    this.filters.push((row) => branches.some((branch) => branch(row)));
+    return this;
+  }
+
+  private parseFilter(expression: string): Filter {
+    const group = expression.match(/^(and|or)\(([\s\S]*)\)$/);
+    if (group) {
+      const inner = splitFilterList(group[2]).map((part) =>
+        this.parseFilter(part.trim()),
+      );
+      return group[1] === "and"
+        ? (row) => inner.every((filter) => filter(row))
+        : (row) => inner.some((filter) => filter(row));
+    }
+
+    const [column, ...rest] = expression.split(".");
+    const negated = rest[0] === "not";
+    const [operator, ...valueParts] = negated ? rest.slice(1) : rest;
+    const raw = valueParts.join(".");
+    const query = new MemoryQuery(this.store, this.table);
+    switch (operator) {
+      case "eq":
+      case "neq":
+      case "gt":
+      case "gte":
+      case "lt":
+      case "lte":
+        query[operator](column, filterValue(raw));
+        break;
+      case "is":
+        query.is(column, filterValue(raw) as null | boolean);
+        break;
+      case "in":
+        query.in(column, raw);
+        break;
+      case "like":
+      case "ilike":
+        query[operator](column, String(filterValue(raw)));
+        break;
+      default:
+        throw new Error(`Unsupported filter in or(): ${expression}`);
+    }
+    const [filter] = query.filters;
+    return negated ? (row) => !filter(row) : filter;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderings.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.window = {
+      from: this.window?.from ?? 0,
+      to: (this.window?.from ?? 0) + count - 1,
+    };
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to };
+    return this;
+  }
+
+  single() {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((filter) => filter(row));
+  }
+
+  private execute(): MemoryResult {
+    const rows = this.store.rows(this.table);
+    let affected: Row[];
+
+    switch (this.operation) {
+      case "insert": {
+        affected = this.payload.map((row) =>
+          this.store.withId(this.table, row),
+        );
+        this.store.replace(this.table, [...rows, ...affected]);
+        break;
+      }
+      case "upsert": {
+        const next = [...rows];
+        affected = this.payload.map((row) => {
+          const index = next.findIndex((existing) =>
+            this.conflictColumns.every((column) =>
+              sameValue(existing[column], row[column]),
+            ),
+          );
+          if (index === -1) {
+            const inserted = this.store.withId(this.table, row);
+            next.push(inserted);
+            return inserted;
+          }
+          next[index] = { ...next[index], ...row };
+          return next[index];
+        });
+        this.store.replace(this.table, next);
+        break;
+      }
+      case "update": {
+        affected = [];
+        this.store.replace(
+          this.table,
+          rows.map((row) => {
+            if (!this.matches(row)) return row;
+            const updated = { ...row, ...this.changes };
+            affected.push(updated);
+            return updated;
+          }),
+        );
+        break;
+      }
+      case "delete": {
+        affected = rows.filter((row) => this.matches(row));
+        this.store.replace(
+          this.table,
+          rows.filter((row) => !this.matches(row)),
+        );
+        break;
+      }
+      default:
+        affected = rows.filter((row) => this.matches(row));
+    }
+
+    if (this.operation !== "select" && !this.returning) {
+      return { data: null, error: null, count: null };
+    }
+
+    let result = [...affected];
+    for (const { column, ascending } of [...this.orderings].reverse()) {
+      result.sort(
+        (a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1),
+      );
+    }
+    const count = this.countRows ? result.length : null;
+    if (this.window) {
+      result = result.slice(
+        this.window.from,
+        this.window.to === undefined ? undefined : this.window.to + 1,
+      );
+    }
+    result = result.slice(0, this.store.maxRows);
+    const data = result.map((row) => project(row, this.columns));
+
+    if (this.cardinality === "many") return { data, error: null, count };
+    if (data.length === 1) return { data: data[0], error: null, count };
+    if (data.length === 0 && this.cardinality === "maybeSingle") {
+      return { data: null, error: null, count };
+    }
+    return {
+      data: null,
+      error: {
+        code: "PGRST116",
+        message: `JSON object requested, ${data.length} rows returned`,
+      },
+      count,
+    };
+  }
+
+  // biome-ignore lint/suspicious/noThenProperty: queries are awaited directly, like the real builder
+  then<TResult1 = MemoryResult, TResult2 = never>(
+    onfulfilled?:
+      | ((value: MemoryResult) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+}
+
+// Supabase's default max-rows setting
+const DEFAULT_MAX_ROWS = 1000;
+
+class MemorySupabaseStore {
+  private tables: Tables;
+
+  constructor(
+    seed: Tables,
+    readonly maxRows: number,
+  ) {
+    this.tables = Object.fromEntries(
+      Object.entries(seed).map(([name, rows]) => [
+        name,
+        rows.map((row) => ({ ...row })),
+      ]),
+    );
+  }
+
+  rows(table: string): Row[] {
+    return this.tables[table] ?? [];
+  }
+
+  replace(table: string, rows: Row[]) {
+    this.tables[table] = rows;
+  }
+
+  // Mimic serial primary keys for tables whose rows have numeric ids
+  withId(table: string, row: Row): Row {
+    if (row.id !== undefined) return { ...row };
+    const ids = this.rows(table)
+      .map((existing) => existing.id)
+      .filter((id): id is number => typeof id === "number");
+    if (ids.length === 0 && this.rows(table).length > 0) return { ...row };
+    return { id: Math.max(0, ...ids) + 1, ...row };
+  }
+
+  snapshot(): Tables {
+    return Object.fromEntries(
+      Object.entries(this.tables).map(([name, rows]) => [
+        name,
+        rows.map((row) => ({ ...row })),
+      ]),
+    );
+  }
+}
+
+/**
+ * Create an isolated in-memory client seeded with `tables`. `user` is reported as the signed-in
+ * user by the auth methods; pass null to simulate a signed-out visitor.
+ */
+export function createMemorySupabase(
+  tables: Tables,
+  options: {
+    user?: MemoryUser | null;
+    maxRows?: number;
+    functions?: Functions;
+  } = {},
+) {
+  const store = new MemorySupabaseStore(
+    tables,
+    options.maxRows ?? DEFAULT_MAX_ROWS,
+  );
+  let user = options.user ?? null;
+  const session = () =>
+    user ? { user, access_token: "memory-token", token_type: "bearer" } : null;
+  const listeners = new Set<(event: string, current: unknown) => void>();
+  const notify = (event: string) => {
+    for (const listener of listeners) listener(event, session());
+  };
+
+  const from = (table: string) => new MemoryQuery(store, table);
+
+  return {
+    from,
+    async rpc(name: string, args: Record<string, unknown> = {}) {
+      const run = options.functions?.[name];
+      if (!run) {
+        return {
+          data: null,
+          error: {
+            code: "PGRST202",
+            message: `Could not find the function public.${name}`,
+          },
+          count: null,
+        };
+      }
+      try {
+        return {
+          data: (await run(args, { from })) ?? null,
+          error: null,
+          count: null,
+        };
+      } catch (error) {
+        return {
+          data: null,
+          error: {
+            message: error instanceof Error ? error.message : String(error),
+          },
+          count: null,
+        };
+      }
+    },
+    // Current table contents, for assertions
+    snapshot: () => store.snapshot(),
+    // Switch the session user without the auth calls, e.g. to test a signed-out or other user
+    setUser(next: MemoryUser | null) {
+      user = next;
+      notify(next ? "SIGNED_IN" : "SIGNED_OUT");
+    },
+    auth: {
+      async getSession() {
+        return { data: { session: session() }, error: null };
+      },
+      async getUser() {
+        return { data: { user }, error: null };
+      },
+      onAuthStateChange(callback: (event: string, current: unknown) => void) {
+        listeners.add(callback);
+        return {
+          data: {
+            subscription: { unsubscribe: () => listeners.delete(callback) },
+          },
+        };
+      },
+      async signInWithPassword({ email }: { email: string; password: string }) {
+        user = { id: user?.id ?? "memory-user", email };
+        notify("SIGNED_IN");
+        return { data: { user, session: session() }, error: null };
+      },
+      async signUp({ email }: { email: string; password: string }) {
+        user = { id: user?.id ?? "memory-user", email };
+        notify("SIGNED_IN");
+        return { data: { user, session: session() }, error: null };
+      },
+      async signOut() {
+        user = null;
+        notify("SIGNED_OUT");
+        return { error: null };
+      },
+      async updateUser(attributes: Partial<MemoryUser>) {
+        if (user) user = { ...user, ...attributes };
+        return { data: { user }, error: null };
+      },
+      async exchangeCodeForSession() {
+        return { data: { session: session(), user }, error: null };
+      },
+    },
+  };
+}
+
+export type MemorySupabase = ReturnType<typeof createMemorySupabase>;
@@ -0,0 +1,464 @@
+/**
+ * Canonical time slot model shared by the UI, API routes and the scheduler.
+ *
+ * Course rows store `time_slots` in several shapes ("MWF 10:00-11:15", { days, time } objects,
+ * JSON strings, arrays of either). Everything goes through `parseTimeSlot`, which either returns a
+ * `TimeSlot` or an explicit `TimeSlotParseError` so callers can tell "no conflict" apart from
+ * "could not tell".
+ */
+
+export type Weekday = "M" | "T" | "W" | "R" | "F" | "S" | "U";
+
+export const WEEKDAYS: Weekday[] = ["M", "T", "W", "R", "F", "S", "U"];
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  M: "Monday",
+  T: "Tuesday",
+  W: "Wednesday",
+  R: "Thursday",
+  F: "Friday",
+  S: "Saturday",
+  U: "Sunday",
+};
+
+export interface Meeting {
+  day: Weekday;
+  start: number; // minutes since midnight
+  end: number;
+}
+
+export type TimeSlot =
+  | { kind: "scheduled"; meetings: Meeting[] }
+  | { kind: "tba" }
+  | { kind: "online" };
+
+export interface TimeSlotParseError {
+  kind: "error";
+  input: unknown;
+  message: string;
+}
+
+export type ParsedTimeSlot = TimeSlot | TimeSlotParseError;
+
+export type ConflictCheck =
+  | { status: "clear" }
+  | { status: "conflict"; overlaps: MeetingOverlap[] }
+  | { status: "unknown"; error: TimeSlotParseError };
+
+export interface MeetingOverlap {
+  first: Meeting;
+  second: Meeting;
+  start: number;
+  end: number;
+}
+
+const TBA_PATTERN =
+  /^(tba|tbd|tbh|arr|arranged|flexible|to be (announced|arranged|determined))$/i;
+const ONLINE_PATTERN = /^(online|async|asynchronous|remote|web|virtual)$/i;
+
+// Longest tokens first so "Thursday" is not read as "T" + "h..."
+const DAY_TOKENS: [RegExp, Weekday][] = [
+  [/^mon(day)?/i, "M"],
+  [/^tue(s(day)?)?/i, "T"],
+  [/^wed(nesday)?/i, "W"],
+  [/^thu(r(s(day)?)?)?/i, "R"],
+  [/^fri(day)?/i, "F"],
+  [/^sat(urday)?/i, "S"],
+  [/^sun(day)?/i, "U"],
+  [/^th/i, "R"],
+  [/^tu/i, "T"],
+  [/^sa/i, "S"],
+  [/^su/i, "U"],
+  [/^[MTWRFSU]/i, "M"],
+];
+
+const TIME_RANGE_PATTERN =
+  /^(\d{1,2})(?::(\d{2}))?\s*([ap]\.?m?\.?)?\s*[-–—]\s*(\d{1,2})(?::(\d{2}))?\s*([ap]\.?m?\.?)?$/i;
+
+function parseError(input: unknown, message: string): TimeSlotParseError {
+  return { kind: "error", input, message };
+}
+
+export function isTimeSlotError(
+  slot: ParsedTimeSlot,
+): slot is TimeSlotParseError {
+  return slot.kind === "error";
+}
+
+// Uppercase runs of single-letter codes, as serializeTimeSlot writes them: "SU" is Saturday and
+// Sunday, not the abbreviation "Su"
+const LETTER_CODES_PATTERN = /^[MTWRFSU]+$/;
+
+function parseDays(days: string): Weekday[] | null {
+  const result: Weekday[] = [];
+  let rest = days.trim();
+
+  const codes = rest.replace(/[\s,/&+-]+/g, "");
+  if (LETTER_CODES_PATTERN.test(codes)) {
+    for (const day of codes as Iterable<Weekday>) {
+      if (!result.includes(day)) result.push(day);
+    }
+    return result;
+  }
+
+  while (rest.length > 0) {
+    const separator = rest.match(/^[\s,/&+-]+/);
+    if (separator) {
+      rest = rest.slice(separator[0].length);
+      continue;
+    }
+
+    const token = DAY_TOKENS.find(([pattern]) => pattern.test(rest));
+    if (!token) return null;
+
+    const [pattern, weekday] = token;
+    const matched = rest.match(pattern)?.[0] ?? "";
+    // Single-letter codes map to themselves
+    const day =
+      matched.length === 1 ? (matched.toUpperCase() as Weekday) : weekday;
+    if (!result.includes(day)) result.push(day);
+    rest = rest.slice(matched.length);
+  }
+
+  return result.length > 0 ? result : null;
+}
+
+function toMinutes(
+  hours: number,
+  minutes: number,
+  meridiem: "a" | "p" | null,
+): number | null {
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    const normalized = (hours % 12) + (meridiem === "p" ? 12 : 0);
+    return normalized * 60 + minutes;
+  }
+  if (hours > 24 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+function readMeridiem(value: string | undefined): "a" | "p" | null {
+  if (!value) return null;
+  return value[0].toLowerCase() === "p" ? "p" : "a";
+}
+
+/**
+ * Parse "10:00-11:15", "1:30pm-2:45pm", "9-10:15am" and similar ranges into minutes.
+ * When only the end carries am/pm, the start takes the same half of the day unless that would
+ * put it after the end (so "11:00-12:15pm" starts at 11am).
+ */
+export function parseTimeRange(
+  range: string,
+): { start: number; end: number } | null {
+  const match = range.trim().match(TIME_RANGE_PATTERN);
+  if (!match) return null;
+
+  const [
+    ,
+    startHours,
+    startMinutes,
+    startMeridiem,
+    endHours,
+    endMinutes,
+    endMeridiem,
+  ] = match;
+  const endSuffix = readMeridiem(endMeridiem);
+  let startSuffix = readMeridiem(startMeridiem);
+
+  const end = toMinutes(Number(endHours), Number(endMinutes ?? 0), endSuffix);
+  if (end === null) return null;
+
+  if (!startSuffix && endSuffix) {
+    startSuffix = endSuffix;
+    const sameHalf = toMinutes(
+      Number(startHours),
+      Number(startMinutes ?? 0),
+      startSuffix,
+    );
+    if (sameHalf === null || sameHalf >= end) startSuffix = "a";
+  }
+
+  const start = toMinutes(
+    Number(startHours),
+    Number(startMinutes ?? 0),
+    startSuffix,
+  );
+  if (start === null || start >= end) return null;
+
+  return { start, end };
+}
+
+function scheduled(days: Weekday[], start: number, end: number): TimeSlot {
+  return {
+    kind: "scheduled",
+    meetings: days.map((day) => ({ day, start, end })),
+  };
+}
+
+function parseSlotString(input: string): ParsedTimeSlot {
+  const trimmed = input.trim();
+  if (!trimmed || TBA_PATTERN.test(trimmed)) return { kind: "tba" };
+  if (ONLINE_PATTERN.test(trimmed)) return { kind: "online" };
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return parseTimeSlot(JSON.parse(trimmed));
+    } catch {
+      return parseError(input, "Invalid JSON time slot");
+    }
+  }
+
+  // Several meeting patterns, e.g. "MW 10:00-11:15; F 13:00-14:00"
+  if (trimmed.includes(";")) {
+    return parseTimeSlot(trimmed.split(";"));
+  }
+
+  // Split the leading day list from the time range on the first digit
+  const firstDigit = trimmed.search(/\d/);
+  if (firstDigit <= 0) {
+    return parseError(input, "Expected days followed by a time range");
+  }
+
+  const days = parseDays(trimmed.slice(0, firstDigit));
+  if (!days) return parseError(input, "Unrecognized meeting days");
+
+  const range = parseTimeRange(trimmed.slice(firstDigit));
+  if (!range) return parseError(input, "Unrecognized time range");
+
+  return scheduled(days, range.start, range.end);
+}
+
+function readClock(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const range = parseTimeRange(`${value}-24:00`);
+  return range ? range.start : null;
+}
+
+function parseSlotObject(input: Record<string, unknown>): ParsedTimeSlot {
+  const days = input.days ?? input.day;
+  const time = input.time;
+
+  if (typeof days === "string" && ONLINE_PATTERN.test(days.trim())) {
+    return { kind: "online" };
+  }
+  if (
+    (typeof days === "string" && TBA_PATTERN.test(days.trim())) ||
+    (typeof time === "string" && TBA_PATTERN.test(time.trim()))
+  ) {
+    return { kind: "tba" };
+  }
+  if (typeof days !== "string") {
+    return parseError(input, "Time slot object is missing days");
+  }
+
+  const weekdays = parseDays(days);
+  if (!weekdays) return parseError(input, "Unrecognized meeting days");
+
+  if (typeof time === "string") {
+    const range = parseTimeRange(time);
+    if (!range) return parseError(input, "Unrecognized time range");
+    return scheduled(weekdays, range.start, range.end);
+  }
+
+  const start = readClock(input.start);
+  const end = readClock(input.end);
+  if (start === null || end === null || start >= end) {
+    return parseError(input, "Time slot object is missing a valid time");
+  }
+  return scheduled(weekdays, start, end);
+}
+
+/**
+ * Parse any stored `time_slots` value. Empty values are treated as TBA; anything that cannot be
+ * understood comes back as a `TimeSlotParseError` rather than an empty schedule.
+ */
+export function parseTimeSlot(input: unknown): ParsedTimeSlot {
+  if (input === null || input === undefined) return { kind: "tba" };
+
+  if (Array.isArray(input)) {
+    const parts = input.map((entry) => parseTimeSlot(entry));
+    const failed = parts.find(isTimeSlotError);
+    if (failed) return parseError(input, failed.message);
+
+    const meetings = parts.flatMap((part) =>
+      part.kind === "scheduled" ? part.meetings : [],
+    );
+    if (meetings.length > 0) return { kind: "scheduled", meetings };
+    return parts.some((part) => part.kind === "online")
+      ? { kind: "online" }
+      : { kind: "tba" };
+  }
+
+  if (typeof input === "string") return parseSlotString(input);
+
+  if (typeof input === "object") {
+    return parseSlotObject(input as Record<string, unknown>);
+  }
+
+  return parseError(input, `Unsupported time slot value (${typeof input})`);
+}
+
+export function meetingsOverlap(a: Meeting, b: Meeting): boolean {
+  return a.day === b.day && a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Every pair of meetings from `a` and `b` that share time, with the overlapping window.
+ */
+export function findOverlaps(a: TimeSlot, b: TimeSlot): MeetingOverlap[] {
+  if (a.kind !== "scheduled" || b.kind !== "scheduled") return [];
+
+  const overlaps: MeetingOverlap[] = [];
+  for (const first of a.meetings) {
+    for (const second of b.meetings) {
+      if (meetingsOverlap(first, second)) {
+        overlaps.push({
+          first,
+          second,
+          start: Math.max(first.start, second.start),
+          end: Math.min(first.end, second.end),
+        });
+      }
+    }
+  }
+  return overlaps;
+}
+
+/**
+ * Compare two raw or parsed slots. TBA and online slots never conflict; an unparseable slot
+ * yields `unknown` so the caller decides how cautious to be.
+ */
+export function checkConflict(a: unknown, b: unknown): ConflictCheck {
+  const first = toParsed(a);
+  if (isTimeSlotError(first)) return { status: "unknown", error: first };
+  const second = toParsed(b);
+  if (isTimeSlotError(second)) return { status: "unknown", error: second };
+
+  const overlaps = findOverlaps(first, second);
+  return overlaps.length > 0
+    ? { status: "conflict", overlaps }
+    : { status: "clear" };
+}
+
+function isParsed(value: unknown): value is ParsedTimeSlot {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const { kind } = value as { kind?: unknown };
+  return (
+    kind === "scheduled" ||
+    kind === "tba" ||
+    kind === "online" ||
+    kind === "error"
+  );
+}
+
+function toParsed(value: unknown): ParsedTimeSlot {
+  return isParsed(value) ? value : parseTimeSlot(value);
+}
+
+function rawText(error: TimeSlotParseError): string {
+  return typeof error.input === "string"
+    ? error.input
+    : JSON.stringify(error.input);
+}
+
+function formatClock(minutes: number, clock: "12h" | "24h"): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = String(minutes % 60).padStart(2, "0");
+  if (clock === "24h") return `${String(hours).padStart(2, "0")}:${mins}`;
+  const suffix = hours >= 12 && hours < 24 ? "pm" : "am";
+  return `${hours % 12 || 12}:${mins}${suffix}`;
+}
+
+/**
+ * Group meetings that share a start and end into "MWF 10:00-11:15" segments, in weekday order.
+ */
+export function timeSlotSegments(
+  slot: TimeSlot,
+  clock: "12h" | "24h" = "24h",
+): string[] {
+  if (slot.kind === "tba") return ["TBA"];
+  if (slot.kind === "online") return ["Online"];
+
+  const groups = new Map<
+    string,
+    { days: Set<Weekday>; start: number; end: number }
+  >();
+  for (const meeting of slot.meetings) {
+    const key = `${meeting.start}-${meeting.end}`;
+    const group = groups.get(key) ?? {
+      days: new Set<Weekday>(),
+      start: meeting.start,
+      end: meeting.end,
+    };
+    group.days.add(meeting.day);
+    groups.set(key, group);
+  }
+
+  const firstDay = (days: Set<Weekday>) =>
+    Math.min(...[...days].map((day) => WEEKDAYS.indexOf(day)));
+
+  return [...groups.values()]
+    .sort((a, b) => firstDay(a.days) - firstDay(b.days) || a.start - b.start)
+    .map((group) => {
+      const days = WEEKDAYS.filter((day) => group.days.has(day)).join("");
+      return `${days} ${formatClock(group.start, clock)}-${formatClock(group.end, clock)}`;
+    });
+}
+
+/**
+ * Canonical string form. `parseTimeSlot(serializeTimeSlot(slot))` yields the same meetings.
+ */
+export function serializeTimeSlot(slot: TimeSlot): string {
+  return timeSlotSegments(slot).join("; ");
+}
+
+export interface FormatTimeSlotOptions {
+  clock?: "12h" | "24h";
+  fallback?: string;
+}
+
+/**
+ * Human-readable label, e.g. "Monday, Wednesday 10:00-11:15". Unparseable values are shown
+ * as-is so nothing is hidden from the student.
+ */
+export function formatTimeSlot(
+  value: unknown,
+  options: FormatTimeSlotOptions = {},
+): string {
+  const { clock = "24h", fallback = "Flexible" } = options;
+  if (value === null || value === undefined || value === "") return fallback;
+
+  const slot = toParsed(value);
+  if (isTimeSlotError(slot)) return rawText(slot);
+
+  return timeSlotSegments(slot, clock)
+    .map((segment) => {
+      const [days, range] = segment.split(" ");
+      if (!range) return segment;
+      const names = (days.split("") as Weekday[]).map(
+        (day) => WEEKDAY_NAMES[day],
+      );
+      return `${names.join(", ")} ${range}`;
+    })
+    .join("; ");
+}
+
+/**
+ * Store-friendly string for any raw value: the canonical form when it parses, otherwise the
+ * original text so it can still be shown (and re-reported as an error by `parseTimeSlot`).
+ */
+export function normalizeTimeSlot(value: unknown): string {
+  const slot = toParsed(value);
+  return isTimeSlotError(slot) ? rawText(slot) : serializeTimeSlot(slot);
+}
+
+/**
+ * Canonical segments for any raw value, e.g. ["MW 10:00-11:15", "F 13:00-14:00"]. Unparseable
+ * input is kept verbatim as a single segment.
+ */
+export function splitTimeSlot(value: unknown): string[] {
+  const slot = toParsed(value);
+  return isTimeSlotError(slot) ? [rawText(slot)] : timeSlotSegments(slot);
+}
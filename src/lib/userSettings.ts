@@ -0,0 +1,111 @@
+/**
+ * Per-user preferences from the Settings page, stored one row per user in `user_settings`.
+ * Users without a row get DEFAULT_USER_SETTINGS.
+ */
+
+export interface UserSettings {
+  // Whether other signed-in students can view the public part of the profile
+  publicProfile: boolean;
+  // Seat alert emails and other notification emails
+  emailNotifications: boolean;
+  // Seat alerts for watched courses, in the app and by email
+  courseUpdates: boolean;
+  // Dashboard recommendations and course sets proposed by the chat assistant
+  aiSuggestions: boolean;
+  // Whether prompts may include the student's current and past courses
+  useLearningHistory: boolean;
+  // Career goal reasoning in explanations and the AI career roadmap
+  careerPathAnalysis: boolean;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  publicProfile: false,
+  emailNotifications: true,
+  courseUpdates: true,
+  aiSuggestions: true,
+  useLearningHistory: true,
+  careerPathAnalysis: true,
+};
+
+// Used when the user's settings could not be read: every opt-in off until we know otherwise
+export const RESTRICTED_USER_SETTINGS: UserSettings = {
+  publicProfile: false,
+  emailNotifications: false,
+  courseUpdates: false,
+  aiSuggestions: false,
+  useLearningHistory: false,
+  careerPathAnalysis: false,
+};
+
+export interface UserSettingsRow {
+  user_id: string;
+  public_profile: boolean;
+  email_notifications: boolean;
+  course_updates: boolean;
+  ai_suggestions: boolean;
+  use_learning_history: boolean;
+  career_path_analysis: boolean;
+  updated_at: string;
+}
+
+type SettingColumn = Exclude<keyof UserSettingsRow, "user_id" | "updated_at">;
+
+const COLUMNS: Record<keyof UserSettings, SettingColumn> = {
+  publicProfile: "public_profile",
+  emailNotifications: "email_notifications",
+  courseUpdates: "course_updates",
+  aiSuggestions: "ai_suggestions",
+  useLearningHistory: "use_learning_history",
+  careerPathAnalysis: "career_path_analysis",
+};
+
+const SETTING_KEYS = Object.keys(COLUMNS) as (keyof UserSettings)[];
+
+export function settingsFromRow(
+  row: Partial<UserSettingsRow> | null | undefined,
+): UserSettings {
+  const settings = { ...DEFAULT_USER_SETTINGS };
+  if (!row) return settings;
+  for (const key of SETTING_KEYS) {
+    const value = row[COLUMNS[key]];
+    if (typeof value === "boolean") settings[key] = value;
+  }
+  return settings;
+}
+
+export function settingsToRow(
+  settings: Partial<UserSettings>,
+): Partial<Pick<UserSettingsRow, SettingColumn>> {
+  const row: Partial<Pick<UserSettingsRow, SettingColumn>> = {};
+  for (const key of SETTING_KEYS) {
+    const value = settings[key];
+    if (value !== undefined) row[COLUMNS[key]] = value;
+  }
+  return row;
+}
+
+/**
+ * Validate a settings update: an object of known setting names with boolean values. Returns the
+ * update, or an error message naming the first bad field.
+ */
+export function parseSettingsUpdate(
+  value: unknown,
+):
+  | { ok: true; settings: Partial<UserSettings> }
+  | { ok: false; error: string } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { ok: false, error: "settings must be an object" };
+  }
+
+  const settings: Partial<UserSettings> = {};
+  for (const [key, setting] of Object.entries(value)) {
+    if (!SETTING_KEYS.includes(key as keyof UserSettings)) {
+      return { ok: false, error: `Unknown setting: ${key}` };
+    }
+    if (typeof setting !== "boolean") {
+      return { ok: false, error: `${key} must be a boolean` };
+    }
+    settings[key as keyof UserSettings] = setting;
+  }
+  return { ok: true, settings };
+}
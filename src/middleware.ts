@@ -1,28 +1,30 @@
-import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { updateSession } from '@/utils/supabase/middleware'
 
 // List of public routes that don't require authentication
-const publicRoutes = ['/signin', '/signup']
+const publicRoutes = ['/signin', '/signup', '/auth/callback']
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
 
-  // Check if the route is public
-  if (publicRoutes.includes(pathname)) {
-    return NextResponse.next()
-  }
+  // Keep the Supabase session fresh for pages and API routes alike
+  const { response, user } = await updateSession(request)
 
-  // Check for authentication token
-  const token = request.cookies.get('auth-token')
+  // API routes authorize each request themselves (see authorizeRequest), so they can answer
+  // with JSON errors instead of a redirect
+  if (pathname.startsWith('/api/') || publicRoutes.includes(pathname)) {
+    return response
+  }
 
-  // If no token is found, redirect to sign in
-  if (!token) {
+  // If nobody is signed in, redirect to sign in
+  if (!user) {
     const signInUrl = new URL('/signin', request.url)
     signInUrl.searchParams.set('redirect', pathname)
     return NextResponse.redirect(signInUrl)
   }
 
-  return NextResponse.next()
+  return response
 }
 
 // Configure which routes to run middleware on
@@ -30,11 +32,10 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!_next/static|_next/image|favicon.ico).*)',
   ],
-} 
\ No newline at end of file
+}
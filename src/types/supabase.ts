@@ -35,6 +35,61 @@ export interface Database {
           created_at?: string;
         };
       };
+      chat_sessions: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          title: string;
+          applied_recommendations: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          title: string;
+          applied_recommendations?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          title?: string;
+          applied_recommendations?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      course_watches: {
+        Row: {
+          id: string;
+          user_id: string;
+          course_id: number;
+          threshold: number;
+          notify_email: boolean;
+          last_seen_slots: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          course_id: number;
+          threshold?: number;
+          notify_email?: boolean;
+          last_seen_slots?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          course_id?: number;
+          threshold?: number;
+          notify_email?: boolean;
+          last_seen_slots?: number | null;
+          created_at?: string;
+        };
+      };
       guidelines: {
         Row: {
           id: string;
@@ -84,12 +139,88 @@ export interface Database {
           updated_at?: string;
         };
       };
+      seat_alerts: {
+        Row: {
+          id: string;
+          user_id: string;
+          course_id: number;
+          kind: string;
+          available_slots: number;
+          previous_slots: number;
+          created_at: string;
+          read_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          course_id: number;
+          kind: string;
+          available_slots: number;
+          previous_slots: number;
+          created_at?: string;
+          read_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          course_id?: number;
+          kind?: string;
+          available_slots?: number;
+          previous_slots?: number;
+          created_at?: string;
+          read_at?: string | null;
+        };
+      };
+      user_settings: {
+        Row: {
+          user_id: string;
+          public_profile: boolean;
+          email_notifications: boolean;
+          course_updates: boolean;
+          ai_suggestions: boolean;
+          use_learning_history: boolean;
+          career_path_analysis: boolean;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          public_profile?: boolean;
+          email_notifications?: boolean;
+          course_updates?: boolean;
+          ai_suggestions?: boolean;
+          use_learning_history?: boolean;
+          career_path_analysis?: boolean;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          public_profile?: boolean;
+          email_notifications?: boolean;
+          course_updates?: boolean;
+          ai_suggestions?: boolean;
+          use_learning_history?: boolean;
+          career_path_analysis?: boolean;
+          updated_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      public_student_profile: {
+        Args: {
+          profile_user_id: string;
+        };
+        Returns: Json;
+      };
+      record_seat_watch_run: {
+        Args: {
+          alerts: Json;
+          baselines: Json;
+        };
+        Returns: undefined;
+      };
     };
     Enums: {
       [_ in never]: never;
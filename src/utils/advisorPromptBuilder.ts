@@ -1,3 +1,6 @@
+import { formatMissingPrerequisites, type EligibilityChecker } from '@/lib/eligibility';
+import { formatPassagesForPrompt, packCourseCatalog, type RetrievedPassage } from '@/lib/retrieval';
+
 export interface Student {
   career_goal_id?: string; // This will store the career title after fetching from careers table
   preferred_subjects?: string[];
@@ -26,19 +29,61 @@ export interface Prerequisite {
   prerequisite_id: string;
 }
 
+export interface AdvisorPromptOptions {
+  // Adds each course's eligibility and the prerequisites the student is missing
+  checkEligibility?: EligibilityChecker;
+  // Retrieved policy and knowledge base passages for the model to cite
+  passages?: RetrievedPassage[];
+  // The student's question, used with their profile to rank the catalog
+  query?: string;
+  // Tokens the catalog section may use; defaults to ADVISOR_CATALOG_TOKENS or 6000
+  catalogTokenBudget?: number;
+  // False leaves the student's current courses out of the profile (the "Use Learning History"
+  // setting); eligibility is still checked against them
+  includeLearningHistory?: boolean;
+}
+
+// What made it into the prompt, so callers can log or surface the omitted courses
+export interface CatalogContextReport {
+  fullDetail: number;
+  compact: number;
+  dropped: Pick<Course, 'id' | 'title'>[];
+  estimatedTokens: number;
+  tokenBudget: number;
+}
+
+export interface AdvisorPrompt {
+  prompt: string;
+  catalog: CatalogContextReport;
+}
+
+const DEFAULT_CATALOG_TOKEN_BUDGET = Number(process.env.ADVISOR_CATALOG_TOKENS) || 6000;
+
 /**
  * Build a specialized prompt for university course advising
- * Optimized for complete data access and proper exploration
+ * The catalog is packed into a token budget: the courses most relevant to the query and profile
+ * get full detail, the rest one line each, and whatever does not fit is left out and reported
  */
-export function buildAdvisorPrompt(student: Student, courses: Course[], prerequisites: Prerequisite[]): string {
+export function buildAdvisorContext(
+  student: Student,
+  courses: Course[],
+  prerequisites: Prerequisite[],
+  {
+    checkEligibility,
+    passages = [],
+    query,
+    catalogTokenBudget = DEFAULT_CATALOG_TOKEN_BUDGET,
+    includeLearningHistory = true,
+  }: AdvisorPromptOptions = {},
+): AdvisorPrompt {
   console.log("Building advisor prompt with", courses.length, "courses and", prerequisites.length, "prerequisites");
   
   // Format student profile information with all details
   const profile = `Career Goal: ${student.career_goal_id || "N/A"}
 Subjects: ${student.preferred_subjects?.join(", ") || "N/A"}
 Study Time: ${student.weekly_study_availability?.hours || "N/A"} hrs
-Learning Mode: ${student.preferred_learning_mode || "Any"}
-Current Courses: ${student.current_courses_taken?.join(", ") || "None"}
+Learning Mode: ${student.preferred_learning_mode || "Any"}${includeLearningHistory ? `
+Current Courses: ${student.current_courses_taken?.join(", ") || "None"}` : ""}
 Credits: ${student.credits_completed || 0}
 Proficiency: ${student.technical_proficiency || "N/A"}
 Enrollment: ${student.enrollment_type || "N/A"}`;
@@ -55,37 +100,73 @@ Enrollment: ${student.enrollment_type || "N/A"}`;
   const courseMap = new Map();
   courses.forEach(c => courseMap.set(c.id, c.title));
 
-  // Format full course information with complete data
-  const availableCourses = courses.map(course => {
-    // Get prerequisites for this course using the map
-    const prereqIds = prereqMap.get(course.id) || [];
-    
+  const courseSummary = (course: Course) => {
     // Get prerequisite titles using the map
+    const prereqIds = prereqMap.get(course.id) || [];
     const prereqTitles = prereqIds.map((id: string) => courseMap.get(id) || id);
     
-    // Include full description without truncation
-    return `- ${course.title} (${course.credits} cr): Subject: ${course.subject || "General"}, Semester: ${course.semester || "Any"} - Prerequisites: ${prereqTitles.length ? prereqTitles.join(", ") : "None"}\nDescription: ${course.description || "No description available"}`;
-  }).join("\n\n");
+    const missing = checkEligibility ? checkEligibility(course.id).missingPrerequisites : [];
+    const eligibility = checkEligibility
+      ? ` - ${missing.length ? `NOT ELIGIBLE, missing: ${formatMissingPrerequisites(missing)}` : "Eligible"}`
+      : "";
+
+    return `- ${course.title} (ID ${course.id}, ${course.credits} cr): Subject: ${course.subject || "General"}, Semester: ${course.semester || "Any"} - Prerequisites: ${prereqTitles.length ? prereqTitles.join(", ") : "None"}${eligibility}`;
+  };
+
+  const catalog = packCourseCatalog(courses, {
+    query,
+    profile: [...(student.preferred_subjects || []), student.career_goal_id || ""],
+    tokenBudget: catalogTokenBudget,
+    formatFull: course => `${courseSummary(course)}\nDescription: ${course.description || "No description available"}`,
+    formatCompact: courseSummary,
+  });
+
+  const report: CatalogContextReport = {
+    fullDetail: catalog.full.length,
+    compact: catalog.compact.length,
+    dropped: catalog.dropped.map(course => ({ id: course.id, title: course.title })),
+    estimatedTokens: catalog.estimatedTokens,
+    tokenBudget: catalogTokenBudget,
+  };
+
+  const omitted = report.dropped.length
+    ? `\n\n${report.dropped.length} less relevant courses were left out for length. If the student asks about a course not listed here, say you do not have its details rather than guessing.`
+    : "";
+  const references = passages.length ? `\n${formatPassagesForPrompt(passages)}\n` : "";
 
   // Build a prompt that encourages the model to explore all available data
-  return `You are a friendly and knowledgeable university course advisor chatbot. Your job is to guide students based on their goals, interests, time availability, and past experience. Your responses should be tailored to the specific needs and questions of each student.
+  const prompt = `You are a friendly and knowledgeable university course advisor chatbot. Your job is to guide students based on their goals, interests, time availability, and past experience. Your responses should be tailored to the specific needs and questions of each student.
 
 Here is the student's complete profile:
 ${profile}
 
-Here is the complete course catalog with ${courses.length} courses:
-${availableCourses}
-
-You have access to ALL available courses and prerequisites in the database. Use this complete information to provide accurate and personalized guidance.
+Here is the course catalog, most relevant courses first (${report.fullDetail} with descriptions, ${report.compact} summarized):
+${catalog.text}${omitted}
+${references}
+Use the student's profile and the catalog above to provide accurate and personalized guidance.
 
 ✅ Response Guidelines:
 1. Always address the student's specific question directly.
 2. When discussing courses, reference specific courses from the catalog by name.
 3. When making recommendations, explain why those specific courses are suitable based on the student's profile.
-4. Consider prerequisites when suggesting courses - check if the student has completed necessary prerequisites.
-5. Make full use of the complete course catalog data to find the best matches.
+4. Consider prerequisites when suggesting courses - only recommend courses marked Eligible; for NOT ELIGIBLE courses, recommend the missing prerequisites instead.
+5. Make full use of the course catalog data to find the best matches.
 6. If the student is asking about a specific course, provide detailed information about that course.
-7. Be helpful, conversational, and provide personalized guidance based on ALL available data.
+7. Be helpful, conversational, and provide personalized guidance based on the available data.
 
-Remember: You have complete access to the student's profile and the entire course catalog. Use this comprehensive information to provide the most accurate and helpful responses.`;
-}
\ No newline at end of file
+Remember: Use the student's profile and the course catalog to provide the most accurate and helpful responses.`;
+
+  return { prompt, catalog: report };
+}
+
+/**
+ * The advisor system prompt alone, for callers that do not need the catalog report
+ */
+export function buildAdvisorPrompt(
+  student: Student,
+  courses: Course[],
+  prerequisites: Prerequisite[],
+  options: AdvisorPromptOptions = {},
+): string {
+  return buildAdvisorContext(student, courses, prerequisites, options).prompt;
+}
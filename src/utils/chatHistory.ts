@@ -1,49 +1,392 @@
+import type { CourseRecommendation } from '@/context/RecommendationsContext';
+import { createClient } from './supabase/server';
+
+type ChatHistoryClient = Awaited<ReturnType<typeof createClient>>;
+
 export interface ChatMessage {
   id?: string;
   sessionId: string;
+  // Null for anonymous sessions
+  userId?: string | null;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp?: number;
 }
 
-// In-memory storage for chat messages
-const chatSessions: Record<string, ChatMessage[]> = {};
+export interface ChatSession {
+  id: string;
+  userId: string | null;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  // Dashboard courses last applied from this conversation
+  appliedRecommendations: CourseRecommendation[];
+}
+
+export interface ChatSessionChanges {
+  title?: string;
+  appliedRecommendations?: CourseRecommendation[];
+}
+
+export interface ChatSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  // Null when only the session title or its applied courses matched
+  messageId: string | null;
+  snippet: string;
+}
 
 /**
- * Save a chat message to the in-memory store
+ * Storage for chat sessions and their messages. A session belongs to the user who started it;
+ * reads and writes for another user's session behave as if the session did not exist.
  */
-export function saveChatMessage(message: ChatMessage): ChatMessage {
-  const timestamp = Date.now();
-  const id = `msg_${timestamp}`;
-  
-  const newMessage: ChatMessage = {
-    ...message,
-    id,
-    timestamp,
-  };
-  
-  if (!chatSessions[message.sessionId]) {
-    chatSessions[message.sessionId] = [];
+export interface ChatHistoryStore {
+  getHistory(sessionId: string, userId?: string | null): Promise<ChatMessage[]>;
+  // Creates the session on its first message, titled after the first user message
+  saveMessage(message: ChatMessage): Promise<ChatMessage>;
+  // Most recently active first
+  listSessions(userId: string): Promise<ChatSession[]>;
+  updateSession(sessionId: string, userId: string, changes: ChatSessionChanges): Promise<boolean>;
+  deleteSession(sessionId: string, userId: string): Promise<boolean>;
+  // Sessions and messages containing every query term, most recently active session first
+  searchSessions(userId: string, query: string, limit?: number): Promise<ChatSearchResult[]>;
+}
+
+export class ChatSessionAccessError extends Error {
+  constructor(sessionId: string) {
+    super(`Chat session ${sessionId} belongs to another user`);
+    this.name = 'ChatSessionAccessError';
   }
-  
-  chatSessions[message.sessionId].push(newMessage);
-  return newMessage;
 }
 
+const DEFAULT_SESSION_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 60;
+const DEFAULT_SEARCH_LIMIT = 30;
+// Matching messages read per search, newest first
+const MAX_SEARCHED_MESSAGES = 500;
+
 /**
- * Get chat history for a session
+ * Session title derived from a message: first line, whitespace collapsed, cut at a word boundary
  */
-export function getChatHistory(sessionId: string): ChatMessage[] {
-  return chatSessions[sessionId] || [];
+export function sessionTitleFrom(content: string): string {
+  const firstLine = content.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (firstLine.length <= MAX_TITLE_LENGTH) return firstLine || DEFAULT_SESSION_TITLE;
+
+  const cut = firstLine.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+function searchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function containsTerms(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase();
+  return terms.every(term => lower.includes(term));
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 40);
+  const end = Math.min(text.length, index + length + 80);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
 }
 
 /**
- * Delete a chat session
+ * Search results grouped by session in the order given: a session whose title or applied course
+ * titles match comes first, then its matching messages newest first. So "AI courses" finds the
+ * conversation those courses were picked in.
  */
-export function deleteChatSession(sessionId: string): boolean {
-  if (chatSessions[sessionId]) {
-    delete chatSessions[sessionId];
-    return true;
+function collectSearchResults(
+  sessions: ChatSession[],
+  messages: ChatMessage[],
+  terms: string[],
+  limit: number
+): ChatSearchResult[] {
+  const newestFirst = [...messages].sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+  const results: ChatSearchResult[] = [];
+
+  for (const session of sessions) {
+    const appliedTitles = session.appliedRecommendations.map(rec => rec.title).join(', ');
+    if (containsTerms(`${session.title} ${appliedTitles}`, terms)) {
+      results.push({
+        sessionId: session.id,
+        sessionTitle: session.title,
+        messageId: null,
+        snippet: appliedTitles ? `Applied: ${appliedTitles}` : session.title,
+      });
+    }
+
+    for (const message of newestFirst) {
+      if (message.sessionId !== session.id || message.role === 'system' || !containsTerms(message.content, terms)) {
+        continue;
+      }
+      results.push({
+        sessionId: session.id,
+        sessionTitle: session.title,
+        messageId: message.id ?? null,
+        snippet: snippetAround(message.content, message.content.toLowerCase().indexOf(terms[0]), terms[0].length),
+      });
+    }
+
+    if (results.length >= limit) break;
   }
-  return false;
-} 
\ No newline at end of file
+  return results.slice(0, limit);
+}
+
+/**
+ * Process-local store. History is lost on restart and not shared between serverless instances,
+ * so it only suits tests and offline runs.
+ */
+export function createMemoryChatHistoryStore(): ChatHistoryStore {
+  const sessions = new Map<string, ChatSession>();
+  const messages = new Map<string, ChatMessage[]>();
+
+  const ownedSession = (sessionId: string, userId?: string | null) => {
+    const session = sessions.get(sessionId);
+    return session && session.userId === (userId ?? null) ? session : undefined;
+  };
+
+  const listSessions = async (userId: string) =>
+    [...sessions.values()]
+      .filter(session => session.userId === userId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  return {
+    async getHistory(sessionId, userId) {
+      return ownedSession(sessionId, userId) ? [...(messages.get(sessionId) || [])] : [];
+    },
+
+    async saveMessage(message) {
+      const now = new Date();
+      const userId = message.userId ?? null;
+      const existing = sessions.get(message.sessionId);
+
+      if (existing && existing.userId !== userId) {
+        throw new ChatSessionAccessError(message.sessionId);
+      }
+      sessions.set(message.sessionId, {
+        id: message.sessionId,
+        userId,
+        title: existing?.title
+          ?? (message.role === 'user' ? sessionTitleFrom(message.content) : DEFAULT_SESSION_TITLE),
+        createdAt: existing?.createdAt ?? now.toISOString(),
+        updatedAt: now.toISOString(),
+        appliedRecommendations: existing?.appliedRecommendations ?? [],
+      });
+
+      const saved: ChatMessage = {
+        ...message,
+        userId,
+        id: `msg_${now.getTime()}_${messages.get(message.sessionId)?.length ?? 0}`,
+        timestamp: now.getTime(),
+      };
+      messages.set(message.sessionId, [...(messages.get(message.sessionId) || []), saved]);
+      return saved;
+    },
+
+    listSessions,
+
+    async updateSession(sessionId, userId, changes) {
+      const session = ownedSession(sessionId, userId);
+      if (!session) return false;
+      sessions.set(sessionId, { ...session, ...changes });
+      return true;
+    },
+
+    async deleteSession(sessionId, userId) {
+      if (!ownedSession(sessionId, userId)) return false;
+      sessions.delete(sessionId);
+      messages.delete(sessionId);
+      return true;
+    },
+
+    async searchSessions(userId, query, limit = DEFAULT_SEARCH_LIMIT) {
+      const terms = searchTerms(query);
+      if (terms.length === 0) return [];
+      const owned = await listSessions(userId);
+      return collectSearchResults(owned, owned.flatMap(session => messages.get(session.id) || []), terms, limit);
+    },
+  };
+}
+
+type MessageRow = {
+  id: string;
+  session_id: string;
+  user_id: string | null;
+  role: string;
+  content: string;
+  created_at: string;
+};
+
+/**
+ * Store backed by the `chat_sessions` and `chat_messages` tables. Without a `client` each call
+ * goes through the signed-in user's session, so row level security applies on top of the
+ * `userId` checks here.
+ */
+export function createSupabaseChatHistoryStore(client?: ChatHistoryClient): ChatHistoryStore {
+  const connect = async () => client ?? (await createClient());
+
+  const toMessage = (row: MessageRow): ChatMessage => ({
+    id: row.id,
+    sessionId: row.session_id,
+    userId: row.user_id,
+    role: row.role as ChatMessage['role'],
+    content: row.content,
+    timestamp: new Date(row.created_at).getTime(),
+  });
+
+  const ownedSession = async (sessionId: string, userId?: string | null) => {
+    let query = (await connect())
+      .from('chat_sessions')
+      .select('id, user_id')
+      .eq('id', sessionId);
+    query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw new Error(`Failed to load chat session: ${error.message}`);
+    return data;
+  };
+
+  const listSessions = async (userId: string): Promise<ChatSession[]> => {
+    const client = await connect();
+    const { data, error } = await client
+      .from('chat_sessions')
+      .select('id, user_id, title, applied_recommendations, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+    if (error) throw new Error(`Failed to list chat sessions: ${error.message}`);
+
+    return (data || []).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      title: row.title,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      appliedRecommendations: (row.applied_recommendations ?? []) as CourseRecommendation[],
+    }));
+  };
+
+  return {
+    async getHistory(sessionId, userId) {
+      if (!(await ownedSession(sessionId, userId))) return [];
+
+      const client = await connect();
+      const { data, error } = await client
+        .from('chat_messages')
+        .select('id, session_id, user_id, role, content, created_at')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true });
+      if (error) throw new Error(`Failed to load chat history: ${error.message}`);
+
+      return (data || []).map(toMessage);
+    },
+
+    async saveMessage(message) {
+      const client = await connect();
+      const userId = message.userId ?? null;
+      const now = new Date().toISOString();
+
+      const { data: session, error: sessionError } = await client
+        .from('chat_sessions')
+        .select('id, user_id')
+        .eq('id', message.sessionId)
+        .maybeSingle();
+      if (sessionError) throw new Error(`Failed to load chat session: ${sessionError.message}`);
+
+      if (!session) {
+        const { error } = await client.from('chat_sessions').insert({
+          id: message.sessionId,
+          user_id: userId,
+          title: message.role === 'user' ? sessionTitleFrom(message.content) : DEFAULT_SESSION_TITLE,
+        });
+        if (error) throw new Error(`Failed to create chat session: ${error.message}`);
+      } else if (session.user_id !== userId) {
+        throw new ChatSessionAccessError(message.sessionId);
+      } else {
+        const { error } = await client
+          .from('chat_sessions')
+          .update({ updated_at: now })
+          .eq('id', message.sessionId);
+        if (error) throw new Error(`Failed to update chat session: ${error.message}`);
+      }
+
+      const { data, error } = await client
+        .from('chat_messages')
+        .insert({
+          session_id: message.sessionId,
+          user_id: userId,
+          role: message.role,
+          content: message.content,
+        })
+        .select('id, created_at')
+        .single();
+      if (error || !data) throw new Error(`Failed to save chat message: ${error?.message}`);
+
+      return { ...message, userId, id: data.id, timestamp: new Date(data.created_at).getTime() };
+    },
+
+    listSessions,
+
+    async updateSession(sessionId, userId, changes) {
+      const client = await connect();
+      const { data, error } = await client
+        .from('chat_sessions')
+        .update({
+          ...(changes.title !== undefined && { title: changes.title }),
+          ...(changes.appliedRecommendations !== undefined && {
+            applied_recommendations: changes.appliedRecommendations,
+          }),
+        })
+        .eq('id', sessionId)
+        .eq('user_id', userId)
+        .select('id');
+      if (error) throw new Error(`Failed to update chat session: ${error.message}`);
+      return (data || []).length > 0;
+    },
+
+    async deleteSession(sessionId, userId) {
+      if (!(await ownedSession(sessionId, userId))) return false;
+
+      const client = await connect();
+      const { error: messagesError } = await client
+        .from('chat_messages')
+        .delete()
+        .eq('session_id', sessionId);
+      if (messagesError) throw new Error(`Failed to delete chat messages: ${messagesError.message}`);
+
+      const { error } = await client
+        .from('chat_sessions')
+        .delete()
+        .eq('id', sessionId)
+        .eq('user_id', userId);
+      if (error) throw new Error(`Failed to delete chat session: ${error.message}`);
+      return true;
+    },
+
+    async searchSessions(userId, query, limit = DEFAULT_SEARCH_LIMIT) {
+      const terms = searchTerms(query);
+      if (terms.length === 0) return [];
+
+      const sessions = await listSessions(userId);
+      // ilike narrows the rows read; `%` or `_` typed in a term only widen it, and
+      // collectSearchResults checks each term literally
+      let messages = (await connect())
+        .from('chat_messages')
+        .select('id, session_id, user_id, role, content, created_at')
+        .eq('user_id', userId)
+        .neq('role', 'system');
+      for (const term of terms) messages = messages.ilike('content', `%${term}%`);
+
+      const { data, error } = await messages
+        .order('created_at', { ascending: false })
+        .limit(MAX_SEARCHED_MESSAGES);
+      if (error) throw new Error(`Failed to search chat messages: ${error.message}`);
+
+      return collectSearchResults(sessions, (data || []).map(toMessage), terms, limit);
+    },
+  };
+}
+
+// Used by /api/chat and the session routes
+export const chatHistoryStore = createSupabaseChatHistoryStore();
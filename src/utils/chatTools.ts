@@ -0,0 +1,307 @@
+import { defineTool, type AgentTool } from '@/lib/agent';
+import { getCourseAvailabilityData, getEnrollmentForecasts } from '@/lib/courseAvailability';
+import type { EnrollmentForecast } from '@/lib/enrollmentForecast';
+import { DIFFICULTY_LEVELS, getDifficultyLevel } from '@/lib/difficulty';
+import { createEligibilityChecker, type EligibilityChecker } from '@/lib/eligibility';
+import { array, boolean, integer, literal, number, object, optional, string } from '@/lib/llm/schema';
+import { buildPrerequisiteGraph, directPrerequisites, type PrerequisiteRow } from '@/lib/prerequisites';
+import { findOverlaps, isTimeSlotError, normalizeTimeSlot, parseTimeSlot, WEEKDAY_NAMES } from '@/lib/timeSlot';
+import { getCourseSearchIndex } from './courseSearch';
+import { selectAllRows } from './supabase/paging';
+import type { createClient } from './supabase/server';
+import supabaseClient from './supabaseClient';
+
+interface CatalogCourse {
+  id: number;
+  title: string;
+  description: string | null;
+  credits: number;
+  subject: string | null;
+  semester: string | null;
+  time_slots: unknown;
+  hours_required: number | null;
+  career_paths: string[] | null;
+}
+
+export interface ChatToolContext {
+  // Course IDs the student has completed, for eligibility; empty for anonymous users
+  completedCourseIds: (string | number)[];
+  // The session client of the request being answered
+  client?: typeof supabaseClient | Awaited<ReturnType<typeof createClient>>;
+  loadAvailability?: (courseIds: number[]) => Promise<Record<number, number>>;
+  loadForecasts?: (courseIds: number[]) => Promise<Record<number, EnrollmentForecast>>;
+  // False leaves out proposeRecommendationSet, for students who turned AI course suggestions off
+  allowRecommendations?: boolean;
+}
+
+export interface ChatToolSet {
+  tools: AgentTool[];
+  // Course IDs accepted by proposeRecommendationSet, or null if nothing was proposed
+  proposal(): number[] | null;
+}
+
+function occupancyPercent(availability: Record<number, number>, courseId: number): number | null {
+  const score = availability[courseId];
+  return score === undefined ? null : Math.round((1 - score) * 100);
+}
+
+/**
+ * Tools the chat agent uses to look courses up instead of reading the whole catalog. Catalog,
+ * prerequisite and availability data are loaded from Supabase on first use and shared by every
+ * call in the same conversation turn.
+ */
+export function createChatTools({
+  completedCourseIds,
+  client = supabaseClient,
+  loadAvailability = courseIds => getCourseAvailabilityData(courseIds, client),
+  loadForecasts = courseIds => getEnrollmentForecasts(courseIds, undefined, client),
+  allowRecommendations = true,
+}: ChatToolContext): ChatToolSet {
+  let catalogPromise: Promise<CatalogCourse[]> | null = null;
+  let prerequisitesPromise: Promise<PrerequisiteRow[]> | null = null;
+  let proposal: number[] | null = null;
+  const completed = new Set(completedCourseIds.map(String));
+  // Completed courses are never worth recommending again, whatever their prerequisites say
+  const isCompleted = (courseId: number) => completed.has(String(courseId));
+
+  const loadCatalog = () => {
+    catalogPromise ??= (async () => {
+      const { data, error } = await selectAllRows((from, to) =>
+        client
+          .from('courses')
+          .select('id, title, description, credits, subject, semester, time_slots, hours_required, career_paths')
+          .order('id')
+          .range(from, to),
+      );
+      if (error) throw new Error(`Failed to load courses: ${error.message}`);
+      return (data || []) as CatalogCourse[];
+    })();
+    return catalogPromise;
+  };
+
+  const loadPrerequisites = () => {
+    prerequisitesPromise ??= (async () => {
+      const { data, error } = await client.from('prerequisites').select('course_id, prerequisite_id');
+      if (error) throw new Error(`Failed to load prerequisites: ${error.message}`);
+      return (data || []) as PrerequisiteRow[];
+    })();
+    return prerequisitesPromise;
+  };
+
+  const loadEligibility = async (): Promise<EligibilityChecker> =>
+    createEligibilityChecker({
+      prerequisites: await loadPrerequisites(),
+      completedCourseIds,
+      courses: await loadCatalog(),
+    });
+
+  // Unknown IDs are an error the model can correct, not an empty result
+  const findCourses = async (courseIds: number[]) => {
+    const catalog = await loadCatalog();
+    const unknown = courseIds.filter(id => !catalog.some(course => course.id === id));
+    if (unknown.length) throw new Error(`Unknown course IDs: ${unknown.join(', ')}`);
+    return courseIds.map(id => catalog.find(course => course.id === id) as CatalogCourse);
+  };
+
+  const summarize = (course: CatalogCourse, checkEligibility: EligibilityChecker, availability: Record<number, number>) => {
+    const { eligible, missingPrerequisites } = checkEligibility(course.id);
+    return {
+      id: course.id,
+      title: course.title,
+      subject: course.subject,
+      credits: course.credits,
+      difficulty: getDifficultyLevel(course.hours_required),
+      semester: course.semester,
+      timeSlot: normalizeTimeSlot(course.time_slots),
+      occupancyPercent: occupancyPercent(availability, course.id),
+      completed: isCompleted(course.id),
+      eligible,
+      missingPrerequisites: missingPrerequisites.map(missing => missing.title),
+    };
+  };
+
+  // Courses whose slot cannot be read are reported as unscheduled rather than checked
+  const conflictsAmong = (courses: CatalogCourse[]) => {
+    const conflicts: { first: string; second: string; days: string[] }[] = [];
+    const unscheduled: string[] = [];
+    const scheduled = courses.flatMap(course => {
+      const slot = parseTimeSlot(course.time_slots);
+      if (!isTimeSlotError(slot)) return [{ course, slot }];
+      unscheduled.push(course.title);
+      return [];
+    });
+
+    for (const [index, first] of scheduled.entries()) {
+      for (const second of scheduled.slice(index + 1)) {
+        const overlaps = findOverlaps(first.slot, second.slot);
+        if (overlaps.length > 0) {
+          conflicts.push({
+            first: first.course.title,
+            second: second.course.title,
+            days: [...new Set(overlaps.map(overlap => WEEKDAY_NAMES[overlap.first.day]))],
+          });
+        }
+      }
+    }
+    return { conflicts, unscheduled };
+  };
+
+  const tools = [
+    defineTool({
+      name: 'searchCourses',
+      description: 'Find catalog courses by topic and filters. Returns summaries ordered by relevance. eligibleOnly leaves out courses the student has completed or cannot take yet.',
+      parameters: '{ "query"?: string, "subject"?: string, "difficulty"?: "Beginner" | "Intermediate" | "Advanced" | "Expert", "semester"?: string, "maxOccupancyPercent"?: number, "eligibleOnly"?: boolean, "limit"?: number }',
+      schema: object({
+        query: optional(string()),
+        subject: optional(string()),
+        difficulty: optional(literal(...DIFFICULTY_LEVELS)),
+        semester: optional(string()),
+        maxOccupancyPercent: optional(number()),
+        eligibleOnly: optional(boolean()),
+        limit: optional(integer()),
+      }),
+      async run(filters) {
+        const catalog = await loadCatalog();
+        const checkEligibility = await loadEligibility();
+
+        let matches = catalog;
+        if (filters.query?.trim()) {
+          // The catalog search index; queries from the model are sentences, so partial matches count
+          const index = await getCourseSearchIndex(client);
+          const byId = new Map(catalog.map(course => [course.id, course]));
+          matches = index
+            .search(filters.query, { limit: index.size, matchAll: false })
+            .flatMap(({ course }) => byId.get(course.id) ?? []);
+        }
+
+        const subject = filters.subject?.toLowerCase();
+        const semester = filters.semester?.toLowerCase();
+        const limit = Math.min(Math.max(filters.limit ?? 8, 1), 20);
+        let results = matches
+          .filter(course => !subject || course.subject?.toLowerCase().includes(subject))
+          .filter(course => !semester || course.semester?.toLowerCase().includes(semester))
+          .filter(course => !filters.difficulty || getDifficultyLevel(course.hours_required) === filters.difficulty)
+          .filter(course => !filters.eligibleOnly || (!isCompleted(course.id) && checkEligibility(course.id).eligible));
+
+        // Forecasts are only loaded for the courses that can still make the results
+        const { maxOccupancyPercent } = filters;
+        const candidates = maxOccupancyPercent === undefined ? results.slice(0, limit) : results;
+        const availability = await loadAvailability(candidates.map(course => course.id));
+        if (maxOccupancyPercent !== undefined) {
+          results = results.filter(course => {
+            const occupancy = occupancyPercent(availability, course.id);
+            return occupancy !== null && occupancy <= maxOccupancyPercent;
+          });
+        }
+
+        return {
+          total: results.length,
+          courses: results.slice(0, limit).map(course => summarize(course, checkEligibility, availability)),
+        };
+      },
+    }),
+
+    defineTool({
+      name: 'getCourse',
+      description: 'Full details of one course: description, prerequisites, eligibility, schedule and occupancy.',
+      parameters: '{ "courseId": number }',
+      schema: object({ courseId: integer() }),
+      async run({ courseId }) {
+        const [course] = await findCourses([courseId]);
+        const [catalog, prerequisites, checkEligibility, availability] = await Promise.all([
+          loadCatalog(),
+          loadPrerequisites(),
+          loadEligibility(),
+          loadAvailability([courseId]),
+        ]);
+        const prerequisiteTitles = directPrerequisites(buildPrerequisiteGraph(prerequisites), courseId)
+          .map(id => catalog.find(candidate => String(candidate.id) === id)?.title ?? `Course ${id}`);
+
+        return {
+          ...summarize(course, checkEligibility, availability),
+          description: course.description,
+          hoursPerWeek: course.hours_required,
+          careerPaths: course.career_paths ?? [],
+          prerequisites: prerequisiteTitles,
+        };
+      },
+    }),
+
+    defineTool({
+      name: 'checkPrerequisites',
+      description: "Whether the student can take a course, and which prerequisites they are missing (including indirect ones).",
+      parameters: '{ "courseId": number }',
+      schema: object({ courseId: integer() }),
+      async run({ courseId }) {
+        const [course] = await findCourses([courseId]);
+        const { eligible, missingPrerequisites } = (await loadEligibility())(courseId);
+        return { courseId, title: course.title, completed: isCompleted(courseId), eligible, missingPrerequisites };
+      },
+    }),
+
+    defineTool({
+      name: 'getAvailability',
+      description: 'Forecast occupancy for next term from enrollment history, with an 80% range and the registration day the course is expected to fill up. Mention the range when it is wide.',
+      parameters: '{ "courseIds": number[] }',
+      schema: object({ courseIds: array(integer(), { min: 1, max: 20 }) }),
+      async run({ courseIds }) {
+        const courses = await findCourses(courseIds);
+        const forecasts = await loadForecasts(courseIds);
+        return courses.map(course => {
+          const forecast = forecasts[course.id];
+          // Null forecast when there is no enrollment history
+          return {
+            courseId: course.id,
+            title: course.title,
+            forecast: forecast ? {
+              term: forecast.term,
+              occupancyPercent: Math.round(forecast.fillRate * 100),
+              rangePercent: [Math.round(forecast.low * 100), Math.round(forecast.high * 100)],
+              confidence: forecast.confidence,
+              termsOfHistory: forecast.sampleSize,
+              fillsUpByRegistrationDay: forecast.fillsUpByDay,
+              mayFillUpByRegistrationDay: forecast.earliestFillUpDay,
+              registrationDays: forecast.registrationDays,
+            } : null,
+          };
+        });
+      },
+    }),
+
+    defineTool({
+      name: 'checkScheduleConflicts',
+      description: 'Whether the given courses can be taken together without overlapping meeting times.',
+      parameters: '{ "courseIds": number[] }',
+      schema: object({ courseIds: array(integer(), { min: 2, max: 8 }) }),
+      async run({ courseIds }) {
+        const { conflicts, unscheduled } = conflictsAmong(await findCourses(courseIds));
+        return { conflictFree: conflicts.length === 0, conflicts, unscheduled };
+      },
+    }),
+
+    defineTool({
+      name: 'proposeRecommendationSet',
+      description: 'Submit the courses you are recommending. Accepted only if the student has not completed any of them, every course is eligible and the set has no schedule conflicts; otherwise fix the problems and propose again.',
+      parameters: '{ "courseIds": number[] }',
+      schema: object({ courseIds: array(integer(), { min: 1, max: 6 }) }),
+      async run({ courseIds }) {
+        const courses = await findCourses([...new Set(courseIds)]);
+        const checkEligibility = await loadEligibility();
+        const alreadyCompleted = courses.filter(course => isCompleted(course.id)).map(course => course.title);
+        const ineligible = courses
+          .filter(course => !checkEligibility(course.id).eligible)
+          .map(course => ({ title: course.title, missing: checkEligibility(course.id).missingPrerequisites.map(missing => missing.title) }));
+        const { conflicts } = conflictsAmong(courses);
+
+        const accepted = alreadyCompleted.length === 0 && ineligible.length === 0 && conflicts.length === 0;
+        if (accepted) proposal = courses.map(course => course.id);
+        return { accepted, alreadyCompleted, ineligible, conflicts };
+      },
+    }),
+  ];
+
+  return {
+    tools: allowRecommendations ? tools : tools.filter(tool => tool.name !== 'proposeRecommendationSet'),
+    proposal: () => proposal,
+  };
+}
@@ -0,0 +1,70 @@
+import {
+  createCourseSearchIndex,
+  type CourseSearchHit,
+  type CourseSearchIndex,
+  type SearchableCourse,
+} from '@/lib/retrieval';
+import { selectAllRows } from './supabase/paging';
+import supabaseClient from './supabaseClient';
+
+// Same refresh window as the advisor retrieval index
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+// Searched fields plus what the catalog filters, sorts and counts search results by
+const INDEX_COLUMNS =
+  'id, title, description, keywords, career_paths, instructor, subject, semester, credits, learning_mode, is_elective, available_slots';
+
+export interface IndexedCourse extends SearchableCourse {
+  subject: string | null;
+  semester: string | null;
+  credits: number | null;
+  learning_mode: string | null;
+  is_elective: boolean | null;
+  // As of the last rebuild, so only good enough for ordering; show the live value
+  available_slots: number | null;
+}
+
+export type CourseSearchResult = CourseSearchHit<IndexedCourse>;
+
+let cached: { index: CourseSearchIndex<IndexedCourse>; builtAt: number } | null = null;
+let pending: Promise<CourseSearchIndex<IndexedCourse>> | null = null;
+
+async function loadIndex(client = supabaseClient): Promise<CourseSearchIndex<IndexedCourse>> {
+  const { data, error } = await selectAllRows((from, to) =>
+    client.from('courses').select(INDEX_COLUMNS).order('id').range(from, to),
+  );
+  if (error) throw new Error(`Failed to load courses for search: ${error.message}`);
+  const rows = (data || []) as unknown as (IndexedCourse & { career_paths: string[] | null })[];
+  // Career paths are searched as keywords, so "data scientist" finds the courses that lead there
+  return createCourseSearchIndex(
+    rows.map(({ career_paths, ...course }) => ({
+      ...course,
+      keywords: [course.keywords ?? '', ...(career_paths ?? [])].flat().filter(Boolean),
+    })),
+  );
+}
+
+/**
+ * Course search index behind the catalog search, the course picker and the chat assistant,
+ * rebuilt at most every INDEX_TTL_MS. Concurrent callers share one rebuild. A client other than
+ * the default one gets a fresh, uncached index.
+ */
+export async function getCourseSearchIndex(client = supabaseClient): Promise<CourseSearchIndex<IndexedCourse>> {
+  if (client !== supabaseClient) return loadIndex(client);
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached.index;
+
+  pending ??= loadIndex()
+    .then(index => {
+      cached = { index, builtAt: Date.now() };
+      return index;
+    })
+    .finally(() => {
+      pending = null;
+    });
+  return pending;
+}
+
+// Drop the cached index, e.g. right after editing courses
+export function invalidateCourseSearchIndex() {
+  cached = null;
+}
@@ -1,18 +1,14 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { buildSystemPrompt, getRelevantKnowledge } from './promptBuilder';
-import { saveChatMessage, type ChatMessage } from './chatHistory';
+import { complete, stream, type LLMMessage, type LLMRequest } from '@/lib/llm';
+import { runAgent, type AgentResult } from '@/lib/agent';
+import { checkRecommendedCourses, createEligibilityChecker, type CourseEligibility, type EligibilityChecker } from '@/lib/eligibility';
+import { buildSystemPrompt } from './promptBuilder';
+import { POLICY_SOURCES, retrievePassages } from './retrieval';
+import { chatHistoryStore, type ChatHistoryStore, type ChatMessage } from './chatHistory';
 import { v4 as uuidv4 } from 'uuid';
-import { buildAdvisorPrompt, type Student, type Course, type Prerequisite } from './advisorPromptBuilder';
-import supabaseClient from './supabaseClient';
-
-// Initialize AI client with Gemini model
-const ai = new GoogleGenerativeAI(process.env.OPENAI_API_KEY || '');
-
-// Default model to use - Gemini 1.5 Flash
-const DEFAULT_MODEL = 'gemini-1.5-flash';
-
-// Get model instance
-const model = ai.getGenerativeModel({ model: DEFAULT_MODEL });
+import { buildAdvisorContext, type CatalogContextReport, type Student, type Course, type Prerequisite } from './advisorPromptBuilder';
+import { createClient } from './supabase/server';
+import { createChatTools, type ChatToolSet } from './chatTools';
+import { getUserSettingsOrDefaults } from './userSettings';
 
 export interface ChatRequest {
   message: string;
@@ -22,230 +18,380 @@ export interface ChatRequest {
   projectContext?: string;
   history?: ChatMessage[];
   useAdvisorMode?: boolean;
+  // Session client the request was authorized with; student and catalog data are read through it
+  client?: Awaited<ReturnType<typeof createClient>>;
 }
 
 export interface ChatResponse {
   answer: string;
   sessionId: string;
+  // Advisor mode only: prerequisite check for each course in recommendedCourses
+  courseEligibility?: CourseEligibility[];
+  // Advisor mode only: catalog courses left out of the prompt to fit the token budget
+  omittedCourses?: CatalogContextReport['dropped'];
+  // Course IDs the agent proposed and the tools accepted as eligible and conflict-free
+  recommendedCourses?: number[];
+  // Tools the agent called for this answer, in order
+  toolCalls?: { tool: string; arguments: unknown; failed: boolean }[];
+}
+
+export type ChatStreamEvent =
+  | { type: 'tool'; tool: string }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ChatResponse };
+
+// The catalog overview in the advisor prompt can be short because the agent looks details up
+const AGENT_CATALOG_TOKENS = 1500;
+
+interface PreparedChat {
+  sessionId: string;
+  messages: LLMMessage[];
+  tools: ChatToolSet;
+  advisor?: {
+    courses: Course[];
+    checkEligibility: EligibilityChecker;
+    catalog: CatalogContextReport;
+  };
 }
 
 /**
- * Process a chat message and get a response from the AI
+ * Build the LLM messages for a chat request, fetching advisor data when requested
  */
-export async function processChatMessage(request: ChatRequest): Promise<ChatResponse> {
-  try {
-    // Generate a session ID if not provided
-    const sessionId = request.sessionId || uuidv4();
-    
-    // Get chat history or use the provided history
-    const history = request.history || [];
-    
-    let systemPrompt: string;
-    
-    // Check if advisor mode is requested
-    if (request.useAdvisorMode) {
-      try {
-        console.log("Fetching data for advisor mode...");
+async function prepareChat(request: ChatRequest): Promise<PreparedChat> {
+  // Generate a session ID if not provided
+  const sessionId = request.sessionId || uuidv4();
+  
+  // Get chat history or use the provided history
+  const history = request.history || [];
+  
+  let systemPrompt: string;
+  let advisor: PreparedChat['advisor'];
+  let completedCourseIds: string[] = [];
+  const client = request.client ?? (await createClient());
+  const settings = await getUserSettingsOrDefaults(request.userId, client);
+  
+  // Check if advisor mode is requested
+  if (request.useAdvisorMode) {
+    try {
+      console.log("Fetching data for advisor mode...");
+      
+      // Fetch student data from Supabase using userId
+      let student: Student | null = null;
+      let courses: Course[] = [];
+      let prerequisites: Prerequisite[] = [];
+      
+      if (request.userId) {
+        console.log("Fetching student with user_id:", request.userId);
         
-        // Fetch student data from Supabase using userId
-        let student: Student | null = null;
-        let courses: Course[] = [];
-        let prerequisites: Prerequisite[] = [];
+        // Fetch student data - match with user_id field from the students table
+        const { data: studentData, error: studentError } = await client
+          .from('students')
+          .select(`
+            id,
+            user_id,
+            full_name,
+            email,
+            career_goal_id,
+            enrollment_type,
+            credits_completed,
+            preferred_subjects,
+            preferred_learning_mode,
+            current_courses_taken,
+            weekly_study_availability,
+            technical_proficiency
+          `)
+          .eq('user_id', request.userId)
+          .single();
         
-        if (request.userId) {
-          console.log("Fetching student with user_id:", request.userId);
-          
-          // Fetch student data - match with user_id field from the students table
-          const { data: studentData, error: studentError } = await supabaseClient
-            .from('students')
-            .select(`
-              id,
-              user_id,
-              full_name,
-              email,
-              career_goal_id,
-              enrollment_type,
-              credits_completed,
-              preferred_subjects,
-              preferred_learning_mode,
-              current_courses_taken,
-              weekly_study_availability,
-              technical_proficiency
-            `)
-            .eq('user_id', request.userId)
-            .single();
+        if (studentError) {
+          console.error("Error fetching student data:", studentError);
+        }
+        
+        if (studentData) {
+          console.log("Found student data:", studentData);
           
-          if (studentError) {
-            console.error("Error fetching student data:", studentError);
-          }
+          // Transform to match our interface
+          student = {
+            career_goal_id: studentData.career_goal_id,
+            preferred_subjects: studentData.preferred_subjects,
+            weekly_study_availability: studentData.weekly_study_availability,
+            preferred_learning_mode: studentData.preferred_learning_mode,
+            current_courses_taken: studentData.current_courses_taken,
+          };
           
-          if (studentData) {
-            console.log("Found student data:", studentData);
-            
-            // Transform to match our interface
-            student = {
-              career_goal_id: studentData.career_goal_id,
-              preferred_subjects: studentData.preferred_subjects,
-              weekly_study_availability: studentData.weekly_study_availability,
-              preferred_learning_mode: studentData.preferred_learning_mode,
-              current_courses_taken: studentData.current_courses_taken,
-            };
-            
-            // Get career name if available
-            if (studentData.career_goal_id) {
-              const { data: careerData } = await supabaseClient
-                .from('careers')
-                .select('title')
-                .eq('id', studentData.career_goal_id)
-                .single();
-                
-              if (careerData) {
-                student.career_goal_id = careerData.title; // Use title instead of ID
-              }
+          // Get career name if available
+          if (studentData.career_goal_id) {
+            const { data: careerData } = await client
+              .from('careers')
+              .select('title')
+              .eq('id', studentData.career_goal_id)
+              .single();
+              
+            if (careerData) {
+              student.career_goal_id = careerData.title; // Use title instead of ID
             }
           }
+        }
+        
+        // Fetch courses data - get ALL courses without limits
+        console.log("Fetching courses data");
+        const { data: coursesData, error: coursesError } = await client
+          .from('courses')
+          .select(`
+            id,
+            title,
+            description,
+            credits,
+            subject,
+            semester
+          `);
           
-          // Fetch courses data - get ALL courses without limits
-          console.log("Fetching courses data");
-          const { data: coursesData, error: coursesError } = await supabaseClient
-            .from('courses')
-            .select(`
-              id,
-              title,
-              description,
-              credits,
-              subject,
-              semester
-            `);
-            
-          if (coursesError) {
-            console.error("Error fetching courses data:", coursesError);
-          }
-          
-          if (coursesData && coursesData.length > 0) {
-            console.log(`Found ${coursesData.length} courses`);
-            
-            // Transform to match our interface - include all courses
-            courses = coursesData.map(course => ({
-              id: course.id,
-              title: course.title,
-              credits: course.credits,
-              description: course.description,
-              subject: course.subject,
-              semester: course.semester
-            }));
-          }
-          
-          // Fetch prerequisites data
-          console.log("Fetching prerequisites data");
-          const { data: prerequisiteData, error: prerequisiteError } = await supabaseClient
-            .from('prerequisites')
-            .select(`
-              id,
-              course_id,
-              prerequisite_id
-            `);
-            
-          if (prerequisiteError) {
-            console.error("Error fetching prerequisites data:", prerequisiteError);
-          }
+        if (coursesError) {
+          console.error("Error fetching courses data:", coursesError);
+        }
+        
+        if (coursesData && coursesData.length > 0) {
+          console.log(`Found ${coursesData.length} courses`);
           
-          if (prerequisiteData && prerequisiteData.length > 0) {
-            console.log(`Found ${prerequisiteData.length} prerequisites`);
-            
-            // Transform to match our interface
-            prerequisites = prerequisiteData.map(prereq => ({
-              course_id: prereq.course_id,
-              prerequisite_id: prereq.prerequisite_id,
-            }));
-          }
+          // Transform to match our interface - include all courses
+          courses = coursesData.map(course => ({
+            id: course.id,
+            title: course.title,
+            credits: course.credits,
+            description: course.description,
+            subject: course.subject,
+            semester: course.semester
+          }));
         }
         
-        // Check if we have the required data
-        if (student && courses.length > 0) {
-          console.log("Using advisor mode with student data and courses");
+        // Fetch prerequisites data
+        console.log("Fetching prerequisites data");
+        const { data: prerequisiteData, error: prerequisiteError } = await client
+          .from('prerequisites')
+          .select(`
+            id,
+            course_id,
+            prerequisite_id
+          `);
           
-          // Build advisor prompt with fetched data
-          systemPrompt = buildAdvisorPrompt(student, courses, prerequisites);
-        } else {
-          console.warn('Missing student data or courses for advisor mode, reverting to standard mode');
-          throw new Error("Incomplete data for advisor mode");
+        if (prerequisiteError) {
+          console.error("Error fetching prerequisites data:", prerequisiteError);
         }
-      } catch (error) {
-        console.warn('Error in advisor mode setup, reverting to standard mode:', error);
         
-        // Use regular prompt builder as fallback
-        const relevantKnowledge = await getRelevantKnowledge(request.message);
-        const additionalInstructions = relevantKnowledge 
-          ? `Use the following knowledge to help answer the user's question:\n${relevantKnowledge}`
-          : undefined;
+        if (prerequisiteData && prerequisiteData.length > 0) {
+          console.log(`Found ${prerequisiteData.length} prerequisites`);
+          
+          // Transform to match our interface
+          prerequisites = prerequisiteData.map(prereq => ({
+            course_id: prereq.course_id,
+            prerequisite_id: prereq.prerequisite_id,
+          }));
+        }
+      }
+      
+      // Check if we have the required data
+      if (student && courses.length > 0) {
+        console.log("Using advisor mode with student data and courses");
         
-        systemPrompt = await buildSystemPrompt({
-          username: request.username,
-          projectContext: request.projectContext,
-          additionalInstructions,
+        // With learning history off, neither the catalog's eligibility notes nor the tools may
+        // reveal which courses the student has taken
+        completedCourseIds = settings.useLearningHistory ? student.current_courses_taken || [] : [];
+        const checkEligibility = createEligibilityChecker({
+          prerequisites,
+          completedCourseIds,
+          courses,
+        });
+
+        // Policy and knowledge base passages relevant to this message, cited by number
+        const passages = await retrievePassages(request.message, { sources: POLICY_SOURCES });
+
+        // Build advisor prompt with the catalog packed around this message
+        const { prompt, catalog } = buildAdvisorContext(student, courses, prerequisites, {
+          checkEligibility,
+          passages,
+          query: request.message,
+          catalogTokenBudget: AGENT_CATALOG_TOKENS,
+          includeLearningHistory: settings.useLearningHistory,
         });
+        systemPrompt = prompt;
+        advisor = { courses, checkEligibility, catalog };
+      } else {
+        console.warn('Missing student data or courses for advisor mode, reverting to standard mode');
+        throw new Error("Incomplete data for advisor mode");
       }
-    } else {
-      // Standard mode - use regular prompt builder
-      const relevantKnowledge = await getRelevantKnowledge(request.message);
-      const additionalInstructions = relevantKnowledge 
-        ? `Use the following knowledge to help answer the user's question:\n${relevantKnowledge}`
-        : undefined;
+    } catch (error) {
+      console.warn('Error in advisor mode setup, reverting to standard mode:', error);
       
+      // Use regular prompt builder as fallback
       systemPrompt = await buildSystemPrompt({
         username: request.username,
         projectContext: request.projectContext,
-        additionalInstructions,
-      });
-    }
-    
-    // Prepare messages for Gemini API
-    const chatHistory = [];
-    
-    // Add chat history
-    for (const msg of history) {
-      chatHistory.push({
-        role: msg.role === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.content }],
+        passages: await retrievePassages(request.message),
       });
     }
-    
-    console.log(`Calling AI API with model: ${process.env.AI_MODEL || DEFAULT_MODEL}`);
-    
-    // Start with an empty chat without system instruction
-    const chat = model.startChat({
-      history: chatHistory,
-    });
-    
-    // Add instructions for conversational responses
-    const briefingPrefix = "Respond conversationally to the user's specific question. Be personable but relatively concise (under 150 words when possible).";
-    
-    // Add the user's current message with brief instruction
-    const messageWithContext = `${briefingPrefix}\n\n${systemPrompt}\n\nUser query: ${request.message}`;
-    const result = await chat.sendMessage(messageWithContext);
-    const answer = result.response.text();
-    
-    // Save the user message to history
-    saveChatMessage({
-      sessionId,
-      role: 'user',
-      content: request.message,
+  } else {
+    // Standard mode - use regular prompt builder with passages retrieved for the message
+    systemPrompt = await buildSystemPrompt({
+      username: request.username,
+      projectContext: request.projectContext,
+      passages: await retrievePassages(request.message),
     });
-    
-    // Save the AI response to history
-    saveChatMessage({
-      sessionId,
-      role: 'assistant',
-      content: answer,
+  }
+  
+  // Prepare messages for the LLM gateway
+  const chatHistory: LLMMessage[] = [];
+  
+  // Add chat history
+  for (const msg of history) {
+    chatHistory.push({
+      role: msg.role === 'user' ? 'user' : 'assistant',
+      content: msg.content,
     });
-    
-    return {
-      answer,
-      sessionId,
-    };
+  }
+  
+  // Add instructions for conversational responses
+  const briefingPrefix = "Respond conversationally to the user's specific question. Be personable but relatively concise (under 150 words when possible).";
+  
+  // Add the user's current message with brief instruction
+  const messageWithContext = `${briefingPrefix}\n\n${systemPrompt}\n\nUser query: ${request.message}`;
+
+  return {
+    sessionId,
+    messages: [...chatHistory, { role: 'user', content: messageWithContext }],
+    tools: createChatTools({ completedCourseIds, client, allowRecommendations: settings.aiSuggestions }),
+    advisor,
+  };
+}
+
+/**
+ * Save the exchange to the session history and attach the advisor metadata
+ */
+async function finishChat(
+  prepared: PreparedChat,
+  request: ChatRequest,
+  { reply: answer, toolCalls }: AgentResult,
+  store: ChatHistoryStore
+): Promise<ChatResponse> {
+  const { sessionId, advisor, tools } = prepared;
+
+  // Save the user message to history
+  await store.saveMessage({
+    sessionId,
+    userId: request.userId,
+    role: 'user',
+    content: request.message,
+  });
+
+  // Save the AI response to history
+  await store.saveMessage({
+    sessionId,
+    userId: request.userId,
+    role: 'assistant',
+    content: answer,
+  });
+
+  const recommendedCourses = tools.proposal() ?? undefined;
+  return {
+    answer,
+    sessionId,
+    recommendedCourses,
+    toolCalls: toolCalls.map(call => ({ tool: call.tool, arguments: call.arguments, failed: call.error !== undefined })),
+    ...(advisor
+      ? {
+          courseEligibility: checkRecommendedCourses(recommendedCourses ?? [], advisor.courses, advisor.checkEligibility),
+          omittedCourses: advisor.catalog.dropped,
+        }
+      : {}),
+  };
+}
+
+/**
+ * Run the tool-calling agent over the prepared conversation: the model looks courses up through
+ * the tools instead of relying on a catalog dump, then answers. With `onAnswerDelta` the answer
+ * is streamed from the provider as it is written.
+ */
+function answerWithTools(
+  prepared: PreparedChat,
+  signal?: AbortSignal,
+  callbacks: { onToolCall?: (tool: string) => void; onAnswerDelta?: (text: string) => void } = {}
+): Promise<AgentResult> {
+  return runAgent({
+    generate: async (llmRequest: LLMRequest) => (await complete(llmRequest, { signal })).text,
+    streamGenerate: (llmRequest: LLMRequest) => stream(llmRequest, { signal }),
+    tools: prepared.tools.tools,
+    messages: prepared.messages,
+    signal,
+    onToolCall: call => callbacks.onToolCall?.(call.tool),
+    onAnswerDelta: callbacks.onAnswerDelta,
+  });
+}
+
+/**
+ * Process a chat message and get a response from the AI
+ */
+export async function processChatMessage(
+  request: ChatRequest,
+  store: ChatHistoryStore = chatHistoryStore
+): Promise<ChatResponse> {
+  try {
+    const prepared = await prepareChat(request);
+    const result = await answerWithTools(prepared);
+    return await finishChat(prepared, request, result, store);
   } catch (error) {
     console.error('Error in processChatMessage:', error);
     throw new Error('Failed to process chat message');
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Streaming variant of processChatMessage: yields a `tool` event as each tool call completes,
+ * `delta` events as the answer is written, then a final event with the session ID and advisor
+ * metadata. The final event's answer is authoritative: it may have been repaired or extended
+ * after streaming. Aborting `signal` stops the agent; nothing is saved for a cancelled message.
+ */
+export async function* streamChatMessage(
+  request: ChatRequest,
+  signal?: AbortSignal,
+  store: ChatHistoryStore = chatHistoryStore
+): AsyncGenerator<ChatStreamEvent> {
+  const prepared = await prepareChat(request);
+
+  // Tool calls and answer text arrive through callbacks while the agent runs; queue them for the
+  // generator
+  const pending: ChatStreamEvent[] = [];
+  let finished = false;
+  let streamed = false;
+  let wake: (() => void) | null = null;
+  const enqueue = (event: ChatStreamEvent) => {
+    pending.push(event);
+    wake?.();
+  };
+  const run = answerWithTools(prepared, signal, {
+    onToolCall: tool => enqueue({ type: 'tool', tool }),
+    onAnswerDelta: text => {
+      streamed = true;
+      enqueue({ type: 'delta', text });
+    },
+  }).finally(() => {
+    finished = true;
+    wake?.();
+  });
+  // Surfaced by `await run` below; this only keeps the rejection from going unhandled meanwhile
+  run.catch(() => {});
+
+  while (!finished || pending.length > 0) {
+    const event = pending.shift();
+    if (event) {
+      yield event;
+    } else {
+      await new Promise<void>(resolve => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+  }
+
+  const result = await run;
+  if (!streamed) yield { type: 'delta', text: result.reply };
+  yield { type: 'done', response: await finishChat(prepared, request, result, store) };
+}
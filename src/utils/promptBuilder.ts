@@ -1,33 +1,13 @@
+import { formatPassagesForPrompt, type RetrievedPassage } from '@/lib/retrieval';
+
 export interface PromptData {
   username?: string;
   projectContext?: string;
   additionalInstructions?: string;
+  // Knowledge base, guideline and course passages retrieved for the current message
+  passages?: RetrievedPassage[];
 }
 
-// Sample guidelines that would normally come from a database
-const SAMPLE_GUIDELINES = `
-1. Be helpful, concise, and accurate.
-2. Prioritize user needs and provide clear explanations.
-3. When suggesting code, ensure it follows best practices.
-4. Respect privacy and confidentiality.
-`;
-
-// Sample knowledge base entries
-const KNOWLEDGE_BASE = [
-  {
-    keywords: ['react', 'component', 'props', 'state'],
-    content: 'React components use props for input and state for internal data management.'
-  },
-  {
-    keywords: ['typescript', 'type', 'interface'],
-    content: 'TypeScript adds static typing to JavaScript. Use interfaces for object shapes and types for primitives.'
-  },
-  {
-    keywords: ['next.js', 'nextjs', 'routing', 'page'],
-    content: 'Next.js provides file-based routing and server-side rendering capabilities.'
-  }
-];
-
 /**
  * Build a dynamic system prompt for the AI
  */
@@ -42,8 +22,10 @@ ${data.username ? `You are speaking with ${data.username}.` : ''}`;
     systemPrompt += `\n\nProject Context: ${data.projectContext}`;
   }
 
-  // Add guidelines
-  systemPrompt += `\n\nCompany Guidelines: ${SAMPLE_GUIDELINES}`;
+  // Add retrieved reference material with numbered citations
+  if (data.passages?.length) {
+    systemPrompt += `\n\n${formatPassagesForPrompt(data.passages)}`;
+  }
 
   // Add additional instructions if provided
   if (data.additionalInstructions) {
@@ -52,28 +34,3 @@ ${data.username ? `You are speaking with ${data.username}.` : ''}`;
 
   return systemPrompt;
 }
-
-/**
- * Get relevant knowledge from the in-memory knowledge base based on the user's query
- */
-export async function getRelevantKnowledge(query: string): Promise<string | null> {
-  try {
-    const queryWords = query.toLowerCase().split(/\s+/);
-    
-    // Find relevant knowledge entries
-    const relevantEntries = KNOWLEDGE_BASE.filter(entry => {
-      return entry.keywords.some(keyword => 
-        queryWords.includes(keyword.toLowerCase())
-      );
-    });
-
-    if (relevantEntries.length > 0) {
-      return relevantEntries.map(entry => entry.content).join('\n\n');
-    }
-
-    return null;
-  } catch (error) {
-    console.error('Error in getRelevantKnowledge:', error);
-    return null;
-  }
-} 
\ No newline at end of file
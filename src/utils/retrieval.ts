@@ -0,0 +1,76 @@
+import {
+  buildRetrievalDocuments,
+  createBm25Retriever,
+  type RetrievalSource,
+  type RetrievedPassage,
+  type Retriever,
+} from '@/lib/retrieval';
+import supabaseClient from './supabaseClient';
+
+// Rows added by advisors show up in answers within this long, without a redeploy
+const INDEX_TTL_MS = 5 * 60 * 1000;
+export const DEFAULT_PASSAGE_COUNT = 4;
+// Advisor prompts already list the whole catalog, so only policy material is worth retrieving
+export const POLICY_SOURCES: RetrievalSource[] = ['knowledge_base', 'guidelines'];
+
+let cached: { retriever: Retriever; builtAt: number } | null = null;
+let pending: Promise<Retriever> | null = null;
+
+async function loadRetriever(client = supabaseClient): Promise<Retriever> {
+  const [knowledgeBase, guidelines, courses] = await Promise.all([
+    client.from('knowledge_base').select('id, title, content, tags'),
+    client.from('guidelines').select('id, title, content'),
+    client.from('courses').select('id, title, description, subject'),
+  ]);
+
+  // A missing table only narrows the corpus; retrieval should never break a chat
+  for (const [table, result] of Object.entries({ knowledgeBase, guidelines, courses })) {
+    if (result.error) console.error(`Error loading ${table} for retrieval:`, result.error);
+  }
+
+  return createBm25Retriever(
+    buildRetrievalDocuments({
+      knowledgeBase: knowledgeBase.data || [],
+      guidelines: guidelines.data || [],
+      courses: (courses.data || []).map(course => ({ ...course, id: String(course.id) })),
+    }),
+  );
+}
+
+/**
+ * Index over the knowledge_base and guidelines tables and course descriptions, rebuilt at most
+ * every INDEX_TTL_MS. Concurrent callers share one rebuild.
+ */
+export async function getRetriever(): Promise<Retriever> {
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) return cached.retriever;
+
+  pending ??= loadRetriever()
+    .then(retriever => {
+      cached = { retriever, builtAt: Date.now() };
+      return retriever;
+    })
+    .finally(() => {
+      pending = null;
+    });
+  return pending;
+}
+
+/**
+ * Top passages for a chat message, or none when retrieval fails
+ */
+export async function retrievePassages(
+  query: string,
+  { k = DEFAULT_PASSAGE_COUNT, sources }: { k?: number; sources?: RetrievalSource[] } = {},
+): Promise<RetrievedPassage[]> {
+  try {
+    return (await getRetriever()).search(query, { k, sources });
+  } catch (error) {
+    console.error('Error retrieving passages:', error);
+    return [];
+  }
+}
+
+// Drop the cached index, e.g. right after editing the knowledge base
+export function invalidateRetriever() {
+  cached = null;
+}
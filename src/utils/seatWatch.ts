@@ -0,0 +1,259 @@
+import {
+  createNotificationTransport,
+  type NotificationTransport,
+} from '@/lib/notifications';
+import {
+  DEFAULT_WATCH_THRESHOLD,
+  describeSeatAlert,
+  detectSeatChange,
+  type CourseWatch,
+  type SeatAlert,
+  type SeatAlertKind,
+} from '@/lib/seatWatch';
+import { createAdminClient } from './supabase/admin';
+import { selectAllRows } from './supabase/paging';
+import { createClient } from './supabase/server';
+
+// The signed-in user's session client for the store, the service role client for the job
+type SeatWatchClient = Awaited<ReturnType<typeof createClient>> | ReturnType<typeof createAdminClient>;
+
+export interface WatchedCourse extends CourseWatch {
+  title: string;
+  // Null when the course does not publish a seat count
+  available_slots: number | null;
+}
+
+export interface SeatAlertWithCourse extends SeatAlert {
+  title: string;
+  message: string;
+}
+
+export interface SeatWatchRunSummary {
+  watches: number;
+  alerts: number;
+  emailsSent: number;
+  emailsFailed: number;
+}
+
+interface CourseSeats {
+  id: number;
+  title: string;
+  available_slots: number | null;
+}
+
+const WATCH_COLUMNS = 'id, user_id, course_id, threshold, notify_email, last_seen_slots, created_at';
+const ALERT_COLUMNS = 'id, user_id, course_id, kind, available_slots, previous_slots, created_at, read_at';
+
+async function loadCourseSeats(client: SeatWatchClient, courseIds: number[]): Promise<Map<number, CourseSeats>> {
+  if (courseIds.length === 0) return new Map();
+  const { data, error } = await client
+    .from('courses')
+    .select('id, title, available_slots')
+    .in('id', courseIds);
+  if (error) throw new Error(`Failed to load course seats: ${error.message}`);
+  return new Map(((data || []) as CourseSeats[]).map(course => [course.id, course]));
+}
+
+/**
+ * Watchlist and seat alerts backed by the `course_watches` and `seat_alerts` tables. Every read
+ * and write is scoped to one user. Without a `client` each call goes through the signed-in user's
+ * session, so row level security applies on top of the `userId` filters here.
+ */
+export function createSeatWatchStore(client?: SeatWatchClient) {
+  const connect = async () => client ?? (await createClient());
+
+  return {
+    async listWatches(userId: string): Promise<WatchedCourse[]> {
+      const client = await connect();
+      const { data, error } = await client
+        .from('course_watches')
+        .select(WATCH_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw new Error(`Failed to load watchlist: ${error.message}`);
+
+      const watches = (data || []) as CourseWatch[];
+      const seats = await loadCourseSeats(client, watches.map(watch => watch.course_id));
+      return watches.map(watch => ({
+        ...watch,
+        title: seats.get(watch.course_id)?.title ?? `Course ${watch.course_id}`,
+        available_slots: seats.get(watch.course_id)?.available_slots ?? null,
+      }));
+    },
+
+    /**
+     * Start watching a course, or update an existing watch's settings. The current seat count
+     * becomes the baseline, so watching never raises an alert by itself.
+     */
+    async watchCourse(
+      userId: string,
+      courseId: number,
+      options: { threshold?: number; notifyEmail?: boolean } = {},
+    ): Promise<CourseWatch | null> {
+      const client = await connect();
+      const course = (await loadCourseSeats(client, [courseId])).get(courseId);
+      if (!course) return null;
+
+      const { data, error } = await client
+        .from('course_watches')
+        .upsert({
+          user_id: userId,
+          course_id: courseId,
+          threshold: options.threshold ?? DEFAULT_WATCH_THRESHOLD,
+          notify_email: options.notifyEmail ?? false,
+          last_seen_slots: course.available_slots,
+        }, { onConflict: 'user_id,course_id' })
+        .select(WATCH_COLUMNS)
+        .single();
+      if (error || !data) throw new Error(`Failed to watch course: ${error?.message}`);
+      return data as CourseWatch;
+    },
+
+    async unwatchCourse(userId: string, courseId: number): Promise<boolean> {
+      const client = await connect();
+      const { data, error } = await client
+        .from('course_watches')
+        .delete()
+        .eq('user_id', userId)
+        .eq('course_id', courseId)
+        .select('id');
+      if (error) throw new Error(`Failed to unwatch course: ${error.message}`);
+      return (data || []).length > 0;
+    },
+
+    // Newest first
+    async listAlerts(userId: string, { unreadOnly = false } = {}): Promise<SeatAlertWithCourse[]> {
+      const client = await connect();
+      let query = client
+        .from('seat_alerts')
+        .select(ALERT_COLUMNS)
+        .eq('user_id', userId);
+      if (unreadOnly) query = query.is('read_at', null);
+
+      const { data, error } = await query.order('created_at', { ascending: false }).limit(50);
+      if (error) throw new Error(`Failed to load seat alerts: ${error.message}`);
+
+      const alerts = (data || []) as SeatAlert[];
+      const seats = await loadCourseSeats(client, [...new Set(alerts.map(alert => alert.course_id))]);
+      return alerts.map(alert => {
+        const title = seats.get(alert.course_id)?.title ?? `Course ${alert.course_id}`;
+        return { ...alert, title, message: describeSeatAlert(alert, title) };
+      });
+    },
+
+    async markAlertsRead(userId: string, alertIds: string[]): Promise<number> {
+      if (alertIds.length === 0) return 0;
+      const client = await connect();
+      const { data, error } = await client
+        .from('seat_alerts')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .in('id', alertIds)
+        .select('id');
+      if (error) throw new Error(`Failed to update seat alerts: ${error.message}`);
+      return (data || []).length;
+    },
+  };
+}
+
+export type SeatWatchStore = ReturnType<typeof createSeatWatchStore>;
+
+// Used by the watchlist routes
+export const seatWatchStore = createSeatWatchStore();
+
+/**
+ * Compare every watched course's `available_slots` with the value seen on the previous run,
+ * record alerts for seats opening or dropping below a watch's threshold for students with course
+ * updates on, and email those who asked for it and have email notifications on. The alerts and
+ * the new baselines are saved together, so a failed run raises the same alerts again next time
+ * instead of losing them. Meant to run on a schedule; a failed email is logged and counted, not
+ * retried. It works across all users, so it runs with the service role.
+ */
+export async function runSeatWatchJob({
+  client = createAdminClient(),
+  transport = createNotificationTransport(),
+}: { client?: SeatWatchClient; transport?: NotificationTransport } = {}): Promise<SeatWatchRunSummary> {
+  const { data, error } = await selectAllRows((from, to) =>
+    client.from('course_watches').select(WATCH_COLUMNS).order('id').range(from, to),
+  );
+  if (error) throw new Error(`Failed to load watches: ${error.message}`);
+
+  const watches = data as CourseWatch[];
+  const seats = await loadCourseSeats(client, [...new Set(watches.map(watch => watch.course_id))]);
+
+  // Users who turned course updates off in Settings get no seat alerts; their baselines still move
+  const { data: mutedRows, error: mutedError } = await selectAllRows((from, to) =>
+    client.from('user_settings').select('user_id').eq('course_updates', false).order('user_id').range(from, to),
+  );
+  if (mutedError) throw new Error(`Failed to load course update settings: ${mutedError.message}`);
+  const muted = new Set((mutedRows as { user_id: string }[]).map(row => row.user_id));
+
+  const alerts: Omit<SeatAlert, 'id' | 'created_at' | 'read_at'>[] = [];
+  const baselines: Pick<CourseWatch, 'id' | 'last_seen_slots'>[] = [];
+  const emailWatches: { watch: CourseWatch; kind: SeatAlertKind; current: number }[] = [];
+
+  for (const watch of watches) {
+    const current = seats.get(watch.course_id)?.available_slots;
+    if (current === null || current === undefined || current === watch.last_seen_slots) continue;
+
+    const kind = detectSeatChange(watch.last_seen_slots, current, watch.threshold);
+    if (kind && watch.last_seen_slots !== null && !muted.has(watch.user_id)) {
+      alerts.push({
+        user_id: watch.user_id,
+        course_id: watch.course_id,
+        kind,
+        available_slots: current,
+        previous_slots: watch.last_seen_slots,
+      });
+      if (watch.notify_email) emailWatches.push({ watch, kind, current });
+    }
+    baselines.push({ id: watch.id, last_seen_slots: current });
+  }
+
+  if (baselines.length > 0) {
+    const { error: recordError } = await client.rpc('record_seat_watch_run', { alerts, baselines });
+    if (recordError) throw new Error(`Failed to save seat alerts: ${recordError.message}`);
+  }
+
+  let emailsSent = 0;
+  let emailsFailed = 0;
+  if (emailWatches.length > 0) {
+    const { data: students, error: studentsError } = await client
+      .from('students')
+      .select('user_id, email')
+      .in('user_id', [...new Set(emailWatches.map(({ watch }) => watch.user_id))]);
+    if (studentsError) throw new Error(`Failed to load student emails: ${studentsError.message}`);
+    const emails = new Map(
+      ((students || []) as { user_id: string; email: string | null }[]).map(student => [student.user_id, student.email]),
+    );
+
+    // Users who turned email notifications off in Settings keep their in-app alerts only
+    const { data: optedOut, error: settingsError } = await client
+      .from('user_settings')
+      .select('user_id')
+      .in('user_id', [...emails.keys()])
+      .eq('email_notifications', false);
+    if (settingsError) throw new Error(`Failed to load notification settings: ${settingsError.message}`);
+    for (const { user_id } of optedOut || []) emails.delete(user_id);
+
+    for (const { watch, kind, current } of emailWatches) {
+      const to = emails.get(watch.user_id);
+      if (!to) continue;
+      const title = seats.get(watch.course_id)?.title ?? `Course ${watch.course_id}`;
+      const message = describeSeatAlert({ kind, available_slots: current }, title);
+      try {
+        await transport.send({
+          to,
+          subject: kind === 'opened' ? `Seats open: ${title}` : `Seats running low: ${title}`,
+          text: `${message}\n\nYou are receiving this because you watch ${title} on EduMuse.`,
+        });
+        emailsSent++;
+      } catch (sendError) {
+        console.error('Error sending seat alert email:', sendError);
+        emailsFailed++;
+      }
+    }
+  }
+
+  return { watches: watches.length, alerts: alerts.length, emailsSent, emailsFailed };
+}
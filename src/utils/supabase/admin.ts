@@ -0,0 +1,26 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/supabase";
+
+type AdminClient = ReturnType<typeof createClient<Database>>;
+
+/**
+ * Client with the service role key, which bypasses row level security. Only for scheduled jobs
+ * that act on every user's rows, such as the seat-watch job; requests made for one signed-in user
+ * go through `createClient` in ./server instead. The key has no NEXT_PUBLIC_ prefix, so it never
+ * reaches the browser bundle.
+ */
+export function createAdminClient(): AdminClient {
+  if (typeof window !== "undefined") {
+    throw new Error("The service role client is server-only");
+  }
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error(
+      "NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set",
+    );
+  }
+  return createClient<Database>(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
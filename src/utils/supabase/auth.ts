@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { createClient } from "./server";
+
+export type RouteAuth =
+  | { ok: true; user: User; userId: string }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Authorize an API request as the user in the Supabase session cookie. `claimedUserId` is the user
+ * ID the request names in its query string or body: when present it must be the session user's,
+ * so one student can never read or change another's data. Responds 401 without a session and 403
+ * on a mismatch; on success `userId` is the session user's, whatever the request claimed.
+ */
+export async function authorizeRequest(
+  claimedUserId?: unknown,
+  supabase?: Awaited<ReturnType<typeof createClient>>,
+): Promise<RouteAuth> {
+  const client = supabase ?? (await createClient());
+  const {
+    data: { user },
+    error,
+  } = await client.auth.getUser();
+
+  if (error || !user) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      ),
+    };
+  }
+
+  if (
+    claimedUserId !== undefined &&
+    claimedUserId !== null &&
+    claimedUserId !== "" &&
+    claimedUserId !== user.id
+  ) {
+    console.error(
+      `Rejected request for user ${String(claimedUserId)} from user ${user.id}`,
+    );
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { ok: true, user, userId: user.id };
+}
@@ -0,0 +1,27 @@
+// PostgREST's max-rows on Supabase: a larger response is cut off without an error
+export const MAX_ROWS_PER_REQUEST = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+/**
+ * Every row of a query, read MAX_ROWS_PER_REQUEST at a time. `page` runs the query for rows
+ * `from` to `to` inclusive, i.e. ends with `.range(from, to)`, and must order by a unique
+ * column so pages neither overlap nor skip rows. Stops at the first error.
+ */
+export async function selectAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>,
+): Promise<
+  { data: T[]; error: null } | { data: null; error: { message: string } }
+> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await page(from, from + MAX_ROWS_PER_REQUEST - 1);
+    if (error) return { data: null, error };
+    rows.push(...(data || []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST)
+      return { data: rows, error: null };
+  }
+}
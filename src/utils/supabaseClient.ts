@@ -13,4 +13,4 @@ const supabaseClient = createClient<Database>(supabaseUrl, supabaseKey, {
   },
 });
 
-export default supabaseClient; 
\ No newline at end of file
+export default supabaseClient;
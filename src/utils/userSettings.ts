@@ -0,0 +1,67 @@
+import {
+  DEFAULT_USER_SETTINGS,
+  RESTRICTED_USER_SETTINGS,
+  settingsFromRow,
+  settingsToRow,
+  type UserSettings,
+  type UserSettingsRow,
+} from '@/lib/userSettings';
+import { createClient } from './supabase/server';
+
+// Row level security limits user_settings to the signed-in user, so reads and writes go through
+// their session
+type UserSettingsClient = Awaited<ReturnType<typeof createClient>>;
+
+const connect = async (client?: UserSettingsClient) => client ?? (await createClient());
+
+/**
+ * Settings for one user, or the defaults when they have never saved any
+ */
+export async function getUserSettings(userId: string, client?: UserSettingsClient): Promise<UserSettings> {
+  const { data, error } = await (await connect(client))
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load user settings: ${error.message}`);
+  return settingsFromRow(data as UserSettingsRow | null);
+}
+
+/**
+ * Like getUserSettings, but never throws: without a user it returns the defaults, and when the
+ * lookup fails it returns RESTRICTED_USER_SETTINGS, so an outage cannot turn a privacy opt-out
+ * such as useLearningHistory back on
+ */
+export async function getUserSettingsOrDefaults(
+  userId: string | null | undefined,
+  client?: UserSettingsClient,
+): Promise<UserSettings> {
+  if (!userId) return DEFAULT_USER_SETTINGS;
+  try {
+    return await getUserSettings(userId, client);
+  } catch (error) {
+    console.error('Error loading user settings, turning every opt-in off:', error);
+    return RESTRICTED_USER_SETTINGS;
+  }
+}
+
+/**
+ * Apply a partial update and return the full settings
+ */
+export async function saveUserSettings(
+  userId: string,
+  update: Partial<UserSettings>,
+  client?: UserSettingsClient,
+): Promise<UserSettings> {
+  const { data, error } = await (await connect(client))
+    .from('user_settings')
+    .upsert({
+      ...settingsToRow(update),
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id' })
+    .select('*')
+    .single();
+  if (error || !data) throw new Error(`Failed to save user settings: ${error?.message}`);
+  return settingsFromRow(data as UserSettingsRow);
+}
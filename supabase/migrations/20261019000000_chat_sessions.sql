@@ -0,0 +1,30 @@
+-- Chat sessions: one row per conversation in chat_messages, owned by the user who started it
+create table if not exists public.chat_sessions (
+  id uuid primary key,
+  user_id uuid references auth.users (id) on delete cascade,
+  title text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_sessions_user_id_updated_at_idx
+  on public.chat_sessions (user_id, updated_at desc);
+
+create index if not exists chat_messages_session_id_created_at_idx
+  on public.chat_messages (session_id, created_at);
+
+-- Sessions that already have messages get a row titled after their first user message
+insert into public.chat_sessions (id, user_id, title, created_at, updated_at)
+select
+  m.session_id::uuid,
+  (array_agg(m.user_id order by m.created_at))[1]::uuid,
+  coalesce(
+    left((array_agg(m.content order by m.created_at) filter (where m.role = 'user'))[1], 60),
+    'New conversation'
+  ),
+  min(m.created_at),
+  max(m.created_at)
+from public.chat_messages m
+where m.session_id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+group by m.session_id
+on conflict (id) do nothing;
@@ -0,0 +1,31 @@
+-- Seat watchlist: a student watches a course and is alerted when its available_slots change
+create table if not exists public.course_watches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  course_id integer not null references public.courses (id) on delete cascade,
+  -- Alert when available seats drop below this many
+  threshold integer not null default 5 check (threshold > 0),
+  notify_email boolean not null default false,
+  -- available_slots at the last job run; null until the first run after watching
+  last_seen_slots integer,
+  created_at timestamptz not null default now(),
+  unique (user_id, course_id)
+);
+
+create index if not exists course_watches_course_id_idx
+  on public.course_watches (course_id);
+
+-- Alerts raised by the seat-watch job, shown on the dashboard and in the assistant until read
+create table if not exists public.seat_alerts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  course_id integer not null references public.courses (id) on delete cascade,
+  kind text not null check (kind in ('opened', 'low')),
+  available_slots integer not null,
+  previous_slots integer not null,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists seat_alerts_user_id_created_at_idx
+  on public.seat_alerts (user_id, created_at desc);
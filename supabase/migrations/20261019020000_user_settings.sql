@@ -0,0 +1,50 @@
+-- Settings page preferences, one row per user; missing rows mean the defaults below
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  public_profile boolean not null default false,
+  email_notifications boolean not null default true,
+  course_updates boolean not null default true,
+  ai_suggestions boolean not null default true,
+  use_learning_history boolean not null default true,
+  career_path_analysis boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+-- Settings are private to their user; the API reads and writes them with the signed-in user's
+-- session. The seat-watch job reads email_notifications and course_updates with the service role
+-- key, which bypasses these policies.
+alter table public.user_settings enable row level security;
+
+create policy "Users manage their own settings"
+  on public.user_settings
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- The public part of a student's profile, for other signed-in students. Returns null unless
+-- the student turned public_profile on. Runs as its owner to read past the row level security
+-- on students and user_settings, so it only ever selects these columns.
+create or replace function public.public_student_profile(profile_user_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'user_id', student.user_id,
+    'full_name', student.full_name,
+    'career_goal_id', student.career_goal_id,
+    'credits_completed', student.credits_completed,
+    'current_courses_taken', student.current_courses_taken,
+    'skill_goals', student.skill_goals
+  )
+  from public.students as student
+  join public.user_settings as settings on settings.user_id = student.user_id
+  where student.user_id = profile_user_id
+    and settings.public_profile;
+$$;
+
+revoke execute on function public.public_student_profile(uuid) from public, anon;
+grant execute on function public.public_student_profile(uuid) to authenticated;
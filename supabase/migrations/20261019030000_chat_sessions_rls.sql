@@ -0,0 +1,28 @@
+-- Chat history is private: the anon key ships to the browser, so without row level security
+-- anyone could read or write every user's sessions through PostgREST. Sessions without an owner
+-- (started before sign-in was required) are no longer reachable.
+alter table public.chat_sessions enable row level security;
+
+create policy "Users manage their own chat sessions"
+  on public.chat_sessions
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.chat_messages enable row level security;
+
+create policy "Users manage messages in their own chat sessions"
+  on public.chat_messages
+  for all
+  to authenticated
+  using (user_id::text = auth.uid()::text)
+  with check (
+    user_id::text = auth.uid()::text
+    and exists (
+      select 1
+      from public.chat_sessions s
+      where s.id::text = chat_messages.session_id
+        and s.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,4 @@
+-- The dashboard courses last applied from a conversation, so the sidebar can restore them.
+-- Previously kept only in the browser's localStorage next to the conversation itself.
+alter table public.chat_sessions
+  add column if not exists applied_recommendations jsonb not null default '[]'::jsonb;
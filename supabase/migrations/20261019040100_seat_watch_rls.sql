@@ -0,0 +1,29 @@
+-- Watchlists and seat alerts are private to their student. The seat-watch job reads and writes
+-- every user's rows with the service role key, which bypasses these policies.
+alter table public.course_watches enable row level security;
+
+create policy "Users manage their own course watches"
+  on public.course_watches
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.seat_alerts enable row level security;
+
+-- Only the job raises alerts; students can read theirs and mark them read
+create policy "Users read their own seat alerts"
+  on public.seat_alerts
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users mark their own seat alerts read"
+  on public.seat_alerts
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+revoke insert, update, delete on public.seat_alerts from anon, authenticated;
+grant update (read_at) on public.seat_alerts to authenticated;
@@ -0,0 +1,20 @@
+-- One seat-watch run's writes in a single transaction: the alerts it raised and the seat counts
+-- it saw. Advancing a baseline without saving its alert would lose that alert for good.
+create or replace function public.record_seat_watch_run(alerts jsonb, baselines jsonb)
+returns void
+language sql
+as $$
+  insert into public.seat_alerts (user_id, course_id, kind, available_slots, previous_slots)
+  select user_id, course_id, kind, available_slots, previous_slots
+  from jsonb_to_recordset(alerts)
+    as alert(user_id uuid, course_id integer, kind text, available_slots integer, previous_slots integer);
+
+  update public.course_watches as watch
+  set last_seen_slots = baseline.last_seen_slots
+  from jsonb_to_recordset(baselines) as baseline(id uuid, last_seen_slots integer)
+  where watch.id = baseline.id;
+$$;
+
+-- Only the seat-watch job, which runs with the service role, records runs
+revoke execute on function public.record_seat_watch_run(jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.record_seat_watch_run(jsonb, jsonb) to service_role;
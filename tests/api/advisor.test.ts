@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/advisor/route";
+import { FIXTURE_USER, getMemorySupabase } from "@/lib/testing";
+import { jsonRequest, readEvents } from "../helpers";
+
+const MOCK_ADVICE = "This is a mock advisor reply.";
+
+describe("POST /api/advisor", () => {
+  it("answers with advice and checks the courses it recommends", async () => {
+    const response = await POST(
+      jsonRequest("/api/advisor", {
+        userId: FIXTURE_USER.id,
+        userQuery: "What should I take next semester?",
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.recommendations).toContain(MOCK_ADVICE);
+    // The offline advisor recommends the first course the prompt lists as eligible
+    expect(body.courseEligibility).toEqual([
+      expect.objectContaining({ eligible: true, missingPrerequisites: [] }),
+    ]);
+    expect(Array.isArray(body.omittedCourses)).toBe(true);
+    expect(typeof body.sessionId).toBe("string");
+  });
+
+  it("streams the answer as delta events followed by done", async () => {
+    const response = await POST(
+      jsonRequest("/api/advisor", {
+        userQuery: "Which courses fit my goal?",
+        stream: true,
+      }),
+    );
+
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+    const events = await readEvents(response);
+    const deltas = events.filter(({ event }) => event === "delta");
+    const done = events.at(-1);
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.map(({ data }) => data.text).join("")).toContain(MOCK_ADVICE);
+    expect(done?.event).toBe("done");
+    expect(done?.data.recommendations).toContain(MOCK_ADVICE);
+    expect(done?.data.courseEligibility).toHaveLength(1);
+    expect(done?.data).toHaveProperty("sessionId");
+  });
+
+  it("responds 404 for a signed-in user without a student profile", async () => {
+    getMemorySupabase().setUser({ id: "00000000-0000-4000-8000-0000000000ff" });
+
+    const response = await POST(
+      jsonRequest("/api/advisor", { userQuery: "Anything?" }),
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
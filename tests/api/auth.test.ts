@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import { POST as advise } from "@/app/api/advisor/route";
+import { POST as chat } from "@/app/api/chat/route";
+import { GET as searchChats } from "@/app/api/chat/search/route";
+import {
+  DELETE as deleteChatSession,
+  GET as getChatSession,
+  PATCH as updateChatSession,
+} from "@/app/api/chat/sessions/[sessionId]/route";
+import {
+  GET as listChatSessions,
+  POST as importChatSessions,
+} from "@/app/api/chat/sessions/route";
+import { GET as checkProfile } from "@/app/api/profile/check/route";
+import {
+  POST as createProfile,
+  GET as getProfile,
+} from "@/app/api/profile/route";
+import { PUT as updateProfile } from "@/app/api/profile/update/route";
+import {
+  GET as getSettings,
+  PUT as saveSettings,
+} from "@/app/api/settings/route";
+import {
+  GET as listSeatAlerts,
+  PATCH as markSeatAlertsRead,
+} from "@/app/api/watchlist/alerts/route";
+import {
+  DELETE as unwatchCourse,
+  GET as listWatches,
+  POST as watchCourse,
+} from "@/app/api/watchlist/route";
+import { FIXTURE_USER, getMemorySupabase } from "@/lib/testing";
+import { getRequest, jsonRequest } from "../helpers";
+
+const OTHER_USER_ID = "00000000-0000-4000-8000-000000000002";
+const SESSION_ID = "00000000-0000-4000-8000-0000000000aa";
+
+const session = { params: Promise.resolve({ sessionId: SESSION_ID }) };
+const query = (userId: string) => `userId=${encodeURIComponent(userId)}`;
+
+// Each request names `userId` the way its client does: in the query string or in the body
+const routes: [string, (userId: string) => Promise<Response>][] = [
+  [
+    "GET /api/profile",
+    (userId) => getProfile(getRequest(`/api/profile?${query(userId)}`)),
+  ],
+  [
+    "POST /api/profile",
+    (userId) =>
+      createProfile(
+        jsonRequest("/api/profile", {
+          user_id: userId,
+          full_name: "Someone Else",
+          email: "someone@example.edu",
+          career_goal_id: 1,
+          enrollment_type: "Full-time",
+        }),
+      ),
+  ],
+  [
+    "GET /api/profile/check",
+    (userId) => checkProfile(getRequest(`/api/profile/check?${query(userId)}`)),
+  ],
+  [
+    "PUT /api/profile/update",
+    (userId) =>
+      updateProfile(
+        jsonRequest(
+          "/api/profile/update",
+          { id: 1, user_id: userId, full_name: "Renamed" },
+          "PUT",
+        ),
+      ),
+  ],
+  [
+    "POST /api/advisor",
+    (userId) =>
+      advise(
+        jsonRequest("/api/advisor", {
+          userId,
+          userQuery: "What should I take next?",
+        }),
+      ),
+  ],
+  [
+    "POST /api/chat",
+    (userId) => chat(jsonRequest("/api/chat", { userId, message: "Hello" })),
+  ],
+  [
+    "GET /api/chat/search",
+    (userId) =>
+      searchChats(getRequest(`/api/chat/search?q=calculus&${query(userId)}`)),
+  ],
+  [
+    "GET /api/chat/sessions",
+    (userId) =>
+      listChatSessions(getRequest(`/api/chat/sessions?${query(userId)}`)),
+  ],
+  [
+    "POST /api/chat/sessions",
+    (userId) =>
+      importChatSessions(
+        jsonRequest("/api/chat/sessions", { userId, sessions: [] }),
+      ),
+  ],
+  [
+    "GET /api/chat/sessions/:sessionId",
+    (userId) =>
+      getChatSession(
+        getRequest(`/api/chat/sessions/${SESSION_ID}?${query(userId)}`),
+        session,
+      ),
+  ],
+  [
+    "PATCH /api/chat/sessions/:sessionId",
+    (userId) =>
+      updateChatSession(
+        jsonRequest(
+          `/api/chat/sessions/${SESSION_ID}`,
+          { userId, title: "Renamed" },
+          "PATCH",
+        ),
+        session,
+      ),
+  ],
+  [
+    "DELETE /api/chat/sessions/:sessionId",
+    (userId) =>
+      deleteChatSession(
+        getRequest(
+          `/api/chat/sessions/${SESSION_ID}?${query(userId)}`,
+          "DELETE",
+        ),
+        session,
+      ),
+  ],
+  [
+    "GET /api/settings",
+    (userId) => getSettings(getRequest(`/api/settings?${query(userId)}`)),
+  ],
+  [
+    "PUT /api/settings",
+    (userId) =>
+      saveSettings(
+        jsonRequest(
+          "/api/settings",
+          { userId, settings: { useLearningHistory: false } },
+          "PUT",
+        ),
+      ),
+  ],
+  [
+    "GET /api/watchlist",
+    (userId) => listWatches(getRequest(`/api/watchlist?${query(userId)}`)),
+  ],
+  [
+    "POST /api/watchlist",
+    (userId) =>
+      watchCourse(jsonRequest("/api/watchlist", { userId, courseId: 2 })),
+  ],
+  [
+    "DELETE /api/watchlist",
+    (userId) =>
+      unwatchCourse(
+        getRequest(`/api/watchlist?courseId=2&${query(userId)}`, "DELETE"),
+      ),
+  ],
+  [
+    "GET /api/watchlist/alerts",
+    (userId) =>
+      listSeatAlerts(getRequest(`/api/watchlist/alerts?${query(userId)}`)),
+  ],
+  [
+    "PATCH /api/watchlist/alerts",
+    (userId) =>
+      markSeatAlertsRead(
+        jsonRequest(
+          "/api/watchlist/alerts",
+          { userId, alertIds: [1] },
+          "PATCH",
+        ),
+      ),
+  ],
+];
+
+describe.each(routes)("%s", (_, send) => {
+  it("responds 401 without a session", async () => {
+    getMemorySupabase().setUser(null);
+
+    const response = await send(FIXTURE_USER.id);
+    expect(response.status).toBe(401);
+  });
+
+  it("responds 403 when the request names another user", async () => {
+    const response = await send(OTHER_USER_ID);
+    expect(response.status).toBe(403);
+  });
+});
+
+describe("a rejected request", () => {
+  it("leaves the signed-in user's data alone", async () => {
+    await saveSettings(
+      jsonRequest(
+        "/api/settings",
+        { userId: OTHER_USER_ID, settings: { useLearningHistory: false } },
+        "PUT",
+      ),
+    );
+
+    const response = await getSettings(getRequest("/api/settings"));
+    const { settings } = await response.json();
+    expect(settings.useLearningHistory).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { POST } from "@/app/api/chat/route";
+import { FIXTURE_USER, getMemorySupabase } from "@/lib/testing";
+import { jsonRequest, readEvents } from "../helpers";
+
+const MOCK_REPLY =
+  "This is a mock reply from the offline assistant, based on the course search above.";
+
+function chatMessages(sessionId: string) {
+  return (getMemorySupabase().snapshot().chat_messages ?? []).filter(
+    (row) => row.session_id === sessionId,
+  );
+}
+
+describe("POST /api/chat", () => {
+  it("answers through the agent's tools and saves the exchange", async () => {
+    const response = await POST(
+      jsonRequest("/api/chat", {
+        message: "Which programming courses are there?",
+        userId: FIXTURE_USER.id,
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.answer).toBe(MOCK_REPLY);
+    expect(body.toolCalls).toEqual([
+      {
+        tool: "searchCourses",
+        arguments: expect.anything(),
+        failed: false,
+      },
+    ]);
+
+    const saved = chatMessages(body.sessionId);
+    expect(saved.map((row) => row.role)).toEqual(["user", "assistant"]);
+    expect(saved[1].content).toBe(MOCK_REPLY);
+  });
+
+  it("continues a session with its saved history", async () => {
+    const first = await (
+      await POST(
+        jsonRequest("/api/chat", { message: "Tell me about databases" }),
+      )
+    ).json();
+    await POST(
+      jsonRequest("/api/chat", {
+        message: "And web development?",
+        sessionId: first.sessionId,
+      }),
+    );
+
+    expect(chatMessages(first.sessionId)).toHaveLength(4);
+  });
+
+  it("streams tool progress, the answer and a done event", async () => {
+    const response = await POST(
+      jsonRequest("/api/chat", {
+        message: "Which machine learning courses are there?",
+        stream: true,
+      }),
+    );
+
+    const events = await readEvents(response);
+    expect(events[0]).toEqual({
+      event: "tool",
+      data: { tool: "searchCourses" },
+    });
+
+    // The answer arrives in pieces as the provider streams it, not as one finished reply
+    const deltas = events.filter(({ event }) => event === "delta");
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.map(({ data }) => data.text).join("")).toBe(MOCK_REPLY);
+
+    const done = events.at(-1);
+    expect(done?.event).toBe("done");
+    expect(done?.data.answer).toBe(MOCK_REPLY);
+  });
+
+  it("rejects an empty message", async () => {
+    const response = await POST(jsonRequest("/api/chat", { message: "" }));
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { GET as search } from "@/app/api/chat/search/route";
+import {
+  PATCH as updateSession,
+  GET as getSession,
+} from "@/app/api/chat/sessions/[sessionId]/route";
+import {
+  GET as listSessions,
+  POST as importSessions,
+} from "@/app/api/chat/sessions/route";
+import { FIXTURE_USER } from "@/lib/testing";
+import { getRequest, jsonRequest } from "../helpers";
+
+const applied = [
+  {
+    course_id: 4,
+    title: "Machine Learning Basics",
+    credits: 3,
+    match_score: 90,
+    time_slot: "TR 10:00-11:15",
+    reasons: [],
+  },
+];
+
+// The conversation earlier versions kept in localStorage under chat_history_<studentId>
+const legacyMessages = [
+  { role: "system", content: "You are a helpful course assistant." },
+  { role: "user", content: "Which math courses should I take?" },
+  {
+    role: "assistant",
+    content: "Start with Calculus I, then Linear Algebra.",
+  },
+];
+
+const params = (sessionId: string) => ({
+  params: Promise.resolve({ sessionId }),
+});
+
+async function sessionTitled(title: string) {
+  const { sessions } = await (
+    await listSessions(getRequest("/api/chat/sessions"))
+  ).json();
+  return sessions.find((session: { title: string }) => session.title === title);
+}
+
+describe("/api/chat/sessions", () => {
+  let imported: Response;
+  beforeAll(async () => {
+    imported = await importSessions(
+      jsonRequest("/api/chat/sessions", {
+        userId: FIXTURE_USER.id,
+        messages: legacyMessages,
+      }),
+    );
+  });
+
+  it("imports the conversation saved in the browser", async () => {
+    expect(await imported.json()).toEqual({ imported: 1 });
+
+    const math = await sessionTitled("Which math courses should I take?");
+    const opened = await getSession(
+      getRequest(`/api/chat/sessions/${math.id}`),
+      params(math.id),
+    );
+    const { messages } = await opened.json();
+    expect(messages.map((message: { role: string }) => message.role)).toEqual([
+      "user",
+      "assistant",
+    ]);
+  });
+
+  it("imports nothing from a conversation without user messages", async () => {
+    const response = await importSessions(
+      jsonRequest("/api/chat/sessions", {
+        messages: [legacyMessages[0]],
+      }),
+    );
+    expect(await response.json()).toEqual({ imported: 0 });
+  });
+
+  it("records the dashboard courses applied from a session", async () => {
+    const math = await sessionTitled("Which math courses should I take?");
+    const updated = await updateSession(
+      jsonRequest(
+        `/api/chat/sessions/${math.id}`,
+        { appliedRecommendations: applied },
+        "PATCH",
+      ),
+      params(math.id),
+    );
+    expect(updated.status).toBe(200);
+    expect(
+      (await sessionTitled("Which math courses should I take?"))
+        .appliedRecommendations,
+    ).toEqual(applied);
+
+    const empty = await updateSession(
+      jsonRequest(`/api/chat/sessions/${math.id}`, {}, "PATCH"),
+      params(math.id),
+    );
+    expect(empty.status).toBe(400);
+  });
+
+  it("searches messages and applied courses on the server", async () => {
+    const math = await sessionTitled("Which math courses should I take?");
+    const byMessage = await search(
+      getRequest("/api/chat/search?q=linear+ALGEBRA"),
+    );
+    expect((await byMessage.json()).results).toEqual([
+      {
+        sessionId: math.id,
+        sessionTitle: "Which math courses should I take?",
+        messageId: expect.anything(),
+        snippet: "Start with Calculus I, then Linear Algebra.",
+      },
+    ]);
+
+    const byCourse = await search(
+      getRequest("/api/chat/search?q=machine+learning"),
+    );
+    expect((await byCourse.json()).results[0]).toMatchObject({
+      sessionId: math.id,
+      messageId: null,
+      snippet: "Applied: Machine Learning Basics",
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { GET as getCourse } from "@/app/api/courses/[id]/route";
+import { GET as compareCourses } from "@/app/api/courses/compare/route";
+import { GET } from "@/app/api/courses/route";
+import { FIXTURE_TABLES, getMemorySupabase } from "@/lib/testing";
+import { getRequest } from "../helpers";
+
+// More courses than one PostgREST response holds
+const EXTRA_COURSES = 1200;
+const CATALOG_SIZE = FIXTURE_TABLES.courses.length + EXTRA_COURSES;
+const LAST_EXTRA_COURSE = `Independent Study ${EXTRA_COURSES}`;
+
+beforeAll(async () => {
+  const supabase = getMemorySupabase();
+  await supabase.from("courses").insert(
+    Array.from({ length: EXTRA_COURSES }, (_, i) => ({
+      title: `Independent Study ${i + 1}`,
+      description: "Supervised project work.",
+      credits: 1,
+      subject: "Independent Study",
+      semester: "Spring",
+      time_slots: "Online",
+      learning_mode: "Online",
+      is_elective: true,
+    })),
+  );
+
+  // Machine Learning also requires a course past the first page of the catalog
+  const { data } = await supabase
+    .from("courses")
+    .select("id")
+    .eq("title", LAST_EXTRA_COURSE)
+    .single();
+  const { id } = data as { id: number };
+  await supabase
+    .from("prerequisites")
+    .insert({ course_id: 7, prerequisite_id: id });
+});
+
+describe("GET /api/courses", () => {
+  it("counts facets over the whole catalog", async () => {
+    const response = await GET(getRequest("/api/courses"));
+
+    expect(response.status).toBe(200);
+    const { total, facets } = await response.json();
+    expect(total).toBe(CATALOG_SIZE);
+    expect(facets.subject).toContainEqual({
+      value: "Independent Study",
+      count: EXTRA_COURSES,
+    });
+  });
+
+  it("searches the whole catalog", async () => {
+    const response = await GET(getRequest("/api/courses?search=independent"));
+
+    expect(response.status).toBe(200);
+    const { total } = await response.json();
+    expect(total).toBe(EXTRA_COURSES);
+  });
+});
+
+describe("GET /api/courses/:id", () => {
+  it("names prerequisites from the whole catalog", async () => {
+    const response = await getCourse(getRequest("/api/courses/7"), {
+      params: Promise.resolve({ id: "7" }),
+    });
+
+    expect(response.status).toBe(200);
+    const { prerequisites } = await response.json();
+    expect(prerequisites).toContainEqual(
+      expect.objectContaining({ title: LAST_EXTRA_COURSE, level: 1 }),
+    );
+  });
+});
+
+describe("GET /api/courses/compare", () => {
+  it("names missing prerequisites from the whole catalog", async () => {
+    const response = await compareCourses(
+      getRequest("/api/courses/compare?ids=6,7"),
+    );
+
+    expect(response.status).toBe(200);
+    const { courses } = await response.json();
+    expect(courses[1].eligibility.missingPrerequisites).toContainEqual(
+      expect.objectContaining({ title: LAST_EXTRA_COURSE }),
+    );
+  });
+});
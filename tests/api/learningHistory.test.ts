@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { POST as advise } from "@/app/api/advisor/route";
+import { POST as chat } from "@/app/api/chat/route";
+import type { LLMRequest } from "@/lib/llm";
+import { FIXTURE_USER, getMemorySupabase } from "@/lib/testing";
+import { jsonRequest } from "../helpers";
+
+// Every request the offline provider answers, to inspect what reached the model
+const requests = vi.hoisted(() => [] as LLMRequest[]);
+
+vi.mock("@/lib/llm/providers/mock", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/lib/llm/providers/mock")>();
+  return {
+    ...actual,
+    createMockProvider: (
+      options: Parameters<typeof actual.createMockProvider>[0] = {},
+    ) =>
+      actual.createMockProvider({
+        ...options,
+        onRequest: (request) => requests.push(request),
+      }),
+  };
+});
+
+const modelInput = () =>
+  requests
+    .flatMap(({ messages }) => messages.map(({ content }) => content))
+    .join("\n");
+
+// The fixture student completed Introduction to Programming, which Data Structures requires
+beforeAll(async () => {
+  await getMemorySupabase()
+    .from("user_settings")
+    .insert({ user_id: FIXTURE_USER.id, use_learning_history: false });
+});
+
+describe("with Use Learning History off", () => {
+  it("keeps completed courses out of the chat agent's prompt and tool results", async () => {
+    requests.length = 0;
+    const response = await chat(
+      jsonRequest("/api/chat", {
+        message: "Which programming courses are there?",
+        useAdvisorMode: true,
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    const input = modelInput();
+    expect(input).toMatch(/^- Data Structures \([^\n]*NOT ELIGIBLE/m);
+    expect(input).toContain("Result of searchCourses");
+    expect(input).not.toMatch(/"completed":\s*true/);
+  });
+
+  it("keeps completed courses out of the advisor's prompt", async () => {
+    requests.length = 0;
+    const response = await advise(
+      jsonRequest("/api/advisor", { userQuery: "What should I take next?" }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(modelInput()).toMatch(/^- Data Structures \([^\n]*NOT ELIGIBLE/m);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { GET as getPublicProfile } from "@/app/api/profile/public/[userId]/route";
+import { PUT as saveSettings } from "@/app/api/settings/route";
+import { FIXTURE_USER, getMemorySupabase } from "@/lib/testing";
+import { getRequest, jsonRequest } from "../helpers";
+
+const view = () =>
+  getPublicProfile(getRequest(`/api/profile/public/${FIXTURE_USER.id}`), {
+    params: Promise.resolve({ userId: FIXTURE_USER.id }),
+  });
+
+const setPublicProfile = async (publicProfile: boolean) => {
+  const response = await saveSettings(
+    jsonRequest(
+      "/api/settings",
+      { userId: FIXTURE_USER.id, settings: { publicProfile } },
+      "PUT",
+    ),
+  );
+  expect(response.status).toBe(200);
+};
+
+describe("GET /api/profile/public/:userId", () => {
+  it("hides a profile until its student makes it public", async () => {
+    const response = await view();
+    expect(response.status).toBe(404);
+  });
+
+  it("shows the public part of a profile turned public in Settings", async () => {
+    await setPublicProfile(true);
+
+    const response = await view();
+    expect(response.status).toBe(200);
+    const { profile } = await response.json();
+    expect(profile).toEqual({
+      userId: FIXTURE_USER.id,
+      fullName: "Alex Rivera",
+      careerGoal: "Software Development",
+      creditsCompleted: 30,
+      skillGoals: [],
+      courses: [
+        { id: 1, title: "Introduction to Programming" },
+        { id: 4, title: "Calculus I" },
+      ],
+    });
+    expect(profile).not.toHaveProperty("email");
+  });
+
+  it("hides it again when Public Profile is turned off", async () => {
+    await setPublicProfile(false);
+
+    expect((await view()).status).toBe(404);
+  });
+
+  it("responds 401 without a session", async () => {
+    getMemorySupabase().setUser(null);
+
+    expect((await view()).status).toBe(401);
+  });
+});
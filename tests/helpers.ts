@@ -0,0 +1,30 @@
+import { NextRequest } from "next/server";
+import { parseServerSentEvents } from "@/lib/llm";
+
+export function jsonRequest(
+  path: string,
+  body: unknown,
+  method = "POST",
+): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export function getRequest(path: string, method = "GET"): NextRequest {
+  return new NextRequest(`http://localhost${path}`, { method });
+}
+
+// Every event of a server-sent event response, with its data parsed
+export async function readEvents(
+  response: Response,
+): Promise<{ event: string; data: Record<string, unknown> }[]> {
+  if (!response.body) throw new Error("Response has no body");
+  const events = [];
+  for await (const { event, data } of parseServerSentEvents(response.body)) {
+    events.push({ event, data: JSON.parse(data) });
+  }
+  return events;
+}
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FIXTURE_TABLES } from "@/lib/testing";
+import {
+  buildAdvisorContext,
+  type Course,
+  type Prerequisite,
+  type Student,
+} from "@/utils/advisorPromptBuilder";
+
+const student = FIXTURE_TABLES.students[0] as unknown as Student;
+const courses = FIXTURE_TABLES.courses as unknown as Course[];
+const prerequisites = FIXTURE_TABLES.prerequisites as unknown as Prerequisite[];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("buildAdvisorContext", () => {
+  it("reports courses that do not fit the budget in its return value, not the console", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const { prompt, catalog } = buildAdvisorContext(
+      student,
+      courses,
+      prerequisites,
+      { catalogTokenBudget: 60 },
+    );
+
+    expect(catalog.dropped.length).toBeGreaterThan(0);
+    expect(catalog.fullDetail + catalog.compact + catalog.dropped.length).toBe(
+      courses.length,
+    );
+    expect(prompt).toContain(
+      `${catalog.dropped.length} less relevant courses were left out for length`,
+    );
+    expect(log.mock.calls.flat().join(" ")).not.toContain("left out");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { type AgentTool, runAgent } from "@/lib/agent";
+
+const lookup: AgentTool = {
+  name: "getCourse",
+  description: "Details of one course",
+  parameters: '{ "courseId": number }',
+  run: async () => ({ id: 1, title: "Intro to Programming" }),
+};
+
+// Each model turn in order, streamed in small chunks or returned whole
+function scriptedTurns(...turns: string[]) {
+  const queue = [...turns];
+  return {
+    generate: async () => queue.shift() ?? "",
+    async *streamGenerate() {
+      const turn = queue.shift() ?? "";
+      for (let i = 0; i < turn.length; i += 8) yield turn.slice(i, i + 8);
+    },
+  };
+}
+
+const messages = [{ role: "user" as const, content: "Tell me about course 1" }];
+
+describe("runAgent", () => {
+  it("streams only the answer turn's reply text", async () => {
+    const reply = 'Intro to Programming covers "variables" and loops.';
+    const onAnswerDelta = vi.fn();
+
+    const result = await runAgent({
+      ...scriptedTurns(
+        '{"action": "call_tool", "tool": "getCourse", "arguments": {"courseId": 1}}',
+        JSON.stringify({ action: "answer", reply }),
+      ),
+      tools: [lookup],
+      messages,
+      onAnswerDelta,
+    });
+
+    expect(result.reply).toBe(reply);
+    expect(result.toolCalls.map((call) => call.tool)).toEqual(["getCourse"]);
+    expect(onAnswerDelta.mock.calls.length).toBeGreaterThan(1);
+    expect(onAnswerDelta.mock.calls.map(([text]) => text).join("")).toBe(reply);
+  });
+
+  it("repairs a streamed answer that fails validation", async () => {
+    const onAnswerDelta = vi.fn();
+
+    const result = await runAgent({
+      ...scriptedTurns(
+        '{"action": "answer", "reply": ""}',
+        '{"action": "answer", "reply": "Intro to Programming has no prerequisites."}',
+      ),
+      tools: [lookup],
+      messages,
+      onAnswerDelta,
+    });
+
+    expect(result.reply).toBe("Intro to Programming has no prerequisites.");
+    expect(onAnswerDelta).not.toHaveBeenCalled();
+  });
+});
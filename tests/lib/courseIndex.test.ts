@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCourseSearchIndex,
+  type HighlightSegment,
+  type SearchableCourse,
+} from "@/lib/retrieval";
+
+const filler = (words: number) =>
+  Array.from({ length: words }, (_, i) => `lorem${i}`).join(" ");
+
+const courses: SearchableCourse[] = [
+  { id: 1, title: "Data Structures", keywords: "lists, trees" },
+  { id: 2, title: "Database Systems", keywords: ["sql", "transactions"] },
+  {
+    id: 3,
+    title: "Algorithms",
+    description: "Sorting, graphs and dynamic programming.",
+    instructor: "Ada Lovelace",
+  },
+  {
+    id: 4,
+    title: "Senior Seminar",
+    description: `${filler(40)} capstone ${filler(40)}`,
+  },
+  { id: 5, title: "Cat Behaviour" },
+];
+
+const index = createCourseSearchIndex(courses);
+const ids = (query: string, matchAll?: boolean) =>
+  index.search(query, { matchAll }).map((hit) => hit.course.id);
+const text = (snippet: HighlightSegment[]) =>
+  snippet.map((segment) => segment.text).join("");
+
+describe("createCourseSearchIndex", () => {
+  it("matches word prefixes, ranking exact words first", () => {
+    expect(ids("data")).toEqual([1, 2]);
+    expect(ids("algo")).toEqual([3]);
+  });
+
+  it("tolerates typos in longer words only", () => {
+    expect(ids("algoritms")).toEqual([3]);
+    expect(ids("lovelase")).toEqual([3]);
+    expect(ids("car")).toEqual([]);
+
+    const [exact] = index.search("algorithms");
+    const [typo] = index.search("algoritms");
+    expect(typo.score).toBeLessThan(exact.score);
+  });
+
+  it("requires every word unless matchAll is off", () => {
+    expect(ids("data sql")).toEqual([2]);
+    expect(ids("data sql", false)).toEqual([2, 1]);
+  });
+
+  it("highlights matches in the fields they were found in", () => {
+    const [hit] = index.search("sorting lovelace");
+
+    expect(hit.highlights.map(({ field }) => field)).toEqual([
+      "instructor",
+      "description",
+    ]);
+    expect(hit.highlights[1].snippet).toEqual([
+      { text: "Sorting", match: true },
+      { text: ", graphs and dynamic programming.", match: false },
+    ]);
+  });
+
+  it("shows a window of a long field around the first match", () => {
+    const [hit] = index.search("capstone");
+    const { snippet } = hit.highlights[0];
+    const shown = text(snippet);
+
+    expect(snippet[0]).toEqual({ text: "…", match: false });
+    expect(snippet.at(-1)).toEqual({ text: "…", match: false });
+    expect(snippet).toContainEqual({ text: "capstone", match: true });
+    // Within the window and cut at word boundaries
+    expect(shown.length).toBeLessThanOrEqual(160 + 2);
+    expect(shown.slice(1, -1)).toMatch(/^lorem\d+ [\s\S]* lorem\d+$/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { parseTerm, type Term } from "@/lib/academicCalendar";
+import {
+  type EnrollmentRecord,
+  forecastEnrollment,
+} from "@/lib/enrollmentForecast";
+
+function term(name: string): Term {
+  const parsed = parseTerm(name);
+  if (!parsed) throw new Error(`Not a term: ${name}`);
+  return parsed;
+}
+
+// Fill rates as percentages of a 100-seat section, keyed by term
+function history(fillRates: Record<string, number>): EnrollmentRecord[] {
+  return Object.entries(fillRates).map(([semester, filled]) => ({
+    semester,
+    filled_slots: filled,
+    max_capacity: 100,
+  }));
+}
+
+// Fall sections fill up, Spring sections run half empty
+const SEASONAL = history({
+  "Spring 2024": 50,
+  "Fall 2024": 100,
+  "Spring 2025": 50,
+  "Fall 2025": 100,
+});
+
+// Same season every year, growing steadily
+const GROWING = history({
+  "Fall 2021": 40,
+  "Fall 2022": 50,
+  "Fall 2023": 60,
+  "Fall 2024": 70,
+});
+
+describe("forecastEnrollment", () => {
+  it("gives the same forecast for the same history, in any order", () => {
+    const forecast = forecastEnrollment(SEASONAL);
+
+    expect(forecastEnrollment(SEASONAL)).toEqual(forecast);
+    expect(forecastEnrollment([...SEASONAL].reverse())).toEqual(forecast);
+    expect(forecast?.term).toBe("Spring 2026");
+  });
+
+  it("adds the target season's offset", () => {
+    const spring = forecastEnrollment(SEASONAL, {
+      targetTerm: term("Spring 2026"),
+    });
+    const fall = forecastEnrollment(SEASONAL, {
+      targetTerm: term("Fall 2026"),
+    });
+
+    expect(spring?.seasonalAdjustment).toBeLessThan(0);
+    expect(fall?.seasonalAdjustment).toBeGreaterThan(0);
+    expect(fall?.fillRate).toBeGreaterThan(spring?.fillRate ?? 1);
+  });
+
+  it("is unsure about a single term of history", () => {
+    const forecast = forecastEnrollment(history({ "Fall 2025": 60 }));
+
+    expect(forecast).toMatchObject({
+      term: "Spring 2026",
+      fillRate: 0.6,
+      confidence: "low",
+      sampleSize: 1,
+    });
+    expect((forecast?.high ?? 0) - (forecast?.low ?? 0)).toBeGreaterThan(0.4);
+  });
+
+  it("only predicts a fill-up day when demand reaches the capacity", () => {
+    const filling = forecastEnrollment(history({ "Fall 2025": 60 }));
+    const full = forecastEnrollment(
+      history({ "Spring 2025": 100, "Fall 2025": 100 }),
+    );
+
+    expect(filling?.fillsUpByDay).toBeNull();
+    expect(full?.fillsUpByDay).toBeGreaterThanOrEqual(1);
+    expect(full?.fillsUpByDay).toBeLessThanOrEqual(full?.registrationDays ?? 0);
+  });
+
+  it("projects the trend further for a target several terms ahead", () => {
+    const next = forecastEnrollment(GROWING);
+    const later = forecastEnrollment(GROWING, {
+      targetTerm: term("Fall 2026"),
+    });
+
+    expect(later?.term).toBe("Fall 2026");
+    expect(later?.fillRate).toBeGreaterThan(next?.fillRate ?? 1);
+  });
+
+  it("returns null without usable history", () => {
+    expect(forecastEnrollment([])).toBeNull();
+    expect(
+      forecastEnrollment([
+        { semester: "sometime", filled_slots: 10, max_capacity: 20 },
+        { semester: "Fall 2025", filled_slots: 10, max_capacity: 0 },
+      ]),
+    ).toBeNull();
+  });
+});
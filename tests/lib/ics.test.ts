@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { TermDates } from "@/lib/academicCalendar";
+import { buildScheduleCalendar, type CalendarCourse } from "@/lib/ics";
+
+// Instruction starts on a Tuesday; New York leaves daylight time on November 1
+const term: TermDates = {
+  season: "Fall",
+  year: 2026,
+  term: "Fall 2026",
+  start: "2026-09-01",
+  end: "2026-12-15",
+};
+
+const now = new Date(Date.UTC(2026, 7, 15, 12, 0, 0));
+
+function calendar(courses: CalendarCourse[], timeZone = "America/New_York") {
+  return buildScheduleCalendar({ courses, term, timeZone, now });
+}
+
+// Content lines, unfolded
+function lines(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+function block(all: string[], name: string): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] | null = null;
+  for (const line of all) {
+    if (line === `BEGIN:${name}`) current = [];
+    else if (line === `END:${name}` && current) {
+      blocks.push(current);
+      current = null;
+    } else current?.push(line);
+  }
+  return blocks;
+}
+
+describe("buildScheduleCalendar", () => {
+  it("describes the time zone's DST change during the term", () => {
+    const { ics } = calendar([
+      { id: 1, title: "Algorithms", time_slots: "MW 9:00-10:15" },
+    ]);
+    const [timeZone] = block(lines(ics), "VTIMEZONE");
+
+    expect(timeZone).toEqual([
+      "TZID:America/New_York",
+      "BEGIN:DAYLIGHT",
+      "DTSTART:19700101T000000",
+      "TZOFFSETFROM:-0500",
+      "TZOFFSETTO:-0400",
+      "END:DAYLIGHT",
+      "BEGIN:STANDARD",
+      "DTSTART:20261101T020000",
+      "TZOFFSETFROM:-0400",
+      "TZOFFSETTO:-0500",
+      "END:STANDARD",
+    ]);
+  });
+
+  it("has a single observance in a zone without DST", () => {
+    const { ics } = calendar(
+      [{ id: 1, title: "Algorithms", time_slots: "MW 9:00-10:15" }],
+      "UTC",
+    );
+    const [timeZone] = block(lines(ics), "VTIMEZONE");
+
+    expect(timeZone).toEqual([
+      "TZID:UTC",
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      "TZOFFSETFROM:+0000",
+      "TZOFFSETTO:+0000",
+      "END:STANDARD",
+    ]);
+  });
+
+  it("repeats each meeting weekly from the first class day to the end of the term", () => {
+    const { ics } = calendar([
+      {
+        id: 3,
+        title: "Algorithms",
+        subject: "Computer Science",
+        credits: 4,
+        time_slots: "MW 9:00-10:15",
+      },
+    ]);
+    const [event] = block(lines(ics), "VEVENT");
+
+    expect(event).toEqual(
+      expect.arrayContaining([
+        // The first Monday or Wednesday on or after Tuesday, September 1
+        "DTSTART;TZID=America/New_York:20260902T090000",
+        "DTEND;TZID=America/New_York:20260902T101500",
+        // The last second of December 15 in New York, in UTC
+        "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261216T045959Z",
+        "DTSTAMP:20260815T120000Z",
+        "SUMMARY:Algorithms",
+        "DESCRIPTION:Computer Science • 4 credits • Fall 2026",
+      ]),
+    );
+  });
+
+  it("splits meetings at different times into separate events", () => {
+    const { ics } = calendar([
+      {
+        id: 4,
+        title: "Calculus I",
+        time_slots: ["MW 9:00-9:50", "F 14:00-15:15"],
+      },
+    ]);
+    const events = block(lines(ics), "VEVENT");
+
+    expect(events).toHaveLength(2);
+    expect(events.flat().filter((line) => line.startsWith("RRULE:"))).toEqual([
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261216T045959Z",
+      "RRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20261216T045959Z",
+    ]);
+    expect(events[1]).toContain(
+      "DTSTART;TZID=America/New_York:20260904T140000",
+    );
+  });
+
+  it("skips courses without meeting times and escapes text", () => {
+    const { ics, skippedCourseIds } = calendar([
+      { id: 5, title: "Web Development", time_slots: "Online" },
+      {
+        id: 6,
+        title: "Probability, Statistics; R",
+        time_slots: "TTh 13:00-14:15",
+      },
+    ]);
+
+    expect(skippedCourseIds).toEqual([5]);
+    expect(lines(ics)).toContain("SUMMARY:Probability\\, Statistics\\; R");
+    expect(ics.split("\r\n").every((line) => line.length <= 75)).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  type PlannerCourse,
+  type PlannerInput,
+  planDegree,
+} from "@/lib/planner";
+import type { PrerequisiteRow } from "@/lib/prerequisites";
+
+function course(id: number, semester = "Fall, Spring"): PlannerCourse {
+  return { id, title: `Course ${id}`, credits: 3, semester };
+}
+
+function plan(overrides: Partial<PlannerInput>) {
+  return planDegree({
+    courses: [],
+    prerequisites: [],
+    completedCourseIds: [],
+    creditsCompleted: 0,
+    totalCreditsRequired: 0,
+    minCredits: 0,
+    maxCredits: 9,
+    startTerm: { season: "Fall", year: 2026 },
+    ...overrides,
+  });
+}
+
+function termsOf(
+  terms: { term: string; courses: { course: PlannerCourse }[] }[],
+) {
+  return terms.map(({ term, courses }) => [
+    term,
+    courses.map(({ course }) => course.id),
+  ]);
+}
+
+// 1 -> 2 -> 3 and 1 -> 4, with 5 needing both 3 and 4
+const prerequisites: PrerequisiteRow[] = [
+  { course_id: 2, prerequisite_id: 1 },
+  { course_id: 3, prerequisite_id: 2 },
+  { course_id: 4, prerequisite_id: 1 },
+  { course_id: 5, prerequisite_id: 3 },
+  { course_id: 5, prerequisite_id: 4 },
+];
+
+describe("planDegree", () => {
+  it("places each course in a term after its prerequisites", () => {
+    const { terms, issues } = plan({
+      courses: [1, 2, 3, 4, 5].map((id) => course(id)),
+      prerequisites,
+      requiredCourseIds: [5],
+      totalCreditsRequired: 15,
+    });
+
+    expect(termsOf(terms)).toEqual([
+      ["Fall 2026", [1]],
+      ["Spring 2027", [2, 4]],
+      ["Fall 2027", [3]],
+      ["Spring 2028", [5]],
+    ]);
+    expect(issues).toEqual([]);
+  });
+
+  it("starts from the courses already completed", () => {
+    const { terms } = plan({
+      courses: [1, 2, 3, 4, 5].map((id) => course(id)),
+      prerequisites,
+      completedCourseIds: ["1", "2"],
+      requiredCourseIds: [5],
+      totalCreditsRequired: 9,
+    });
+
+    expect(termsOf(terms)).toEqual([
+      ["Fall 2026", [3, 4]],
+      ["Spring 2027", [5]],
+    ]);
+  });
+
+  it("waits for a term the course is offered in", () => {
+    const { terms } = plan({
+      courses: [course(1, "Fall"), course(2, "Fall")],
+      prerequisites: [{ course_id: 2, prerequisite_id: 1 }],
+      requiredCourseIds: [2],
+      totalCreditsRequired: 6,
+    });
+
+    expect(termsOf(terms)).toEqual([
+      ["Fall 2026", [1]],
+      ["Fall 2027", [2]],
+    ]);
+  });
+
+  it("reports required courses caught in a prerequisite cycle", () => {
+    const { terms, issues } = plan({
+      courses: [1, 2, 3].map((id) => course(id)),
+      prerequisites: [
+        { course_id: 1, prerequisite_id: 2 },
+        { course_id: 2, prerequisite_id: 1 },
+      ],
+      requiredCourseIds: [2, 3],
+      totalCreditsRequired: 3,
+    });
+
+    expect(termsOf(terms)).toEqual([["Fall 2026", [3]]]);
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        type: "unplannable_course",
+        courseId: 2,
+        reason: "prerequisite_cycle",
+      }),
+    );
+  });
+
+  it("explains a target term the prerequisite chain cannot reach", () => {
+    const { meetsTarget, issues } = plan({
+      courses: [1, 2, 3, 4, 5].map((id) => course(id)),
+      prerequisites,
+      requiredCourseIds: [5],
+      totalCreditsRequired: 15,
+      targetTerm: "Spring 2027",
+    });
+
+    expect(meetsTarget).toBe(false);
+    expect(issues).toContainEqual(
+      expect.objectContaining({
+        type: "target_unreachable",
+        availableTerms: 2,
+        minimumTerms: 4,
+      }),
+    );
+  });
+});
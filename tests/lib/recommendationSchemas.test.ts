@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMockProvider,
+  generateStructured,
+  type LLMRequest,
+  type MockRule,
+  StructuredOutputError,
+} from "@/lib/llm";
+import {
+  chatReplySchema,
+  courseExplanationsSchema,
+  roadmapSchema,
+  unknownCourseIssues,
+} from "@/lib/recommendationSchemas";
+import { FIXTURE_TABLES } from "@/lib/testing";
+
+const catalog = FIXTURE_TABLES.courses as { id: number }[];
+
+const request: LLMRequest = {
+  messages: [{ role: "user", content: "Explain the selected courses." }],
+};
+
+// Replies with each scripted response in turn, recording the requests it saw
+function scripted(...replies: string[]) {
+  const requests: LLMRequest[] = [];
+  const rules: MockRule[] = [
+    {
+      match: /[\s\S]*/,
+      response: () =>
+        replies[Math.min(requests.length - 1, replies.length - 1)],
+    },
+  ];
+  const provider = createMockProvider({
+    rules,
+    onRequest: (seen) => requests.push(seen),
+  });
+  const generate = (next: LLMRequest) =>
+    provider.complete(next, "mock", new AbortController().signal);
+  return { generate, requests };
+}
+
+function explanations(courseIds: number[]) {
+  return JSON.stringify({
+    explanations: courseIds.map((course_id) => ({
+      course_id,
+      reasons: ["Builds on what you know"],
+    })),
+  });
+}
+
+const validateExplanations = (value: {
+  explanations: { course_id: number }[];
+}) =>
+  unknownCourseIssues(
+    "explanations",
+    value.explanations.map((entry) => entry.course_id),
+    catalog,
+  );
+
+describe("recommendation parsing", () => {
+  it("accepts a valid reply in JSON mode", async () => {
+    const { generate, requests } = scripted(explanations([1, 2]));
+
+    const value = await generateStructured(
+      generate,
+      request,
+      courseExplanationsSchema,
+      {
+        validate: validateExplanations,
+      },
+    );
+
+    expect(value.explanations.map((entry) => entry.course_id)).toEqual([1, 2]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].responseFormat).toBe("json");
+  });
+
+  it("strips a Markdown fence around the JSON", async () => {
+    const { generate } = scripted(`\`\`\`json\n${explanations([3])}\n\`\`\``);
+
+    const value = await generateStructured(
+      generate,
+      request,
+      courseExplanationsSchema,
+    );
+
+    expect(value.explanations[0].course_id).toBe(3);
+  });
+
+  it("repairs a reply naming a course outside the catalog", async () => {
+    const { generate, requests } = scripted(
+      explanations([999]),
+      explanations([2]),
+    );
+
+    const value = await generateStructured(
+      generate,
+      request,
+      courseExplanationsSchema,
+      {
+        validate: validateExplanations,
+      },
+    );
+
+    expect(value.explanations[0].course_id).toBe(2);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].messages.at(-1)?.content).toContain(
+      "explanations[0]: 999 is not a course ID from the catalog",
+    );
+  });
+
+  it("throws StructuredOutputError when the repair is also invalid", async () => {
+    const { generate } = scripted(
+      "not json",
+      '{"explanations": [{"course_id": "one"}]}',
+    );
+
+    await expect(
+      generateStructured(generate, request, courseExplanationsSchema),
+    ).rejects.toBeInstanceOf(StructuredOutputError);
+  });
+
+  it("parses chat replies and rejects roadmap steps of unknown type", async () => {
+    const chat = scripted(
+      JSON.stringify({
+        reply: "Try CS201 next.",
+        isRecommending: true,
+        recommendedCourses: [2],
+      }),
+    );
+    await expect(
+      generateStructured(chat.generate, request, chatReplySchema),
+    ).resolves.toMatchObject({
+      isRecommending: true,
+      recommendedCourses: [2],
+    });
+
+    const roadmap = scripted(
+      JSON.stringify({
+        steps: [
+          { title: "Start", type: "start", description: "" },
+          { title: "Party", type: "vacation", description: "" },
+        ],
+      }),
+    );
+    await expect(
+      generateStructured(roadmap.generate, request, roadmapSchema, {
+        maxRepairs: 0,
+      }),
+    ).rejects.toBeInstanceOf(StructuredOutputError);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  type SchedulerConstraints,
+  type SchedulerCourse,
+  solveSchedules,
+} from "@/lib/scheduler";
+import { findOverlaps, parseTimeSlot, type TimeSlot } from "@/lib/timeSlot";
+
+function course(
+  id: number,
+  credits: number,
+  time_slots: string,
+): SchedulerCourse {
+  return { id, title: `Course ${id}`, credits, time_slots };
+}
+
+function constraints(
+  overrides: Partial<SchedulerConstraints> = {},
+): SchedulerConstraints {
+  return {
+    minCredits: 0,
+    maxCredits: 18,
+    minCourses: 1,
+    maxCourses: 3,
+    completedCourseIds: [],
+    prerequisites: [],
+    ...overrides,
+  };
+}
+
+const scores: Record<number, number> = {
+  1: 0.9,
+  2: 0.6,
+  3: 0.6,
+  4: 0.5,
+  5: 0.4,
+  6: 0.3,
+  7: 0.2,
+  8: 0.1,
+};
+const scoreCourse = (scored: SchedulerCourse) => scores[scored.id];
+
+const catalog = [
+  course(1, 4, "MW 9:00-10:15"),
+  course(2, 3, "M 9:00-9:50"),
+  course(3, 3, "W 9:00-9:50"),
+  course(4, 4, "TTh 9:00-10:15"),
+  course(5, 3, "TTh 10:00-11:15"),
+  course(6, 2, "F 13:00-14:50"),
+  course(7, 3, "Online"),
+  course(8, 1, "MWF 12:00-12:50"),
+];
+
+// Every conflict-free subset within the bounds, best first
+function bruteForce(
+  courses: SchedulerCourse[],
+  bounds: SchedulerConstraints,
+): { ids: number[]; score: number }[] {
+  const slots = courses.map((c) => parseTimeSlot(c.time_slots) as TimeSlot);
+  const schedules: { ids: number[]; score: number }[] = [];
+  for (let mask = 1; mask < 1 << courses.length; mask++) {
+    const picked = courses.flatMap((c, i) => (mask & (1 << i) ? [i] : []));
+    const credits = picked.reduce((sum, i) => sum + courses[i].credits, 0);
+    const conflictFree = picked.every((i, n) =>
+      picked
+        .slice(n + 1)
+        .every((j) => findOverlaps(slots[i], slots[j]).length === 0),
+    );
+    if (
+      conflictFree &&
+      picked.length >= bounds.minCourses &&
+      picked.length <= bounds.maxCourses &&
+      credits >= bounds.minCredits &&
+      credits <= bounds.maxCredits
+    ) {
+      schedules.push({
+        ids: picked.map((i) => courses[i].id),
+        score: picked.reduce((sum, i) => sum + scoreCourse(courses[i]), 0),
+      });
+    }
+  }
+  return schedules.sort((a, b) => b.score - a.score);
+}
+
+describe("solveSchedules", () => {
+  it("finds the best schedule when the top course blocks better pairs", () => {
+    const { schedules } = solveSchedules(
+      catalog.slice(0, 3),
+      constraints({ maxCourses: 2 }),
+      { scoreCourse, limit: 1 },
+    );
+
+    // Course 1 overlaps both 2 and 3, which together outscore it
+    expect(schedules).toHaveLength(1);
+    expect(schedules[0].courses.map(({ course }) => course.id)).toEqual([2, 3]);
+    expect(schedules[0].score).toBeCloseTo(1.2);
+  });
+
+  it("returns the same top scores as an exhaustive search", () => {
+    const bounds = constraints({ minCredits: 6, maxCredits: 12 });
+    const { schedules } = solveSchedules(catalog, bounds, {
+      scoreCourse,
+      limit: 5,
+    });
+    const expected = bruteForce(catalog, bounds).slice(0, 5);
+
+    expect(schedules.map((schedule) => schedule.score)).toEqual(
+      expected.map((schedule) => expect.closeTo(schedule.score)),
+    );
+  });
+
+  it("keeps every schedule within the credit bounds", () => {
+    const bounds = constraints({
+      minCredits: 7,
+      maxCredits: 9,
+      maxCourses: 4,
+    });
+    const { schedules } = solveSchedules(catalog, bounds, {
+      scoreCourse,
+      limit: 10,
+    });
+
+    expect(schedules.length).toBeGreaterThan(0);
+    for (const schedule of schedules) {
+      const credits = schedule.courses.reduce(
+        (sum, { course: picked }) => sum + picked.credits,
+        0,
+      );
+      expect(schedule.totalCredits).toBe(credits);
+      expect(credits).toBeGreaterThanOrEqual(7);
+      expect(credits).toBeLessThanOrEqual(9);
+    }
+  });
+
+  it("returns no schedule when the credit bounds cannot be met", () => {
+    const { schedules } = solveSchedules(
+      catalog,
+      constraints({ minCredits: 12, maxCredits: 12, maxCourses: 2 }),
+      { scoreCourse },
+    );
+
+    expect(schedules).toEqual([]);
+  });
+
+  it("excludes completed, blocked and unreadable courses", () => {
+    const { schedules, excluded } = solveSchedules(
+      [...catalog.slice(0, 4), course(9, 3, "whenever works")],
+      constraints({
+        completedCourseIds: ["1"],
+        prerequisites: [{ course_id: 4, prerequisite_id: 2 }],
+      }),
+      { scoreCourse: (scored) => scores[scored.id] ?? 1 },
+    );
+
+    expect(excluded.map(({ courseId, reason }) => [courseId, reason])).toEqual([
+      [1, "already_taken"],
+      [4, "missing_prerequisites"],
+      [9, "unparseable_time_slot"],
+    ]);
+    const scheduled = new Set(
+      schedules.flatMap((schedule) =>
+        schedule.courses.map(({ course: picked }) => picked.id),
+      ),
+    );
+    expect([...scheduled].sort()).toEqual([2, 3]);
+  });
+});
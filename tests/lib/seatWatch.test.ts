@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { describeSeatAlert, detectSeatChange } from "@/lib/seatWatch";
+
+describe("detectSeatChange", () => {
+  it("only records a baseline for a course it has not seen", () => {
+    expect(detectSeatChange(null, 0, 5)).toBeNull();
+    expect(detectSeatChange(null, 20, 5)).toBeNull();
+  });
+
+  it("reports a full course getting seats back as opened", () => {
+    expect(detectSeatChange(0, 1, 5)).toBe("opened");
+    expect(detectSeatChange(0, 30, 5)).toBe("opened");
+  });
+
+  it("reports seats dropping below the threshold as low, once", () => {
+    expect(detectSeatChange(5, 4, 5)).toBe("low");
+    expect(detectSeatChange(12, 0, 5)).toBe("low");
+    // Already below the threshold on the last run
+    expect(detectSeatChange(4, 2, 5)).toBeNull();
+  });
+
+  it("ignores changes that cross neither line", () => {
+    expect(detectSeatChange(10, 10, 5)).toBeNull();
+    expect(detectSeatChange(10, 6, 5)).toBeNull();
+    expect(detectSeatChange(2, 8, 5)).toBeNull();
+  });
+});
+
+describe("describeSeatAlert", () => {
+  it("words the alert by kind and seat count", () => {
+    expect(
+      describeSeatAlert({ kind: "opened", available_slots: 1 }, "Algorithms"),
+    ).toBe("A seat opened up in Algorithms.");
+    expect(
+      describeSeatAlert({ kind: "low", available_slots: 0 }, "Algorithms"),
+    ).toBe("Algorithms is now full.");
+    expect(
+      describeSeatAlert({ kind: "low", available_slots: 3 }, "Algorithms"),
+    ).toBe("Only 3 seats left in Algorithms.");
+  });
+});
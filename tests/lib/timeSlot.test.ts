@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Meeting,
+  parseTimeSlot,
+  serializeTimeSlot,
+  type TimeSlot,
+  WEEKDAYS,
+} from "@/lib/timeSlot";
+
+function meetingDays(input: unknown): string {
+  const slot = parseTimeSlot(input);
+  if (slot.kind !== "scheduled") throw new Error(`Not scheduled: ${slot.kind}`);
+  return slot.meetings.map((meeting) => meeting.day).join("");
+}
+
+describe("parseTimeSlot days", () => {
+  it("reads uppercase letter codes one day per letter", () => {
+    expect(meetingDays("MTWRFSU 9-10")).toBe("MTWRFSU");
+    expect(meetingDays("SU 09:00-10:00")).toBe("SU");
+    expect(meetingDays("S/U 9-10")).toBe("SU");
+  });
+
+  it("reads abbreviations and day names", () => {
+    expect(meetingDays("Su 9-10")).toBe("U");
+    expect(meetingDays("Sa 9-10")).toBe("S");
+    expect(meetingDays("TuTh 9-10")).toBe("TR");
+    expect(meetingDays("TTH 9-10")).toBe("TR");
+    expect(meetingDays("Mon, Wed & Fri 9-10")).toBe("MWF");
+    expect(meetingDays("sat sun 9-10")).toBe("SU");
+  });
+});
+
+describe("serializeTimeSlot", () => {
+  const slots: TimeSlot[] = [
+    // Every pair of days, so weekend pairs written as "SU" are covered
+    ...WEEKDAYS.flatMap((first, i) =>
+      WEEKDAYS.slice(i + 1).map(
+        (second): TimeSlot => ({
+          kind: "scheduled",
+          meetings: [first, second].map(
+            (day): Meeting => ({ day, start: 540, end: 600 }),
+          ),
+        }),
+      ),
+    ),
+    {
+      kind: "scheduled",
+      meetings: [
+        { day: "M", start: 600, end: 675 },
+        { day: "W", start: 600, end: 675 },
+        { day: "S", start: 780, end: 840 },
+        { day: "U", start: 780, end: 840 },
+      ],
+    },
+    { kind: "tba" },
+    { kind: "online" },
+  ];
+
+  it("round-trips through parseTimeSlot", () => {
+    for (const slot of slots) {
+      const serialized = serializeTimeSlot(slot);
+      expect(parseTimeSlot(serialized), serialized).toEqual(slot);
+    }
+  });
+});
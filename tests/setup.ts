@@ -0,0 +1,34 @@
+import { afterEach, vi } from "vitest";
+import { FIXTURE_USER, getMemorySupabase } from "@/lib/testing";
+
+// Every Supabase client module hands out the shared in-memory fixture database instead, signed in
+// as whoever the test sets with setUser
+vi.mock("@/utils/supabase/server", async () => {
+  const { getMemorySupabase } = await import("@/lib/testing");
+  return { createClient: async () => getMemorySupabase() };
+});
+
+vi.mock("@/utils/supabase/admin", async () => {
+  const { getMemorySupabase } = await import("@/lib/testing");
+  return { createAdminClient: () => getMemorySupabase() };
+});
+
+vi.mock("@/utils/supabaseClient", async () => {
+  const { getMemorySupabase } = await import("@/lib/testing");
+  return { default: getMemorySupabase() };
+});
+
+vi.mock("@/lib/supabase", async () => {
+  const { getMemorySupabase } = await import("@/lib/testing");
+  return { supabase: getMemorySupabase() };
+});
+
+vi.mock("@/lib/supabaseClient", async () => {
+  const { getMemorySupabase } = await import("@/lib/testing");
+  return { supabase: getMemorySupabase() };
+});
+
+// Each test starts signed in as the fixture student
+afterEach(() => {
+  getMemorySupabase().setUser(FIXTURE_USER);
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import type { AgentTool } from "@/lib/agent";
+import { createMemorySupabase, FIXTURE_TABLES } from "@/lib/testing";
+import { type ChatToolContext, createChatTools } from "@/utils/chatTools";
+
+// Web Development's meeting time cannot be read
+const tables = {
+  ...FIXTURE_TABLES,
+  courses: FIXTURE_TABLES.courses.map((course) =>
+    course.id === 5 ? { ...course, time_slots: "whenever works" } : course,
+  ),
+};
+
+function tool(
+  name: string,
+  context: Partial<ChatToolContext> = {},
+  client = createMemorySupabase(tables),
+): AgentTool {
+  const { tools } = createChatTools({
+    // The student has completed Introduction to Programming and Calculus I
+    completedCourseIds: ["1", "4"],
+    client: client as unknown as ChatToolContext["client"],
+    loadAvailability: async () => ({}),
+    loadForecasts: async () => ({}),
+    ...context,
+  });
+  const found = tools.find((candidate) => candidate.name === name);
+  if (!found) throw new Error(`No tool ${name}`);
+  return found;
+}
+
+describe("chat tools", () => {
+  it("leaves completed courses out of eligible search results", async () => {
+    const result = (await tool("searchCourses").run({
+      eligibleOnly: true,
+      limit: 20,
+    })) as { courses: { id: number }[] };
+
+    expect(result.courses.map((course) => course.id).sort()).toEqual([2, 5, 6]);
+  });
+
+  it("rejects a recommendation set with a completed course", async () => {
+    const result = await tool("proposeRecommendationSet").run({
+      courseIds: [1, 2],
+    });
+
+    expect(result).toMatchObject({
+      accepted: false,
+      alreadyCompleted: ["Introduction to Programming"],
+      ineligible: [],
+    });
+  });
+
+  it("reports the course whose meeting time cannot be read", async () => {
+    const result = await tool("checkScheduleConflicts").run({
+      courseIds: [1, 5],
+    });
+
+    expect(result).toEqual({
+      conflictFree: true,
+      conflicts: [],
+      unscheduled: ["Web Development"],
+    });
+  });
+
+  it("loads availability only for the courses it returns", async () => {
+    const requested: number[][] = [];
+    const result = (await tool("searchCourses", {
+      loadAvailability: async (courseIds) => {
+        requested.push(courseIds);
+        return {};
+      },
+    }).run({ limit: 2 })) as { total: number; courses: { id: number }[] };
+
+    expect(result.total).toBe(7);
+    expect(requested).toEqual([result.courses.map((course) => course.id)]);
+  });
+
+  it("filters by occupancy among the matching courses only", async () => {
+    const requested: number[][] = [];
+    const result = (await tool("searchCourses", {
+      loadAvailability: async (courseIds) => {
+        requested.push(courseIds);
+        return { 2: 0.05, 6: 0.6 };
+      },
+    }).run({ eligibleOnly: true, maxOccupancyPercent: 50 })) as {
+      courses: { id: number; occupancyPercent: number }[];
+    };
+
+    expect(requested.map((ids) => [...ids].sort())).toEqual([[2, 5, 6]]);
+    expect(result.courses).toEqual([
+      expect.objectContaining({ id: 6, occupancyPercent: 40 }),
+    ]);
+  });
+
+  it("searches catalogs larger than one page", async () => {
+    const extra = Array.from({ length: 1100 }, (_, index) => ({
+      ...FIXTURE_TABLES.courses[4],
+      id: 100 + index,
+      title: `Elective ${index}`,
+    }));
+    const result = (await tool(
+      "searchCourses",
+      {},
+      createMemorySupabase({
+        ...tables,
+        courses: [...tables.courses, ...extra],
+      }),
+    ).run({})) as { total: number };
+
+    expect(result.total).toBe(1107);
+  });
+
+  it("forecasts availability through its own client", async () => {
+    const result = (await tool(
+      "getAvailability",
+      { loadForecasts: undefined },
+      createMemorySupabase({ ...tables, course_history: [] }),
+    ).run({ courseIds: [2] })) as { forecast: unknown }[];
+
+    expect(result).toEqual([
+      expect.objectContaining({ courseId: 2, forecast: null }),
+    ]);
+  });
+});
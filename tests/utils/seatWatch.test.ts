@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import type { EmailMessage, NotificationTransport } from "@/lib/notifications";
+import {
+  createMemorySupabase,
+  FIXTURE_FUNCTIONS,
+  FIXTURE_TABLES,
+  FIXTURE_USER,
+  type Functions,
+  type Row,
+} from "@/lib/testing";
+import { runSeatWatchJob } from "@/utils/seatWatch";
+
+type JobClient = NonNullable<Parameters<typeof runSeatWatchJob>[0]>["client"];
+
+const OTHER_USER_ID = "00000000-0000-4000-8000-000000000002";
+
+function watch(id: string, row: Row): Row {
+  return {
+    id,
+    user_id: FIXTURE_USER.id,
+    threshold: 5,
+    notify_email: false,
+    created_at: "2026-10-01T00:00:00.000Z",
+    ...row,
+  };
+}
+
+// Data Structures has 3 seats, Introduction to Programming 24 and Algorithms 12
+const WATCHES = [
+  watch("low", { course_id: 2, last_seen_slots: 10, notify_email: true }),
+  watch("opened", { course_id: 1, last_seen_slots: 0 }),
+  watch("new", { course_id: 3, last_seen_slots: null, user_id: OTHER_USER_ID }),
+  watch("unchanged", { course_id: 3, last_seen_slots: 12 }),
+];
+
+function setup({
+  tables = {},
+  functions = FIXTURE_FUNCTIONS,
+}: { tables?: Record<string, Row[]>; functions?: Functions } = {}) {
+  const db = createMemorySupabase(
+    { ...FIXTURE_TABLES, course_watches: WATCHES, ...tables },
+    { functions },
+  );
+  const sent: EmailMessage[] = [];
+  const transport: NotificationTransport = {
+    name: "console",
+    send: async (message) => {
+      sent.push(message);
+    },
+  };
+  const run = () =>
+    runSeatWatchJob({ client: db as unknown as JobClient, transport });
+  const baselines = () =>
+    Object.fromEntries(
+      (db.snapshot().course_watches ?? []).map((row) => [
+        row.id,
+        row.last_seen_slots,
+      ]),
+    );
+  return { db, sent, run, baselines };
+}
+
+describe("runSeatWatchJob", () => {
+  it("raises alerts, advances baselines and emails students who asked", async () => {
+    const { db, sent, run, baselines } = setup();
+
+    expect(await run()).toEqual({
+      watches: 4,
+      alerts: 2,
+      emailsSent: 1,
+      emailsFailed: 0,
+    });
+    expect(
+      (db.snapshot().seat_alerts ?? []).map(
+        ({ course_id, kind, available_slots, previous_slots }) => ({
+          course_id,
+          kind,
+          available_slots,
+          previous_slots,
+        }),
+      ),
+    ).toEqual([
+      { course_id: 2, kind: "low", available_slots: 3, previous_slots: 10 },
+      { course_id: 1, kind: "opened", available_slots: 24, previous_slots: 0 },
+    ]);
+    expect(baselines()).toEqual({ low: 3, opened: 24, new: 12, unchanged: 12 });
+    expect(sent).toEqual([
+      expect.objectContaining({
+        to: FIXTURE_USER.email,
+        subject: "Seats running low: Data Structures",
+      }),
+    ]);
+
+    // Nothing changed since, so a second run is quiet
+    expect((await run()).alerts).toBe(0);
+  });
+
+  it("keeps alerts in the app for students who turned emails off", async () => {
+    const { db, sent, run } = setup({
+      tables: {
+        user_settings: [
+          { user_id: FIXTURE_USER.id, email_notifications: false },
+        ],
+      },
+    });
+
+    expect((await run()).emailsSent).toBe(0);
+    expect(sent).toEqual([]);
+    expect(db.snapshot().seat_alerts).toHaveLength(2);
+  });
+
+  it("raises no alerts for students who turned course updates off", async () => {
+    const { db, sent, run, baselines } = setup({
+      tables: {
+        user_settings: [{ user_id: FIXTURE_USER.id, course_updates: false }],
+      },
+    });
+
+    expect(await run()).toMatchObject({ alerts: 0, emailsSent: 0 });
+    expect(sent).toEqual([]);
+    expect(db.snapshot().seat_alerts ?? []).toEqual([]);
+    expect(baselines()).toEqual({ low: 3, opened: 24, new: 12, unchanged: 12 });
+  });
+
+  it("leaves every baseline alone when the alerts cannot be saved", async () => {
+    const { db, run, baselines } = setup({
+      functions: {
+        record_seat_watch_run: () => {
+          throw new Error("seat_alerts is unavailable");
+        },
+      },
+    });
+
+    await expect(run()).rejects.toThrow("seat_alerts is unavailable");
+    expect(db.snapshot().seat_alerts ?? []).toEqual([]);
+    expect(baselines()).toEqual({
+      low: 10,
+      opened: 0,
+      new: null,
+      unchanged: 12,
+    });
+  });
+
+  it("reads every watch, past one response's row limit", async () => {
+    const many = Array.from({ length: 1200 }, (_, i) =>
+      watch(`watch-${i}`, { course_id: 3, last_seen_slots: null }),
+    );
+    const { run, baselines } = setup({ tables: { course_watches: many } });
+
+    expect((await run()).watches).toBe(1200);
+    expect(Object.values(baselines()).every((slots) => slots === 12)).toBe(
+      true,
+    );
+  });
+});
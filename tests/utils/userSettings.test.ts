@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createMemorySupabase, FIXTURE_USER } from "@/lib/testing";
+import { RESTRICTED_USER_SETTINGS } from "@/lib/userSettings";
+import {
+  getUserSettingsOrDefaults,
+  saveUserSettings,
+} from "@/utils/userSettings";
+
+type Client = Parameters<typeof getUserSettingsOrDefaults>[1];
+
+describe("getUserSettingsOrDefaults", () => {
+  it("returns what the user saved", async () => {
+    const client = createMemorySupabase({}) as unknown as Client;
+    await saveUserSettings(
+      FIXTURE_USER.id,
+      { useLearningHistory: false },
+      client,
+    );
+
+    const settings = await getUserSettingsOrDefaults(FIXTURE_USER.id, client);
+    expect(settings.useLearningHistory).toBe(false);
+    expect(settings.aiSuggestions).toBe(true);
+  });
+
+  it("turns every opt-in off when the lookup fails", async () => {
+    const client = {
+      from: () => {
+        throw new Error("connection refused");
+      },
+    } as unknown as Client;
+
+    const settings = await getUserSettingsOrDefaults(FIXTURE_USER.id, client);
+    expect(settings).toEqual(RESTRICTED_USER_SETTINGS);
+    expect(settings.useLearningHistory).toBe(false);
+  });
+});
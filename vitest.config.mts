@@ -0,0 +1,20 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// Tests run fully offline: the in-memory Supabase fixtures and the scripted mock LLM provider
+// stand in for the real services.
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  // Tests import no stylesheets; skip loading the app's PostCSS config
+  css: { postcss: {} },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    setupFiles: ["tests/setup.ts"],
+    env: {
+      LLM_PROVIDER: "mock",
+      LLM_MAX_RETRIES: "0",
+    },
+  },
+});